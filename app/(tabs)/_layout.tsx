@@ -1,33 +1,103 @@
-import { Tabs } from 'expo-router';
+import { Link, Tabs } from 'expo-router';
 import React from 'react';
+import { Pressable, View } from 'react-native';
 
 import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
-import { Colors } from '@/constants/theme';
-import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useCartCount } from '@/hooks/use-cart';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useUnreadNotificationCount } from '@/hooks/use-notifications';
+import { useThemeColor } from '@/hooks/use-theme-color';
 
 export default function TabLayout() {
-  const colorScheme = useColorScheme();
+  const { t } = useTranslation();
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+  const cartCount = useCartCount();
+  const unreadNotifications = useUnreadNotificationCount();
 
   return (
     <Tabs
       screenOptions={{
-        tabBarActiveTintColor: Colors[colorScheme ?? 'light'].tint,
+        tabBarActiveTintColor: tint,
         headerShown: false,
         tabBarButton: HapticTab,
       }}>
       <Tabs.Screen
         name="index"
         options={{
-          title: 'Home',
-          tabBarIcon: ({ color }) => <IconSymbol size={28} name="house.fill" color={color} />,
+          title: t('tabs.shop'),
+          headerShown: true,
+          headerRight: () => (
+            <View style={{ flexDirection: 'row', gap: 16, paddingHorizontal: 16 }}>
+              <Link href="/search" asChild>
+                <Pressable accessibilityLabel={t('tabs.productSearch')}>
+                  <IconSymbol size={24} name="magnifyingglass" color={icon} />
+                </Pressable>
+              </Link>
+              <Link href="/cart" asChild>
+                <Pressable accessibilityLabel={t('tabs.cart')}>
+                  <IconSymbol size={24} name="cart.fill" color={icon} />
+                </Pressable>
+              </Link>
+            </View>
+          ),
+          tabBarBadge: cartCount > 0 ? cartCount : undefined,
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="bag.fill" color={color} />,
         }}
       />
       <Tabs.Screen
-        name="explore"
+        name="timeline"
         options={{
-          title: 'Explore',
-          tabBarIcon: ({ color }) => <IconSymbol size={28} name="paperplane.fill" color={color} />,
+          title: t('tabs.timeline'),
+          headerShown: true,
+          headerRight: () => (
+            <View style={{ flexDirection: 'row', gap: 16, paddingHorizontal: 16 }}>
+              <Link href="/notifications" asChild>
+                <Pressable
+                  accessibilityLabel={t(
+                    unreadNotifications > 0 ? 'tabs.notificationsUnread' : 'tabs.notifications'
+                  )}>
+                  <IconSymbol
+                    size={24}
+                    name={unreadNotifications > 0 ? 'bell.badge.fill' : 'bell'}
+                    color={unreadNotifications > 0 ? tint : icon}
+                  />
+                </Pressable>
+              </Link>
+              <Link href="/trends" asChild>
+                <Pressable accessibilityLabel={t('tabs.trends')}>
+                  <IconSymbol size={24} name="chart.line.uptrend.xyaxis" color={icon} />
+                </Pressable>
+              </Link>
+              <Link href="/hashtags" asChild>
+                <Pressable accessibilityLabel={t('tabs.hashtagSearch')}>
+                  <IconSymbol size={24} name="magnifyingglass" color={icon} />
+                </Pressable>
+              </Link>
+              <Link href="/compose" asChild>
+                <Pressable accessibilityLabel={t('tabs.compose')}>
+                  <IconSymbol size={24} name="square.and.pencil" color={icon} />
+                </Pressable>
+              </Link>
+            </View>
+          ),
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="text.bubble.fill" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="records"
+        options={{
+          title: t('tabs.records'),
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="book.fill" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="mypage"
+        options={{
+          title: t('tabs.mypage'),
+          tabBarBadge: unreadNotifications > 0 ? unreadNotifications : undefined,
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="person.fill" color={color} />,
         }}
       />
     </Tabs>
@@ -1,98 +1,106 @@
-import { Image } from 'expo-image';
-import { Platform, StyleSheet } from 'react-native';
+import { Link, type Href } from 'expo-router';
+import { StyleSheet, View } from 'react-native';
 
-import { HelloWave } from '@/components/hello-wave';
-import ParallaxScrollView from '@/components/parallax-scroll-view';
+import { AsyncStatus } from '@/components/async-status';
+import { CategoryChips } from '@/components/catalog/category-chips';
+import { ProductGrid } from '@/components/catalog/product-grid';
+import { ContentPage } from '@/components/content/content-page';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import { Link } from 'expo-router';
+import { useCategories, useProducts } from '@/hooks/use-catalog';
+import { useContentDocument } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-i18n';
+import { HOME_DOCUMENT_SLUG } from '@/lib/content';
+
+type FooterLink = 'faq' | 'contact' | 'about' | 'terms' | 'commercial-transactions' | 'privacy';
+
+/** Shown as `home.footer.<name>`. */
+const FOOTER_LINKS: { href: Href; name: FooterLink }[] = [
+  { href: '/faq', name: 'faq' },
+  { href: '/contact', name: 'contact' },
+  { href: '/pages/about', name: 'about' },
+  { href: '/pages/terms', name: 'terms' },
+  { href: '/pages/commercial-transactions', name: 'commercial-transactions' },
+  { href: '/pages/privacy', name: 'privacy' },
+];
+
+/** The plain catalog, shown while no home document is published or it could not be loaded. */
+function CatalogHome() {
+  const { t } = useTranslation();
+  const categories = useCategories();
+  const products = useProducts();
 
-export default function HomeScreen() {
   return (
-    <ParallaxScrollView
-      headerBackgroundColor={{ light: '#A1CEDC', dark: '#1D3D47' }}
-      headerImage={
-        <Image
-          source={require('@/assets/images/partial-react-logo.png')}
-          style={styles.reactLogo}
-        />
-      }>
-      <ThemedView style={styles.titleContainer}>
-        <ThemedText type="title">Welcome!</ThemedText>
-        <HelloWave />
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 1: Try it</ThemedText>
-        <ThemedText>
-          Edit <ThemedText type="defaultSemiBold">app/(tabs)/index.tsx</ThemedText> to see changes.
-          Press{' '}
-          <ThemedText type="defaultSemiBold">
-            {Platform.select({
-              ios: 'cmd + d',
-              android: 'cmd + m',
-              web: 'F12',
-            })}
-          </ThemedText>{' '}
-          to open developer tools.
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <Link href="/modal">
-          <Link.Trigger>
-            <ThemedText type="subtitle">Step 2: Explore</ThemedText>
-          </Link.Trigger>
-          <Link.Preview />
-          <Link.Menu>
-            <Link.MenuAction title="Action" icon="cube" onPress={() => alert('Action pressed')} />
-            <Link.MenuAction
-              title="Share"
-              icon="square.and.arrow.up"
-              onPress={() => alert('Share pressed')}
-            />
-            <Link.Menu title="More" icon="ellipsis">
-              <Link.MenuAction
-                title="Delete"
-                icon="trash"
-                destructive
-                onPress={() => alert('Delete pressed')}
-              />
-            </Link.Menu>
-          </Link.Menu>
-        </Link>
+    <ProductGrid
+      products={products.data}
+      loading={products.loading}
+      error={products.error}
+      onRetry={products.reload}
+      header={
+        <ThemedView style={styles.header}>
+          <ThemedText type="subtitle" style={styles.heading}>
+            {t('home.categories')}
+          </ThemedText>
+          <CategoryChips categories={categories.data ?? []} />
+          <ThemedText type="subtitle" style={styles.heading}>
+            {t('home.products')}
+          </ThemedText>
+        </ThemedView>
+      }
+    />
+  );
+}
+
+export default function HomeScreen() {
+  const home = useContentDocument(HOME_DOCUMENT_SLUG);
+  const { t } = useTranslation();
+
+  if (home.loading && !home.data) {
+    return <AsyncStatus loading />;
+  }
+  if (!home.data) {
+    return <CatalogHome />;
+  }
 
-        <ThemedText>
-          {`Tap the Explore tab to learn more about what's included in this starter app.`}
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 3: Get a fresh start</ThemedText>
-        <ThemedText>
-          {`When you're ready, run `}
-          <ThemedText type="defaultSemiBold">npm run reset-project</ThemedText> to get a fresh{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> directory. This will move the current{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> to{' '}
-          <ThemedText type="defaultSemiBold">app-example</ThemedText>.
-        </ThemedText>
-      </ThemedView>
-    </ParallaxScrollView>
+  return (
+    <ContentPage document={home.data}>
+      <Link href="/products" style={styles.allProducts}>
+        <ThemedText type="link">{t('home.allProducts')}</ThemedText>
+      </Link>
+      <View style={styles.footer}>
+        {FOOTER_LINKS.map((link) => (
+          <Link key={link.name} href={link.href}>
+            <ThemedText style={styles.footerLink}>{t(`home.footer.${link.name}`)}</ThemedText>
+          </Link>
+        ))}
+      </View>
+    </ContentPage>
   );
 }
 
 const styles = StyleSheet.create({
-  titleContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
+  header: {
+    gap: 4,
+    marginBottom: 4,
   },
-  stepContainer: {
-    gap: 8,
-    marginBottom: 8,
+  heading: {
+    paddingHorizontal: 6,
+    paddingTop: 8,
+  },
+  allProducts: {
+    alignSelf: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    columnGap: 16,
+    rowGap: 4,
+    paddingTop: 16,
   },
-  reactLogo: {
-    height: 178,
-    width: 290,
-    bottom: 0,
-    left: 0,
-    position: 'absolute',
+  footerLink: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
   },
 });
@@ -0,0 +1,30 @@
+import { Stack } from 'expo-router';
+
+import { RequireAuth } from '@/components/auth/require-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+
+export default function MyPageLayout() {
+  const { t } = useTranslation();
+
+  return (
+    <RequireAuth>
+      <Stack>
+        <Stack.Screen name="index" options={{ title: t('mypage.title') }} />
+        <Stack.Screen name="profile" options={{ title: t('mypage.editProfile') }} />
+        <Stack.Screen name="addresses/index" options={{ title: t('mypage.addresses') }} />
+        <Stack.Screen name="addresses/new" options={{ title: t('mypage.addressNew') }} />
+        <Stack.Screen name="addresses/[id]" options={{ title: t('mypage.addressEdit') }} />
+        <Stack.Screen name="orders/index" options={{ title: t('mypage.orders') }} />
+        <Stack.Screen name="orders/[orderNumber]" options={{ title: t('mypage.orderDetail') }} />
+        <Stack.Screen name="points" options={{ title: t('mypage.points') }} />
+        <Stack.Screen name="favorites" options={{ title: t('mypage.favorites') }} />
+        <Stack.Screen name="bookmarks" options={{ title: t('mypage.bookmarks') }} />
+        <Stack.Screen name="follows" options={{ title: t('mypage.follows') }} />
+        <Stack.Screen
+          name="notification-settings"
+          options={{ title: t('mypage.notificationSettings') }}
+        />
+      </Stack>
+    </RequireAuth>
+  );
+}
@@ -0,0 +1,45 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { AddressForm } from '@/components/checkout/address-form';
+import { ThemedView } from '@/components/themed-view';
+import { useAddressBook } from '@/hooks/use-address-book';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { saveAddress } from '@/lib/checkout';
+
+export default function EditAddressScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { ownerId, addresses, loading } = useAddressBook();
+  const address = addresses.find((item) => item.id === id);
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+
+  if (!address) {
+    return <AsyncStatus loading={loading} empty emptyMessage={t('address.notFound')} />;
+  }
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <AddressForm
+          initial={address}
+          submitTitle={t('common.save')}
+          onSubmit={(updated) => {
+            saveAddress(ownerId, updated, address.id);
+            router.back();
+          }}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+});
@@ -0,0 +1,107 @@
+import { Link, useRouter } from 'expo-router';
+import { Alert, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useAddressBook } from '@/hooks/use-address-book';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { deleteAddress, formatAddress, setDefaultAddress, type SavedAddress } from '@/lib/checkout';
+
+function AddressRow({
+  address,
+  isDefault,
+  onMakeDefault,
+}: {
+  address: SavedAddress;
+  isDefault: boolean;
+  onMakeDefault: () => void;
+}) {
+  const { t } = useTranslation();
+  const confirmDelete = () =>
+    Alert.alert(t('address.deleteConfirm'), undefined, [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('common.delete'), style: 'destructive', onPress: () => deleteAddress(address.id) },
+    ]);
+
+  return (
+    <Card highlighted={isDefault} gap="$2">
+      <View style={styles.heading}>
+        <ThemedText type="defaultSemiBold" style={styles.name}>
+          {address.name}
+        </ThemedText>
+        {isDefault && <Badge tone="info">{t('address.default')}</Badge>}
+      </View>
+      <ThemedText>{formatAddress(address)}</ThemedText>
+      <ThemedText style={styles.muted}>{address.phone}</ThemedText>
+      <View style={styles.actions}>
+        <Link href={{ pathname: '/mypage/addresses/[id]', params: { id: address.id } }}>
+          <ThemedText type="link">{t('common.edit')}</ThemedText>
+        </Link>
+        {!isDefault && (
+          <Pressable accessibilityRole="button" hitSlop={8} onPress={onMakeDefault}>
+            <ThemedText type="link">{t('address.makeDefault')}</ThemedText>
+          </Pressable>
+        )}
+        <Pressable accessibilityRole="button" hitSlop={8} onPress={confirmDelete}>
+          <ThemedText color="$danger">{t('common.delete')}</ThemedText>
+        </Pressable>
+      </View>
+    </Card>
+  );
+}
+
+export default function AddressesScreen() {
+  const router = useRouter();
+  const { ownerId, addresses, defaultId, loading } = useAddressBook();
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      <ThemedView style={styles.content}>
+        <ThemedText style={styles.muted}>{t('address.defaultHint')}</ThemedText>
+        {addresses.length === 0 ? (
+          <AsyncStatus loading={loading} empty emptyMessage={t('address.empty')} />
+        ) : (
+          addresses.map((address) => (
+            <AddressRow
+              key={address.id}
+              address={address}
+              isDefault={address.id === defaultId}
+              onMakeDefault={() => setDefaultAddress(ownerId, address.id)}
+            />
+          ))
+        )}
+        <Button title={t('address.add')} onPress={() => router.push('/mypage/addresses/new')} />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  heading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  name: {
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 24,
+    marginTop: 8,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
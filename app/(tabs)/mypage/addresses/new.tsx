@@ -0,0 +1,37 @@
+import { useRouter } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { AddressForm } from '@/components/checkout/address-form';
+import { ThemedView } from '@/components/themed-view';
+import { useAddressBook } from '@/hooks/use-address-book';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { saveAddress } from '@/lib/checkout';
+
+export default function NewAddressScreen() {
+  const router = useRouter();
+  const { ownerId } = useAddressBook();
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <AddressForm
+          submitTitle={t('common.add')}
+          onSubmit={(address) => {
+            saveAddress(ownerId, address);
+            router.back();
+          }}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+});
@@ -0,0 +1,30 @@
+import { FeedList } from '@/components/feed/feed-list';
+import { useAsync } from '@/hooks/use-async';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useBookmarkedPosts } from '@/hooks/use-reactions';
+import { refreshBookmarks } from '@/lib/feed';
+
+export default function BookmarksScreen() {
+  const posts = useBookmarkedPosts();
+  // The list itself comes from the reaction store, so it also works offline and reflects taps
+  // elsewhere immediately; this only brings it up to date with the server.
+  const sync = useAsync('bookmarks', refreshBookmarks);
+  const { t } = useTranslation();
+
+  return (
+    <FeedList
+      feed={{
+        items: posts,
+        error: sync.error,
+        loading: sync.loading && posts.length === 0,
+        refreshing: sync.loading && posts.length > 0,
+        loadingMore: false,
+        hasMore: false,
+        refresh: sync.reload,
+        loadMore: () => undefined,
+        retry: sync.reload,
+      }}
+      emptyMessage={t('feed.bookmarksEmpty')}
+    />
+  );
+}
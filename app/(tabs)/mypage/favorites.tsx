@@ -0,0 +1,31 @@
+import { StyleSheet } from 'react-native';
+
+import { ProductGrid } from '@/components/catalog/product-grid';
+import { ThemedText } from '@/components/themed-text';
+import { useFavoriteProducts } from '@/hooks/use-favorites';
+import { useTranslation } from '@/hooks/use-i18n';
+
+export default function FavoritesScreen() {
+  const products = useFavoriteProducts();
+  const { t } = useTranslation();
+
+  return (
+    <ProductGrid
+      products={products.data}
+      loading={products.loading}
+      error={products.error}
+      onRetry={products.reload}
+      emptyMessage={t('catalog.favoritesEmpty')}
+      header={<ThemedText style={styles.note}>{t('catalog.favoritesHint')}</ThemedText>}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  note: {
+    padding: 6,
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
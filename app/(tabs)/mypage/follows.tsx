@@ -0,0 +1,77 @@
+import { useLocalSearchParams } from 'expo-router';
+import { useState } from 'react';
+import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { UserRow } from '@/components/users/user-row';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useFollowers, useFollowing } from '@/hooks/use-users';
+
+type Tab = 'following' | 'followers';
+
+const TABS: Tab[] = ['following', 'followers'];
+
+export default function FollowsScreen() {
+  const params = useLocalSearchParams<{ tab?: Tab }>();
+  const { session } = useAuth();
+  const backgroundColor = useThemeColor({}, 'background');
+  const tint = useThemeColor({}, 'tint');
+  const { t } = useTranslation();
+  const [tab, setTab] = useState<Tab>(params.tab === 'followers' ? 'followers' : 'following');
+  const userId = session?.user.id;
+  const following = useFollowing(tab === 'following' ? userId : undefined);
+  const followers = useFollowers(tab === 'followers' ? userId : undefined);
+  const list = tab === 'following' ? following : followers;
+
+  return (
+    <FlatList
+      data={list.items}
+      keyExtractor={(user) => user.id}
+      renderItem={({ item }) => <UserRow user={item} />}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <ChipSelect
+            options={TABS.map((value) => ({ value, label: t(`users.${value}`) }))}
+            value={tab}
+            onChange={setTab}
+          />
+        </View>
+      }
+      ListEmptyComponent={
+        <AsyncStatus
+          loading={list.loading}
+          error={list.error}
+          empty
+          emptyMessage={tab === 'following' ? t('users.followingEmpty') : t('users.followersEmpty')}
+          onRetry={list.refresh}
+        />
+      }
+      ListFooterComponent={
+        list.loadingMore ? <ActivityIndicator color={tint} style={styles.footer} /> : null
+      }
+      onEndReached={list.loadMore}
+      onEndReachedThreshold={0.5}
+      refreshControl={
+        <RefreshControl refreshing={list.refreshing} onRefresh={list.refresh} tintColor={tint} />
+      }
+      style={{ backgroundColor }}
+      contentContainerStyle={styles.content}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  header: {
+    paddingVertical: 12,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
@@ -0,0 +1,187 @@
+import { Link, type Href } from 'expo-router';
+import { useEffect, useState, type PropsWithChildren } from 'react';
+import { Pressable, ScrollView, StyleSheet, Switch, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useUnreadNotificationCount } from '@/hooks/use-notifications';
+import { usePersistedStore } from '@/hooks/use-store';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import {
+  appearanceStore,
+  COLOR_SCHEME_PREFERENCES,
+  setColorSchemePreference,
+} from '@/lib/appearance';
+import {
+  biometricPreferenceStore,
+  isBiometricAvailable,
+  setBiometricLockEnabled,
+} from '@/lib/auth';
+import {
+  languageStore,
+  LOCALE_NAMES,
+  LOCALES,
+  setLanguagePreference,
+  type LanguagePreference,
+} from '@/lib/i18n';
+
+function MenuSection({ title, children }: PropsWithChildren<{ title: string }>) {
+  return (
+    <View style={styles.section}>
+      <ThemedText style={styles.sectionTitle}>{title}</ThemedText>
+      {children}
+    </View>
+  );
+}
+
+function MenuLink({ href, label }: { href: Href; label: string }) {
+  const icon = useThemeColor({}, 'icon');
+
+  return (
+    <Link href={href} asChild>
+      <Pressable accessibilityRole="link" style={styles.menuLink}>
+        <ThemedText style={styles.menuLabel}>{label}</ThemedText>
+        <IconSymbol name="chevron.right" size={18} color={icon} />
+      </Pressable>
+    </Link>
+  );
+}
+
+export default function MyPageScreen() {
+  const { session, logOut } = useAuth();
+  const { t } = useTranslation();
+  const backgroundColor = useThemeColor({}, 'background');
+  const unreadNotifications = useUnreadNotificationCount();
+  const biometricLock = usePersistedStore(biometricPreferenceStore, (state) => state.enabled);
+  const colorScheme = usePersistedStore(appearanceStore, (state) => state.colorScheme);
+  const language = usePersistedStore(languageStore, (state) => state.language);
+  const languageOptions: { value: LanguagePreference; label: string }[] = [
+    { value: 'system', label: t('common.followSystem') },
+    ...LOCALES.map((locale) => ({ value: locale, label: LOCALE_NAMES[locale] })),
+  ];
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+
+  useEffect(() => {
+    isBiometricAvailable().then(setBiometricAvailable, () => setBiometricAvailable(false));
+  }, []);
+
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      <ThemedView style={styles.content}>
+        <View>
+          <ThemedText type="subtitle">{session?.user.displayName}</ThemedText>
+          <ThemedText style={styles.muted}>{session?.user.email}</ThemedText>
+        </View>
+        <MenuSection title={t('mypage.section.orders')}>
+          <MenuLink href="/mypage/orders" label={t('mypage.orders')} />
+          <MenuLink href="/mypage/addresses" label={t('mypage.addresses')} />
+          <MenuLink href="/mypage/points" label={t('mypage.pointHistory')} />
+          <MenuLink href="/mypage/favorites" label={t('mypage.favorites')} />
+        </MenuSection>
+        <MenuSection title={t('mypage.section.community')}>
+          {session && (
+            <MenuLink
+              href={{ pathname: '/users/[id]', params: { id: session.user.id } }}
+              label={t('mypage.myProfile')}
+            />
+          )}
+          <MenuLink href="/mypage/follows" label={t('mypage.follows')} />
+          <MenuLink href="/mypage/bookmarks" label={t('mypage.bookmarkList')} />
+        </MenuSection>
+        <MenuSection title={t('mypage.section.settings')}>
+          <MenuLink href="/mypage/profile" label={t('mypage.editProfile')} />
+          <MenuLink
+            href="/notifications"
+            label={
+              unreadNotifications > 0
+                ? t('mypage.notificationsUnread', { count: unreadNotifications })
+                : t('mypage.notifications')
+            }
+          />
+          <MenuLink href="/mypage/notification-settings" label={t('mypage.notificationSettings')} />
+        </MenuSection>
+        <MenuSection title={t('mypage.section.support')}>
+          <MenuLink href="/faq" label={t('mypage.faq')} />
+          <MenuLink href="/contact" label={t('mypage.contact')} />
+          <MenuLink href="/pages/about" label={t('mypage.about')} />
+          <MenuLink href="/pages/terms" label={t('mypage.terms')} />
+          <MenuLink
+            href="/pages/commercial-transactions"
+            label={t('mypage.commercialTransactions')}
+          />
+          <MenuLink href="/pages/privacy" label={t('mypage.privacy')} />
+        </MenuSection>
+        <ChipSelect
+          label={t('settings.theme')}
+          options={COLOR_SCHEME_PREFERENCES.map((value) => ({
+            value,
+            label: t(`settings.colorScheme.${value}`),
+          }))}
+          value={colorScheme}
+          onChange={setColorSchemePreference}
+        />
+        <ChipSelect
+          label={t('settings.language')}
+          options={languageOptions}
+          value={language}
+          onChange={setLanguagePreference}
+        />
+        {biometricAvailable && (
+          <View style={styles.row}>
+            <View style={styles.rowText}>
+              <ThemedText type="defaultSemiBold">{t('settings.biometricLock')}</ThemedText>
+              <ThemedText style={styles.muted}>{t('settings.biometricLockHint')}</ThemedText>
+            </View>
+            <Switch
+              value={biometricLock}
+              onValueChange={(enabled) => {
+                setBiometricLockEnabled(enabled);
+              }}
+            />
+          </View>
+        )}
+        <Button title={t('mypage.logOut')} variant="secondary" onPress={logOut} />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 24,
+  },
+  section: {
+    gap: 4,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  menuLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  menuLabel: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
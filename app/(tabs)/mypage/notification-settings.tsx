@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Platform, ScrollView, StyleSheet, Switch, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { TextField } from '@/components/ui/text-field';
+import { useCareNotificationsEnabled } from '@/hooks/use-care';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useNotificationSettings } from '@/hooks/use-notifications';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { toggleCareReminders } from '@/lib/care/notifications';
+import type { FieldErrors } from '@/lib/forms';
+import {
+  setNotificationCategory,
+  setQuietHours,
+  validateQuietHours,
+  type NotificationSettings,
+  type QuietHoursInput,
+} from '@/lib/notifications';
+
+const CATEGORIES: (keyof NotificationSettings['categories'])[] = [
+  'follow',
+  'like',
+  'reply',
+  'order',
+  'restock',
+];
+
+function SwitchRow({
+  label,
+  note,
+  value,
+  onChange,
+}: {
+  label: string;
+  note?: string;
+  value: boolean;
+  onChange: (value: boolean) => void;
+}) {
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowText}>
+        <ThemedText>{label}</ThemedText>
+        {note && <ThemedText style={styles.muted}>{note}</ThemedText>}
+      </View>
+      <Switch value={value} onValueChange={onChange} />
+    </View>
+  );
+}
+
+export default function NotificationSettingsScreen() {
+  const settings = useNotificationSettings();
+  const careEnabled = useCareNotificationsEnabled();
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+  const [input, setInput] = useState<QuietHoursInput>({
+    start: settings.quietHours.start,
+    end: settings.quietHours.end,
+  });
+  const [errors, setErrors] = useState<FieldErrors<QuietHoursInput>>({});
+  const [saved, setSaved] = useState(false);
+
+  const edit = (changes: Partial<QuietHoursInput>) => {
+    setInput((current) => ({ ...current, ...changes }));
+    setSaved(false);
+  };
+
+  const saveQuietHours = () => {
+    const result = validateQuietHours(input);
+    if (result.errors) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors({});
+    setQuietHours(result.value);
+    setInput(result.value);
+    setSaved(true);
+  };
+
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      <ThemedView style={styles.content}>
+        <View style={styles.section}>
+          <ThemedText type="subtitle">{t('notifications.settings.categories')}</ThemedText>
+          <ThemedText style={styles.muted}>{t('notifications.settings.categoriesHint')}</ThemedText>
+          {CATEGORIES.map((category) => (
+            <SwitchRow
+              key={category}
+              label={t(`notifications.category.${category}`)}
+              value={settings.categories[category]}
+              onChange={(enabled) => setNotificationCategory(category, enabled)}
+            />
+          ))}
+          {Platform.OS !== 'web' && (
+            <SwitchRow
+              label={t('notifications.category.care')}
+              note={t('notifications.settings.careHint')}
+              value={careEnabled}
+              onChange={(enabled) => {
+                toggleCareReminders(enabled);
+              }}
+            />
+          )}
+        </View>
+        <View style={styles.section}>
+          <ThemedText type="subtitle">{t('notifications.settings.quietHours')}</ThemedText>
+          <SwitchRow
+            label={t('notifications.settings.quietHoursEnabled')}
+            note={t('notifications.settings.quietHoursHint')}
+            value={settings.quietHours.enabled}
+            onChange={(enabled) => setQuietHours({ enabled })}
+          />
+          <View style={styles.times}>
+            <View style={styles.time}>
+              <TextField
+                label={t('notifications.settings.start')}
+                value={input.start}
+                onChangeText={(start) => edit({ start })}
+                placeholder="22:00"
+                keyboardType="numbers-and-punctuation"
+                error={errors.start}
+              />
+            </View>
+            <View style={styles.time}>
+              <TextField
+                label={t('notifications.settings.end')}
+                value={input.end}
+                onChangeText={(end) => edit({ end })}
+                placeholder="07:00"
+                keyboardType="numbers-and-punctuation"
+                error={errors.end}
+              />
+            </View>
+          </View>
+          <Button
+            title={t('notifications.settings.saveQuietHours')}
+            variant="secondary"
+            onPress={saveQuietHours}
+          />
+          {saved && <ThemedText style={styles.muted}>{t('common.saved')}</ThemedText>}
+        </View>
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 32,
+  },
+  section: {
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  times: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  time: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,192 @@
+import { Link, useLocalSearchParams } from 'expo-router';
+import type { PropsWithChildren } from 'react';
+import { RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { OrderSummary } from '@/components/checkout/order-summary';
+import { ExternalLink } from '@/components/external-link';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useOrder } from '@/hooks/use-orders';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { formatPrice } from '@/lib/catalog';
+import {
+  LIVE_ARRIVAL_CLAIM_HOURS,
+  formatAddress,
+  liveArrivalGuarantee,
+  trackingUrl,
+  type PlacedOrder,
+} from '@/lib/checkout';
+import { toDateTimeKey } from '@/lib/date';
+import { formatPoints } from '@/lib/points';
+
+function Section({ title, children }: PropsWithChildren<{ title: string }>) {
+  return (
+    <View style={styles.section}>
+      <ThemedText type="defaultSemiBold">{title}</ThemedText>
+      {children}
+    </View>
+  );
+}
+
+function OrderDetails({ order }: { order: PlacedOrder }) {
+  const tint = useThemeColor({}, 'tint');
+  const guarantee = liveArrivalGuarantee(order);
+  const { t } = useTranslation();
+  const { address, delivery, payment, shipment } = order;
+
+  return (
+    <>
+      <View style={styles.section}>
+        <ThemedText style={styles.muted}>
+          {t('order.placedAt', { date: toDateTimeKey(new Date(order.placedAt)) })}
+        </ThemedText>
+        <ThemedText selectable>{t('order.number', { orderNumber: order.orderNumber })}</ThemedText>
+        <ThemedText type="subtitle" style={order.status !== 'cancelled' && { color: tint }}>
+          {t(`order.status.${order.status}`)}
+        </ThemedText>
+      </View>
+      <Section title={t('checkout.items')}>
+        {order.lines.map((line) => (
+          <View key={line.productId} style={styles.line}>
+            <ThemedText style={styles.lineTitle} numberOfLines={2}>
+              {line.title} × {line.quantity}
+            </ThemedText>
+            <ThemedText>{formatPrice(line.unitPriceYen * line.quantity)}</ThemedText>
+          </View>
+        ))}
+      </Section>
+      <Section title={t('order.shipping')}>
+        {shipment ? (
+          <>
+            <ThemedText>
+              {t('order.shippedBy', {
+                carrier: t(`order.carrier.${shipment.carrier}`),
+                date: toDateTimeKey(new Date(shipment.shippedAt)),
+              })}
+            </ThemedText>
+            <ThemedText selectable>
+              {t('order.trackingNumber', { number: shipment.trackingNumber })}
+            </ThemedText>
+            <ExternalLink href={trackingUrl(shipment)}>
+              <ThemedText type="link">{t('order.track')}</ThemedText>
+            </ExternalLink>
+          </>
+        ) : (
+          <ThemedText style={styles.muted}>
+            {order.status === 'cancelled' ? t('order.cancelled') : t('order.awaitingShipment')}
+          </ThemedText>
+        )}
+        {order.deliveredAt && (
+          <ThemedText>
+            {t('order.deliveredAt', { date: toDateTimeKey(new Date(order.deliveredAt)) })}
+          </ThemedText>
+        )}
+      </Section>
+      <Section title={t('order.guarantee')}>
+        <ThemedText>{t(`order.guarantee.status.${guarantee.status}`)}</ThemedText>
+        <ThemedText style={styles.muted}>
+          {t(`order.guarantee.description.${guarantee.status}`, {
+            hours: LIVE_ARRIVAL_CLAIM_HOURS,
+          })}
+        </ThemedText>
+        {guarantee.status === 'claimable' && guarantee.deadline && (
+          <ThemedText>
+            {t('order.guarantee.deadline', { date: toDateTimeKey(new Date(guarantee.deadline)) })}
+          </ThemedText>
+        )}
+        {guarantee.status === 'claimable' && (
+          <Link
+            href={{
+              pathname: '/contact',
+              params: { category: 'live-arrival', orderNumber: order.orderNumber },
+            }}>
+            <ThemedText type="link">{t('order.reportDeadArrival')}</ThemedText>
+          </Link>
+        )}
+      </Section>
+      <Section title={t('checkout.shipTo')}>
+        <ThemedText>{t('checkout.recipient', { name: address.name })}</ThemedText>
+        <ThemedText>{formatAddress(address)}</ThemedText>
+        <ThemedText>{address.phone}</ThemedText>
+      </Section>
+      <Section title={t('checkout.deliveryMethod')}>
+        <ThemedText>{t(`delivery.method.${delivery.method}`)}</ThemedText>
+        <ThemedText>
+          {t('delivery.schedule', {
+            date: delivery.date ?? t('delivery.earliest'),
+            timeSlot: t(`delivery.timeSlot.${delivery.timeSlot}`),
+          })}
+        </ThemedText>
+      </Section>
+      <Section title={t('checkout.paymentMethod')}>
+        <ThemedText>{t(`payment.method.${payment.method}`)}</ThemedText>
+        {order.totals.pointsYen > 0 && (
+          <ThemedText>
+            {t('checkout.pointsUsed', { points: formatPoints(order.totals.pointsYen) })}
+          </ThemedText>
+        )}
+      </Section>
+      <OrderSummary totals={order.totals} />
+      <Link
+        href={{
+          pathname: '/contact',
+          params: { category: 'order', orderNumber: order.orderNumber },
+        }}>
+        <ThemedText type="link">{t('order.contact')}</ThemedText>
+      </Link>
+    </>
+  );
+}
+
+export default function OrderScreen() {
+  const { orderNumber } = useLocalSearchParams<{ orderNumber: string }>();
+  const { data: order, error, loading, reload } = useOrder(orderNumber);
+  const backgroundColor = useThemeColor({}, 'background');
+  const tint = useThemeColor({}, 'tint');
+  const { t } = useTranslation();
+
+  if (!order) {
+    return (
+      <AsyncStatus
+        loading={loading}
+        error={error}
+        empty
+        emptyMessage={t('order.notFound')}
+        onRetry={reload}
+      />
+    );
+  }
+
+  return (
+    <ScrollView
+      style={{ backgroundColor }}
+      refreshControl={<RefreshControl refreshing={loading} onRefresh={reload} tintColor={tint} />}>
+      <ThemedView style={styles.content}>
+        <OrderDetails order={order} />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 24,
+  },
+  section: {
+    gap: 4,
+  },
+  line: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  lineTitle: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
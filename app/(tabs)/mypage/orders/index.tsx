@@ -0,0 +1,85 @@
+import { useLocalSearchParams } from 'expo-router';
+import { useState } from 'react';
+import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { OrderRow } from '@/components/checkout/order-row';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useOrders } from '@/hooks/use-orders';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { isOrderFilter, ORDER_FILTERS, type OrderFilter } from '@/lib/checkout';
+
+const FILTERS = Object.keys(ORDER_FILTERS) as OrderFilter[];
+
+export default function OrdersScreen() {
+  const params = useLocalSearchParams<{ filter?: string }>();
+  const backgroundColor = useThemeColor({}, 'background');
+  const separator = useThemeColor({}, 'icon');
+  const tint = useThemeColor({}, 'tint');
+  const { t } = useTranslation();
+  const [filter, setFilter] = useState<OrderFilter>(
+    isOrderFilter(params.filter) ? params.filter : 'all'
+  );
+  const orders = useOrders(filter);
+
+  return (
+    <FlatList
+      data={orders.items}
+      keyExtractor={(order) => order.orderNumber}
+      renderItem={({ item }) => <OrderRow order={item} />}
+      ItemSeparatorComponent={() => (
+        <View style={[styles.separator, { backgroundColor: separator }]} />
+      )}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <ChipSelect
+            options={FILTERS.map((value) => ({ value, label: t(`order.filter.${value}`) }))}
+            value={filter}
+            onChange={setFilter}
+          />
+        </View>
+      }
+      ListEmptyComponent={
+        <AsyncStatus
+          loading={orders.loading}
+          error={orders.error}
+          empty
+          emptyMessage={t('order.empty')}
+          onRetry={orders.refresh}
+        />
+      }
+      ListFooterComponent={
+        orders.loadingMore ? <ActivityIndicator color={tint} style={styles.footer} /> : null
+      }
+      onEndReached={orders.loadMore}
+      onEndReachedThreshold={0.5}
+      refreshControl={
+        <RefreshControl
+          refreshing={orders.refreshing}
+          onRefresh={orders.refresh}
+          tintColor={tint}
+        />
+      }
+      style={{ backgroundColor }}
+      contentContainerStyle={styles.content}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  header: {
+    paddingVertical: 12,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    opacity: 0.3,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
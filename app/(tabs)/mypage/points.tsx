@@ -0,0 +1,176 @@
+import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import { usePointBalance, usePointEntries } from '@/hooks/use-points';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { toDateKey } from '@/lib/date';
+import {
+  expiringPoints,
+  formatPoints,
+  POINT_EXPIRY_WARNING_DAYS,
+  type PointBalance,
+  type PointEntry,
+} from '@/lib/points';
+
+function BalanceHeader({ balance }: { balance: PointBalance }) {
+  const danger = useThemeColor({}, 'danger');
+  const expiring = expiringPoints(balance);
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.header}>
+      <View>
+        <ThemedText style={styles.muted}>{t('points.balance')}</ThemedText>
+        <ThemedText type="title">{formatPoints(balance.balance)}</ThemedText>
+        <ThemedText style={styles.meta}>{t('points.hint')}</ThemedText>
+      </View>
+      {expiring.length > 0 && (
+        <ThemedText style={{ color: danger }}>
+          {t('points.expiring', {
+            days: POINT_EXPIRY_WARNING_DAYS,
+            points: formatPoints(expiring.reduce((total, lot) => total + lot.points, 0)),
+          })}
+        </ThemedText>
+      )}
+      {balance.lots.length > 0 && (
+        <View style={styles.lots}>
+          <ThemedText type="defaultSemiBold">{t('points.expiry')}</ThemedText>
+          {balance.lots.map((lot) => (
+            <View key={lot.expiresAt} style={styles.line}>
+              <ThemedText style={expiring.includes(lot) && { color: danger }}>
+                {t('points.until', { date: toDateKey(new Date(lot.expiresAt)) })}
+              </ThemedText>
+              <ThemedText>{formatPoints(lot.points)}</ThemedText>
+            </View>
+          ))}
+        </View>
+      )}
+      <ThemedText type="defaultSemiBold">{t('points.history')}</ThemedText>
+    </View>
+  );
+}
+
+function EntryRow({ entry }: { entry: PointEntry }) {
+  const tint = useThemeColor({}, 'tint');
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.entry}>
+      <View style={styles.entryText}>
+        <ThemedText>{t(`points.kind.${entry.kind}`)}</ThemedText>
+        <ThemedText style={styles.meta}>
+          {toDateKey(new Date(entry.createdAt))}
+          {entry.orderNumber ? t('points.orderNumber', { orderNumber: entry.orderNumber }) : ''}
+        </ThemedText>
+        {entry.kind === 'earned' && (
+          <ThemedText style={styles.meta}>
+            {t('points.expiresOn', { date: toDateKey(new Date(entry.expiresAt)) })}
+          </ThemedText>
+        )}
+      </View>
+      <ThemedText
+        type="defaultSemiBold"
+        style={entry.kind === 'earned' ? { color: tint } : styles.muted}>
+        {entry.kind === 'earned' ? '+' : '-'}
+        {formatPoints(entry.points)}
+      </ThemedText>
+    </View>
+  );
+}
+
+export default function PointsScreen() {
+  const balance = usePointBalance();
+  const entries = usePointEntries();
+  const backgroundColor = useThemeColor({}, 'background');
+  const separator = useThemeColor({}, 'icon');
+  const tint = useThemeColor({}, 'tint');
+  const { t } = useTranslation();
+
+  return (
+    <FlatList
+      data={entries.items}
+      keyExtractor={(entry) => entry.id}
+      renderItem={({ item }) => <EntryRow entry={item} />}
+      ItemSeparatorComponent={() => (
+        <View style={[styles.separator, { backgroundColor: separator }]} />
+      )}
+      ListHeaderComponent={
+        balance.data ? (
+          <BalanceHeader balance={balance.data} />
+        ) : (
+          <AsyncStatus loading={balance.loading} error={balance.error} onRetry={balance.reload} />
+        )
+      }
+      ListEmptyComponent={
+        <AsyncStatus
+          loading={entries.loading}
+          error={entries.error}
+          empty
+          emptyMessage={t('points.empty')}
+          onRetry={entries.refresh}
+        />
+      }
+      ListFooterComponent={
+        entries.loadingMore ? <ActivityIndicator color={tint} style={styles.footer} /> : null
+      }
+      onEndReached={entries.loadMore}
+      onEndReachedThreshold={0.5}
+      refreshControl={
+        <RefreshControl
+          refreshing={entries.refreshing}
+          onRefresh={() => {
+            balance.reload();
+            entries.refresh();
+          }}
+          tintColor={tint}
+        />
+      }
+      style={{ backgroundColor }}
+      contentContainerStyle={styles.content}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  header: {
+    paddingVertical: 16,
+    gap: 16,
+  },
+  lots: {
+    gap: 4,
+  },
+  line: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  entryText: {
+    flex: 1,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    opacity: 0.3,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,53 @@
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+
+import { AuthForm } from '@/components/auth/auth-form';
+import { Button } from '@/components/ui/button';
+import { TextField } from '@/components/ui/text-field';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+
+export default function ProfileScreen() {
+  const router = useRouter();
+  const { session, updateProfile } = useAuth();
+  const [displayName, setDisplayName] = useState(session?.user.displayName ?? '');
+  const [email, setEmail] = useState(session?.user.email ?? '');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+  const { t } = useTranslation();
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError(undefined);
+    try {
+      await updateProfile({ displayName, email });
+      router.back();
+    } catch (updateError) {
+      setError(updateError instanceof Error ? updateError.message : String(updateError));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthForm error={error}>
+      <TextField
+        label={t('auth.displayName')}
+        value={displayName}
+        onChangeText={setDisplayName}
+        autoComplete="nickname"
+        textContentType="nickname"
+      />
+      <TextField
+        label={t('auth.email')}
+        value={email}
+        onChangeText={setEmail}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoComplete="email"
+        textContentType="emailAddress"
+        onSubmitEditing={submit}
+      />
+      <Button title={t('common.save')} loading={submitting} onPress={submit} />
+    </AuthForm>
+  );
+}
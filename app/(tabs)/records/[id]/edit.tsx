@@ -0,0 +1,46 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { IndividualForm } from '@/components/records/individual-form';
+import { ThemedView } from '@/components/themed-view';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useIndividual, useRecordsHydrated } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { updateIndividual } from '@/lib/records';
+
+export default function EditIndividualScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const hydrated = useRecordsHydrated();
+  const individual = useIndividual(id);
+  const backgroundColor = useThemeColor({}, 'background');
+
+  if (!individual) {
+    return <AsyncStatus loading={!hydrated} empty emptyMessage={t('individual.notFound')} />;
+  }
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <IndividualForm
+          initial={individual}
+          individualId={individual.id}
+          submitTitle={t('common.save')}
+          onSubmit={(draft) => {
+            updateIndividual(individual.id, draft);
+            router.back();
+          }}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+});
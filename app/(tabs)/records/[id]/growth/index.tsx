@@ -0,0 +1,168 @@
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useMemo } from 'react';
+import { Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { MeasurementChart } from '@/components/records/measurement-chart';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useGrowthEntries, useIndividual, useRecordsHydrated } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { translate, type Locale } from '@/lib/i18n';
+import {
+  currentInstar,
+  deleteGrowthEntry,
+  describeEclosionProjection,
+  describeWeightDrop,
+  findWeightDrops,
+  growthSeries,
+  projectEclosion,
+  type GrowthEntry,
+} from '@/lib/records';
+
+function describeEntry(entry: GrowthEntry, locale: Locale) {
+  return [
+    entry.weightG !== undefined && `${entry.weightG}g`,
+    entry.headWidthMm !== undefined &&
+      translate(locale, 'growth.headWidthValue', { value: `${entry.headWidthMm}mm` }),
+    entry.instar,
+    entry.event && translate(locale, `growth.event.${entry.event}`),
+    entry.substrate,
+  ]
+    .filter(Boolean)
+    .join(' / ');
+}
+
+export default function GrowthLogScreen() {
+  const router = useRouter();
+  const { locale, t } = useTranslation();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const hydrated = useRecordsHydrated();
+  const individual = useIndividual(id);
+  const entries = useGrowthEntries(id);
+  const backgroundColor = useThemeColor({}, 'background');
+  const icon = useThemeColor({}, 'icon');
+  const danger = useThemeColor({}, 'danger');
+
+  const drops = useMemo(() => findWeightDrops(entries), [entries]);
+  const weights = useMemo(() => growthSeries(entries, 'weightG'), [entries]);
+  const headWidths = useMemo(() => growthSeries(entries, 'headWidthMm'), [entries]);
+
+  if (!individual) {
+    return <AsyncStatus loading={!hydrated} empty emptyMessage={t('individual.notFound')} />;
+  }
+
+  const projection = projectEclosion(individual, entries);
+  const instar = currentInstar(entries);
+
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      <Stack.Screen options={{ title: t('growth.titleOf', { label: individual.label }) }} />
+      <ThemedView style={styles.content}>
+        <View style={styles.specs}>
+          {instar && individual.stage === 'larva' && (
+            <View style={styles.specRow}>
+              <ThemedText style={styles.specLabel}>{t('growth.instar')}</ThemedText>
+              <ThemedText>{instar}</ThemedText>
+            </View>
+          )}
+          <View style={styles.specRow}>
+            <ThemedText style={styles.specLabel}>{t('individual.eclosion')}</ThemedText>
+            <ThemedText style={styles.specValue}>
+              {projection
+                ? describeEclosionProjection(projection, locale)
+                : t('growth.projectionHint')}
+            </ThemedText>
+          </View>
+        </View>
+        {drops.length > 0 && (
+          <View style={[styles.alert, { borderColor: danger }]}>
+            <ThemedText type="defaultSemiBold" style={{ color: danger }}>
+              {t('growth.weightDrop')}
+            </ThemedText>
+            {drops.map((drop) => (
+              <ThemedText key={drop.to.id} style={{ color: danger }}>
+                {describeWeightDrop(drop)}
+              </ThemedText>
+            ))}
+            <ThemedText style={{ color: danger }}>{t('growth.weightDropHint')}</ThemedText>
+          </View>
+        )}
+        <MeasurementChart
+          title={t('growth.weight')}
+          unit="g"
+          points={weights}
+          highlightDates={drops.map((drop) => drop.to.date)}
+        />
+        <MeasurementChart title={t('growth.headWidth')} unit="mm" points={headWidths} />
+        <Button
+          title={t('growth.new')}
+          onPress={() =>
+            router.push({ pathname: '/records/[id]/growth/new', params: { id: individual.id } })
+          }
+        />
+        {entries.length === 0 ? (
+          <ThemedText style={styles.muted}>{t('growth.empty')}</ThemedText>
+        ) : (
+          [...entries].reverse().map((entry) => (
+            <View key={entry.id} style={[styles.entry, { borderColor: icon }]}>
+              <View style={styles.entryBody}>
+                <ThemedText type="defaultSemiBold">{entry.date}</ThemedText>
+                <ThemedText>{describeEntry(entry, locale)}</ThemedText>
+                {entry.notes && <ThemedText style={styles.muted}>{entry.notes}</ThemedText>}
+              </View>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel={t('growth.deleteEntry', { date: entry.date })}
+                hitSlop={8}
+                onPress={() => deleteGrowthEntry(entry.id)}>
+                <ThemedText type="link">{t('common.delete')}</ThemedText>
+              </Pressable>
+            </View>
+          ))
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  specs: {
+    gap: 4,
+  },
+  specRow: {
+    flexDirection: 'row',
+  },
+  specLabel: {
+    width: 88,
+    opacity: 0.7,
+  },
+  specValue: {
+    flex: 1,
+  },
+  alert: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingBottom: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  entryBody: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
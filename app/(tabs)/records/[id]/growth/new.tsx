@@ -0,0 +1,120 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { TextField } from '@/components/ui/text-field';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useGrowthEntries } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { LarvalInstar } from '@/lib/catalog';
+import { toDateKey } from '@/lib/date';
+import type { FieldErrors } from '@/lib/forms';
+import {
+  addGrowthEntry,
+  currentInstar,
+  GROWTH_EVENTS,
+  validateGrowthEntry,
+  type GrowthEntryInput,
+  type GrowthEvent,
+} from '@/lib/records';
+
+const NONE = 'none';
+const INSTARS: LarvalInstar[] = ['L1', 'L2', 'L3'];
+
+type TextKey = 'date' | 'weightG' | 'headWidthMm' | 'substrate' | 'notes';
+
+export default function NewGrowthEntryScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { id, event } = useLocalSearchParams<{ id: string; event?: GrowthEvent }>();
+  const entries = useGrowthEntries(id);
+  const backgroundColor = useThemeColor({}, 'background');
+  const [input, setInput] = useState<GrowthEntryInput>(() => ({
+    date: toDateKey(new Date()),
+    weightG: '',
+    headWidthMm: '',
+    instar: currentInstar(entries),
+    event: event && GROWTH_EVENTS.includes(event) ? event : undefined,
+    substrate: '',
+    notes: '',
+  }));
+  const [errors, setErrors] = useState<FieldErrors<GrowthEntryInput>>({});
+
+  const set = <K extends keyof GrowthEntryInput>(name: K, value: GrowthEntryInput[K]) =>
+    setInput((current) => ({ ...current, [name]: value }));
+  const text = (name: TextKey) => ({
+    value: input[name],
+    onChangeText: (value: string) => set(name, value),
+    error: errors[name],
+  });
+
+  const submit = () => {
+    const result = validateGrowthEntry(input, { today: new Date() });
+    if (result.errors) {
+      setErrors(result.errors);
+      return;
+    }
+    addGrowthEntry(id, result.draft);
+    router.back();
+  };
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <TextField
+          label={t('growth.form.date')}
+          placeholder="2025-06-01"
+          autoCapitalize="none"
+          {...text('date')}
+        />
+        <TextField
+          label={t('growth.form.weight')}
+          placeholder="28.5"
+          keyboardType="decimal-pad"
+          {...text('weightG')}
+        />
+        <TextField
+          label={t('growth.form.headWidth')}
+          placeholder="12.3"
+          keyboardType="decimal-pad"
+          {...text('headWidthMm')}
+        />
+        <ChipSelect
+          label={t('growth.instar')}
+          options={[
+            { value: NONE, label: t('growth.form.noInstar') },
+            ...INSTARS.map((instar) => ({ value: instar, label: instar })),
+          ]}
+          value={input.instar ?? NONE}
+          onChange={(value) => set('instar', value === NONE ? undefined : (value as LarvalInstar))}
+        />
+        <ChipSelect
+          label={t('growth.form.event')}
+          options={[
+            { value: NONE, label: t('growth.form.noEvent') },
+            ...GROWTH_EVENTS.map((event) => ({ value: event, label: t(`growth.event.${event}`) })),
+          ]}
+          value={input.event ?? NONE}
+          onChange={(value) => set('event', value === NONE ? undefined : (value as GrowthEvent))}
+        />
+        <TextField
+          label={t('growth.form.substrate')}
+          placeholder={t('growth.form.substratePlaceholder')}
+          {...text('substrate')}
+        />
+        <TextField label={t('form.notes')} multiline {...text('notes')} />
+        <Button title={t('form.record')} onPress={submit} />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+});
@@ -0,0 +1,265 @@
+import { Image } from 'expo-image';
+import { Link, Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { CareTaskList } from '@/components/care/care-task-list';
+import { ShareButton } from '@/components/links/share-button';
+import { IndividualRow } from '@/components/records/individual-row';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import {
+  useChildren,
+  useGrowthEntries,
+  useHabitatsOf,
+  useIndividual,
+  usePairings,
+  useRecordsHydrated,
+} from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { daysBetween, parseDateKey } from '@/lib/date';
+import { formatMeasurement } from '@/lib/i18n';
+import {
+  currentInstar,
+  describeEclosionProjection,
+  findWeightDrops,
+  projectEclosion,
+  setIndividualArchived,
+} from '@/lib/records';
+
+function ParentLink({ label, id }: { label: string; id?: string }) {
+  const parent = useIndividual(id);
+
+  return (
+    <View style={styles.specRow}>
+      <ThemedText style={styles.specLabel}>{label}</ThemedText>
+      {parent ? (
+        <Link href={{ pathname: '/records/[id]', params: { id: parent.id } }}>
+          <ThemedText type="link">{parent.label}</ThemedText>
+        </Link>
+      ) : (
+        <ThemedText>-</ThemedText>
+      )}
+    </View>
+  );
+}
+
+export default function IndividualScreen() {
+  const router = useRouter();
+  const { session } = useAuth();
+  const { locale, t } = useTranslation();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const hydrated = useRecordsHydrated();
+  const individual = useIndividual(id);
+  const children = useChildren(id);
+  const growth = useGrowthEntries(id);
+  const pairings = usePairings(id);
+  const habitats = useHabitatsOf(id);
+  const backgroundColor = useThemeColor({}, 'background');
+  const danger = useThemeColor({}, 'danger');
+
+  if (!individual) {
+    return <AsyncStatus loading={!hydrated} empty emptyMessage={t('individual.notFound')} />;
+  }
+
+  const latestWeight = [...growth].reverse().find((entry) => entry.weightG !== undefined);
+  const projection = projectEclosion(individual, growth);
+  const instar = individual.stage === 'larva' ? currentInstar(growth) : undefined;
+  const hatched = individual.hatchDate ? parseDateKey(individual.hatchDate) : null;
+  const title = `${individual.label} ${t(`individual.sex.${individual.sex}`)}`;
+  const stage = t(`catalog.stage.${individual.stage}`);
+  // Only individuals on the keeper's profile (see `toShowcase`) have a page others can open.
+  const shared =
+    !individual.archived &&
+    (individual.visibility === 'public' || individual.visibility === 'followers');
+  const shareUserId = shared ? session?.user.id : undefined;
+  const specs: [string, string | undefined][] = [
+    [t('individual.species'), individual.species.japaneseName],
+    [t('individual.scientificName'), individual.species.scientificName || undefined],
+    [t('individual.locality'), individual.locality],
+    [t('individual.generation'), individual.generation],
+    [t('individual.stage'), instar ? `${stage} ${instar}` : stage],
+    [
+      t('individual.hatchDate'),
+      hatched
+        ? t('individual.age', {
+            date: individual.hatchDate ?? '',
+            days: daysBetween(hatched, new Date()),
+          })
+        : undefined,
+    ],
+    [t('individual.status'), t(`individual.status.${individual.status}`)],
+    [
+      t('individual.weight'),
+      latestWeight?.weightG !== undefined
+        ? `${formatMeasurement(latestWeight.weightG, 'g', { locale })} (${latestWeight.date})`
+        : undefined,
+    ],
+    [t('individual.eclosion'), projection && describeEclosionProjection(projection, locale)],
+  ];
+
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      <Stack.Screen
+        options={{
+          title,
+          headerRight: shareUserId
+            ? () => (
+                <ShareButton
+                  target={{ type: 'individual', userId: shareUserId, id: individual.id }}
+                  title={title}
+                />
+              )
+            : undefined,
+        }}
+      />
+      {individual.photos.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.photos}>
+          {individual.photos.map((photo) => (
+            <Image
+              key={photo.uri}
+              source={{ uri: photo.uri }}
+              style={styles.photo}
+              contentFit="cover"
+            />
+          ))}
+        </ScrollView>
+      )}
+      <ThemedView style={styles.content}>
+        <View style={styles.specs}>
+          {specs
+            .filter((spec): spec is [string, string] => spec[1] !== undefined)
+            .map(([label, value]) => (
+              <View key={label} style={styles.specRow}>
+                <ThemedText style={styles.specLabel}>{label}</ThemedText>
+                <ThemedText style={styles.specValue}>{value}</ThemedText>
+              </View>
+            ))}
+          <ParentLink label={t('pedigree.father')} id={individual.fatherId} />
+          <ParentLink label={t('pedigree.mother')} id={individual.motherId} />
+        </View>
+        {findWeightDrops(growth).length > 0 && (
+          <ThemedText style={{ color: danger }}>{t('individual.weightDrop')}</ThemedText>
+        )}
+        <Link href={{ pathname: '/records/[id]/growth', params: { id: individual.id } }}>
+          <ThemedText type="link">
+            {t('individual.growthLink', { count: growth.length })}
+          </ThemedText>
+        </Link>
+        <Link href={{ pathname: '/records/[id]/pedigree', params: { id: individual.id } }}>
+          <ThemedText type="link">{t('individual.pedigreeLink')}</ThemedText>
+        </Link>
+        {habitats.map((habitat) => (
+          <Link
+            key={habitat.id}
+            href={{ pathname: '/records/environment/[id]', params: { id: habitat.id } }}>
+            <ThemedText type="link">
+              {t('individual.habitatLink', { name: habitat.name })}
+            </ThemedText>
+          </Link>
+        ))}
+        {habitats.length === 0 && (
+          <Link
+            href={{
+              pathname: '/records/environment/new',
+              params: { individualId: individual.id },
+            }}>
+            <ThemedText type="link">{t('individual.addHabitat')}</ThemedText>
+          </Link>
+        )}
+        {individual.sourceProductId && (
+          <Link href={{ pathname: '/products/[id]', params: { id: individual.sourceProductId } }}>
+            <ThemedText type="link">{t('individual.sourceProduct')}</ThemedText>
+          </Link>
+        )}
+        {individual.notes && <ThemedText>{individual.notes}</ThemedText>}
+        {children.length > 0 && (
+          <View>
+            <ThemedText type="defaultSemiBold">
+              {t('individual.children', { count: children.length })}
+            </ThemedText>
+            {children.map((child) => (
+              <IndividualRow key={child.id} individual={child} />
+            ))}
+          </View>
+        )}
+        <CareTaskList target={{ type: 'individual', id: individual.id }} />
+        {(individual.sex === 'male' || individual.sex === 'female') && (
+          <View>
+            <ThemedText type="defaultSemiBold">
+              {t('individual.pairings', { count: pairings.length })}
+            </ThemedText>
+            {pairings.map((pairing) => (
+              <Link
+                key={pairing.id}
+                href={{ pathname: '/records/pairings/[id]', params: { id: pairing.id } }}>
+                <ThemedText type="link">
+                  {t('breeding.pairingOn', { date: pairing.pairedOn })}
+                </ThemedText>
+              </Link>
+            ))}
+            {individual.stage === 'adult' && (
+              <Link
+                href={{
+                  pathname: '/records/pairings/new',
+                  params:
+                    individual.sex === 'male'
+                      ? { maleId: individual.id }
+                      : { femaleId: individual.id },
+                }}>
+                <ThemedText type="link">{t('breeding.new')}</ThemedText>
+              </Link>
+            )}
+          </View>
+        )}
+        <Button
+          title={t('common.edit')}
+          onPress={() =>
+            router.push({ pathname: '/records/[id]/edit', params: { id: individual.id } })
+          }
+        />
+        <Button
+          title={individual.archived ? t('individual.unarchive') : t('individual.archive')}
+          variant="secondary"
+          onPress={() => setIndividualArchived(individual.id, !individual.archived)}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  photos: {
+    gap: 8,
+    padding: 16,
+    paddingBottom: 0,
+  },
+  photo: {
+    width: 160,
+    height: 160,
+    borderRadius: 8,
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  specs: {
+    gap: 4,
+  },
+  specRow: {
+    flexDirection: 'row',
+  },
+  specLabel: {
+    width: 88,
+    opacity: 0.7,
+  },
+  specValue: {
+    flex: 1,
+  },
+});
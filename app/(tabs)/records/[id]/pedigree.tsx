@@ -0,0 +1,57 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { ScrollView, Share, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { PedigreeTree } from '@/components/records/pedigree-tree';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/hooks/use-i18n';
+import { usePedigree, useRecordsHydrated } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { formatPedigreeText, PEDIGREE_GENERATIONS } from '@/lib/records';
+
+export default function PedigreeScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { locale, t } = useTranslation();
+  const hydrated = useRecordsHydrated();
+  const pedigree = usePedigree(id);
+  const backgroundColor = useThemeColor({}, 'background');
+
+  if (!pedigree) {
+    return <AsyncStatus loading={!hydrated} empty emptyMessage={t('individual.notFound')} />;
+  }
+
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      <Stack.Screen
+        options={{ title: t('pedigree.titleOf', { label: pedigree.individual.label }) }}
+      />
+      <ThemedView style={styles.content}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <PedigreeTree node={pedigree} />
+        </ScrollView>
+        <ThemedText style={styles.muted}>
+          {t('pedigree.hint', { generations: PEDIGREE_GENERATIONS })}
+        </ThemedText>
+        <Button
+          title={t('pedigree.share')}
+          onPress={() => {
+            // Rejects when the browser has no share sheet; there is nothing more to do then.
+            Share.share({ message: formatPedigreeText(pedigree, locale) }).catch(() => undefined);
+          }}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,21 @@
+import { Stack } from 'expo-router';
+
+import { useTranslation } from '@/hooks/use-i18n';
+
+export default function RecordsLayout() {
+  const { t } = useTranslation();
+
+  return (
+    <Stack>
+      <Stack.Screen name="index" options={{ title: t('tabs.records') }} />
+      <Stack.Screen name="new" options={{ title: t('records.new'), presentation: 'modal' }} />
+      <Stack.Screen name="[id]/index" options={{ title: t('records.individual') }} />
+      <Stack.Screen name="[id]/edit" options={{ title: t('records.edit') }} />
+      <Stack.Screen name="[id]/growth/index" options={{ title: t('growth.title') }} />
+      <Stack.Screen
+        name="[id]/growth/new"
+        options={{ title: t('growth.new'), presentation: 'modal' }}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,82 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { CareTaskForm } from '@/components/care/care-task-form';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { useCareHydrated, useCareTargetLabel, useCareTask } from '@/hooks/use-care';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { deleteCareTask, updateCareTask, type CareTask } from '@/lib/care';
+
+function EditCareTask({ task }: { task: CareTask }) {
+  const router = useRouter();
+  const targetLabel = useCareTargetLabel(task.target);
+  const { t } = useTranslation();
+
+  return (
+    <>
+      {targetLabel && <ThemedText type="defaultSemiBold">{targetLabel}</ThemedText>}
+      {task.lastDoneOn && (
+        <ThemedText style={styles.muted}>
+          {t('care.lastDoneOn', { date: task.lastDoneOn })}
+        </ThemedText>
+      )}
+      <CareTaskForm
+        initial={{
+          kind: task.kind,
+          title: task.title ?? '',
+          intervalDays: String(task.intervalDays),
+          startsOn: task.startsOn,
+          remindAt: task.remindAt,
+        }}
+        target={task.target}
+        submitTitle={t('common.save')}
+        onSubmit={(draft) => {
+          updateCareTask(task.id, draft);
+          router.back();
+        }}
+      />
+      <Button
+        title={t('care.delete')}
+        variant="secondary"
+        onPress={() => {
+          deleteCareTask(task.id);
+          router.back();
+        }}
+      />
+    </>
+  );
+}
+
+export default function CareTaskScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const hydrated = useCareHydrated();
+  const task = useCareTask(id);
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+
+  if (!task) {
+    return <AsyncStatus loading={!hydrated} empty emptyMessage={t('care.notFound')} />;
+  }
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <EditCareTask task={task} />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,64 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { CareTaskForm } from '@/components/care/care-task-form';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useCareTargetLabel } from '@/hooks/use-care';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useIndividual } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import {
+  createCareTask,
+  DEFAULT_INTERVAL_DAYS,
+  DEFAULT_REMIND_AT,
+  suggestedTaskKinds,
+  type CareTarget,
+} from '@/lib/care';
+import { toDateKey } from '@/lib/date';
+
+export default function NewCareTaskScreen() {
+  const router = useRouter();
+  const { individualId, habitatId } = useLocalSearchParams<{
+    individualId?: string;
+    habitatId?: string;
+  }>();
+  const target: CareTarget = individualId
+    ? { type: 'individual', id: individualId }
+    : { type: 'habitat', id: habitatId ?? '' };
+  const targetLabel = useCareTargetLabel(target);
+  const individual = useIndividual(individualId);
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+  const kind = (individual && suggestedTaskKinds(individual)[0]) ?? 'misting';
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        {targetLabel && <ThemedText type="defaultSemiBold">{targetLabel}</ThemedText>}
+        <CareTaskForm
+          initial={{
+            kind,
+            title: '',
+            intervalDays: String(DEFAULT_INTERVAL_DAYS[kind]),
+            startsOn: toDateKey(new Date()),
+            remindAt: DEFAULT_REMIND_AT,
+          }}
+          target={target}
+          submitTitle={t('common.register')}
+          onSubmit={(draft) => {
+            createCareTask(draft);
+            router.back();
+          }}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+});
@@ -0,0 +1,45 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { HabitatForm } from '@/components/records/habitat-form';
+import { ThemedView } from '@/components/themed-view';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useEnvironmentHydrated, useHabitat } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { updateHabitat } from '@/lib/records';
+
+export default function EditHabitatScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const hydrated = useEnvironmentHydrated();
+  const habitat = useHabitat(id);
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+
+  if (!habitat) {
+    return <AsyncStatus loading={!hydrated} empty emptyMessage={t('environment.notFound')} />;
+  }
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <HabitatForm
+          initial={{ name: habitat.name, kind: habitat.kind, individualIds: habitat.individualIds }}
+          submitTitle={t('common.save')}
+          onSubmit={(draft) => {
+            updateHabitat(habitat.id, draft);
+            router.back();
+          }}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+});
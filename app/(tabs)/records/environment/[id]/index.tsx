@@ -0,0 +1,286 @@
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { CareTaskList } from '@/components/care/care-task-list';
+import { IndividualRow } from '@/components/records/individual-row';
+import { MeasurementChart } from '@/components/records/measurement-chart';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { TextField } from '@/components/ui/text-field';
+import { useTranslation } from '@/hooks/use-i18n';
+import {
+  useEnvironmentHydrated,
+  useHabitat,
+  useHabitatClimate,
+  useIndividuals,
+  useReadings,
+} from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { addDays, toDateTimeKey } from '@/lib/date';
+import type { FieldErrors } from '@/lib/forms';
+import {
+  addReadings,
+  deleteHabitat,
+  describeOutOfRangePeriod,
+  findOutOfRangePeriods,
+  METRIC_UNITS,
+  parseLoggerCsv,
+  readingSeries,
+  readingsSince,
+  validateReading,
+  type Metric,
+  type ReadingInput,
+} from '@/lib/records';
+import { pickLoggerCsv } from '@/lib/records/logger-file';
+
+type Span = '1' | '7' | '30';
+
+const SPANS: Span[] = ['1', '7', '30'];
+
+const METRICS: Metric[] = ['temperatureC', 'humidityPct'];
+
+const emptyReading = (): ReadingInput => ({
+  at: toDateTimeKey(new Date()),
+  temperatureC: '',
+  humidityPct: '',
+});
+
+export default function HabitatScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const hydrated = useEnvironmentHydrated();
+  const habitat = useHabitat(id);
+  const readings = useReadings(id);
+  const climate = useHabitatClimate(habitat);
+  const individuals = useIndividuals();
+  const backgroundColor = useThemeColor({}, 'background');
+  const danger = useThemeColor({}, 'danger');
+  const { locale, t } = useTranslation();
+  const [span, setSpan] = useState<Span>('7');
+  const [reading, setReading] = useState<ReadingInput>(emptyReading);
+  const [errors, setErrors] = useState<FieldErrors<ReadingInput>>({});
+  const [importMessage, setImportMessage] = useState<string>();
+  const [importing, setImporting] = useState(false);
+
+  const visible = useMemo(
+    () => readingsSince(readings, addDays(new Date(), -Number(span))),
+    [readings, span]
+  );
+  const periods = useMemo(
+    () => (climate ? findOutOfRangePeriods(visible, climate.range) : []),
+    [climate, visible]
+  );
+
+  if (!habitat) {
+    return <AsyncStatus loading={!hydrated} empty emptyMessage={t('environment.notFound')} />;
+  }
+
+  const kept = individuals.filter((individual) => habitat.individualIds.includes(individual.id));
+  const text = (name: keyof ReadingInput) => ({
+    value: reading[name],
+    onChangeText: (value: string) => setReading((current) => ({ ...current, [name]: value })),
+    error: errors[name],
+  });
+
+  const submitReading = () => {
+    const result = validateReading(reading, { now: new Date() });
+    if (result.errors) {
+      setErrors(result.errors);
+      return;
+    }
+    addReadings(habitat.id, [result.reading]);
+    setReading(emptyReading());
+    setErrors({});
+  };
+
+  const importCsv = async () => {
+    setImporting(true);
+    try {
+      const csv = await pickLoggerCsv();
+      if (csv === null) {
+        return;
+      }
+      const result = parseLoggerCsv(csv);
+      if (result.error !== undefined) {
+        setImportMessage(result.error);
+        return;
+      }
+      addReadings(habitat.id, result.readings);
+      setImportMessage(
+        result.skipped > 0
+          ? t('environment.import.doneWithSkipped', {
+              count: result.readings.length,
+              skipped: result.skipped,
+            })
+          : t('environment.import.done', { count: result.readings.length })
+      );
+    } catch {
+      setImportMessage(t('environment.import.failed'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <Stack.Screen options={{ title: habitat.name }} />
+      <ThemedView style={styles.content}>
+        <ThemedText style={styles.muted}>{t(`environment.kind.${habitat.kind}`)}</ThemedText>
+        {climate ? (
+          <View style={styles.specs}>
+            {METRICS.map((metric) => (
+              <View key={metric} style={styles.specRow}>
+                <ThemedText style={styles.specLabel}>
+                  {t('environment.idealRange', { metric: t(`environment.metric.${metric}`) })}
+                </ThemedText>
+                <ThemedText>
+                  {climate.range[metric][0]}〜{climate.range[metric][1]}
+                  {METRIC_UNITS[metric]}
+                </ThemedText>
+              </View>
+            ))}
+            {climate.conflict && (
+              <ThemedText style={{ color: danger }}>{t('environment.conflict')}</ThemedText>
+            )}
+          </View>
+        ) : (
+          <ThemedText style={styles.muted}>{t('environment.noClimate')}</ThemedText>
+        )}
+
+        <ChipSelect
+          options={SPANS.map((value) => ({ value, label: t(`environment.span.${value}`) }))}
+          value={span}
+          onChange={setSpan}
+        />
+        {visible.length === 0 ? (
+          <ThemedText style={styles.muted}>{t('environment.noReadingsInSpan')}</ThemedText>
+        ) : (
+          METRICS.map((metric) => (
+            <MeasurementChart
+              key={metric}
+              title={t(`environment.metric.${metric}`)}
+              unit={METRIC_UNITS[metric]}
+              points={readingSeries(visible, metric)}
+              range={climate?.range[metric]}
+            />
+          ))
+        )}
+        {periods.length > 0 && (
+          <View style={[styles.alertBox, { borderColor: danger }]}>
+            <ThemedText type="defaultSemiBold" style={{ color: danger }}>
+              {t('environment.outOfRangeTitle')}
+            </ThemedText>
+            {periods
+              .slice(-10)
+              .reverse()
+              .map((period) => (
+                <ThemedText key={`${period.metric}-${period.from}`} style={{ color: danger }}>
+                  {describeOutOfRangePeriod(period, locale)}
+                </ThemedText>
+              ))}
+          </View>
+        )}
+
+        <ThemedText type="subtitle">{t('environment.addReading')}</ThemedText>
+        <Button
+          title={t('environment.importCsv')}
+          variant="secondary"
+          loading={importing}
+          onPress={importCsv}
+        />
+        {importMessage && <ThemedText style={styles.muted}>{importMessage}</ThemedText>}
+        <TextField
+          label={t('environment.form.at')}
+          placeholder="2025-06-01 21:00"
+          keyboardType="numbers-and-punctuation"
+          {...text('at')}
+        />
+        <View style={styles.counts}>
+          <View style={styles.count}>
+            <TextField
+              label={t('environment.form.value', {
+                metric: t('environment.metric.temperatureC'),
+                unit: METRIC_UNITS.temperatureC,
+              })}
+              placeholder="24.5"
+              keyboardType="numbers-and-punctuation"
+              {...text('temperatureC')}
+            />
+          </View>
+          <View style={styles.count}>
+            <TextField
+              label={t('environment.form.value', {
+                metric: t('environment.metric.humidityPct'),
+                unit: METRIC_UNITS.humidityPct,
+              })}
+              placeholder="70"
+              keyboardType="decimal-pad"
+              {...text('humidityPct')}
+            />
+          </View>
+        </View>
+        <Button title={t('environment.manualRecord')} onPress={submitReading} />
+
+        <CareTaskList target={{ type: 'habitat', id: habitat.id }} />
+        <ThemedText type="subtitle">
+          {t('environment.individuals', { count: kept.length })}
+        </ThemedText>
+        {kept.map((individual) => (
+          <IndividualRow key={individual.id} individual={individual} />
+        ))}
+        <Button
+          title={t('common.edit')}
+          variant="secondary"
+          onPress={() =>
+            router.push({ pathname: '/records/environment/[id]/edit', params: { id: habitat.id } })
+          }
+        />
+        <Button
+          title={t('environment.delete')}
+          variant="secondary"
+          onPress={() => {
+            deleteHabitat(habitat.id);
+            router.back();
+          }}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  specs: {
+    gap: 4,
+  },
+  specRow: {
+    flexDirection: 'row',
+  },
+  specLabel: {
+    width: 88,
+    opacity: 0.7,
+  },
+  counts: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  count: {
+    flex: 1,
+  },
+  alertBox: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,114 @@
+import { Link, Stack } from 'expo-router';
+import { useMemo } from 'react';
+import { FlatList, Pressable, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTranslation } from '@/hooks/use-i18n';
+import {
+  useEnvironmentHydrated,
+  useHabitatClimate,
+  useHabitats,
+  useReadings,
+} from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { addDays } from '@/lib/date';
+import { findOutOfRangePeriods, METRIC_UNITS, readingsSince, type Habitat } from '@/lib/records';
+
+function HabitatRow({ habitat }: { habitat: Habitat }) {
+  const danger = useThemeColor({}, 'danger');
+  const readings = useReadings(habitat.id);
+  const climate = useHabitatClimate(habitat);
+  const latest = readings[readings.length - 1];
+  const { t } = useTranslation();
+  const alerts = useMemo(
+    () =>
+      climate
+        ? findOutOfRangePeriods(readingsSince(readings, addDays(new Date(), -1)), climate.range)
+            .length
+        : 0,
+    [climate, readings]
+  );
+
+  return (
+    <Link href={{ pathname: '/records/environment/[id]', params: { id: habitat.id } }} asChild>
+      <Pressable accessibilityRole="link" style={styles.row}>
+        <ThemedText type="defaultSemiBold">
+          {habitat.name} ({t(`environment.kind.${habitat.kind}`)})
+        </ThemedText>
+        <ThemedText style={styles.meta}>
+          {latest
+            ? [
+                latest.at,
+                latest.temperatureC !== undefined &&
+                  `${latest.temperatureC}${METRIC_UNITS.temperatureC}`,
+                latest.humidityPct !== undefined &&
+                  `${latest.humidityPct}${METRIC_UNITS.humidityPct}`,
+              ]
+                .filter(Boolean)
+                .join(' / ')
+            : t('environment.noReadings')}
+        </ThemedText>
+        {alerts > 0 && (
+          <ThemedText style={[styles.alert, { color: danger }]}>
+            {t('environment.recentAlerts', { count: alerts })}
+          </ThemedText>
+        )}
+      </Pressable>
+    </Link>
+  );
+}
+
+export default function HabitatsScreen() {
+  const hydrated = useEnvironmentHydrated();
+  const habitats = useHabitats();
+  const backgroundColor = useThemeColor({}, 'background');
+  const tint = useThemeColor({}, 'tint');
+  const { t } = useTranslation();
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerRight: () => (
+            <Link href="/records/environment/new" asChild>
+              <Pressable accessibilityLabel={t('environment.new')} hitSlop={8}>
+                <IconSymbol name="plus" size={24} color={tint} />
+              </Pressable>
+            </Link>
+          ),
+        }}
+      />
+      <FlatList
+        data={habitats}
+        keyExtractor={(habitat) => habitat.id}
+        renderItem={({ item }) => <HabitatRow habitat={item} />}
+        style={{ backgroundColor }}
+        contentContainerStyle={styles.content}
+        ListEmptyComponent={
+          <AsyncStatus loading={!hydrated} empty emptyMessage={t('environment.empty')} />
+        }
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  row: {
+    paddingVertical: 8,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  alert: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
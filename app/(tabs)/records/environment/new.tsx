@@ -0,0 +1,37 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { HabitatForm } from '@/components/records/habitat-form';
+import { ThemedView } from '@/components/themed-view';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { createHabitat } from '@/lib/records';
+
+export default function NewHabitatScreen() {
+  const router = useRouter();
+  const { individualId } = useLocalSearchParams<{ individualId?: string }>();
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <HabitatForm
+          initial={{ name: '', kind: 'case', individualIds: individualId ? [individualId] : [] }}
+          submitTitle={t('common.register')}
+          onSubmit={(draft) => {
+            const habitat = createHabitat(draft);
+            router.replace({ pathname: '/records/environment/[id]', params: { id: habitat.id } });
+          }}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+});
@@ -0,0 +1,85 @@
+import { Link, Stack } from 'expo-router';
+import { useState } from 'react';
+import { FlatList, Pressable, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { IndividualRow } from '@/components/records/individual-row';
+import { SyncStatus } from '@/components/records/sync-status';
+import { ThemedText } from '@/components/themed-text';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useIndividuals, useRecordsHydrated } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+type Filter = 'active' | 'archived';
+
+export default function RecordsScreen() {
+  const { t } = useTranslation();
+  const [filter, setFilter] = useState<Filter>('active');
+  const hydrated = useRecordsHydrated();
+  const individuals = useIndividuals({ archived: filter === 'archived' });
+  const backgroundColor = useThemeColor({}, 'background');
+  const tint = useThemeColor({}, 'tint');
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerRight: () => (
+            <Link href="/records/new" asChild>
+              <Pressable accessibilityLabel={t('records.new')} hitSlop={8}>
+                <IconSymbol name="plus" size={24} color={tint} />
+              </Pressable>
+            </Link>
+          ),
+        }}
+      />
+      <FlatList
+        data={individuals}
+        keyExtractor={(individual) => individual.id}
+        renderItem={({ item }) => <IndividualRow individual={item} />}
+        style={{ backgroundColor }}
+        contentContainerStyle={styles.content}
+        ListHeaderComponent={
+          <>
+            <SyncStatus />
+            <Link href="/records/today">
+              <ThemedText type="link">{t('care.today')}</ThemedText>
+            </Link>
+            <Link href="/records/pairings">
+              <ThemedText type="link">{t('records.breedingLink')}</ThemedText>
+            </Link>
+            <Link href="/records/environment">
+              <ThemedText type="link">{t('environment.title')}</ThemedText>
+            </Link>
+            <ChipSelect
+              options={[
+                { value: 'active', label: t('records.filter.active') },
+                { value: 'archived', label: t('records.filter.archived') },
+              ]}
+              value={filter}
+              onChange={setFilter}
+            />
+          </>
+        }
+        ListEmptyComponent={
+          <AsyncStatus
+            loading={!hydrated}
+            empty
+            emptyMessage={
+              filter === 'active' ? t('records.emptyActive') : t('records.emptyArchived')
+            }
+          />
+        }
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    flexGrow: 1,
+  },
+});
@@ -0,0 +1,58 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { IndividualForm } from '@/components/records/individual-form';
+import { ThemedView } from '@/components/themed-view';
+import { useProduct } from '@/hooks/use-catalog';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useIndividual, useRecordsHydrated } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { createIndividual, draftFromProduct, emptyDraft, offspringDraft } from '@/lib/records';
+
+export default function NewIndividualScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { productId, fatherId, motherId } = useLocalSearchParams<{
+    productId?: string;
+    fatherId?: string;
+    motherId?: string;
+  }>();
+  const product = useProduct(productId);
+  const father = useIndividual(fatherId);
+  const mother = useIndividual(motherId);
+  const hydrated = useRecordsHydrated();
+  const backgroundColor = useThemeColor({}, 'background');
+
+  if (!hydrated || product.loading) {
+    return <AsyncStatus loading />;
+  }
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <IndividualForm
+          initial={
+            product.data
+              ? draftFromProduct(product.data)
+              : father && mother
+                ? offspringDraft(father, mother)
+                : emptyDraft()
+          }
+          submitTitle={t('common.register')}
+          onSubmit={(draft) => {
+            const individual = createIndividual(draft);
+            router.replace({ pathname: '/records/[id]', params: { id: individual.id } });
+          }}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+});
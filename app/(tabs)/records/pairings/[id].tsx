@@ -0,0 +1,239 @@
+import { Link, Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { InbreedingWarning } from '@/components/records/inbreeding-warning';
+import { IndividualRow } from '@/components/records/individual-row';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { TextField } from '@/components/ui/text-field';
+import { useTranslation } from '@/hooks/use-i18n';
+import {
+  useChildren,
+  useInbreedingCheck,
+  useIndividual,
+  usePairing,
+  useRecordsHydrated,
+} from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { toDateKey } from '@/lib/date';
+import type { FieldErrors } from '@/lib/forms';
+import {
+  addHarvest,
+  deletePairing,
+  harvestTotals,
+  removeHarvest,
+  validateHarvest,
+  type HarvestInput,
+} from '@/lib/records';
+
+function ParentLink({ label, id }: { label: string; id: string }) {
+  const { t } = useTranslation();
+  const parent = useIndividual(id);
+
+  return (
+    <View style={styles.specRow}>
+      <ThemedText style={styles.specLabel}>{label}</ThemedText>
+      {parent ? (
+        <Link href={{ pathname: '/records/[id]', params: { id: parent.id } }}>
+          <ThemedText type="link">
+            {parent.label} {t(`individual.sex.${parent.sex}`)}
+            {parent.generation && ` ${parent.generation}`}
+          </ThemedText>
+        </Link>
+      ) : (
+        <ThemedText>{t('breeding.deletedIndividual')}</ThemedText>
+      )}
+    </View>
+  );
+}
+
+const emptyHarvest = (): HarvestInput => ({
+  date: toDateKey(new Date()),
+  eggs: '',
+  larvae: '',
+  notes: '',
+});
+
+export default function PairingScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const hydrated = useRecordsHydrated();
+  const pairing = usePairing(id);
+  const inbreeding = useInbreedingCheck(pairing?.maleId, pairing?.femaleId);
+  const fatherChildren = useChildren(pairing?.maleId ?? '');
+  const backgroundColor = useThemeColor({}, 'background');
+  const icon = useThemeColor({}, 'icon');
+  const [harvest, setHarvest] = useState<HarvestInput>(emptyHarvest);
+  const [errors, setErrors] = useState<FieldErrors<HarvestInput>>({});
+
+  if (!pairing) {
+    return <AsyncStatus loading={!hydrated} empty emptyMessage={t('breeding.notFound')} />;
+  }
+
+  const totals = harvestTotals(pairing);
+  const offspring = fatherChildren.filter((child) => child.motherId === pairing.femaleId);
+  const text = (name: keyof HarvestInput) => ({
+    value: harvest[name],
+    onChangeText: (value: string) => setHarvest((current) => ({ ...current, [name]: value })),
+    error: errors[name],
+  });
+
+  const submitHarvest = () => {
+    const result = validateHarvest(harvest, { today: new Date() });
+    if (result.errors) {
+      setErrors(result.errors);
+      return;
+    }
+    addHarvest(pairing.id, result.draft);
+    setHarvest(emptyHarvest());
+    setErrors({});
+  };
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <Stack.Screen options={{ title: t('breeding.pairingOn', { date: pairing.pairedOn }) }} />
+      <ThemedView style={styles.content}>
+        <View style={styles.specs}>
+          <ParentLink label="♂" id={pairing.maleId} />
+          <ParentLink label="♀" id={pairing.femaleId} />
+          <View style={styles.specRow}>
+            <ThemedText style={styles.specLabel}>{t('breeding.pairedOn')}</ThemedText>
+            <ThemedText>{pairing.pairedOn}</ThemedText>
+          </View>
+          {pairing.setUpOn && (
+            <View style={styles.specRow}>
+              <ThemedText style={styles.specLabel}>{t('breeding.setUpOn')}</ThemedText>
+              <ThemedText>{pairing.setUpOn}</ThemedText>
+            </View>
+          )}
+          <View style={styles.specRow}>
+            <ThemedText style={styles.specLabel}>{t('breeding.total')}</ThemedText>
+            <ThemedText>{t('breeding.counts', totals)}</ThemedText>
+          </View>
+        </View>
+        <InbreedingWarning check={inbreeding} />
+        {pairing.notes && <ThemedText>{pairing.notes}</ThemedText>}
+
+        <ThemedText type="subtitle">{t('breeding.harvests')}</ThemedText>
+        {pairing.harvests.length === 0 && (
+          <ThemedText style={styles.muted}>{t('breeding.noHarvests')}</ThemedText>
+        )}
+        {pairing.harvests.map((entry, index) => (
+          <View key={entry.id} style={[styles.harvest, { borderColor: icon }]}>
+            <View style={styles.harvestBody}>
+              <ThemedText type="defaultSemiBold">
+                {t('breeding.harvestNumber', { number: index + 1, date: entry.date })}
+              </ThemedText>
+              <ThemedText>
+                {t('breeding.counts', { eggs: entry.eggs, larvae: entry.larvae })}
+              </ThemedText>
+              {entry.notes && <ThemedText style={styles.muted}>{entry.notes}</ThemedText>}
+            </View>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel={t('breeding.deleteHarvest', { date: entry.date })}
+              hitSlop={8}
+              onPress={() => removeHarvest(pairing.id, entry.id)}>
+              <ThemedText type="link">{t('common.delete')}</ThemedText>
+            </Pressable>
+          </View>
+        ))}
+        <TextField
+          label={t('breeding.form.harvestDate')}
+          placeholder="2025-07-20"
+          keyboardType="numbers-and-punctuation"
+          {...text('date')}
+        />
+        <View style={styles.counts}>
+          <View style={styles.count}>
+            <TextField
+              label={t('breeding.form.eggs')}
+              placeholder="0"
+              keyboardType="number-pad"
+              {...text('eggs')}
+            />
+          </View>
+          <View style={styles.count}>
+            <TextField
+              label={t('breeding.form.larvae')}
+              placeholder="0"
+              keyboardType="number-pad"
+              {...text('larvae')}
+            />
+          </View>
+        </View>
+        <TextField
+          label={t('form.notes')}
+          placeholder={t('breeding.form.notesPlaceholder')}
+          {...text('notes')}
+        />
+        <Button title={t('breeding.addHarvest')} variant="secondary" onPress={submitHarvest} />
+
+        <ThemedText type="subtitle">
+          {t('individual.children', { count: offspring.length })}
+        </ThemedText>
+        {offspring.map((child) => (
+          <IndividualRow key={child.id} individual={child} />
+        ))}
+        <Button
+          title={t('breeding.registerOffspring')}
+          onPress={() =>
+            router.push({
+              pathname: '/records/new',
+              params: { fatherId: pairing.maleId, motherId: pairing.femaleId },
+            })
+          }
+        />
+        <Button
+          title={t('breeding.delete')}
+          variant="secondary"
+          onPress={() => {
+            deletePairing(pairing.id);
+            router.back();
+          }}
+        />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  specs: {
+    gap: 4,
+  },
+  specRow: {
+    flexDirection: 'row',
+  },
+  specLabel: {
+    width: 88,
+    opacity: 0.7,
+  },
+  harvest: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingBottom: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  harvestBody: {
+    flex: 1,
+  },
+  counts: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  count: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
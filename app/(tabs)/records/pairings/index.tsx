@@ -0,0 +1,89 @@
+import { Link, Stack } from 'expo-router';
+import { FlatList, Pressable, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useIndividual, usePairings, useRecordsHydrated } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { harvestTotals, type Pairing } from '@/lib/records';
+
+function PairingRow({ pairing }: { pairing: Pairing }) {
+  const male = useIndividual(pairing.maleId);
+  const female = useIndividual(pairing.femaleId);
+  const totals = harvestTotals(pairing);
+  const { t } = useTranslation();
+
+  return (
+    <Link href={{ pathname: '/records/pairings/[id]', params: { id: pairing.id } }} asChild>
+      <Pressable accessibilityRole="link" style={styles.row}>
+        <ThemedText type="defaultSemiBold" numberOfLines={1}>
+          {male?.label ?? t('breeding.deletedIndividual')} ×{' '}
+          {female?.label ?? t('breeding.deletedIndividual')}
+        </ThemedText>
+        <ThemedText style={styles.meta}>
+          {t('breeding.summary', {
+            date: pairing.pairedOn,
+            harvests: pairing.harvests.length,
+            eggs: totals.eggs,
+            larvae: totals.larvae,
+          })}
+        </ThemedText>
+      </Pressable>
+    </Link>
+  );
+}
+
+export default function PairingsScreen() {
+  const hydrated = useRecordsHydrated();
+  const pairings = usePairings();
+  const backgroundColor = useThemeColor({}, 'background');
+  const tint = useThemeColor({}, 'tint');
+  const { t } = useTranslation();
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerRight: () => (
+            <Link href="/records/pairings/new" asChild>
+              <Pressable accessibilityLabel={t('breeding.new')} hitSlop={8}>
+                <IconSymbol name="plus" size={24} color={tint} />
+              </Pressable>
+            </Link>
+          ),
+        }}
+      />
+      <FlatList
+        data={pairings}
+        keyExtractor={(pairing) => pairing.id}
+        renderItem={({ item }) => <PairingRow pairing={item} />}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        style={{ backgroundColor }}
+        contentContainerStyle={styles.content}
+        ListEmptyComponent={
+          <AsyncStatus loading={!hydrated} empty emptyMessage={t('breeding.empty')} />
+        }
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  row: {
+    paddingVertical: 8,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  separator: {
+    height: 4,
+  },
+});
@@ -0,0 +1,107 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { InbreedingWarning } from '@/components/records/inbreeding-warning';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { TextField } from '@/components/ui/text-field';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useInbreedingCheck, useIndividuals } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { toDateKey } from '@/lib/date';
+import type { FieldErrors } from '@/lib/forms';
+import {
+  createPairing,
+  recordsStore,
+  validatePairing,
+  type IndividualSex,
+  type PairingInput,
+} from '@/lib/records';
+
+type TextKey = 'pairedOn' | 'setUpOn' | 'notes';
+
+export default function NewPairingScreen() {
+  const router = useRouter();
+  const { maleId, femaleId } = useLocalSearchParams<{ maleId?: string; femaleId?: string }>();
+  const individuals = useIndividuals();
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+  const [input, setInput] = useState<PairingInput>(() => ({
+    maleId,
+    femaleId,
+    pairedOn: toDateKey(new Date()),
+    setUpOn: '',
+    notes: '',
+  }));
+  const [errors, setErrors] = useState<FieldErrors<PairingInput>>({});
+  const inbreeding = useInbreedingCheck(input.maleId, input.femaleId);
+
+  const set = <K extends keyof PairingInput>(name: K, value: PairingInput[K]) =>
+    setInput((current) => ({ ...current, [name]: value }));
+  const text = (name: TextKey) => ({
+    value: input[name],
+    onChangeText: (value: string) => set(name, value),
+    error: errors[name],
+  });
+  const options = (sex: IndividualSex) =>
+    individuals
+      .filter((individual) => individual.sex === sex && individual.stage === 'adult')
+      .map((individual) => ({ value: individual.id, label: individual.label }));
+
+  const submit = () => {
+    const result = validatePairing(input, recordsStore.getState().individuals, {
+      today: new Date(),
+    });
+    if (result.errors) {
+      setErrors(result.errors);
+      return;
+    }
+    const pairing = createPairing(result.draft);
+    router.replace({ pathname: '/records/pairings/[id]', params: { id: pairing.id } });
+  };
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <ChipSelect
+          label={t('breeding.form.male')}
+          options={options('male')}
+          value={input.maleId}
+          onChange={(id) => set('maleId', id)}
+          error={errors.maleId}
+        />
+        <ChipSelect
+          label={t('breeding.form.female')}
+          options={options('female')}
+          value={input.femaleId}
+          onChange={(id) => set('femaleId', id)}
+          error={errors.femaleId}
+        />
+        <InbreedingWarning check={inbreeding} />
+        <TextField
+          label={t('breeding.form.pairedOn')}
+          placeholder="2025-06-01"
+          keyboardType="numbers-and-punctuation"
+          {...text('pairedOn')}
+        />
+        <TextField
+          label={t('breeding.form.setUpOn')}
+          placeholder="2025-06-10"
+          keyboardType="numbers-and-punctuation"
+          {...text('setUpOn')}
+        />
+        <TextField label={t('form.notes')} multiline {...text('notes')} />
+        <Button title={t('form.record')} onPress={submit} />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+});
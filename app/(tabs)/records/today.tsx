@@ -0,0 +1,74 @@
+import { Platform, ScrollView, StyleSheet, Switch, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { AgendaRow } from '@/components/care/agenda-row';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useCareAgenda, useCareHydrated, useCareNotificationsEnabled } from '@/hooks/use-care';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { toggleCareReminders } from '@/lib/care/notifications';
+
+const UPCOMING_DAYS = 7;
+
+export default function TodayScreen() {
+  const hydrated = useCareHydrated();
+  const agenda = useCareAgenda(UPCOMING_DAYS);
+  const notificationsEnabled = useCareNotificationsEnabled();
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+
+  const due = agenda.filter((item) => item.overdueDays >= 0);
+  const upcoming = agenda.filter((item) => item.overdueDays < 0).reverse();
+
+  if (!hydrated) {
+    return <AsyncStatus loading />;
+  }
+
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      <ThemedView style={styles.content}>
+        {Platform.OS !== 'web' && (
+          <View style={styles.switchRow}>
+            <ThemedText style={styles.switchLabel}>{t('care.notify')}</ThemedText>
+            <Switch
+              value={notificationsEnabled}
+              onValueChange={(enabled) => {
+                toggleCareReminders(enabled);
+              }}
+            />
+          </View>
+        )}
+        <ThemedText type="subtitle">{t('care.today')}</ThemedText>
+        {due.length === 0 ? (
+          <ThemedText style={styles.muted}>{t('care.nothingToday')}</ThemedText>
+        ) : (
+          due.map((item) => <AgendaRow key={item.task.id} {...item} />)
+        )}
+        <ThemedText type="subtitle">{t('care.upcoming', { days: UPCOMING_DAYS })}</ThemedText>
+        {upcoming.length === 0 ? (
+          <ThemedText style={styles.muted}>{t('care.nothingUpcoming')}</ThemedText>
+        ) : (
+          upcoming.map((item) => <AgendaRow key={item.task.id} {...item} />)
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
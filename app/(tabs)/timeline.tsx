@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+
+import { OutboxBanner } from '@/components/compose/outbox-banner';
+import { FeedList } from '@/components/feed/feed-list';
+import { useTimeline } from '@/hooks/use-feed';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useLastPostedAt } from '@/hooks/use-outbox';
+
+export default function TimelineScreen() {
+  const timeline = useTimeline();
+  const lastPostedAt = useLastPostedAt();
+  const [openedAt] = useState(() => new Date().toISOString());
+  const { refresh } = timeline;
+  const { t } = useTranslation();
+
+  // Show a queued post as soon as it goes out, but not ones posted before this screen opened.
+  useEffect(() => {
+    if (lastPostedAt && lastPostedAt > openedAt) {
+      refresh();
+    }
+  }, [lastPostedAt, openedAt, refresh]);
+
+  return (
+    <FeedList
+      feed={timeline}
+      emptyMessage={t('feed.empty')}
+      ListHeaderComponent={<OutboxBanner />}
+    />
+  );
+}
@@ -0,0 +1,24 @@
+import { ScrollViewStyleReset } from 'expo-router/html';
+import type { PropsWithChildren } from 'react';
+
+import { config } from '@/tamagui.config';
+
+/**
+ * The HTML shell for the static web export. Only runs in Node during rendering, so it has no
+ * access to the DOM or the app's stores. Tamagui's theme variables are inlined here so statically
+ * rendered pages are styled before the JavaScript loads.
+ */
+export default function Root({ children }: PropsWithChildren) {
+  return (
+    <html lang="ja">
+      <head>
+        <meta charSet="utf-8" />
+        <meta httpEquiv="X-UA-Compatible" content="IE=edge" />
+        <meta name="viewport" content="width=device-width, initial-scale=1, shrink-to-fit=no" />
+        <ScrollViewStyleReset />
+        <style dangerouslySetInnerHTML={{ __html: config.getCSS() }} />
+      </head>
+      <body>{children}</body>
+    </html>
+  );
+}
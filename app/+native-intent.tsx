@@ -0,0 +1,10 @@
+import { resolveIncomingLink } from '@/lib/links';
+
+/** Sends share links and other incoming URLs to the route they stand for; see `resolveIncomingLink`. */
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    return resolveIncomingLink(path);
+  } catch {
+    return '/';
+  }
+}
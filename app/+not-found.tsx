@@ -0,0 +1,16 @@
+import { AsyncStatus } from '@/components/async-status';
+import { useTranslation } from '@/hooks/use-i18n';
+
+/** Unknown paths, including links to pages that no longer exist. */
+export default function NotFoundScreen() {
+  const { t } = useTranslation();
+
+  return (
+    <AsyncStatus
+      loading={false}
+      empty
+      emptyMessage={t('share.notFound')}
+      emptyAction={{ href: '/', label: t('share.backHome') }}
+    />
+  );
+}
@@ -2,8 +2,21 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
+import { TamaguiProvider } from 'tamagui';
 
+import { AuthProvider } from '@/components/auth/auth-provider';
+import { BiometricLock } from '@/components/auth/biometric-lock';
+import { CareReminderSync } from '@/components/care/care-reminder-sync';
+import { FeedSync } from '@/components/feed/feed-sync';
+import { LocaleSync } from '@/components/i18n/locale-sync';
+import { NotificationSync } from '@/components/notifications/notification-sync';
+import { TermsGate } from '@/components/pages/terms-gate';
+import { RecordsSync } from '@/components/records/records-sync';
+import { InquirySync } from '@/components/support/inquiry-sync';
+import { useAuth } from '@/hooks/use-auth';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useTranslation } from '@/hooks/use-i18n';
+import { config } from '@/tamagui.config';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -11,14 +24,53 @@ export const unstable_settings = {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  const { t } = useTranslation();
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <TamaguiProvider config={config} defaultTheme={colorScheme ?? 'light'}>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <AuthProvider>
+          <Stack>
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="checkout" options={{ headerShown: false }} />
+            <Stack.Screen name="posts/[id]" options={{ title: t('screens.post') }} />
+            <Stack.Screen name="hashtags/index" options={{ title: t('screens.hashtagSearch') }} />
+            <Stack.Screen name="hashtags/[tag]" options={{ title: t('screens.hashtag') }} />
+            <Stack.Screen name="trends" options={{ title: t('screens.trends') }} />
+            <Stack.Screen name="users/[id]/index" options={{ title: t('screens.profile') }} />
+            <Stack.Screen
+              name="users/[id]/individuals/[individualId]"
+              options={{ title: t('screens.sharedIndividual') }}
+            />
+            <Stack.Screen name="notifications" options={{ title: t('screens.notifications') }} />
+            <Stack.Screen name="search" options={{ title: t('screens.search') }} />
+            <Stack.Screen name="features/[slug]" options={{ title: t('screens.feature') }} />
+            <Stack.Screen name="faq" options={{ title: t('screens.faq') }} />
+            <Stack.Screen name="contact" options={{ title: t('screens.contact') }} />
+            <Stack.Screen name="+not-found" options={{ title: t('screens.notFound') }} />
+            <Stack.Screen name="login" options={{ presentation: 'modal' }} />
+            <Stack.Screen name="signup" options={{ presentation: 'modal' }} />
+            <Stack.Screen
+              name="compose"
+              options={{ presentation: 'modal', title: t('screens.compose') }}
+            />
+          </Stack>
+          <TermsGate />
+          <AppLock />
+          <CareReminderSync />
+          <FeedSync />
+          <InquirySync />
+          <LocaleSync />
+          <NotificationSync />
+          <RecordsSync />
+        </AuthProvider>
+        <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      </ThemeProvider>
+    </TamaguiProvider>
   );
 }
+
+function AppLock() {
+  const { locked } = useAuth();
+  return locked ? <BiometricLock /> : null;
+}
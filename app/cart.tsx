@@ -0,0 +1,92 @@
+import { Stack, useRouter } from 'expo-router';
+import { FlatList, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { CartLineRow } from '@/components/cart/cart-line-row';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { CHECKOUT_HREFS } from '@/hooks/use-checkout';
+import { useCart } from '@/hooks/use-cart';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { describeCartIssue, issuesForProduct } from '@/lib/cart';
+import { formatPrice } from '@/lib/catalog';
+import { startCheckout } from '@/lib/checkout';
+
+export default function CartScreen() {
+  const router = useRouter();
+  const { locale, t } = useTranslation();
+  const cart = useCart();
+  const backgroundColor = useThemeColor({}, 'background');
+  const danger = useThemeColor({}, 'danger');
+  const orderIssues = cart.issues.filter((issue) => issue.kind === 'mixed-handling');
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t('tabs.cart') }} />
+      <FlatList
+        data={cart.lines}
+        keyExtractor={(line) => line.productId}
+        renderItem={({ item }) => (
+          <CartLineRow
+            line={item}
+            issues={issuesForProduct(cart.issues, item.productId).filter(
+              (issue) => issue.kind !== 'mixed-handling'
+            )}
+          />
+        )}
+        style={{ backgroundColor }}
+        contentContainerStyle={styles.content}
+        ListEmptyComponent={
+          <AsyncStatus
+            loading={cart.loading}
+            error={cart.error}
+            empty
+            emptyMessage={t('cart.empty')}
+            onRetry={cart.reload}
+          />
+        }
+        ListFooterComponent={
+          cart.lines.length > 0 ? (
+            <ThemedView style={styles.footer}>
+              {orderIssues.map((issue) => (
+                <ThemedText key={issue.kind} style={{ color: danger }}>
+                  {describeCartIssue(issue, locale)}
+                </ThemedText>
+              ))}
+              <ThemedView style={styles.total}>
+                <ThemedText>{t('cart.subtotal')}</ThemedText>
+                <ThemedText type="subtitle">{formatPrice(cart.subtotal)}</ThemedText>
+              </ThemedView>
+              <Button
+                title={t('cart.checkout')}
+                disabled={cart.loading || cart.issues.length > 0}
+                onPress={() => {
+                  startCheckout();
+                  router.push(CHECKOUT_HREFS.address);
+                }}
+              />
+            </ThemedView>
+          ) : null
+        }
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  footer: {
+    gap: 12,
+    paddingTop: 16,
+  },
+  total: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+});
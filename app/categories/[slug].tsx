@@ -0,0 +1,72 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { CategoryChips } from '@/components/catalog/category-chips';
+import { ProductGrid } from '@/components/catalog/product-grid';
+import { PageHead } from '@/components/seo/page-head';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useCategories, useCategory, useProducts } from '@/hooks/use-catalog';
+import { useTranslation } from '@/hooks/use-i18n';
+import { categoryMeta, loadCatalogSnapshot, snapshotCategory } from '@/lib/seo';
+
+export async function generateStaticParams() {
+  const { categories } = await loadCatalogSnapshot();
+  return categories.map((category) => ({ slug: category.slug }));
+}
+
+export default function CategoryScreen() {
+  const { slug } = useLocalSearchParams<{ slug: string }>();
+  const { t } = useTranslation();
+  const category = useCategory(slug);
+  const categories = useCategories();
+  const products = useProducts({ categorySlug: slug });
+  // The static export renders before anything loads; see `loadCatalogSnapshot`.
+  const described = category.data ?? snapshotCategory(slug);
+  const head = described && <PageHead meta={categoryMeta(described)} />;
+
+  if (!category.data) {
+    return (
+      <>
+        <Stack.Screen options={{ title: t('screens.category') }} />
+        {head}
+        <AsyncStatus
+          loading={category.loading}
+          error={category.error}
+          empty
+          emptyMessage={t('catalog.categoryNotFound')}
+          onRetry={category.reload}
+        />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: category.data.name }} />
+      {head}
+      <ProductGrid
+        products={products.data}
+        loading={products.loading}
+        error={products.error}
+        onRetry={products.reload}
+        header={
+          <ThemedView style={styles.header}>
+            <CategoryChips categories={categories.data ?? []} activeSlug={slug} />
+            <ThemedText style={styles.description}>{category.data.description}</ThemedText>
+          </ThemedView>
+        }
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    marginBottom: 4,
+  },
+  description: {
+    paddingHorizontal: 6,
+  },
+});
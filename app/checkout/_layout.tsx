@@ -0,0 +1,27 @@
+import { Stack } from 'expo-router';
+
+import { RequireAuth } from '@/components/auth/require-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+
+export default function CheckoutLayout() {
+  const { t } = useTranslation();
+
+  return (
+    <RequireAuth>
+      <Stack>
+        <Stack.Screen name="address" options={{ title: t('checkout.title.address') }} />
+        <Stack.Screen name="delivery" options={{ title: t('checkout.title.delivery') }} />
+        <Stack.Screen name="payment" options={{ title: t('checkout.title.payment') }} />
+        <Stack.Screen name="review" options={{ title: t('checkout.title.review') }} />
+        <Stack.Screen
+          name="complete"
+          options={{
+            title: t('checkout.title.complete'),
+            headerBackVisible: false,
+            gestureEnabled: false,
+          }}
+        />
+      </Stack>
+    </RequireAuth>
+  );
+}
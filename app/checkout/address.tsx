@@ -0,0 +1,99 @@
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import { StyleSheet, Switch, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { AddressForm } from '@/components/checkout/address-form';
+import { CheckoutScreen } from '@/components/checkout/checkout-screen';
+import { ThemedText } from '@/components/themed-text';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { useAddressBook } from '@/hooks/use-address-book';
+import { CHECKOUT_HREFS, useCheckoutStep } from '@/hooks/use-checkout';
+import { useTranslation } from '@/hooks/use-i18n';
+import { usePersistedStore } from '@/hooks/use-store';
+import {
+  addressBookStore,
+  isAddressSaved,
+  saveAddress,
+  setCheckoutAddress,
+  type ShippingAddress,
+} from '@/lib/checkout';
+
+export default function AddressScreen() {
+  const checkout = useCheckoutStep('address');
+  const book = useAddressBook();
+
+  return (
+    <CheckoutScreen step="address" checkout={checkout}>
+      {book.loading ? (
+        <AsyncStatus loading />
+      ) : (
+        <AddressStep
+          initial={
+            checkout.state.address ??
+            book.addresses.find((address) => address.id === book.defaultId)
+          }
+        />
+      )}
+    </CheckoutScreen>
+  );
+}
+
+function AddressStep({ initial }: { initial?: ShippingAddress }) {
+  const router = useRouter();
+  const { ownerId, addresses } = useAddressBook();
+  const bookState = usePersistedStore(addressBookStore, (state) => state);
+  const [selected, setSelected] = useState<{ id?: string; address?: ShippingAddress }>({
+    address: initial,
+  });
+  const [remember, setRemember] = useState(addresses.length === 0);
+  const { t } = useTranslation();
+
+  const submit = (address: ShippingAddress) => {
+    if (remember && !isAddressSaved(bookState, ownerId, address)) {
+      saveAddress(ownerId, address);
+    }
+    setCheckoutAddress(address);
+    router.push(CHECKOUT_HREFS.delivery);
+  };
+
+  return (
+    <>
+      {addresses.length > 0 && (
+        <ChipSelect
+          label={t('checkout.savedAddresses')}
+          options={addresses.map((address) => ({
+            value: address.id,
+            label: `${address.name} (${address.prefecture}${address.city})`,
+          }))}
+          value={selected.id}
+          onChange={(id) =>
+            setSelected({ id, address: addresses.find((address) => address.id === id) })
+          }
+        />
+      )}
+      {/* Remounted on selection so the fields start from the chosen address. */}
+      <AddressForm
+        key={selected.id ?? 'initial'}
+        initial={selected.address}
+        submitTitle={t('checkout.toDelivery')}
+        onSubmit={submit}>
+        <View style={styles.row}>
+          <ThemedText style={styles.label}>{t('checkout.rememberAddress')}</ThemedText>
+          <Switch value={remember} onValueChange={setRemember} />
+        </View>
+      </AddressForm>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  label: {
+    flex: 1,
+  },
+});
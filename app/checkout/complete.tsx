@@ -0,0 +1,53 @@
+import { useRouter } from 'expo-router';
+import { StyleSheet } from 'react-native';
+
+import { CheckoutScreen } from '@/components/checkout/checkout-screen';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { useCheckoutStep } from '@/hooks/use-checkout';
+import { useTranslation } from '@/hooks/use-i18n';
+import { formatPrice } from '@/lib/catalog';
+
+export default function CompleteScreen() {
+  const router = useRouter();
+  const checkout = useCheckoutStep('complete');
+  const { order } = checkout.state;
+  const { t } = useTranslation();
+
+  return (
+    <CheckoutScreen step="complete" checkout={checkout}>
+      {order && (
+        <ThemedView style={styles.content}>
+          <ThemedText type="subtitle">{t('checkout.thanks')}</ThemedText>
+          <ThemedText>{t('checkout.orderNumber')}</ThemedText>
+          <ThemedText type="title" selectable>
+            {order.orderNumber}
+          </ThemedText>
+          <ThemedText>
+            {t('checkout.amountPaid', {
+              amount: formatPrice(order.totals.totalYen),
+              method: t(`payment.method.${order.payment.method}`),
+            })}
+          </ThemedText>
+          <ThemedText style={styles.note}>
+            {order.status === 'pending-payment'
+              ? t('checkout.shipsAfterPayment')
+              : t('checkout.shipsAfterCheck')}
+          </ThemedText>
+          <Button title={t('checkout.backToShop')} onPress={() => router.dismissTo('/')} />
+        </ThemedView>
+      )}
+    </CheckoutScreen>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    gap: 12,
+    alignItems: 'stretch',
+  },
+  note: {
+    opacity: 0.7,
+  },
+});
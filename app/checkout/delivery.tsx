@@ -0,0 +1,100 @@
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+
+import { CheckoutScreen } from '@/components/checkout/checkout-screen';
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { ChoiceList } from '@/components/ui/choice-list';
+import { CHECKOUT_HREFS, useCheckoutStep } from '@/hooks/use-checkout';
+import { useTranslation } from '@/hooks/use-i18n';
+import {
+  availableDeliveryDates,
+  cartRequiresCool,
+  DELIVERY_METHODS,
+  setCheckoutDelivery,
+  TIME_SLOTS,
+  validateDelivery,
+  type DeliverySelection,
+  type FieldErrors,
+} from '@/lib/checkout';
+import { hasErrors } from '@/lib/forms';
+
+const EARLIEST = 'earliest';
+
+export default function DeliveryScreen() {
+  const checkout = useCheckoutStep('delivery');
+
+  return (
+    <CheckoutScreen step="delivery" checkout={checkout}>
+      <DeliveryForm
+        initial={checkout.state.delivery}
+        today={checkout.context.today}
+        requiresCool={cartRequiresCool(checkout.context.cart)}
+      />
+    </CheckoutScreen>
+  );
+}
+
+type Props = {
+  initial?: DeliverySelection;
+  today: Date;
+  requiresCool: boolean;
+};
+
+function DeliveryForm({ initial, today, requiresCool }: Props) {
+  const router = useRouter();
+  const [selection, setSelection] = useState<DeliverySelection>(
+    initial ?? { method: requiresCool ? 'cool' : 'standard', date: null, timeSlot: 'unspecified' }
+  );
+  const [errors, setErrors] = useState<FieldErrors<DeliverySelection>>({});
+  const { t } = useTranslation();
+
+  const submit = () => {
+    const nextErrors = validateDelivery(selection, { today, requiresCool });
+    if (hasErrors(nextErrors)) {
+      setErrors(nextErrors);
+      return;
+    }
+    setCheckoutDelivery(selection);
+    router.push(CHECKOUT_HREFS.payment);
+  };
+
+  return (
+    <>
+      <ChoiceList
+        choices={DELIVERY_METHODS.map((method) => ({
+          value: method,
+          label: t(`delivery.method.${method}`),
+          description: t(`delivery.methodDescription.${method}`),
+          disabled: requiresCool && method !== 'cool',
+        }))}
+        value={selection.method}
+        onChange={(method) => setSelection((current) => ({ ...current, method }))}
+        error={errors.method}
+      />
+      <ChipSelect
+        label={t('delivery.date')}
+        options={[
+          { value: EARLIEST, label: t('delivery.earliest') },
+          ...availableDeliveryDates(today).map((date) => ({
+            value: date,
+            label: date.slice(5).replace('-', '/'),
+          })),
+        ]}
+        value={selection.date ?? EARLIEST}
+        onChange={(date) =>
+          setSelection((current) => ({ ...current, date: date === EARLIEST ? null : date }))
+        }
+        error={errors.date}
+      />
+      <ChipSelect
+        label={t('delivery.timeSlot')}
+        options={TIME_SLOTS.map((slot) => ({ value: slot, label: t(`delivery.timeSlot.${slot}`) }))}
+        value={selection.timeSlot}
+        onChange={(timeSlot) => setSelection((current) => ({ ...current, timeSlot }))}
+        error={errors.timeSlot}
+      />
+      <Button title={t('checkout.toPayment')} onPress={submit} />
+    </>
+  );
+}
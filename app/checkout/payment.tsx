@@ -0,0 +1,152 @@
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { CheckoutScreen } from '@/components/checkout/checkout-screen';
+import { OrderSummary } from '@/components/checkout/order-summary';
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { ChoiceList } from '@/components/ui/choice-list';
+import { TextField } from '@/components/ui/text-field';
+import { CHECKOUT_HREFS, useCheckoutStep } from '@/hooks/use-checkout';
+import { useTranslation } from '@/hooks/use-i18n';
+import { usePointBalance } from '@/hooks/use-points';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { cartSubtotal } from '@/lib/cart';
+import { formatPrice } from '@/lib/catalog';
+import {
+  calculateTotals,
+  FREE_SHIPPING_THRESHOLD_YEN,
+  PAYMENT_METHODS,
+  setCheckoutPayment,
+  validatePayment,
+  type DeliverySelection,
+  type FieldErrors,
+  type PaymentMethod,
+  type PaymentSelection,
+} from '@/lib/checkout';
+import { hasErrors } from '@/lib/forms';
+import { formatPoints, usablePoints } from '@/lib/points';
+
+export default function PaymentScreen() {
+  const checkout = useCheckoutStep('payment');
+
+  return (
+    <CheckoutScreen step="payment" checkout={checkout}>
+      <PaymentForm
+        initial={checkout.state.payment}
+        delivery={checkout.state.delivery}
+        subtotalYen={cartSubtotal(checkout.context.cart)}
+      />
+    </CheckoutScreen>
+  );
+}
+
+type Props = {
+  initial?: PaymentSelection;
+  delivery?: DeliverySelection;
+  subtotalYen: number;
+};
+
+type PointsMode = 'none' | 'all' | 'some';
+
+const POINTS_MODES: PointsMode[] = ['none', 'all', 'some'];
+
+function PaymentForm({ initial, delivery, subtotalYen }: Props) {
+  const danger = useThemeColor({}, 'danger');
+  const router = useRouter();
+  const balance = usePointBalance();
+  const { t } = useTranslation();
+  const [method, setMethod] = useState<PaymentMethod | undefined>(initial?.method);
+  const [pointsMode, setPointsMode] = useState<PointsMode>(initial?.points ? 'some' : 'none');
+  const [pointsInput, setPointsInput] = useState(initial?.points ? String(initial.points) : '');
+  const [errors, setErrors] = useState<FieldErrors<PaymentSelection>>({});
+  const usable = usablePoints(balance.data?.balance ?? 0, subtotalYen);
+  const points =
+    pointsMode === 'all' ? usable : pointsMode === 'some' ? Number(pointsInput || 0) : 0;
+  // The totals ignore an amount that is still being typed and is not a whole number yet.
+  const totals = calculateTotals(subtotalYen, delivery, {
+    method,
+    points: Number.isInteger(points) ? points : 0,
+  });
+  const losesFreeShipping =
+    totals.shippingYen > calculateTotals(subtotalYen, delivery, { method }).shippingYen;
+
+  const submit = () => {
+    if (!method) {
+      setErrors({ method: t('payment.error.method') });
+      return;
+    }
+    const selection: PaymentSelection = points > 0 ? { method, points } : { method };
+    const nextErrors = validatePayment(selection, {
+      ...totals,
+      pointBalance: balance.data?.balance,
+    });
+    if (hasErrors(nextErrors)) {
+      setErrors(nextErrors);
+      return;
+    }
+    setCheckoutPayment(selection);
+    router.push(CHECKOUT_HREFS.review);
+  };
+
+  return (
+    <>
+      <ChoiceList
+        choices={(Object.keys(PAYMENT_METHODS) as PaymentMethod[]).map((value) => {
+          const { feeYen } = PAYMENT_METHODS[value];
+          const label = t(`payment.method.${value}`);
+          return {
+            value,
+            label:
+              feeYen > 0
+                ? t('payment.withFee', { method: label, fee: formatPrice(feeYen) })
+                : label,
+            description: t(`payment.methodDescription.${value}`),
+          };
+        })}
+        value={method}
+        onChange={setMethod}
+        error={errors.method}
+      />
+      {usable > 0 && (
+        <View style={styles.points}>
+          <ChipSelect
+            label={t('payment.points', { balance: formatPoints(balance.data?.balance ?? 0) })}
+            options={POINTS_MODES.map((value) => ({
+              value,
+              label: t(`payment.pointsMode.${value}`),
+            }))}
+            value={pointsMode}
+            onChange={setPointsMode}
+          />
+          {pointsMode === 'some' && (
+            <TextField
+              label={t('payment.pointsAmount', { usable: formatPoints(usable) })}
+              value={pointsInput}
+              onChangeText={setPointsInput}
+              keyboardType="number-pad"
+              error={errors.points}
+            />
+          )}
+          {losesFreeShipping && (
+            <ThemedText style={{ color: danger }}>
+              {t('payment.losesFreeShipping', {
+                threshold: formatPrice(FREE_SHIPPING_THRESHOLD_YEN),
+              })}
+            </ThemedText>
+          )}
+        </View>
+      )}
+      <OrderSummary totals={totals} />
+      <Button title={t('checkout.toReview')} onPress={submit} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  points: {
+    gap: 12,
+  },
+});
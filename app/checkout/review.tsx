@@ -0,0 +1,160 @@
+import { Link, useRouter } from 'expo-router';
+import { useState, type PropsWithChildren } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { CheckoutScreen } from '@/components/checkout/checkout-screen';
+import { OrderSummary } from '@/components/checkout/order-summary';
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { CHECKOUT_HREFS, useCheckoutStep } from '@/hooks/use-checkout';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { cartSubtotal, clearCart, type ResolvedCartLine } from '@/lib/cart';
+import { formatPrice } from '@/lib/catalog';
+import {
+  calculateTotals,
+  completeCheckout,
+  formatAddress,
+  getOrderApi,
+  type CheckoutState,
+  type CheckoutStep,
+} from '@/lib/checkout';
+import { addNotifications, notificationFromOrder, notifyOrderChanges } from '@/lib/notifications';
+import { formatPoints } from '@/lib/points';
+
+export default function ReviewScreen() {
+  const checkout = useCheckoutStep('review');
+
+  return (
+    <CheckoutScreen step="review" checkout={checkout}>
+      <Review state={checkout.state} cart={checkout.context.cart} />
+    </CheckoutScreen>
+  );
+}
+
+function Section({
+  title,
+  edit,
+  children,
+}: PropsWithChildren<{ title: string; edit: CheckoutStep }>) {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <ThemedText type="defaultSemiBold">{title}</ThemedText>
+        <Link href={CHECKOUT_HREFS[edit]}>
+          <ThemedText type="link">{t('checkout.change')}</ThemedText>
+        </Link>
+      </View>
+      {children}
+    </View>
+  );
+}
+
+function Review({ state, cart }: { state: CheckoutState; cart: ResolvedCartLine[] }) {
+  const router = useRouter();
+  const [placing, setPlacing] = useState(false);
+  const [error, setError] = useState<string>();
+  const { t } = useTranslation();
+  const danger = useThemeColor({}, 'danger');
+  const { address, delivery, payment } = state;
+  const totals = calculateTotals(cartSubtotal(cart), delivery, payment);
+
+  if (!address || !delivery || !payment) {
+    return null;
+  }
+
+  const placeOrder = async () => {
+    setPlacing(true);
+    setError(undefined);
+    try {
+      const order = await getOrderApi().placeOrder({
+        lines: cart.flatMap(({ product, quantity }) =>
+          product
+            ? [
+                {
+                  productId: product.id,
+                  title: product.title,
+                  quantity,
+                  unitPriceYen: product.priceYen,
+                },
+              ]
+            : []
+        ),
+        address,
+        delivery,
+        payment,
+        totals,
+      });
+      completeCheckout(order);
+      addNotifications([notificationFromOrder(order)]);
+      notifyOrderChanges([order]);
+      clearCart();
+      router.replace(CHECKOUT_HREFS.complete);
+    } catch (placeError) {
+      setError(placeError instanceof Error ? placeError.message : String(placeError));
+      setPlacing(false);
+    }
+  };
+
+  return (
+    <>
+      <View style={styles.section}>
+        <ThemedText type="defaultSemiBold">{t('checkout.items')}</ThemedText>
+        {cart.map(({ productId, product, quantity }) => (
+          <View key={productId} style={styles.line}>
+            <ThemedText style={styles.lineTitle} numberOfLines={2}>
+              {product?.title} × {quantity}
+            </ThemedText>
+            <ThemedText>{formatPrice((product?.priceYen ?? 0) * quantity)}</ThemedText>
+          </View>
+        ))}
+      </View>
+      <Section title={t('checkout.shipTo')} edit="address">
+        <ThemedText>{t('checkout.recipient', { name: address.name })}</ThemedText>
+        <ThemedText>{formatAddress(address)}</ThemedText>
+        <ThemedText>{address.phone}</ThemedText>
+      </Section>
+      <Section title={t('checkout.deliveryMethod')} edit="delivery">
+        <ThemedText>{t(`delivery.method.${delivery.method}`)}</ThemedText>
+        <ThemedText>
+          {t('delivery.schedule', {
+            date: delivery.date ?? t('delivery.earliest'),
+            timeSlot: t(`delivery.timeSlot.${delivery.timeSlot}`),
+          })}
+        </ThemedText>
+      </Section>
+      <Section title={t('checkout.paymentMethod')} edit="payment">
+        <ThemedText>{t(`payment.method.${payment.method}`)}</ThemedText>
+        {totals.pointsYen > 0 && (
+          <ThemedText>
+            {t('checkout.pointsUsed', { points: formatPoints(totals.pointsYen) })}
+          </ThemedText>
+        )}
+      </Section>
+      <OrderSummary totals={totals} />
+      {error && <ThemedText style={{ color: danger }}>{error}</ThemedText>}
+      <Button title={t('checkout.placeOrder')} loading={placing} onPress={placeOrder} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    gap: 4,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  line: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  lineTitle: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,252 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, TextInput, View } from 'react-native';
+
+import { RequireAuth } from '@/components/auth/require-auth';
+import { HashtagSuggestions } from '@/components/compose/hashtag-suggestions';
+import { ImageAttachments } from '@/components/compose/image-attachments';
+import { UploadProgress } from '@/components/compose/upload-progress';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useOutboxItem } from '@/hooks/use-outbox';
+import { useIndividuals } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import {
+  enqueuePost,
+  MAX_POST_IMAGES,
+  MAX_POST_LENGTH,
+  validatePostDraft,
+  type ComposeImage,
+  type PostDraft,
+} from '@/lib/compose';
+import { deleteComposeImages, pickComposeImages } from '@/lib/compose/media';
+import { flushOutbox } from '@/lib/compose/sync';
+import { completeHashtag, hashtagQueryAt } from '@/lib/feed';
+import { hasErrors, type FieldErrors } from '@/lib/forms';
+
+type Selection = { start: number; end: number };
+
+function Composer() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ individualId?: string }>();
+  const individuals = useIndividuals();
+  const color = useThemeColor({}, 'color');
+  const icon = useThemeColor({}, 'icon');
+  const backgroundColor = useThemeColor({}, 'background');
+  const danger = useThemeColor({}, 'danger');
+  const { t } = useTranslation();
+
+  const [body, setBody] = useState('');
+  const [cursor, setCursor] = useState(0);
+  // Only set right after a hashtag is completed, to move the caret past it.
+  const [forcedSelection, setForcedSelection] = useState<Selection>();
+  const [images, setImages] = useState<ComposeImage[]>([]);
+  const [individualId, setIndividualId] = useState(params.individualId ?? '');
+  const [errors, setErrors] = useState<FieldErrors<PostDraft>>({});
+  const [picking, setPicking] = useState(false);
+  const [pickError, setPickError] = useState<string>();
+  const [outboxId, setOutboxId] = useState<string | null>(null);
+  const queued = useOutboxItem(outboxId);
+
+  // The outbox drops an item once it is posted.
+  useEffect(() => {
+    if (outboxId && !queued) {
+      router.back();
+    }
+  }, [outboxId, queued, router]);
+
+  const hashtag = hashtagQueryAt(body, cursor);
+  const remaining = MAX_POST_IMAGES - images.length;
+
+  async function attach(source: 'camera' | 'library') {
+    setPicking(true);
+    setPickError(undefined);
+    try {
+      const picked = await pickComposeImages(source, remaining);
+      setImages((current) => [...current, ...picked].slice(0, MAX_POST_IMAGES));
+    } catch {
+      setPickError(t('compose.error.unreadableImage'));
+    } finally {
+      setPicking(false);
+    }
+  }
+
+  function submit() {
+    const individual = individuals.find((candidate) => candidate.id === individualId);
+    const draft: PostDraft = {
+      body,
+      images,
+      individual: individual && {
+        id: individual.id,
+        label: individual.label,
+        japaneseName: individual.species.japaneseName,
+        scientificName: individual.species.scientificName,
+      },
+    };
+    const nextErrors = validatePostDraft(draft);
+    setErrors(nextErrors);
+    if (hasErrors(nextErrors)) {
+      return;
+    }
+    setOutboxId(enqueuePost(draft));
+    flushOutbox();
+  }
+
+  if (queued) {
+    return (
+      <ThemedView style={[styles.content, styles.fill]}>
+        <ThemedText type="subtitle">{t('compose.posting')}</ThemedText>
+        <UploadProgress item={queued} />
+        {queued.status !== 'sending' && queued.status !== 'pending' && (
+          <>
+            <ThemedText>{t('compose.savedHint')}</ThemedText>
+            <Button title={t('common.close')} onPress={() => router.back()} />
+          </>
+        )}
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <View style={styles.field}>
+          <TextInput
+            accessibilityLabel={t('compose.body')}
+            placeholder={t('compose.placeholder')}
+            placeholderTextColor={icon}
+            multiline
+            autoFocus
+            value={body}
+            selection={forcedSelection}
+            onChangeText={setBody}
+            onSelectionChange={(event) => {
+              setCursor(event.nativeEvent.selection.end);
+              setForcedSelection(undefined);
+            }}
+            style={[styles.input, { color, borderColor: errors.body ? danger : icon }]}
+          />
+          <View style={styles.meta}>
+            {errors.body ? (
+              <ThemedText style={{ color: danger }}>{errors.body}</ThemedText>
+            ) : (
+              <View />
+            )}
+            <ThemedText
+              style={[styles.counter, body.trim().length > MAX_POST_LENGTH && { color: danger }]}>
+              {body.trim().length}/{MAX_POST_LENGTH}
+            </ThemedText>
+          </View>
+          <HashtagSuggestions
+            query={hashtag?.query ?? null}
+            onSelect={(tag) => {
+              const completed = completeHashtag(body, cursor, tag);
+              setBody(completed.text);
+              setCursor(completed.cursor);
+              setForcedSelection({ start: completed.cursor, end: completed.cursor });
+            }}
+          />
+        </View>
+
+        <ImageAttachments
+          images={images}
+          onRemove={(uri) => {
+            deleteComposeImages(images.filter((image) => image.uri === uri));
+            setImages((current) => current.filter((image) => image.uri !== uri));
+          }}
+        />
+        <View style={styles.buttons}>
+          <Button
+            title={t('compose.pickPhotos')}
+            variant="secondary"
+            loading={picking}
+            disabled={remaining <= 0}
+            onPress={() => attach('library')}
+            style={styles.button}
+          />
+          {process.env.EXPO_OS !== 'web' && (
+            <Button
+              title={t('compose.takePhoto')}
+              variant="secondary"
+              disabled={picking || remaining <= 0}
+              onPress={() => attach('camera')}
+              style={styles.button}
+            />
+          )}
+        </View>
+        {(pickError ?? errors.images) && (
+          <ThemedText style={{ color: danger }}>{pickError ?? errors.images}</ThemedText>
+        )}
+
+        {individuals.length > 0 && (
+          <ChipSelect
+            label={t('compose.linkIndividual')}
+            options={[
+              { value: '', label: t('compose.noIndividual') },
+              ...individuals.map((individual) => ({
+                value: individual.id,
+                label: t('compose.individualOption', {
+                  label: individual.label,
+                  species: individual.species.japaneseName,
+                }),
+              })),
+            ]}
+            value={individualId}
+            onChange={setIndividualId}
+          />
+        )}
+
+        <Button title={t('compose.submit')} disabled={picking} onPress={submit} />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+export default function ComposeScreen() {
+  return (
+    <RequireAuth>
+      <Composer />
+    </RequireAuth>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  fill: {
+    flex: 1,
+  },
+  field: {
+    gap: 4,
+  },
+  input: {
+    minHeight: 140,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    textAlignVertical: 'top',
+  },
+  meta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  counter: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,159 @@
+import { Link, useLocalSearchParams } from 'expo-router';
+import { useState } from 'react';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { InquiryList } from '@/components/support/inquiry-list';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { TextField } from '@/components/ui/text-field';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useOrders } from '@/hooks/use-orders';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { FieldErrors } from '@/lib/forms';
+import { createId } from '@/lib/id';
+import {
+  EMPTY_INQUIRY_DRAFT,
+  enqueueInquiry,
+  flushInquiries,
+  INQUIRY_CATEGORIES,
+  MAX_INQUIRY_LENGTH,
+  ORDER_INQUIRY_CATEGORIES,
+  toInquiry,
+  validateInquiry,
+  type InquiryCategory,
+  type InquiryDraft,
+} from '@/lib/support';
+
+const RECENT_ORDER_COUNT = 5;
+
+type TextKey = 'name' | 'email' | 'orderNumber' | 'body';
+
+/** The member's latest orders, so the order number can be picked instead of typed. */
+function RecentOrders({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const orders = useOrders('all');
+  const options = orders.items
+    .slice(0, RECENT_ORDER_COUNT)
+    .map((order) => ({ value: order.orderNumber, label: order.orderNumber }));
+  const { t } = useTranslation();
+
+  if (options.length === 0) {
+    return null;
+  }
+  return (
+    <ChipSelect
+      label={t('support.recentOrders')}
+      options={options}
+      value={value}
+      onChange={onChange}
+    />
+  );
+}
+
+export default function ContactScreen() {
+  const params = useLocalSearchParams<{ category?: string; orderNumber?: string }>();
+  const { session } = useAuth();
+  const backgroundColor = useThemeColor({}, 'background');
+  const { locale, t } = useTranslation();
+  const [draft, setDraft] = useState<InquiryDraft>(() => ({
+    ...EMPTY_INQUIRY_DRAFT,
+    category: INQUIRY_CATEGORIES.find((category) => category === params.category),
+    name: session?.user.displayName ?? '',
+    email: session?.user.email ?? '',
+    orderNumber: params.orderNumber ?? '',
+  }));
+  const [errors, setErrors] = useState<FieldErrors<InquiryDraft>>({});
+  const [submitted, setSubmitted] = useState(false);
+
+  const set = <K extends keyof InquiryDraft>(name: K, value: InquiryDraft[K]) =>
+    setDraft((current) => ({ ...current, [name]: value }));
+  const text = (name: TextKey) => ({
+    value: draft[name],
+    onChangeText: (value: string) => set(name, value),
+    error: errors[name],
+  });
+  const needsOrder = !!draft.category && ORDER_INQUIRY_CATEGORIES.includes(draft.category);
+
+  const submit = () => {
+    const inquiry = toInquiry(draft, { id: createId('inquiry'), userId: session?.user.id });
+    if (!inquiry) {
+      setErrors(validateInquiry(draft, locale));
+      return;
+    }
+    enqueueInquiry(inquiry);
+    flushInquiries();
+    setErrors({});
+    setDraft((current) => ({ ...current, category: undefined, orderNumber: '', body: '' }));
+    setSubmitted(true);
+  };
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        {submitted && <ThemedText color="$success">{t('support.received')}</ThemedText>}
+        <ThemedText style={styles.meta}>{t('support.replyByEmail')}</ThemedText>
+        <Link href="/faq">
+          <ThemedText type="link">{t('support.faqLink')}</ThemedText>
+        </Link>
+        <ChipSelect<InquiryCategory>
+          label={t('support.category')}
+          options={INQUIRY_CATEGORIES.map((value) => ({
+            value,
+            label: t(`support.category.${value}`),
+          }))}
+          value={draft.category}
+          onChange={(category) => set('category', category)}
+          error={errors.category}
+        />
+        <TextField
+          label={t('support.name')}
+          autoComplete="name"
+          textContentType="name"
+          {...text('name')}
+        />
+        <TextField
+          label={t('support.email')}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoComplete="email"
+          textContentType="emailAddress"
+          {...text('email')}
+        />
+        {session && (
+          <RecentOrders
+            value={draft.orderNumber}
+            onChange={(orderNumber) => set('orderNumber', orderNumber)}
+          />
+        )}
+        <TextField
+          label={needsOrder ? t('support.orderNumber') : t('support.orderNumberOptional')}
+          placeholder="20261019-0001"
+          keyboardType="numbers-and-punctuation"
+          autoCapitalize="none"
+          {...text('orderNumber')}
+        />
+        <TextField
+          label={t('support.body', { max: MAX_INQUIRY_LENGTH })}
+          multiline
+          {...text('body')}
+        />
+        <Button title={t('support.submit')} onPress={submit} />
+        <InquiryList />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
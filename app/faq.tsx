@@ -0,0 +1,72 @@
+import { Link } from 'expo-router';
+import { useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { RichText } from '@/components/content/rich-text';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Collapsible } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { FAQ_ENTRIES, searchFaq } from '@/lib/pages';
+
+export default function FaqScreen() {
+  const [query, setQuery] = useState('');
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+  const sections = searchFaq(FAQ_ENTRIES, query);
+
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.content}>
+        <Input
+          value={query}
+          onChangeText={setQuery}
+          placeholder={t('faq.searchPlaceholder')}
+          aria-label={t('faq.searchLabel')}
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+        {sections.length === 0 && (
+          <AsyncStatus loading={false} empty emptyMessage={t('faq.empty')} />
+        )}
+        {sections.map((section) => (
+          <View key={section.category} style={styles.section}>
+            <ThemedText type="subtitle">{section.category}</ThemedText>
+            {section.entries.map((entry) => (
+              <Collapsible key={entry.id} title={entry.question}>
+                <RichText nodes={entry.answer} />
+              </Collapsible>
+            ))}
+          </View>
+        ))}
+        <View style={styles.footer}>
+          <ThemedText style={styles.meta}>{t('faq.stillStuck')}</ThemedText>
+          <Link href="/contact">
+            <ThemedText type="link">{t('faq.contact')}</ThemedText>
+          </Link>
+        </View>
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 24,
+  },
+  section: {
+    gap: 12,
+  },
+  footer: {
+    alignItems: 'center',
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
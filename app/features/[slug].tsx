@@ -0,0 +1,45 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+
+import { AsyncStatus } from '@/components/async-status';
+import { ContentPage } from '@/components/content/content-page';
+import { PageHead } from '@/components/seo/page-head';
+import { useContentDocument } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-i18n';
+import { featureMeta, loadFeatureSnapshot, snapshotFeature } from '@/lib/seo';
+
+export async function generateStaticParams() {
+  const features = await loadFeatureSnapshot();
+  return features.map((feature) => ({ slug: feature.slug }));
+}
+
+export default function FeatureScreen() {
+  const { slug } = useLocalSearchParams<{ slug: string }>();
+  const feature = useContentDocument(slug);
+  const { t } = useTranslation();
+  // The static export renders before anything loads; see `loadFeatureSnapshot`.
+  const described = feature.data ?? snapshotFeature(slug);
+  const head = described && <PageHead meta={featureMeta(described)} />;
+
+  if (!feature.data) {
+    return (
+      <>
+        {head}
+        <AsyncStatus
+          loading={feature.loading}
+          error={feature.error}
+          empty
+          emptyMessage={t('content.featureUnpublished')}
+          onRetry={feature.reload}
+        />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: feature.data.title }} />
+      {head}
+      <ContentPage document={feature.data} />
+    </>
+  );
+}
@@ -0,0 +1,62 @@
+import { Link, Stack, useLocalSearchParams } from 'expo-router';
+import { StyleSheet, View } from 'react-native';
+
+import { FeedList } from '@/components/feed/feed-list';
+import { ThemedText } from '@/components/themed-text';
+import { useHashtag, useHashtagPosts } from '@/hooks/use-feed';
+import { useTranslation } from '@/hooks/use-i18n';
+
+export default function HashtagScreen() {
+  const { tag } = useLocalSearchParams<{ tag: string }>();
+  const summary = useHashtag(tag);
+  const posts = useHashtagPosts(tag);
+  const { t } = useTranslation();
+  const others = (summary.data?.variants ?? []).filter((variant) => variant !== tag);
+
+  return (
+    <>
+      <Stack.Screen options={{ title: `#${tag}` }} />
+      <FeedList
+        feed={posts}
+        emptyMessage={t('hashtags.empty')}
+        ListHeaderComponent={
+          summary.data ? (
+            <View style={styles.header}>
+              <ThemedText style={styles.meta}>
+                {t('hashtags.postCount', { count: summary.data.postCount })}
+              </ThemedText>
+              {others.length > 0 && (
+                <View style={styles.variants}>
+                  <ThemedText style={styles.meta}>{t('hashtags.variants')}</ThemedText>
+                  {others.map((variant) => (
+                    <Link
+                      key={variant}
+                      href={{ pathname: '/hashtags/[tag]', params: { tag: variant } }}>
+                      <ThemedText type="link">#{variant}</ThemedText>
+                    </Link>
+                  ))}
+                </View>
+              )}
+            </View>
+          ) : undefined
+        }
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    paddingVertical: 12,
+    gap: 6,
+  },
+  meta: {
+    opacity: 0.7,
+  },
+  variants: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'baseline',
+    gap: 8,
+  },
+});
@@ -0,0 +1,107 @@
+import { Link, useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { StyleSheet, TextInput, View } from 'react-native';
+
+import { FeedList } from '@/components/feed/feed-list';
+import { TrendRow } from '@/components/feed/trend-row';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useSearchPosts, useTrends } from '@/hooks/use-feed';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { parseSearchQuery } from '@/lib/feed';
+
+const TRENDS_PREVIEW = 5;
+
+function TrendsPreview() {
+  const trends = useTrends('day');
+  const items = (trends.data ?? []).slice(0, TRENDS_PREVIEW);
+  const { t } = useTranslation();
+
+  if (items.length === 0) {
+    return null;
+  }
+  return (
+    <View style={styles.section}>
+      <ThemedText type="defaultSemiBold">{t('hashtags.trending')}</ThemedText>
+      {items.map((trend, index) => (
+        <TrendRow key={trend.key} rank={index + 1} trend={trend} />
+      ))}
+      <Link href="/trends">
+        <ThemedText type="link">{t('hashtags.allTrends')}</ThemedText>
+      </Link>
+    </View>
+  );
+}
+
+export default function HashtagSearchScreen() {
+  const router = useRouter();
+  const { q = '' } = useLocalSearchParams<{ q?: string }>();
+  const [input, setInput] = useState(q);
+  const results = useSearchPosts(q);
+  const color = useThemeColor({}, 'color');
+  const icon = useThemeColor({}, 'icon');
+  const tags = parseSearchQuery(q).tags;
+  const { t } = useTranslation();
+
+  const header = (
+    <View style={styles.header}>
+      <TextInput
+        accessibilityLabel={t('hashtags.search')}
+        placeholder={t('hashtags.searchPlaceholder')}
+        placeholderTextColor={icon}
+        value={input}
+        onChangeText={setInput}
+        onSubmitEditing={() => router.setParams({ q: input.trim() })}
+        returnKeyType="search"
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+        style={[styles.input, { color, borderColor: icon }]}
+      />
+      {tags.length > 0 && (
+        <View style={styles.tags}>
+          {tags.map((tag) => (
+            <Link key={tag} href={{ pathname: '/hashtags/[tag]', params: { tag } }}>
+              <ThemedText type="link">{t('hashtags.tagPage', { tag })}</ThemedText>
+            </Link>
+          ))}
+        </View>
+      )}
+      {!q.trim() && <TrendsPreview />}
+    </View>
+  );
+
+  if (!q.trim()) {
+    return <ThemedView style={styles.idle}>{header}</ThemedView>;
+  }
+  return (
+    <FeedList feed={results} emptyMessage={t('hashtags.noResults')} ListHeaderComponent={header} />
+  );
+}
+
+const styles = StyleSheet.create({
+  idle: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  header: {
+    paddingVertical: 12,
+    gap: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  section: {
+    gap: 4,
+  },
+});
@@ -0,0 +1,61 @@
+import { Link, Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+
+import { AuthForm } from '@/components/auth/auth-form';
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { TextField } from '@/components/ui/text-field';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import { safeRedirect } from '@/lib/auth';
+
+export default function LoginScreen() {
+  const router = useRouter();
+  const { redirect } = useLocalSearchParams<{ redirect?: string }>();
+  const { logIn } = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+  const { t } = useTranslation();
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError(undefined);
+    try {
+      await logIn({ email, password });
+      router.replace(safeRedirect(redirect));
+    } catch (logInError) {
+      setError(logInError instanceof Error ? logInError.message : String(logInError));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthForm error={error}>
+      <Stack.Screen options={{ title: t('auth.logIn') }} />
+      <TextField
+        label={t('auth.email')}
+        value={email}
+        onChangeText={setEmail}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoComplete="email"
+        textContentType="username"
+      />
+      <TextField
+        label={t('auth.password')}
+        value={password}
+        onChangeText={setPassword}
+        secureTextEntry
+        autoComplete="current-password"
+        textContentType="password"
+        onSubmitEditing={submit}
+      />
+      <Button title={t('auth.logIn')} loading={submitting} onPress={submit} />
+      <Link href={{ pathname: '/signup', params: redirect ? { redirect } : {} }} replace>
+        <ThemedText type="link">{t('auth.toSignUp')}</ThemedText>
+      </Link>
+    </AuthForm>
+  );
+}
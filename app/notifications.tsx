@@ -0,0 +1,100 @@
+import { Stack } from 'expo-router';
+import { useState } from 'react';
+import { FlatList, Pressable, RefreshControl, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { NotificationRow } from '@/components/notifications/notification-row';
+import { ThemedText } from '@/components/themed-text';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import {
+  useNotifications,
+  useOpenNotification,
+  useUnreadNotificationCount,
+} from '@/hooks/use-notifications';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getFeedClient } from '@/lib/feed';
+import { loadActivity, markAllNotificationsRead } from '@/lib/notifications';
+
+export default function NotificationsScreen() {
+  const { session } = useAuth();
+  const notifications = useNotifications();
+  const unread = useUnreadNotificationCount();
+  const open = useOpenNotification();
+  const backgroundColor = useThemeColor({}, 'background');
+  const separator = useThemeColor({}, 'icon');
+  const tint = useThemeColor({}, 'tint');
+  const { t } = useTranslation();
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<Error>();
+
+  const refresh = async () => {
+    if (!session) {
+      return;
+    }
+    setRefreshing(true);
+    setError(undefined);
+    try {
+      await loadActivity(getFeedClient());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError : new Error(String(loadError)));
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerRight: () =>
+            unread > 0 ? (
+              <Pressable accessibilityRole="button" onPress={markAllNotificationsRead} hitSlop={8}>
+                <ThemedText type="link">{t('notifications.markAllRead')}</ThemedText>
+              </Pressable>
+            ) : null,
+        }}
+      />
+      <FlatList
+        data={notifications}
+        keyExtractor={(notification) => notification.id}
+        renderItem={({ item }) => (
+          <NotificationRow notification={item} onPress={() => open(item)} />
+        )}
+        ItemSeparatorComponent={() => (
+          <View style={[styles.separator, { backgroundColor: separator }]} />
+        )}
+        ListHeaderComponent={
+          error ? (
+            <AsyncStatus loading={false} error={error} onRetry={refresh} />
+          ) : !session ? (
+            <ThemedText style={styles.note}>{t('notifications.signInHint')}</ThemedText>
+          ) : null
+        }
+        ListEmptyComponent={
+          <AsyncStatus loading={false} empty emptyMessage={t('notifications.empty')} />
+        }
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={refresh} tintColor={tint} />
+        }
+        style={{ backgroundColor }}
+        contentContainerStyle={styles.content}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    opacity: 0.3,
+  },
+  note: {
+    paddingVertical: 12,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,59 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { RichText } from '@/components/content/rich-text';
+import { PageHead } from '@/components/seo/page-head';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { parseMarkdown } from '@/lib/content';
+import { parseDateKey } from '@/lib/date';
+import { formatDate } from '@/lib/i18n';
+import { isStaticPageSlug, STATIC_PAGES, type StaticPageSlug } from '@/lib/pages';
+import { staticPageMeta } from '@/lib/seo';
+
+export function generateStaticParams() {
+  return (Object.keys(STATIC_PAGES) as StaticPageSlug[]).map((slug) => ({ slug }));
+}
+
+export default function StaticPageScreen() {
+  const { slug } = useLocalSearchParams<{ slug: string }>();
+  const backgroundColor = useThemeColor({}, 'background');
+  const { locale, t } = useTranslation();
+
+  if (!isStaticPageSlug(slug)) {
+    return <AsyncStatus loading={false} empty emptyMessage={t('pages.notFound')} />;
+  }
+  const page = STATIC_PAGES[slug];
+  const effective = parseDateKey(page.version);
+
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      <Stack.Screen options={{ title: page.title }} />
+      <PageHead meta={staticPageMeta(page)} />
+      <ThemedView style={styles.content}>
+        <RichText nodes={parseMarkdown(page.markdown)} />
+        {effective && (
+          <ThemedText style={styles.meta}>
+            {t('pages.revisedOn', { date: formatDate(effective, { locale }) })}
+          </ThemedText>
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 24,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+    textAlign: 'right',
+  },
+});
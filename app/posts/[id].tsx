@@ -0,0 +1,68 @@
+import { Link, Stack, useLocalSearchParams } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { PostCard } from '@/components/feed/post-card';
+import { ShareButton } from '@/components/links/share-button';
+import { PageHead } from '@/components/seo/page-head';
+import { ReplyThread } from '@/components/feed/reply-thread';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { usePost } from '@/hooks/use-feed';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { postMeta } from '@/lib/seo';
+
+export default function PostScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const post = usePost(id);
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+
+  if (!post.data) {
+    return (
+      <AsyncStatus
+        loading={post.loading}
+        error={post.error}
+        empty
+        emptyMessage={t('share.postGone')}
+        emptyAction={{ href: '/timeline', label: t('share.toTimeline') }}
+        onRetry={post.reload}
+      />
+    );
+  }
+
+  const { data } = post;
+  const title = t('share.postTitle', { name: data.author.displayName });
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      <PageHead meta={postMeta(data)} />
+      <Stack.Screen
+        options={{
+          title,
+          headerRight: () => <ShareButton target={{ type: 'post', id: data.id }} title={title} />,
+        }}
+      />
+      <ThemedView style={styles.content}>
+        {data.replyToId && (
+          <Link href={{ pathname: '/posts/[id]', params: { id: data.replyToId } }}>
+            <ThemedText type="link">{t('feed.showParent')}</ThemedText>
+          </Link>
+        )}
+        <PostCard post={data} detail />
+        <ThemedText type="defaultSemiBold">
+          {t('feed.replies', { count: data.replyCount })}
+        </ThemedText>
+        {/* Keyed so navigating between posts on the same screen resets the thread. */}
+        <ReplyThread key={data.id} postId={data.id} />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 8,
+  },
+});
@@ -0,0 +1,182 @@
+import { Image } from 'expo-image';
+import { Link, Stack, useLocalSearchParams } from 'expo-router';
+import { ScrollView, StyleSheet, useWindowDimensions, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { FavoriteButton } from '@/components/catalog/favorite-button';
+import { ShareButton } from '@/components/links/share-button';
+import { PageHead } from '@/components/seo/page-head';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { useCartQuantity } from '@/hooks/use-cart';
+import { useProduct } from '@/hooks/use-catalog';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { addToCart, describeCartIssue, isInShippingSeason } from '@/lib/cart';
+import { describeStage, formatPrice } from '@/lib/catalog';
+import { loadCatalogSnapshot, productMeta, snapshotProduct } from '@/lib/seo';
+
+/** Every product gets its own page in the static web export. */
+export async function generateStaticParams() {
+  const { products } = await loadCatalogSnapshot();
+  return products.map((product) => ({ id: product.id }));
+}
+
+export default function ProductDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { locale, t } = useTranslation();
+  const product = useProduct(id);
+  const inCart = useCartQuantity(id ?? '');
+  const backgroundColor = useThemeColor({}, 'background');
+  const danger = useThemeColor({}, 'danger');
+  const { width } = useWindowDimensions();
+  // The static export renders before anything loads; see `loadCatalogSnapshot`.
+  const described = product.data ?? snapshotProduct(id);
+  const head = described && <PageHead meta={productMeta(described)} />;
+
+  if (!product.data) {
+    return (
+      <>
+        <Stack.Screen options={{ title: t('screens.product') }} />
+        {head}
+        <AsyncStatus
+          loading={product.loading}
+          error={product.error}
+          empty
+          emptyMessage={t('share.productGone')}
+          emptyAction={{ href: '/products', label: t('share.otherProducts') }}
+          onRetry={product.reload}
+        />
+      </>
+    );
+  }
+
+  const { data } = product;
+  const specs: [string, string | undefined][] = [
+    [t('product.species'), data.species.japaneseName],
+    [t('product.scientificName'), data.species.scientificName],
+    [t('product.locality'), data.locality],
+    [t('product.generation'), data.generation],
+    [t('product.sex'), t(`catalog.sex.${data.sex}`)],
+    [t('product.stage'), describeStage(data, locale)],
+    [
+      t('product.stock'),
+      data.stock > 0 ? t('product.stockCount', { count: data.stock }) : t('catalog.soldOut'),
+    ],
+  ];
+
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      {head}
+      <Stack.Screen
+        options={{
+          title: data.species.japaneseName,
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <ShareButton target={{ type: 'product', id: data.id }} title={data.title} />
+              <FavoriteButton product={data} />
+            </View>
+          ),
+        }}
+      />
+      <ScrollView horizontal pagingEnabled showsHorizontalScrollIndicator={false}>
+        {data.images.map((image) => (
+          <Image
+            key={image.uri}
+            source={{ uri: image.uri }}
+            accessibilityLabel={image.alt}
+            style={{ width, height: width }}
+            contentFit="cover"
+          />
+        ))}
+      </ScrollView>
+      <ThemedView style={styles.content}>
+        <ThemedText type="subtitle">{data.title}</ThemedText>
+        <ThemedText type="title">{formatPrice(data.priceYen)}</ThemedText>
+        {!isInShippingSeason(data.shipping, new Date()) && (
+          <ThemedText style={{ color: danger }}>
+            {describeCartIssue(
+              {
+                kind: 'out-of-season',
+                productId: data.id,
+                safeMonths: data.shipping.safeMonths,
+              },
+              locale
+            )}
+          </ThemedText>
+        )}
+        <Button
+          title={
+            data.stock === 0
+              ? t('catalog.soldOut')
+              : inCart >= data.stock
+                ? t('product.allInCart')
+                : t('product.addToCart')
+          }
+          disabled={inCart >= data.stock}
+          onPress={() => addToCart(data)}
+        />
+        {data.stock === 0 && (
+          <ThemedText style={styles.muted}>{t('product.restockHint')}</ThemedText>
+        )}
+        {inCart > 0 && (
+          <Link href="/cart">
+            <ThemedText type="link">{t('product.inCart', { count: inCart })}</ThemedText>
+          </Link>
+        )}
+        <ThemedView style={styles.specs}>
+          {specs
+            .filter((spec): spec is [string, string] => spec[1] !== undefined)
+            .map(([label, value]) => (
+              <ThemedView key={label} style={styles.specRow}>
+                <ThemedText style={styles.specLabel}>{label}</ThemedText>
+                <ThemedText
+                  style={[
+                    styles.specValue,
+                    label === t('product.scientificName') && styles.scientific,
+                  ]}>
+                  {value}
+                </ThemedText>
+              </ThemedView>
+            ))}
+        </ThemedView>
+        <ThemedText>{data.description}</ThemedText>
+        <Link href={{ pathname: '/records/new', params: { productId: data.id } }}>
+          <ThemedText type="link">{t('product.addToRecords')}</ThemedText>
+        </Link>
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  specs: {
+    gap: 4,
+  },
+  specRow: {
+    flexDirection: 'row',
+  },
+  specLabel: {
+    width: 88,
+    opacity: 0.7,
+  },
+  specValue: {
+    flex: 1,
+  },
+  scientific: {
+    fontStyle: 'italic',
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,22 @@
+import { Stack } from 'expo-router';
+
+import { ProductGrid } from '@/components/catalog/product-grid';
+import { useProducts } from '@/hooks/use-catalog';
+import { useTranslation } from '@/hooks/use-i18n';
+
+export default function ProductListScreen() {
+  const { t } = useTranslation();
+  const products = useProducts();
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t('screens.products') }} />
+      <ProductGrid
+        products={products.data}
+        loading={products.loading}
+        error={products.error}
+        onRetry={products.reload}
+      />
+    </>
+  );
+}
@@ -0,0 +1,116 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ProductGrid } from '@/components/catalog/product-grid';
+import { SearchFilters } from '@/components/catalog/search-filters';
+import { ThemedText } from '@/components/themed-text';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { Collapsible } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { useProducts } from '@/hooks/use-catalog';
+import { useTranslation } from '@/hooks/use-i18n';
+import {
+  countActiveFilters,
+  EMPTY_PRODUCT_SEARCH,
+  parseProductSearch,
+  PRODUCT_SORTS,
+  searchProducts,
+  toProductSearchParams,
+  type ProductSearch,
+  type ProductSearchParams,
+} from '@/lib/catalog';
+
+/**
+ * 検索結果. Every filter lives in the URL (`/search?q=オオクワ&sex=male&sizeMin=70`), so a search
+ * can be shared, bookmarked or linked to from elsewhere in the app.
+ */
+export default function SearchScreen() {
+  const router = useRouter();
+  const search = parseProductSearch(useLocalSearchParams<ProductSearchParams>());
+  const [input, setInput] = useState(search.q);
+  const products = useProducts();
+  const { locale, t } = useTranslation();
+  const result = products.data ? searchProducts(products.data, search, locale) : undefined;
+  const activeFilters = countActiveFilters(search);
+
+  const apply = (next: ProductSearch) => router.setParams(toProductSearchParams(next));
+
+  const header = (
+    <View style={styles.header}>
+      <Input
+        aria-label={t('search.label')}
+        placeholder={t('search.placeholder')}
+        value={input}
+        onChangeText={setInput}
+        onSubmitEditing={() => apply({ ...search, q: input.trim() })}
+        returnKeyType="search"
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+      />
+      <Collapsible
+        title={
+          activeFilters > 0
+            ? t('search.filtersActive', { count: activeFilters })
+            : t('search.filters')
+        }>
+        {result && <SearchFilters search={search} facets={result.facets} onChange={apply} />}
+      </Collapsible>
+      <ChipSelect
+        options={PRODUCT_SORTS.map((value) => ({ value, label: t(`search.sort.${value}`) }))}
+        value={search.sort}
+        onChange={(sort) => apply({ ...search, sort })}
+      />
+      {result && (
+        <View style={styles.summary}>
+          <ThemedText style={styles.meta}>
+            {t('search.resultCount', { count: result.products.length })}
+          </ThemedText>
+          {(activeFilters > 0 || search.q) && (
+            <Pressable
+              accessibilityRole="button"
+              hitSlop={8}
+              onPress={() => {
+                setInput('');
+                apply(EMPTY_PRODUCT_SEARCH);
+              }}>
+              <ThemedText type="link" style={styles.meta}>
+                {t('search.clear')}
+              </ThemedText>
+            </Pressable>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <ProductGrid
+      products={result?.products}
+      loading={products.loading}
+      error={products.error}
+      onRetry={products.reload}
+      header={header}
+      emptyMessage={t('search.empty')}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    padding: 6,
+    paddingBottom: 12,
+    gap: 12,
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,120 @@
+import { Link, Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { StyleSheet, Switch, View } from 'react-native';
+
+import { AuthForm } from '@/components/auth/auth-form';
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { TextField } from '@/components/ui/text-field';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import { MIN_PASSWORD_LENGTH, safeRedirect } from '@/lib/auth';
+
+export default function SignUpScreen() {
+  const router = useRouter();
+  const { redirect } = useLocalSearchParams<{ redirect?: string }>();
+  const { signUp } = useAuth();
+  const [displayName, setDisplayName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [agreed, setAgreed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+  const { t } = useTranslation();
+
+  const submit = async () => {
+    if (!displayName.trim()) {
+      setError(t('auth.error.displayName'));
+      return;
+    }
+    if (password !== confirmation) {
+      setError(t('auth.error.passwordMismatch'));
+      return;
+    }
+    if (!agreed) {
+      setError(t('auth.agreement.required'));
+      return;
+    }
+    setSubmitting(true);
+    setError(undefined);
+    try {
+      await signUp({ displayName, email, password });
+      router.replace(safeRedirect(redirect));
+    } catch (signUpError) {
+      setError(signUpError instanceof Error ? signUpError.message : String(signUpError));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthForm error={error}>
+      <Stack.Screen options={{ title: t('auth.signUp') }} />
+      <TextField
+        label={t('auth.displayName')}
+        value={displayName}
+        onChangeText={setDisplayName}
+        autoComplete="nickname"
+        textContentType="nickname"
+      />
+      <TextField
+        label={t('auth.email')}
+        value={email}
+        onChangeText={setEmail}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoComplete="email"
+        textContentType="username"
+      />
+      <TextField
+        label={t('auth.newPassword', { min: MIN_PASSWORD_LENGTH })}
+        value={password}
+        onChangeText={setPassword}
+        secureTextEntry
+        autoComplete="new-password"
+        textContentType="newPassword"
+      />
+      <TextField
+        label={t('auth.passwordConfirmation')}
+        value={confirmation}
+        onChangeText={setConfirmation}
+        secureTextEntry
+        autoComplete="new-password"
+        textContentType="newPassword"
+      />
+      <View style={styles.agreement}>
+        <Switch
+          value={agreed}
+          onValueChange={setAgreed}
+          accessibilityLabel={t('auth.agreement.label')}
+        />
+        <ThemedText style={styles.agreementText}>
+          {t('auth.agreement.before')}
+          <Link href="/pages/terms">
+            <ThemedText type="link">{t('auth.agreement.terms')}</ThemedText>
+          </Link>
+          {t('auth.agreement.and')}
+          <Link href="/pages/privacy">
+            <ThemedText type="link">{t('auth.agreement.privacy')}</ThemedText>
+          </Link>
+          {t('auth.agreement.after')}
+        </ThemedText>
+      </View>
+      <Button title={t('common.register')} loading={submitting} onPress={submit} />
+      <Link href={{ pathname: '/login', params: redirect ? { redirect } : {} }} replace>
+        <ThemedText type="link">{t('auth.toLogIn')}</ThemedText>
+      </Link>
+    </AuthForm>
+  );
+}
+
+const styles = StyleSheet.create({
+  agreement: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  agreementText: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { FlatList, RefreshControl, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { TrendRow } from '@/components/feed/trend-row';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { useTrends } from '@/hooks/use-feed';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { TrendWindow } from '@/lib/feed';
+
+const SPANS: TrendWindow[] = ['day', 'week'];
+
+export default function TrendsScreen() {
+  const [span, setSpan] = useState<TrendWindow>('day');
+  const trends = useTrends(span);
+  const backgroundColor = useThemeColor({}, 'background');
+  const tint = useThemeColor({}, 'tint');
+  const { t } = useTranslation();
+
+  return (
+    <FlatList
+      data={trends.data ?? []}
+      keyExtractor={(trend) => trend.key}
+      renderItem={({ item, index }) => <TrendRow rank={index + 1} trend={item} />}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <ChipSelect
+            options={SPANS.map((value) => ({ value, label: t(`trends.span.${value}`) }))}
+            value={span}
+            onChange={setSpan}
+          />
+        </View>
+      }
+      ListEmptyComponent={
+        <AsyncStatus
+          loading={trends.loading}
+          error={trends.error}
+          empty
+          emptyMessage={t('trends.empty')}
+          onRetry={trends.reload}
+        />
+      }
+      refreshControl={
+        <RefreshControl
+          refreshing={trends.loading && !!trends.data}
+          onRefresh={trends.reload}
+          tintColor={tint}
+        />
+      }
+      style={{ backgroundColor }}
+      contentContainerStyle={styles.content}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  header: {
+    paddingVertical: 8,
+  },
+});
@@ -0,0 +1,125 @@
+import { Link, Stack, useLocalSearchParams } from 'expo-router';
+import { useState } from 'react';
+import { FlatList, Pressable, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { FeedList } from '@/components/feed/feed-list';
+import { ShareButton } from '@/components/links/share-button';
+import { PageHead } from '@/components/seo/page-head';
+import { ProfileHeader } from '@/components/users/profile-header';
+import { ShowcaseRow } from '@/components/users/showcase-row';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useShowcase, useUser, useUserPosts } from '@/hooks/use-users';
+import { canViewShowcase, type UserProfile } from '@/lib/feed';
+import { profileMeta } from '@/lib/seo';
+
+type Tab = 'posts' | 'records';
+
+const TABS: Tab[] = ['posts', 'records'];
+
+export default function UserScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { session } = useAuth();
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+  const user = useUser(id);
+  const posts = useUserPosts(id);
+  const showcase = useShowcase(id);
+  const [tab, setTab] = useState<Tab>('posts');
+  // Following changes the counts and what is visible; keep the server's answer until a reload.
+  const [updated, setUpdated] = useState<UserProfile>();
+  const profile = updated?.id === id ? updated : user.data;
+
+  if (!profile) {
+    return (
+      <AsyncStatus
+        loading={user.loading}
+        error={user.error}
+        empty
+        emptyMessage={t('share.userGone')}
+        emptyAction={{ href: '/', label: t('share.backHome') }}
+        onRetry={user.reload}
+      />
+    );
+  }
+
+  const onChange = (next: UserProfile) => {
+    setUpdated(next);
+    showcase.reload();
+  };
+  // The server already filters by visibility; this is a second line of defence.
+  const access = {
+    isOwner: session?.user.id === profile.id,
+    isFollower: profile.viewer?.following ?? false,
+  };
+  const individuals = (showcase.data ?? []).filter((individual) =>
+    canViewShowcase(individual.visibility, access)
+  );
+
+  const header = (
+    <View>
+      <ProfileHeader profile={profile} onChange={onChange} />
+      <ChipSelect
+        options={TABS.map((value) => ({ value, label: t(`users.tab.${value}`) }))}
+        value={tab}
+        onChange={setTab}
+      />
+    </View>
+  );
+
+  return (
+    <>
+      <PageHead meta={profileMeta(profile)} />
+      <Stack.Screen
+        options={{
+          title: profile.displayName,
+          headerRight: () => (
+            <ShareButton target={{ type: 'user', id: profile.id }} title={profile.displayName} />
+          ),
+        }}
+      />
+      {tab === 'posts' ? (
+        <FeedList feed={posts} emptyMessage={t('feed.empty')} ListHeaderComponent={header} />
+      ) : (
+        <FlatList
+          data={individuals}
+          keyExtractor={(individual) => individual.id}
+          renderItem={({ item }) => (
+            <Link
+              href={{
+                pathname: '/users/[id]/individuals/[individualId]',
+                params: { id: profile.id, individualId: item.id },
+              }}
+              asChild>
+              <Pressable>
+                <ShowcaseRow individual={item} />
+              </Pressable>
+            </Link>
+          )}
+          ListHeaderComponent={header}
+          ListEmptyComponent={
+            <AsyncStatus
+              loading={showcase.loading}
+              error={showcase.error}
+              empty
+              emptyMessage={access.isOwner ? t('users.noShowcase') : t('users.noPublicRecords')}
+              onRetry={showcase.reload}
+            />
+          }
+          style={{ backgroundColor }}
+          contentContainerStyle={styles.content}
+        />
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+});
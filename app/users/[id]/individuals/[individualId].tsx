@@ -0,0 +1,81 @@
+import { Link, Stack, useLocalSearchParams } from 'expo-router';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { ShareButton } from '@/components/links/share-button';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { ShowcaseRow } from '@/components/users/showcase-row';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useShowcase, useUser } from '@/hooks/use-users';
+
+/** A shared individual, as opened from a link; the keeper's full record never leaves their device. */
+export default function SharedIndividualScreen() {
+  const { id, individualId } = useLocalSearchParams<{ id: string; individualId: string }>();
+  const user = useUser(id);
+  const showcase = useShowcase(id);
+  const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useTranslation();
+  // The showcase only lists what the viewer may see, so a private or deleted one is simply missing.
+  const individual = showcase.data?.find((item) => item.id === individualId);
+  const keeper = user.data;
+
+  if (!keeper || !individual) {
+    return (
+      <AsyncStatus
+        loading={user.loading || showcase.loading}
+        error={user.error ?? showcase.error}
+        empty
+        emptyMessage={t('share.individualGone')}
+        emptyAction={
+          keeper
+            ? {
+                href: { pathname: '/users/[id]', params: { id: keeper.id } },
+                label: t('share.keeperProfile', { name: keeper.displayName }),
+              }
+            : { href: '/', label: t('share.backHome') }
+        }
+        onRetry={() => {
+          user.reload();
+          showcase.reload();
+        }}
+      />
+    );
+  }
+
+  const title = t('share.individualTitle', {
+    name: keeper.displayName,
+    species: individual.japaneseName,
+  });
+  return (
+    <ScrollView style={{ backgroundColor }}>
+      <Stack.Screen
+        options={{
+          title: individual.label,
+          headerRight: () => (
+            <ShareButton
+              target={{ type: 'individual', userId: keeper.id, id: individual.id }}
+              title={title}
+            />
+          ),
+        }}
+      />
+      <ThemedView style={styles.content}>
+        <ShowcaseRow individual={individual} />
+        <Link href={{ pathname: '/users/[id]', params: { id: keeper.id } }}>
+          <ThemedText type="link">
+            {t('share.keeperProfile', { name: keeper.displayName })}
+          </ThemedText>
+        </Link>
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 8,
+  },
+});
@@ -0,0 +1,69 @@
+import { Link, type Href } from 'expo-router';
+import { ActivityIndicator, Pressable, StyleSheet } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+type Props = {
+  loading: boolean;
+  error?: Error;
+  empty?: boolean;
+  emptyMessage?: string;
+  /** Somewhere to go instead, e.g. from a shared link to something that was deleted. */
+  emptyAction?: { href: Href; label: string };
+  onRetry?: () => void;
+};
+
+/**
+ * Placeholder shown while a screen's data is loading, failed to load or came back empty.
+ * Renders nothing once there is something to show.
+ */
+export function AsyncStatus({ loading, error, empty, emptyMessage, emptyAction, onRetry }: Props) {
+  const { t } = useTranslation();
+  const tint = useThemeColor({}, 'tint');
+
+  if (loading) {
+    return (
+      <ThemedView style={styles.container}>
+        <ActivityIndicator color={tint} />
+      </ThemedView>
+    );
+  }
+  if (error) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedText>{t('common.loadFailed')}</ThemedText>
+        {onRetry && (
+          <Pressable onPress={onRetry} accessibilityRole="button">
+            <ThemedText type="link">{t('common.reload')}</ThemedText>
+          </Pressable>
+        )}
+      </ThemedView>
+    );
+  }
+  if (empty) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedText>{emptyMessage ?? t('common.empty')}</ThemedText>
+        {emptyAction && (
+          <Link href={emptyAction.href}>
+            <ThemedText type="link">{emptyAction.label}</ThemedText>
+          </Link>
+        )}
+      </ThemedView>
+    );
+  }
+  return null;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    gap: 8,
+  },
+});
@@ -0,0 +1,33 @@
+import type { PropsWithChildren } from 'react';
+import { KeyboardAvoidingView, ScrollView, StyleSheet } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+export function AuthForm({ error, children }: PropsWithChildren<{ error?: string }>) {
+  const backgroundColor = useThemeColor({}, 'background');
+
+  return (
+    <KeyboardAvoidingView
+      behavior={process.env.EXPO_OS === 'ios' ? 'padding' : undefined}
+      style={[styles.flex, { backgroundColor }]}>
+      <ScrollView keyboardShouldPersistTaps="handled">
+        <ThemedView style={styles.content}>
+          {error && <ThemedText color="$danger">{error}</ThemedText>}
+          {children}
+        </ThemedView>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  content: {
+    padding: 24,
+    gap: 16,
+  },
+});
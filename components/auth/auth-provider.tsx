@@ -0,0 +1,151 @@
+import {
+  createContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type PropsWithChildren,
+} from 'react';
+import { AppState } from 'react-native';
+
+import {
+  authenticateWithBiometrics,
+  biometricPreferenceStore,
+  getAuthBackend,
+  LOCK_AFTER_BACKGROUND_MS,
+  tokenStorage,
+  type AuthBackend,
+  type LogInInput,
+  type ProfileInput,
+  type Session,
+  type SignUpInput,
+} from '@/lib/auth';
+import { acceptTerms } from '@/lib/pages';
+
+export type AuthStatus = 'loading' | 'signed-out' | 'signed-in';
+
+export type AuthContextValue = {
+  status: AuthStatus;
+  session: Session | null;
+  /** Signed in, but waiting for Face ID / fingerprint after returning to the app. */
+  locked: boolean;
+  /** The sign-up form asks for agreement, so this also records acceptance of the current terms. */
+  signUp(input: SignUpInput): Promise<void>;
+  logIn(input: LogInInput): Promise<void>;
+  logOut(): Promise<void>;
+  updateProfile(input: ProfileInput): Promise<void>;
+  unlock(): Promise<boolean>;
+};
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+async function isBiometricLockEnabled() {
+  await biometricPreferenceStore.hydrate();
+  return biometricPreferenceStore.getState().enabled;
+}
+
+export function AuthProvider({
+  children,
+  backend = getAuthBackend(),
+}: PropsWithChildren<{ backend?: AuthBackend }>) {
+  const [status, setStatus] = useState<AuthStatus>('loading');
+  const [session, setSession] = useState<Session | null>(null);
+  const [locked, setLocked] = useState(false);
+  const backgroundedAt = useRef<number | null>(null);
+
+  const start = useCallback(async (next: Session) => {
+    await tokenStorage.set(next.token);
+    setSession(next);
+    setStatus('signed-in');
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      const token = await tokenStorage.get().catch(() => null);
+      if (!token) {
+        if (active) setStatus('signed-out');
+        return;
+      }
+      try {
+        const restored = await backend.restore(token);
+        const shouldLock = await isBiometricLockEnabled();
+        if (!active) return;
+        await tokenStorage.set(restored.token);
+        setSession(restored);
+        setLocked(shouldLock);
+        setStatus('signed-in');
+      } catch {
+        await tokenStorage.clear().catch(() => undefined);
+        if (active) setStatus('signed-out');
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [backend]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', async (state) => {
+      if (state === 'background') {
+        backgroundedAt.current = Date.now();
+        return;
+      }
+      if (state !== 'active' || backgroundedAt.current === null) {
+        return;
+      }
+      const away = Date.now() - backgroundedAt.current;
+      backgroundedAt.current = null;
+      if (
+        status === 'signed-in' &&
+        away >= LOCK_AFTER_BACKGROUND_MS &&
+        (await isBiometricLockEnabled())
+      ) {
+        setLocked(true);
+      }
+    });
+    return () => subscription.remove();
+  }, [status]);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      status,
+      session,
+      locked,
+      async signUp(input) {
+        const created = await backend.signUp(input);
+        acceptTerms(created.user.id);
+        await start(created);
+      },
+      async logIn(input) {
+        await start(await backend.logIn(input));
+      },
+      async logOut() {
+        if (session) {
+          await backend.logOut(session.token).catch(() => undefined);
+        }
+        await tokenStorage.clear();
+        setSession(null);
+        setLocked(false);
+        setStatus('signed-out');
+      },
+      async updateProfile(input) {
+        if (!session) {
+          return;
+        }
+        setSession(await backend.updateProfile(session.token, input));
+      },
+      async unlock() {
+        const success = await authenticateWithBiometrics();
+        if (success) {
+          setLocked(false);
+        }
+        return success;
+      },
+    }),
+    [backend, locked, session, start, status]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import { StyleSheet } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+/** Covers the whole app until the member unlocks it with Face ID or a fingerprint. */
+export function BiometricLock() {
+  const { unlock, logOut } = useAuth();
+  const icon = useThemeColor({}, 'icon');
+  const prompted = useRef(false);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    // Prompt once on its own; after a cancel the member taps the button to retry.
+    if (!prompted.current) {
+      prompted.current = true;
+      unlock();
+    }
+  }, [unlock]);
+
+  return (
+    <ThemedView style={[StyleSheet.absoluteFill, styles.container]}>
+      <IconSymbol name="lock.fill" size={48} color={icon} />
+      <ThemedText type="subtitle">{t('auth.locked')}</ThemedText>
+      <Button title={t('auth.biometrics.unlock')} onPress={unlock} style={styles.button} />
+      <Button
+        title={t('mypage.logOut')}
+        variant="secondary"
+        onPress={logOut}
+        style={styles.button}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    padding: 32,
+  },
+  button: {
+    alignSelf: 'stretch',
+  },
+});
@@ -0,0 +1,22 @@
+import { Redirect, usePathname } from 'expo-router';
+import type { PropsWithChildren } from 'react';
+
+import { AsyncStatus } from '@/components/async-status';
+import { useAuth } from '@/hooks/use-auth';
+
+/**
+ * Wrap a route group's layout in this to make it members-only. Signed-out visitors are sent to
+ * the login screen, which brings them back here afterwards.
+ */
+export function RequireAuth({ children }: PropsWithChildren) {
+  const { status } = useAuth();
+  const pathname = usePathname();
+
+  if (status === 'loading') {
+    return <AsyncStatus loading />;
+  }
+  if (status === 'signed-out') {
+    return <Redirect href={{ pathname: '/login', params: { redirect: pathname } }} />;
+  }
+  return children;
+}
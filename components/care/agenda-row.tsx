@@ -0,0 +1,99 @@
+import { Link, useRouter } from 'expo-router';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { useCareTargetLabel } from '@/hooks/use-care';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { careTaskTitle, completeCareTask, type CareTask } from '@/lib/care';
+import { toDateKey } from '@/lib/date';
+import { translate, type Locale } from '@/lib/i18n';
+
+type Props = {
+  task: CareTask;
+  dueOn: string;
+  overdueDays: number;
+};
+
+function describeDue(dueOn: string, overdueDays: number, locale: Locale) {
+  if (overdueDays > 0) {
+    return translate(locale, 'care.due.overdue', { days: overdueDays, date: dueOn });
+  }
+  return overdueDays === 0
+    ? translate(locale, 'care.due.today')
+    : translate(locale, 'care.due.upcoming', { days: -overdueDays, date: dueOn });
+}
+
+/**
+ * One due task. Substrate changes and weigh-ins are completed by writing the growth log, which the
+ * schedule reads; everything else is simply ticked off.
+ */
+export function AgendaRow({ task, dueOn, overdueDays }: Props) {
+  const router = useRouter();
+  const targetLabel = useCareTargetLabel(task.target);
+  const { locale, t } = useTranslation();
+  const danger = useThemeColor({}, 'danger');
+  const logsGrowth =
+    task.target.type === 'individual' && (task.kind === 'mat-change' || task.kind === 'weigh-in');
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.body}>
+        <Link href={{ pathname: '/records/care/[id]', params: { id: task.id } }}>
+          <ThemedText type="defaultSemiBold">{careTaskTitle(task, locale)}</ThemedText>
+        </Link>
+        {targetLabel && (
+          <Link
+            href={
+              task.target.type === 'individual'
+                ? { pathname: '/records/[id]', params: { id: task.target.id } }
+                : { pathname: '/records/environment/[id]', params: { id: task.target.id } }
+            }>
+            <ThemedText type="link">{targetLabel}</ThemedText>
+          </Link>
+        )}
+        <ThemedText style={[styles.meta, overdueDays > 0 && [styles.overdue, { color: danger }]]}>
+          {describeDue(dueOn, overdueDays, locale)}
+        </ThemedText>
+      </View>
+      {overdueDays >= 0 && (
+        <Button
+          title={logsGrowth ? t('form.record') : t('care.done')}
+          variant="secondary"
+          onPress={() =>
+            logsGrowth
+              ? router.push({
+                  pathname: '/records/[id]/growth/new',
+                  params: {
+                    id: task.target.id,
+                    event: task.kind === 'mat-change' ? 'mat-change' : undefined,
+                  },
+                })
+              : completeCareTask(task.id, toDateKey(new Date()))
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  body: {
+    flex: 1,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  overdue: {
+    opacity: 1,
+  },
+});
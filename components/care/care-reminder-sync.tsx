@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+
+import { useCareAgenda, useCareNotificationsEnabled } from '@/hooks/use-care';
+import { useLocale } from '@/hooks/use-i18n';
+import { usePersistedStore } from '@/hooks/use-store';
+import { careTaskTitle } from '@/lib/care';
+import { scheduleCareReminders } from '@/lib/care/notifications';
+import { translate } from '@/lib/i18n';
+import { notificationSettingsStore } from '@/lib/notifications';
+import { environmentStore, recordsStore } from '@/lib/records';
+
+/** How far ahead reminders are scheduled; opening the app tops them up. */
+const SCHEDULE_DAYS = 30;
+
+/** Keeps the device's scheduled reminders in step with the care tasks. Renders nothing. */
+export function CareReminderSync() {
+  const enabled = useCareNotificationsEnabled();
+  const agenda = useCareAgenda(SCHEDULE_DAYS);
+  const individuals = usePersistedStore(recordsStore, (state) => state.individuals);
+  const habitats = usePersistedStore(environmentStore, (state) => state.habitats);
+  const quietHours = usePersistedStore(notificationSettingsStore, (state) => state.quietHours);
+  const locale = useLocale();
+
+  useEffect(() => {
+    const reminders = enabled
+      ? agenda.map(({ task, dueOn }) => {
+          const target =
+            task.target.type === 'individual'
+              ? individuals[task.target.id]?.label
+              : habitats[task.target.id]?.name;
+          return {
+            taskId: task.id,
+            dueOn,
+            remindAt: task.remindAt,
+            title: translate(locale, 'care.reminderTitle'),
+            body: target
+              ? translate(locale, 'care.reminderBody', {
+                  target,
+                  title: careTaskTitle(task, locale),
+                })
+              : careTaskTitle(task, locale),
+          };
+        })
+      : [];
+    scheduleCareReminders(reminders, quietHours).catch(() => undefined);
+  }, [enabled, agenda, individuals, habitats, quietHours, locale]);
+
+  return null;
+}
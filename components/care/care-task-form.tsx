@@ -0,0 +1,85 @@
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { TextField } from '@/components/ui/text-field';
+import { useTranslation } from '@/hooks/use-i18n';
+import {
+  CARE_TASK_KINDS,
+  DEFAULT_INTERVAL_DAYS,
+  validateCareTask,
+  type CareTarget,
+  type CareTaskDraft,
+  type CareTaskInput,
+} from '@/lib/care';
+import type { FieldErrors } from '@/lib/forms';
+
+type Props = {
+  initial: CareTaskInput;
+  target: CareTarget;
+  submitTitle: string;
+  onSubmit: (draft: CareTaskDraft) => void;
+};
+
+type TextKey = 'title' | 'intervalDays' | 'startsOn' | 'remindAt';
+
+export function CareTaskForm({ initial, target, submitTitle, onSubmit }: Props) {
+  const [input, setInput] = useState(initial);
+  const [errors, setErrors] = useState<FieldErrors<CareTaskInput>>({});
+  const { t } = useTranslation();
+
+  const text = (name: TextKey) => ({
+    value: input[name],
+    onChangeText: (value: string) => setInput((current) => ({ ...current, [name]: value })),
+    error: errors[name],
+  });
+
+  const submit = () => {
+    const result = validateCareTask(input, target);
+    if (result.errors) {
+      setErrors(result.errors);
+      return;
+    }
+    onSubmit(result.draft);
+  };
+
+  return (
+    <>
+      <ChipSelect
+        label={t('care.form.kind')}
+        options={CARE_TASK_KINDS.map((kind) => ({ value: kind, label: t(`care.kind.${kind}`) }))}
+        value={input.kind}
+        onChange={(kind) =>
+          setInput((current) => ({
+            ...current,
+            kind,
+            intervalDays: String(DEFAULT_INTERVAL_DAYS[kind]),
+          }))
+        }
+      />
+      <TextField
+        label={input.kind === 'other' ? t('care.form.title') : t('care.form.displayName')}
+        placeholder={t('care.form.titlePlaceholder')}
+        {...text('title')}
+      />
+      <TextField
+        label={t('care.form.interval')}
+        keyboardType="number-pad"
+        {...text('intervalDays')}
+      />
+      <TextField
+        label={t('care.form.startsOn')}
+        placeholder="2025-06-01"
+        keyboardType="numbers-and-punctuation"
+        {...text('startsOn')}
+      />
+      <TextField
+        label={t('care.form.remindAt')}
+        placeholder="19:00"
+        keyboardType="numbers-and-punctuation"
+        {...text('remindAt')}
+      />
+      <Button title={submitTitle} onPress={submit} />
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import { Link } from 'expo-router';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useCareTasksFor } from '@/hooks/use-care';
+import { useTranslation } from '@/hooks/use-i18n';
+import { careTaskTitle, type CareTarget } from '@/lib/care';
+
+/** The care schedule on an individual's or habitat's screen, with a link to add to it. */
+export function CareTaskList({ target }: { target: CareTarget }) {
+  const tasks = useCareTasksFor(target);
+  const { locale, t } = useTranslation();
+
+  return (
+    <View>
+      <ThemedText type="defaultSemiBold">{t('care.tasks', { count: tasks.length })}</ThemedText>
+      {tasks.map(({ task, dueOn, active }) => (
+        <Link key={task.id} href={{ pathname: '/records/care/[id]', params: { id: task.id } }}>
+          <ThemedText type="link">
+            {t('care.interval', { title: careTaskTitle(task, locale), days: task.intervalDays })}
+          </ThemedText>
+          <ThemedText style={styles.meta}>
+            {active ? t('care.nextDue', { date: dueOn }) : t('care.paused')}
+          </ThemedText>
+        </Link>
+      ))}
+      <Link
+        href={{
+          pathname: '/records/care/new',
+          params:
+            target.type === 'individual' ? { individualId: target.id } : { habitatId: target.id },
+        }}>
+        <ThemedText type="link">{t('care.add')}</ThemedText>
+      </Link>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  meta: {
+    opacity: 0.7,
+  },
+});
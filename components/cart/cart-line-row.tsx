@@ -0,0 +1,96 @@
+import { Image } from 'expo-image';
+import { Link } from 'expo-router';
+import { Pressable, StyleSheet } from 'react-native';
+
+import { QuantityStepper } from '@/components/cart/quantity-stepper';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import {
+  describeCartIssue,
+  removeFromCart,
+  setCartQuantity,
+  type CartIssue,
+  type ResolvedCartLine,
+} from '@/lib/cart';
+import { formatPrice } from '@/lib/catalog';
+
+type Props = {
+  line: ResolvedCartLine;
+  issues: CartIssue[];
+};
+
+export function CartLineRow({ line, issues }: Props) {
+  const { product } = line;
+  const { locale, t } = useTranslation();
+  const danger = useThemeColor({}, 'danger');
+
+  return (
+    <ThemedView style={styles.row}>
+      <Image
+        source={product?.images[0] ? { uri: product.images[0].uri } : undefined}
+        style={styles.image}
+        contentFit="cover"
+      />
+      <ThemedView style={styles.body}>
+        {product ? (
+          <Link href={{ pathname: '/products/[id]', params: { id: product.id } }}>
+            <ThemedText numberOfLines={2}>{product.title}</ThemedText>
+          </Link>
+        ) : (
+          <ThemedText>{line.productId}</ThemedText>
+        )}
+        {product && (
+          <ThemedText type="defaultSemiBold">
+            {formatPrice(product.priceYen * line.quantity)}
+          </ThemedText>
+        )}
+        {issues.map((issue) => (
+          <ThemedText key={issue.kind} style={[styles.issue, { color: danger }]}>
+            {describeCartIssue(issue, locale)}
+          </ThemedText>
+        ))}
+        <ThemedView style={styles.actions}>
+          {product && product.stock > 0 && (
+            <QuantityStepper
+              value={line.quantity}
+              max={product.stock}
+              onChange={(quantity) => setCartQuantity(product, quantity)}
+            />
+          )}
+          <Pressable accessibilityRole="button" onPress={() => removeFromCart(line.productId)}>
+            <ThemedText type="link">{t('common.delete')}</ThemedText>
+          </Pressable>
+        </ThemedView>
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  image: {
+    width: 88,
+    height: 88,
+    borderRadius: 8,
+    backgroundColor: '#80808033',
+  },
+  body: {
+    flex: 1,
+    gap: 4,
+  },
+  issue: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+});
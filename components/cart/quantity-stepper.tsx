@@ -0,0 +1,59 @@
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+type Props = {
+  value: number;
+  max: number;
+  onChange: (value: number) => void;
+};
+
+export function QuantityStepper({ value, max, onChange }: Props) {
+  const { t } = useTranslation();
+  const icon = useThemeColor({}, 'icon');
+
+  return (
+    <View style={[styles.row, { borderColor: icon }]}>
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel={t('cart.decrease')}
+        disabled={value <= 1}
+        onPress={() => onChange(value - 1)}
+        style={[styles.step, value <= 1 && styles.disabled]}>
+        <ThemedText type="defaultSemiBold">−</ThemedText>
+      </Pressable>
+      <ThemedText style={styles.value}>{value}</ThemedText>
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel={t('cart.increase')}
+        disabled={value >= max}
+        onPress={() => onChange(value + 1)}
+        style={[styles.step, value >= max && styles.disabled]}>
+        <ThemedText type="defaultSemiBold">＋</ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  step: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  value: {
+    minWidth: 28,
+    textAlign: 'center',
+  },
+  disabled: {
+    opacity: 0.3,
+  },
+});
@@ -0,0 +1,60 @@
+import { Link } from 'expo-router';
+import { Pressable, ScrollView, StyleSheet } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { Category } from '@/lib/catalog';
+
+type Props = {
+  categories: Category[];
+  activeSlug?: string;
+};
+
+export function CategoryChips({ categories, activeSlug }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}>
+      {categories.map((category) => {
+        const active = category.slug === activeSlug;
+        return (
+          <Link
+            key={category.slug}
+            href={{ pathname: '/categories/[slug]', params: { slug: category.slug } }}
+            asChild>
+            <Pressable
+              accessibilityRole="link"
+              accessibilityState={{ selected: active }}
+              style={[styles.chip, { borderColor: active ? tint : icon }]}>
+              <ThemedText style={[styles.label, active && { color: tint }]}>
+                {category.name}
+              </ThemedText>
+            </Pressable>
+          </Link>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  label: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
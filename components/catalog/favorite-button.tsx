@@ -0,0 +1,31 @@
+import { Pressable } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useIsFavorite, useToggleFavorite } from '@/hooks/use-favorites';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { Product } from '@/lib/catalog';
+
+/** Heart toggle for the product screen's header. */
+export function FavoriteButton({ product }: { product: Product }) {
+  const { t } = useTranslation();
+  const icon = useThemeColor({}, 'icon');
+  const like = useThemeColor({}, 'like');
+  const favorite = useIsFavorite(product.id);
+  const toggle = useToggleFavorite();
+
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel={favorite ? t('catalog.removeFavorite') : t('catalog.addFavorite')}
+      accessibilityState={{ selected: favorite }}
+      hitSlop={8}
+      onPress={() => toggle(product, !favorite)}>
+      <IconSymbol
+        name={favorite ? 'heart.fill' : 'heart'}
+        size={24}
+        color={favorite ? like : icon}
+      />
+    </Pressable>
+  );
+}
@@ -0,0 +1,83 @@
+import { Image } from 'expo-image';
+import { Link } from 'expo-router';
+import { Pressable, StyleSheet } from 'react-native';
+
+import { shareTarget } from '@/components/links/share-button';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { describeStage, formatPrice, type Product } from '@/lib/catalog';
+
+/** Grid cell for a product; on iOS a long press also offers sharing. */
+export function ProductCard({ product }: { product: Product }) {
+  const { locale, t } = useTranslation();
+  const danger = useThemeColor({}, 'danger');
+  const image = product.images[0];
+
+  return (
+    <Link href={{ pathname: '/products/[id]', params: { id: product.id } }} asChild>
+      <Link.Trigger>
+        <Pressable style={styles.card} accessibilityRole="link">
+          <Image
+            source={image ? { uri: image.uri } : undefined}
+            accessibilityLabel={image?.alt}
+            style={styles.image}
+            contentFit="cover"
+            transition={150}
+          />
+          <ThemedView style={styles.body}>
+            <ThemedText numberOfLines={2} style={styles.title}>
+              {product.title}
+            </ThemedText>
+            <ThemedText style={styles.meta}>
+              {t(`catalog.sex.${product.sex}`)} / {describeStage(product, locale)}
+            </ThemedText>
+            <ThemedText type="defaultSemiBold">{formatPrice(product.priceYen)}</ThemedText>
+            {product.stock === 0 && (
+              <ThemedText style={[styles.soldOut, { color: danger }]}>
+                {t('catalog.soldOut')}
+              </ThemedText>
+            )}
+          </ThemedView>
+        </Pressable>
+      </Link.Trigger>
+      <Link.Menu>
+        <Link.MenuAction
+          title={t('share.label')}
+          icon="square.and.arrow.up"
+          onPress={() => shareTarget({ type: 'product', id: product.id }, product.title)}
+        />
+      </Link.Menu>
+    </Link>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flex: 1,
+    margin: 6,
+  },
+  image: {
+    aspectRatio: 1,
+    borderRadius: 8,
+    backgroundColor: '#80808033',
+  },
+  body: {
+    paddingVertical: 6,
+    gap: 2,
+  },
+  title: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  meta: {
+    fontSize: 12,
+    lineHeight: 16,
+    opacity: 0.7,
+  },
+  soldOut: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+});
@@ -0,0 +1,50 @@
+import type { ReactElement } from 'react';
+import { FlatList, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { ProductCard } from '@/components/catalog/product-card';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { Product } from '@/lib/catalog';
+
+type Props = {
+  products: Product[] | undefined;
+  loading: boolean;
+  error?: Error;
+  onRetry?: () => void;
+  header?: ReactElement;
+  emptyMessage?: string;
+};
+
+export function ProductGrid({ products, loading, error, onRetry, header, emptyMessage }: Props) {
+  const { t } = useTranslation();
+  const backgroundColor = useThemeColor({}, 'background');
+
+  return (
+    <FlatList
+      data={products ?? []}
+      keyExtractor={(product) => product.id}
+      renderItem={({ item }) => <ProductCard product={item} />}
+      numColumns={2}
+      style={{ backgroundColor }}
+      contentContainerStyle={styles.content}
+      ListHeaderComponent={header}
+      ListEmptyComponent={
+        <AsyncStatus
+          loading={loading}
+          error={error}
+          empty
+          emptyMessage={emptyMessage ?? t('catalog.empty')}
+          onRetry={onRetry}
+        />
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 10,
+    flexGrow: 1,
+  },
+});
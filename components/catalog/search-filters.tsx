@@ -0,0 +1,127 @@
+import { StyleSheet, Switch, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ChipMultiSelect } from '@/components/ui/chip-select';
+import { Input } from '@/components/ui/input';
+import { useTranslation } from '@/hooks/use-i18n';
+import {
+  parseAmount,
+  PRODUCT_FACETS,
+  type FacetOption,
+  type ProductFacet,
+  type ProductSearch,
+} from '@/lib/catalog';
+
+type Props = {
+  search: ProductSearch;
+  facets: Record<ProductFacet, FacetOption[]>;
+  onChange: (search: ProductSearch) => void;
+};
+
+type RangeKeys = ['sizeMin', 'sizeMax'] | ['priceMin', 'priceMax'];
+
+function RangeField({
+  label,
+  unit,
+  keys: [minKey, maxKey],
+  search,
+  onChange,
+}: Omit<Props, 'facets'> & { label: string; unit: string; keys: RangeKeys }) {
+  const { t } = useTranslation();
+  // Uncontrolled, keyed by the applied value, so a cleared filter also clears the box.
+  const field = (key: RangeKeys[number], placeholder: string) => (
+    <Input
+      key={`${key}:${search[key] ?? ''}`}
+      aria-label={`${label} ${placeholder}`}
+      placeholder={placeholder}
+      defaultValue={search[key]?.toString()}
+      keyboardType="number-pad"
+      returnKeyType="done"
+      onEndEditing={(event) => onChange({ ...search, [key]: parseAmount(event.nativeEvent.text) })}
+      flex={1}
+    />
+  );
+
+  return (
+    <View style={styles.field}>
+      <ThemedText type="defaultSemiBold">
+        {label} ({unit})
+      </ThemedText>
+      <View style={styles.range}>
+        {field(minKey, t('search.noMin'))}
+        <ThemedText>〜</ThemedText>
+        {field(maxKey, t('search.noMax'))}
+      </View>
+    </View>
+  );
+}
+
+/** The facet chips, size and price ranges and stock switch of the product search. */
+export function SearchFilters({ search, facets, onChange }: Props) {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      {PRODUCT_FACETS.map(
+        (facet) =>
+          facets[facet].length > 0 && (
+            <ChipMultiSelect
+              key={facet}
+              label={t(`search.facet.${facet}`)}
+              options={facets[facet].map((option) => ({
+                value: option.value,
+                label: `${option.label} (${option.count})`,
+              }))}
+              values={search[facet]}
+              onChange={(values) => onChange({ ...search, [facet]: values })}
+            />
+          )
+      )}
+      <RangeField
+        label={t('search.size')}
+        unit="mm"
+        keys={['sizeMin', 'sizeMax']}
+        search={search}
+        onChange={onChange}
+      />
+      <RangeField
+        label={t('search.price')}
+        unit={t('search.yen')}
+        keys={['priceMin', 'priceMax']}
+        search={search}
+        onChange={onChange}
+      />
+      <View style={styles.row}>
+        <ThemedText type="defaultSemiBold" style={styles.rowLabel}>
+          {t('search.inStockOnly')}
+        </ThemedText>
+        <Switch
+          value={search.inStock}
+          onValueChange={(inStock) => onChange({ ...search, inStock })}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  field: {
+    gap: 4,
+  },
+  range: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowLabel: {
+    flex: 1,
+  },
+});
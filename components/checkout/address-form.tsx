@@ -0,0 +1,92 @@
+import { useState, type ReactNode } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { TextField } from '@/components/ui/text-field';
+import { useTranslation } from '@/hooks/use-i18n';
+import {
+  PREFECTURES,
+  validateAddress,
+  type AddressInput,
+  type FieldErrors,
+  type ShippingAddress,
+} from '@/lib/checkout';
+
+type Props = {
+  initial?: ShippingAddress;
+  submitTitle: string;
+  loading?: boolean;
+  onSubmit: (address: ShippingAddress) => void;
+  /** Extra controls shown above the submit button. */
+  children?: ReactNode;
+};
+
+/** Japanese delivery address fields; `onSubmit` only ever receives a validated address. */
+export function AddressForm({ initial, submitTitle, loading, onSubmit, children }: Props) {
+  const [input, setInput] = useState<AddressInput>(initial ?? {});
+  const [errors, setErrors] = useState<FieldErrors<ShippingAddress>>({});
+  const { t } = useTranslation();
+
+  const field = (name: keyof ShippingAddress) => ({
+    value: input[name] ?? '',
+    onChangeText: (value: string) => setInput((current) => ({ ...current, [name]: value })),
+    error: errors[name],
+  });
+
+  const submit = () => {
+    const result = validateAddress(input);
+    if (result.errors) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors({});
+    onSubmit(result.address);
+  };
+
+  return (
+    <>
+      <TextField
+        label={t('address.name')}
+        autoComplete="name"
+        textContentType="name"
+        {...field('name')}
+      />
+      <TextField
+        label={t('address.postalCode')}
+        placeholder="123-4567"
+        keyboardType="number-pad"
+        autoComplete="postal-code"
+        textContentType="postalCode"
+        {...field('postalCode')}
+      />
+      <ChipSelect
+        label={t('address.prefecture')}
+        options={PREFECTURES.map((prefecture) => ({ value: prefecture, label: prefecture }))}
+        value={input.prefecture}
+        onChange={(prefecture) => setInput((current) => ({ ...current, prefecture }))}
+        error={errors.prefecture}
+      />
+      <TextField label={t('address.city')} textContentType="addressCity" {...field('city')} />
+      <TextField
+        label={t('address.line1')}
+        placeholder="1-2-3"
+        textContentType="streetAddressLine1"
+        {...field('line1')}
+      />
+      <TextField
+        label={t('address.line2')}
+        textContentType="streetAddressLine2"
+        {...field('line2')}
+      />
+      <TextField
+        label={t('address.phone')}
+        keyboardType="phone-pad"
+        autoComplete="tel"
+        textContentType="telephoneNumber"
+        {...field('phone')}
+      />
+      {children}
+      <Button title={submitTitle} loading={loading} onPress={submit} />
+    </>
+  );
+}
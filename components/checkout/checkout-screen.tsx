@@ -0,0 +1,44 @@
+import { Redirect } from 'expo-router';
+import type { PropsWithChildren } from 'react';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { StepIndicator } from '@/components/checkout/step-indicator';
+import { ThemedView } from '@/components/themed-view';
+import type { useCheckoutStep } from '@/hooks/use-checkout';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { CheckoutStep } from '@/lib/checkout';
+
+type Props = PropsWithChildren<{
+  step: CheckoutStep;
+  checkout: ReturnType<typeof useCheckoutStep>;
+}>;
+
+/**
+ * Frame shared by every checkout step. Children are only mounted once the saved checkout has
+ * loaded and the customer is allowed on this step, so forms can take their initial values from
+ * the checkout state.
+ */
+export function CheckoutScreen({ step, checkout, children }: Props) {
+  const backgroundColor = useThemeColor({}, 'background');
+
+  if (checkout.loading) {
+    return <AsyncStatus loading />;
+  }
+  if (checkout.redirect) {
+    return <Redirect href={checkout.redirect} />;
+  }
+  return (
+    <ScrollView style={{ backgroundColor }} keyboardShouldPersistTaps="handled">
+      {step !== 'complete' && <StepIndicator current={step} />}
+      <ThemedView style={styles.content}>{children}</ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+});
@@ -0,0 +1,66 @@
+import { Link } from 'expo-router';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { OrderStatusBadge } from '@/components/checkout/order-status-badge';
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import { formatPrice } from '@/lib/catalog';
+import { orderItemCount, type PlacedOrder } from '@/lib/checkout';
+import { toDateTimeKey } from '@/lib/date';
+
+/** One order in the history, linking to its details. */
+export function OrderRow({ order }: { order: PlacedOrder }) {
+  const first = order.lines[0];
+  const others = order.lines.length - 1;
+  const { t } = useTranslation();
+
+  return (
+    <Link
+      href={{
+        pathname: '/mypage/orders/[orderNumber]',
+        params: { orderNumber: order.orderNumber },
+      }}
+      asChild>
+      <Pressable accessibilityRole="link" style={styles.row}>
+        <View style={styles.heading}>
+          <ThemedText style={styles.meta}>{toDateTimeKey(new Date(order.placedAt))}</ThemedText>
+          <OrderStatusBadge status={order.status} />
+        </View>
+        <ThemedText type="defaultSemiBold" numberOfLines={1}>
+          {first && others > 0
+            ? t('order.others', { title: first.title, count: others })
+            : first?.title}
+        </ThemedText>
+        <View style={styles.heading}>
+          <ThemedText style={styles.meta}>
+            {t('order.number', { orderNumber: order.orderNumber })}
+          </ThemedText>
+          <ThemedText>
+            {t('order.itemCount', {
+              total: formatPrice(order.totals.totalYen),
+              count: orderItemCount(order),
+            })}
+          </ThemedText>
+        </View>
+      </Pressable>
+    </Link>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    paddingVertical: 12,
+    gap: 2,
+  },
+  heading: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,16 @@
+import { Badge, type BadgeTone } from '@/components/ui/badge';
+import { useTranslation } from '@/hooks/use-i18n';
+import type { OrderStatus } from '@/lib/checkout';
+
+const TONES: Record<OrderStatus, BadgeTone> = {
+  'pending-payment': 'warning',
+  processing: 'info',
+  shipped: 'info',
+  delivered: 'success',
+  cancelled: 'neutral',
+};
+
+export function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  const { t } = useTranslation();
+  return <Badge tone={TONES[status]}>{t(`order.status.${status}`)}</Badge>;
+}
@@ -0,0 +1,60 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import { formatPrice } from '@/lib/catalog';
+import type { OrderTotals } from '@/lib/checkout';
+import { formatPoints, pointsEarnedFor } from '@/lib/points';
+
+export function OrderSummary({ totals }: { totals: OrderTotals }) {
+  const { t } = useTranslation();
+  const rows: [string, string][] = [[t('order.summary.subtotal'), formatPrice(totals.subtotalYen)]];
+  if (totals.pointsYen > 0) {
+    rows.push([t('order.summary.points'), `-${formatPrice(totals.pointsYen)}`]);
+  }
+  rows.push(
+    [t('order.summary.shipping'), formatPrice(totals.shippingYen)],
+    [t('order.summary.fee'), formatPrice(totals.paymentFeeYen)]
+  );
+  const earned = pointsEarnedFor(totals);
+
+  return (
+    <View style={styles.summary}>
+      {rows.map(([label, amount]) => (
+        <View key={label} style={styles.row}>
+          <ThemedText>{label}</ThemedText>
+          <ThemedText>{amount}</ThemedText>
+        </View>
+      ))}
+      <View style={styles.row}>
+        <ThemedText type="defaultSemiBold">{t('order.summary.total')}</ThemedText>
+        <ThemedText type="subtitle">{formatPrice(totals.totalYen)}</ThemedText>
+      </View>
+      <ThemedText style={styles.tax}>
+        {t('order.summary.tax', { tax: formatPrice(totals.taxYen) })}
+      </ThemedText>
+      {earned > 0 && (
+        <ThemedText style={styles.tax}>
+          {t('order.summary.earned', { points: formatPoints(earned) })}
+        </ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  summary: {
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  tax: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+    textAlign: 'right',
+  },
+});
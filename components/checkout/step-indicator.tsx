@@ -0,0 +1,50 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { CHECKOUT_STEPS, type CheckoutStep } from '@/lib/checkout';
+
+/** The steps with a place in the indicator; shown as `checkout.step.<value>`. */
+const STEPS: Exclude<CheckoutStep, 'complete'>[] = ['address', 'delivery', 'payment', 'review'];
+
+export function StepIndicator({ current }: { current: CheckoutStep }) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+  const currentIndex = CHECKOUT_STEPS.indexOf(current);
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.row} accessibilityRole="progressbar">
+      {STEPS.map((step, index) => {
+        const reached = index <= currentIndex;
+        return (
+          <View key={step} style={[styles.step, { borderColor: reached ? tint : icon }]}>
+            <ThemedText style={[styles.label, { color: reached ? tint : icon }]}>
+              {index + 1}. {t(`checkout.step.${step}`)}
+            </ThemedText>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 4,
+  },
+  step: {
+    flex: 1,
+    borderBottomWidth: 3,
+    paddingBottom: 4,
+  },
+  label: {
+    fontSize: 12,
+    lineHeight: 16,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,59 @@
+import { Pressable, ScrollView, StyleSheet } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useAsync } from '@/hooks/use-async';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getFeedClient } from '@/lib/feed';
+
+type Props = {
+  /** The hashtag being typed, without the `#`; `null` when the cursor is not in one. */
+  query: string | null;
+  onSelect: (tag: string) => void;
+};
+
+export function HashtagSuggestions({ query, onSelect }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+  const suggestions = useAsync(query === null ? null : `hashtags:${query}`, () =>
+    getFeedClient().suggestHashtags(query ?? '')
+  );
+  const tags = query === null ? [] : (suggestions.data ?? []);
+
+  if (tags.length === 0) {
+    return null;
+  }
+  return (
+    <ScrollView
+      horizontal
+      keyboardShouldPersistTaps="always"
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}>
+      {tags.map((tag) => (
+        <Pressable
+          key={tag}
+          accessibilityRole="button"
+          onPress={() => onSelect(tag)}
+          style={[styles.chip, { borderColor: icon }]}>
+          <ThemedText style={[styles.label, { color: tint }]}>#{tag}</ThemedText>
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 8,
+    paddingVertical: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  label: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,74 @@
+import { Image } from 'expo-image';
+import { Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTranslation } from '@/hooks/use-i18n';
+import type { ComposeImage } from '@/lib/compose';
+
+type Props = {
+  images: ComposeImage[];
+  onRemove: (uri: string) => void;
+};
+
+function formatSize(bytes: number) {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)}MB`
+    : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+}
+
+/** Thumbnails of the compressed photos about to be posted, each removable. */
+export function ImageAttachments({ images, onRemove }: Props) {
+  const { t } = useTranslation();
+  if (images.length === 0) {
+    return null;
+  }
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}>
+      {images.map((image) => (
+        <View key={image.uri}>
+          <Image source={{ uri: image.uri }} style={styles.thumbnail} contentFit="cover" />
+          <ThemedText style={styles.size}>{formatSize(image.byteLength)}</ThemedText>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel={t('compose.removePhoto')}
+            hitSlop={8}
+            onPress={() => onRemove(image.uri)}
+            style={styles.remove}>
+            <IconSymbol name="xmark" size={14} color="#fff" />
+          </Pressable>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 8,
+  },
+  thumbnail: {
+    width: 96,
+    height: 96,
+    borderRadius: 8,
+  },
+  size: {
+    fontSize: 12,
+    lineHeight: 16,
+    opacity: 0.7,
+  },
+  remove: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+});
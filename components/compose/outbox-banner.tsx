@@ -0,0 +1,93 @@
+import { Image } from 'expo-image';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { UploadProgress } from '@/components/compose/upload-progress';
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useOutbox } from '@/hooks/use-outbox';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { removeOutboxItem, retryOutboxItem, type OutboxItem } from '@/lib/compose';
+import { deleteComposeImages } from '@/lib/compose/media';
+import { flushOutbox } from '@/lib/compose/sync';
+
+function OutboxRow({ item }: { item: OutboxItem }) {
+  const tint = useThemeColor({}, 'tint');
+  const danger = useThemeColor({}, 'danger');
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.row}>
+      {item.images[0] && <Image source={{ uri: item.images[0].uri }} style={styles.thumbnail} />}
+      <View style={styles.body}>
+        <ThemedText numberOfLines={1}>
+          {item.body || t('compose.photoCount', { count: item.images.length })}
+        </ThemedText>
+        <UploadProgress item={item} />
+        {item.status !== 'sending' && (
+          <View style={styles.actions}>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => {
+                retryOutboxItem(item.id);
+                flushOutbox();
+              }}>
+              <ThemedText style={{ color: tint }}>{t('compose.retryNow')}</ThemedText>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => {
+                removeOutboxItem(item.id);
+                deleteComposeImages(item.images);
+              }}>
+              <ThemedText style={{ color: danger }}>{t('compose.discard')}</ThemedText>
+            </Pressable>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+/** Posts that have not reached the server yet, shown above the timeline. */
+export function OutboxBanner() {
+  const items = useOutbox();
+  const border = useThemeColor({}, 'icon');
+
+  if (items.length === 0) {
+    return null;
+  }
+  return (
+    <View style={[styles.container, { borderColor: border }]}>
+      {items.map((item) => (
+        <OutboxRow key={item.id} item={item} />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 6,
+  },
+  body: {
+    flex: 1,
+    gap: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+});
@@ -0,0 +1,54 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { describeOutboxStatus, outboxProgress, type OutboxItem } from '@/lib/compose';
+
+/** A status line and, while photos are going up, a bar filled by bytes sent. */
+export function UploadProgress({ item }: { item: OutboxItem }) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+  const danger = useThemeColor({}, 'danger');
+  const progress = outboxProgress(item);
+  const { locale } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <ThemedText
+        style={[styles.status, item.status === 'failed' && [styles.error, { color: danger }]]}>
+        {describeOutboxStatus(item, locale)}
+      </ThemedText>
+      {item.images.length > 0 && (
+        <View
+          accessibilityRole="progressbar"
+          accessibilityValue={{ min: 0, max: 100, now: Math.round(progress * 100) }}
+          style={[styles.track, { backgroundColor: icon }]}>
+          <View style={[styles.bar, { backgroundColor: tint, width: `${progress * 100}%` }]} />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  status: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  error: {
+    opacity: 1,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: '100%',
+  },
+});
@@ -0,0 +1,74 @@
+import { Link } from 'expo-router';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { BlockHeader } from '@/components/content/content-link';
+import { ThemedText } from '@/components/themed-text';
+import { Card } from '@/components/ui/card';
+import { useCategories } from '@/hooks/use-catalog';
+import type { Category } from '@/lib/catalog';
+import type { CategoryGridBlock } from '@/lib/content';
+
+/** The block's categories in its order; slugs the catalog does not know are skipped. */
+function pick(categories: Category[], slugs: string[] | undefined) {
+  if (!slugs) {
+    return categories;
+  }
+  return slugs.flatMap((slug) => categories.find((category) => category.slug === slug) ?? []);
+}
+
+export function CategoryGrid({ block }: { block: CategoryGridBlock }) {
+  const categories = useCategories();
+  const picked = pick(categories.data ?? [], block.categorySlugs);
+
+  return (
+    <View style={styles.container}>
+      <BlockHeader title={block.title} />
+      {picked.length > 0 ? (
+        <View style={styles.grid}>
+          {picked.map((category) => (
+            <Link
+              key={category.slug}
+              href={{ pathname: '/categories/[slug]', params: { slug: category.slug } }}
+              asChild>
+              <Pressable accessibilityRole="link" style={styles.cell}>
+                <Card flex={1} gap="$1">
+                  <ThemedText type="defaultSemiBold">{category.name}</ThemedText>
+                  <ThemedText numberOfLines={2} style={styles.meta}>
+                    {category.description}
+                  </ThemedText>
+                </Card>
+              </Pressable>
+            </Link>
+          ))}
+        </View>
+      ) : (
+        <AsyncStatus
+          loading={categories.loading}
+          error={categories.error}
+          onRetry={categories.reload}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  cell: {
+    flexBasis: '48%',
+    flexGrow: 1,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
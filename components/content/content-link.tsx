@@ -0,0 +1,50 @@
+import { router, type Href } from 'expo-router';
+import { openBrowserAsync, WebBrowserPresentationStyle } from 'expo-web-browser';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { ContentLink } from '@/lib/content';
+
+/** App paths are pushed onto the stack; `https://` URLs open in the in-app browser. */
+export function openContentLink(href: string) {
+  if (href.startsWith('/')) {
+    // Content is published outside the app, so its paths cannot be checked against typed routes.
+    router.push(href as Href);
+  } else {
+    void openBrowserAsync(href, { presentationStyle: WebBrowserPresentationStyle.AUTOMATIC });
+  }
+}
+
+/** A block's title, with its "see all" link on the right when it has one. */
+export function BlockHeader({ title, link }: { title?: string; link?: ContentLink }) {
+  if (!title && !link) {
+    return null;
+  }
+
+  return (
+    <View style={styles.header}>
+      {title ? (
+        <ThemedText type="subtitle" style={styles.title}>
+          {title}
+        </ThemedText>
+      ) : null}
+      {link && (
+        <Pressable accessibilityRole="link" hitSlop={8} onPress={() => openContentLink(link.href)}>
+          <ThemedText type="link">{link.label}</ThemedText>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  title: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,92 @@
+import type { PropsWithChildren } from 'react';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { CategoryGrid } from '@/components/content/category-grid';
+import { BlockHeader } from '@/components/content/content-link';
+import { HeroBanner } from '@/components/content/hero-banner';
+import { ProductCarousel } from '@/components/content/product-carousel';
+import { RichText } from '@/components/content/rich-text';
+import { TimelineHighlights } from '@/components/content/timeline-highlights';
+import ParallaxScrollView from '@/components/parallax-scroll-view';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { themes } from '@/constants/theme';
+import type { ContentBlock, ContentDocument } from '@/lib/content';
+
+const HEADER_BACKGROUND = { light: themes.light.surface, dark: themes.dark.surface };
+
+function Block({ block }: { block: ContentBlock }) {
+  switch (block.type) {
+    case 'hero':
+      return <HeroBanner block={block} inline />;
+    case 'product-carousel':
+      return <ProductCarousel block={block} />;
+    case 'category-grid':
+      return <CategoryGrid block={block} />;
+    case 'timeline-highlights':
+      return <TimelineHighlights block={block} />;
+    case 'rich-text':
+      return (
+        <ThemedView style={styles.richText}>
+          <BlockHeader title={block.title} />
+          <RichText nodes={block.content} />
+        </ThemedView>
+      );
+  }
+}
+
+/**
+ * Renders a content document's blocks top to bottom. The first hero becomes the parallax
+ * header; any later ones are shown as banners in place. `children` follow the last block.
+ */
+export function ContentPage({
+  document,
+  children,
+}: PropsWithChildren<{ document: ContentDocument }>) {
+  const hero = document.blocks.find((block) => block.type === 'hero');
+  const body = (
+    <>
+      {document.description && (
+        <ThemedText style={styles.description}>{document.description}</ThemedText>
+      )}
+      {document.blocks.map((block, index) =>
+        block === hero ? null : <Block key={index} block={block} />
+      )}
+      {children}
+    </>
+  );
+
+  if (!hero) {
+    return (
+      <ThemedView style={styles.screen}>
+        <ScrollView contentContainerStyle={styles.content}>{body}</ScrollView>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ParallaxScrollView
+      headerImage={<HeroBanner block={hero} />}
+      headerBackgroundColor={HEADER_BACKGROUND}>
+      {body}
+    </ParallaxScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  content: {
+    padding: 32,
+    gap: 16,
+  },
+  richText: {
+    gap: 8,
+  },
+  description: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,67 @@
+import { Image } from 'expo-image';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { openContentLink } from '@/components/content/content-link';
+import { ThemedText } from '@/components/themed-text';
+import type { HeroBlock } from '@/lib/content';
+
+type Props = {
+  block: HeroBlock;
+  /** Rounded and sized to the page, for a hero that is not the page's parallax header. */
+  inline?: boolean;
+};
+
+/** A campaign image with its title over it; the whole banner follows the block's link. */
+export function HeroBanner({ block, inline }: Props) {
+  const { link } = block;
+
+  return (
+    <Pressable
+      accessibilityRole={link ? 'link' : 'image'}
+      accessibilityLabel={link ? `${block.title} ${link.label}` : block.title}
+      disabled={!link}
+      onPress={link && (() => openContentLink(link.href))}
+      style={inline ? styles.inline : styles.fill}>
+      <Image
+        source={{ uri: block.image.uri }}
+        accessibilityLabel={block.image.alt}
+        style={StyleSheet.absoluteFill}
+        contentFit="cover"
+        transition={150}
+      />
+      <View style={styles.caption}>
+        <ThemedText type="subtitle" style={styles.captionText}>
+          {block.title}
+        </ThemedText>
+        {block.subtitle && <ThemedText style={styles.captionText}>{block.subtitle}</ThemedText>}
+        {link && (
+          <ThemedText type="defaultSemiBold" style={styles.captionText}>
+            {link.label} ›
+          </ThemedText>
+        )}
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  fill: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  inline: {
+    aspectRatio: 2,
+    borderRadius: 12,
+    overflow: 'hidden',
+    justifyContent: 'flex-end',
+    backgroundColor: '#80808033',
+  },
+  caption: {
+    padding: 16,
+    gap: 2,
+    backgroundColor: '#00000066',
+  },
+  captionText: {
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,51 @@
+import { ScrollView, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { ProductCard } from '@/components/catalog/product-card';
+import { BlockHeader } from '@/components/content/content-link';
+import { useCarouselProducts } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-i18n';
+import type { ProductCarouselBlock } from '@/lib/content';
+
+export function ProductCarousel({ block }: { block: ProductCarouselBlock }) {
+  const products = useCarouselProducts(block);
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <BlockHeader title={block.title} link={block.link} />
+      {products.data && products.data.length > 0 ? (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.row}>
+          {products.data.map((product) => (
+            <View key={product.id} style={styles.item}>
+              <ProductCard product={product} />
+            </View>
+          ))}
+        </ScrollView>
+      ) : (
+        <AsyncStatus
+          loading={products.loading}
+          error={products.error}
+          empty
+          emptyMessage={t('content.noProducts')}
+          onRetry={products.reload}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  row: {
+    marginHorizontal: -6,
+  },
+  item: {
+    width: 160,
+  },
+});
@@ -0,0 +1,93 @@
+import { Link, type Href } from 'expo-router';
+import { StyleSheet, View } from 'react-native';
+
+import { ExternalLink } from '@/components/external-link';
+import { ThemedText } from '@/components/themed-text';
+import type { RichTextNode, RichTextSpan } from '@/lib/content';
+
+function Span({ span }: { span: RichTextSpan }) {
+  if (!span.href) {
+    return <ThemedText type={span.bold ? 'defaultSemiBold' : 'default'}>{span.text}</ThemedText>;
+  }
+  const label = (
+    <ThemedText type="link" style={styles.inlineLink}>
+      {span.text}
+    </ThemedText>
+  );
+  // Validation only lets through app paths and `https://` URLs.
+  return span.href.startsWith('/') ? (
+    <Link href={span.href as Href} asChild>
+      {label}
+    </Link>
+  ) : (
+    <ExternalLink href={span.href as Href & string} asChild>
+      {label}
+    </ExternalLink>
+  );
+}
+
+function Spans({ spans }: { spans: RichTextSpan[] }) {
+  return spans.map((span, index) => <Span key={index} span={span} />);
+}
+
+/** Headings, paragraphs and lists from a content document or a static page. */
+export function RichText({ nodes }: { nodes: RichTextNode[] }) {
+  return (
+    <View style={styles.container}>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'heading':
+            return (
+              <ThemedText key={index} type="defaultSemiBold" accessibilityRole="header">
+                {node.text}
+              </ThemedText>
+            );
+          case 'paragraph':
+            return (
+              <ThemedText key={index}>
+                <Spans spans={node.spans} />
+              </ThemedText>
+            );
+          case 'list':
+            return (
+              <View key={index} style={styles.list}>
+                {node.items.map((item, itemIndex) => (
+                  <View key={itemIndex} style={styles.item}>
+                    <ThemedText style={styles.marker}>
+                      {node.ordered ? `${itemIndex + 1}.` : '・'}
+                    </ThemedText>
+                    <ThemedText style={styles.itemText}>
+                      <Spans spans={item} />
+                    </ThemedText>
+                  </View>
+                ))}
+              </View>
+            );
+        }
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  list: {
+    gap: 4,
+  },
+  item: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  marker: {
+    minWidth: 20,
+  },
+  itemText: {
+    flex: 1,
+  },
+  inlineLink: {
+    lineHeight: 24,
+    textDecorationLine: 'underline',
+  },
+});
@@ -0,0 +1,55 @@
+import { StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { BlockHeader } from '@/components/content/content-link';
+import { PostCard } from '@/components/feed/post-card';
+import { usePostHighlights } from '@/hooks/use-feed';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { TimelineHighlightsBlock } from '@/lib/content';
+
+const DEFAULT_LIMIT = 3;
+
+export function TimelineHighlights({ block }: { block: TimelineHighlightsBlock }) {
+  const posts = usePostHighlights(block.hashtag, block.limit ?? DEFAULT_LIMIT);
+  const separator = useThemeColor({}, 'icon');
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <BlockHeader
+        title={block.title}
+        link={{
+          href: block.hashtag ? `/hashtags/${encodeURIComponent(block.hashtag)}` : '/timeline',
+          label: t('content.more'),
+        }}
+      />
+      {posts.data && posts.data.length > 0 ? (
+        posts.data.map((post, index) => (
+          <View key={post.id}>
+            {index > 0 && <View style={[styles.separator, { backgroundColor: separator }]} />}
+            <PostCard post={post} />
+          </View>
+        ))
+      ) : (
+        <AsyncStatus
+          loading={posts.loading}
+          error={posts.error}
+          empty
+          emptyMessage={t('content.noPosts')}
+          onRetry={posts.reload}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    opacity: 0.3,
+  },
+});
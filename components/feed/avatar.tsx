@@ -0,0 +1,28 @@
+import { Image } from 'expo-image';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { Author } from '@/lib/feed';
+
+/** The author's picture, or the first letter of their name on a neutral circle. */
+export function Avatar({ author, size = 40 }: { author: Author; size?: number }) {
+  const shape = { width: size, height: size, borderRadius: size / 2 };
+
+  return author.avatarUri ? (
+    <Image source={{ uri: author.avatarUri }} style={shape} contentFit="cover" />
+  ) : (
+    <View style={[styles.placeholder, shape]}>
+      <ThemedText style={{ fontSize: size * 0.45, lineHeight: size * 0.6 }}>
+        {author.displayName.slice(0, 1)}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  placeholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#80808033',
+  },
+});
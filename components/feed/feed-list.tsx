@@ -0,0 +1,79 @@
+import type { ReactElement } from 'react';
+import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, View } from 'react-native';
+
+import { AsyncStatus } from '@/components/async-status';
+import { PostCard } from '@/components/feed/post-card';
+import { useTranslation } from '@/hooks/use-i18n';
+import type { PaginatedState } from '@/hooks/use-paginated';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { Post } from '@/lib/feed';
+
+type Props = {
+  feed: PaginatedState<Post>;
+  emptyMessage?: string;
+  ListHeaderComponent?: ReactElement;
+};
+
+/**
+ * A virtualized list of posts with pull-to-refresh and infinite scroll. Long feeds need this
+ * instead of `ParallaxScrollView`, which renders every child up front.
+ */
+export function FeedList({ feed, emptyMessage, ListHeaderComponent }: Props) {
+  const backgroundColor = useThemeColor({}, 'background');
+  const tint = useThemeColor({}, 'tint');
+  const separator = useThemeColor({}, 'icon');
+  const { t } = useTranslation();
+
+  return (
+    <FlatList
+      data={feed.items}
+      keyExtractor={(post) => post.id}
+      renderItem={({ item }) => <PostCard post={item} />}
+      ItemSeparatorComponent={() => (
+        <View style={[styles.separator, { backgroundColor: separator }]} />
+      )}
+      ListHeaderComponent={ListHeaderComponent}
+      ListEmptyComponent={
+        <AsyncStatus
+          loading={feed.loading}
+          error={feed.error}
+          empty
+          emptyMessage={emptyMessage ?? t('feed.empty')}
+          onRetry={feed.refresh}
+        />
+      }
+      ListFooterComponent={
+        feed.loadingMore ? (
+          <ActivityIndicator color={tint} style={styles.footer} />
+        ) : feed.error && feed.items.length > 0 ? (
+          <AsyncStatus loading={false} error={feed.error} onRetry={feed.retry} />
+        ) : null
+      }
+      onEndReached={feed.loadMore}
+      onEndReachedThreshold={0.5}
+      refreshControl={
+        <RefreshControl refreshing={feed.refreshing} onRefresh={feed.refresh} tintColor={tint} />
+      }
+      initialNumToRender={8}
+      maxToRenderPerBatch={8}
+      windowSize={7}
+      removeClippedSubviews
+      style={{ backgroundColor }}
+      contentContainerStyle={styles.content}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    flexGrow: 1,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    opacity: 0.3,
+  },
+  footer: {
+    padding: 16,
+  },
+});
@@ -0,0 +1,96 @@
+import { addNetworkStateListener } from 'expo-network';
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+
+import { useAuth } from '@/hooks/use-auth';
+import { useHydrated, usePersistedStore } from '@/hooks/use-store';
+import { nextOutboxRetryAt, outboxStore } from '@/lib/compose';
+import { flushOutbox } from '@/lib/compose/sync';
+import {
+  authorFromUser,
+  flushReactions,
+  flushShowcase,
+  queueShowcase,
+  reactionStore,
+  resetReactions,
+  setFeedSession,
+} from '@/lib/feed';
+import { growthStore, recordsStore, toShowcase } from '@/lib/records';
+
+/** Edits usually come in bursts; publish the shared records once they settle. */
+const SHOWCASE_DEBOUNCE_MS = 2000;
+
+function flushAll() {
+  flushOutbox();
+  flushReactions();
+  flushShowcase();
+}
+
+/**
+ * Signs the feed client in as the current user and sends queued posts, likes, reposts, bookmarks
+ * and the individuals shared on their profile whenever that could succeed: on sign-in, when the
+ * network comes back, when the app returns to the foreground and when a backed-off retry falls
+ * due. Renders nothing.
+ */
+export function FeedSync() {
+  const { session, status } = useAuth();
+  const outboxRetryAt = usePersistedStore(outboxStore, nextOutboxRetryAt);
+  const reactionRetryAt = usePersistedStore(reactionStore, (state) => state.retryAt);
+  const retryAt = [outboxRetryAt, reactionRetryAt].filter(Boolean).sort()[0];
+  const individuals = usePersistedStore(recordsStore, (state) => state.individuals);
+  const growth = usePersistedStore(growthStore, (state) => state.entries);
+  const individualsHydrated = useHydrated(recordsStore);
+  const growthHydrated = useHydrated(growthStore);
+  // Publishing before the records load would briefly share an empty profile.
+  const recordsHydrated = individualsHydrated && growthHydrated;
+
+  useEffect(() => {
+    setFeedSession(session ? { token: session.token, author: authorFromUser(session.user) } : null);
+    if (!session) {
+      return;
+    }
+    flushAll();
+    const network = addNetworkStateListener((state) => {
+      if (state.isInternetReachable) {
+        flushAll();
+      }
+    });
+    const appState = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        flushAll();
+      }
+    });
+    return () => {
+      network.remove();
+      appState.remove();
+    };
+  }, [session]);
+
+  // Likes and bookmarks belong to the account; don't carry them over to the next one.
+  useEffect(() => {
+    if (status === 'signed-out') {
+      resetReactions();
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (!session || !recordsHydrated) {
+      return;
+    }
+    const timer = setTimeout(
+      () => queueShowcase(toShowcase(Object.values(individuals), Object.values(growth))),
+      SHOWCASE_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [session, recordsHydrated, individuals, growth]);
+
+  useEffect(() => {
+    if (!session || !retryAt) {
+      return;
+    }
+    const timer = setTimeout(flushAll, Math.max(0, new Date(retryAt).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [session, retryAt]);
+
+  return null;
+}
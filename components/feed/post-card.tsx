@@ -0,0 +1,169 @@
+import { Image } from 'expo-image';
+import { Link } from 'expo-router';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { Avatar } from '@/components/feed/avatar';
+import { ReactionBar } from '@/components/feed/reaction-bar';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { formatRelativeTime, splitHashtags, type Post } from '@/lib/feed';
+
+type Props = {
+  post: Post;
+  /** Larger text and no link, for the post being viewed on its detail screen. */
+  detail?: boolean;
+};
+
+function PostImages({ post }: { post: Post }) {
+  if (post.images.length === 0) {
+    return null;
+  }
+  const single = post.images.length === 1;
+
+  return (
+    <View style={styles.images}>
+      {post.images.slice(0, 4).map((image) => (
+        <Image
+          key={image.uri}
+          source={{ uri: image.uri }}
+          accessibilityLabel={image.alt}
+          style={single ? styles.singleImage : styles.gridImage}
+          contentFit="cover"
+          transition={150}
+        />
+      ))}
+    </View>
+  );
+}
+
+function PostText({ post, detail }: Props) {
+  const tint = useThemeColor({}, 'tint');
+
+  return (
+    <ThemedText style={detail && styles.detailText}>
+      {splitHashtags(post.body).map((part, index) =>
+        part.type === 'tag' ? (
+          <Link
+            key={index}
+            href={{ pathname: '/hashtags/[tag]', params: { tag: part.tag } }}
+            style={{ color: tint }}>
+            {part.text}
+          </Link>
+        ) : (
+          part.text
+        )
+      )}
+    </ThemedText>
+  );
+}
+
+function PostBody({ post, detail }: Props) {
+  const icon = useThemeColor({}, 'icon');
+  const { locale } = useTranslation();
+  const profile = { pathname: '/users/[id]', params: { id: post.author.id } } as const;
+
+  return (
+    <View style={styles.row}>
+      <Link href={profile} asChild>
+        <Pressable accessibilityRole="link" accessibilityLabel={post.author.displayName}>
+          <Avatar author={post.author} />
+        </Pressable>
+      </Link>
+      <View style={styles.body}>
+        <View style={styles.header}>
+          <Link href={profile} style={styles.name} numberOfLines={1}>
+            <ThemedText type="defaultSemiBold">{post.author.displayName}</ThemedText>
+          </Link>
+          <ThemedText style={styles.meta} numberOfLines={1}>
+            @{post.author.handle} · {formatRelativeTime(post.createdAt, undefined, locale)}
+          </ThemedText>
+        </View>
+        {post.body !== '' && <PostText post={post} detail={detail} />}
+        <PostImages post={post} />
+        {post.individual && (
+          <View style={styles.individual}>
+            <IconSymbol name="pawprint.fill" size={14} color={icon} />
+            <ThemedText style={styles.meta} numberOfLines={1}>
+              {post.individual.label} · {post.individual.japaneseName}
+              {post.individual.scientificName && (
+                <ThemedText style={[styles.meta, styles.scientific]}>
+                  {' '}
+                  {post.individual.scientificName}
+                </ThemedText>
+              )}
+            </ThemedText>
+          </View>
+        )}
+        <ReactionBar post={post} />
+      </View>
+    </View>
+  );
+}
+
+export function PostCard({ post, detail }: Props) {
+  if (detail) {
+    return <PostBody post={post} detail />;
+  }
+  return (
+    <Link href={{ pathname: '/posts/[id]', params: { id: post.id } }} asChild>
+      <Pressable accessibilityRole="link">
+        <PostBody post={post} />
+      </Pressable>
+    </Link>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  body: {
+    flex: 1,
+    gap: 6,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 6,
+  },
+  name: {
+    flexShrink: 1,
+  },
+  meta: {
+    flexShrink: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  detailText: {
+    fontSize: 18,
+    lineHeight: 28,
+  },
+  images: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  singleImage: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 8,
+  },
+  gridImage: {
+    width: '49%',
+    aspectRatio: 1,
+    borderRadius: 8,
+  },
+  individual: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  scientific: {
+    fontStyle: 'italic',
+  },
+});
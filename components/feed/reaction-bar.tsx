@@ -0,0 +1,103 @@
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTranslation } from '@/hooks/use-i18n';
+import { usePostReactions, useRejectedReaction, useToggleReaction } from '@/hooks/use-reactions';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { Post } from '@/lib/feed';
+
+/** Reply count plus like, repost and bookmark toggles that update before the server answers. */
+export function ReactionBar({ post }: { post: Post }) {
+  const icon = useThemeColor({}, 'icon');
+  const tint = useThemeColor({}, 'tint');
+  const liked = useThemeColor({}, 'like');
+  const success = useThemeColor({}, 'success');
+  const danger = useThemeColor({}, 'danger');
+  const reactions = usePostReactions(post);
+  const rejected = useRejectedReaction(post.id);
+  const toggle = useToggleReaction();
+  const { like, repost, bookmark } = reactions.viewer;
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <View
+          style={styles.item}
+          accessibilityLabel={t('feed.replies', { count: post.replyCount })}>
+          <IconSymbol name="bubble.left" size={16} color={icon} />
+          <ThemedText style={styles.count}>{post.replyCount}</ThemedText>
+        </View>
+        <Pressable
+          accessibilityRole="button"
+          accessibilityLabel={t('feed.reposts', { count: reactions.repostCount })}
+          accessibilityState={{ selected: repost }}
+          hitSlop={8}
+          onPress={() => toggle(post, 'repost', !repost)}
+          style={styles.item}>
+          <IconSymbol name="arrow.2.squarepath" size={16} color={repost ? success : icon} />
+          <ThemedText style={[styles.count, repost && { color: success, opacity: 1 }]}>
+            {reactions.repostCount}
+          </ThemedText>
+        </Pressable>
+        <Pressable
+          accessibilityRole="button"
+          accessibilityLabel={t('feed.likes', { count: reactions.likeCount })}
+          accessibilityState={{ selected: like }}
+          hitSlop={8}
+          onPress={() => toggle(post, 'like', !like)}
+          style={styles.item}>
+          <IconSymbol name={like ? 'heart.fill' : 'heart'} size={16} color={like ? liked : icon} />
+          <ThemedText style={[styles.count, like && { color: liked, opacity: 1 }]}>
+            {reactions.likeCount}
+          </ThemedText>
+        </Pressable>
+        <Pressable
+          accessibilityRole="button"
+          accessibilityLabel={bookmark ? t('feed.removeBookmark') : t('feed.bookmark')}
+          accessibilityState={{ selected: bookmark }}
+          hitSlop={8}
+          onPress={() => toggle(post, 'bookmark', !bookmark)}
+          style={styles.item}>
+          <IconSymbol
+            name={bookmark ? 'bookmark.fill' : 'bookmark'}
+            size={16}
+            color={bookmark ? tint : icon}
+          />
+        </Pressable>
+      </View>
+      {rejected && (
+        <ThemedText style={[styles.error, { color: danger }]}>
+          {rejected.on
+            ? t(`feed.reactionFailed.${rejected.kind}`)
+            : t(`feed.undoFailed.${rejected.kind}`)}
+        </ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 24,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  count: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  error: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+
+import { PostCard } from '@/components/feed/post-card';
+import { ThemedText } from '@/components/themed-text';
+import { useReplies } from '@/hooks/use-feed';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { Post } from '@/lib/feed';
+
+/** Deeper replies open on their own detail screen instead of indenting off the screen. */
+const MAX_DEPTH = 4;
+
+function ReplyItem({ reply, depth }: { reply: Post; depth: number }) {
+  const [expanded, setExpanded] = useState(false);
+  const { t } = useTranslation();
+
+  return (
+    <View>
+      <PostCard post={reply} />
+      {reply.replyCount > 0 &&
+        (expanded ? (
+          <ReplyThread postId={reply.id} depth={depth + 1} />
+        ) : (
+          depth < MAX_DEPTH && (
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => setExpanded(true)}
+              style={styles.toggle}>
+              <ThemedText type="link">
+                {t('feed.showReplies', { count: reply.replyCount })}
+              </ThemedText>
+            </Pressable>
+          )
+        ))}
+    </View>
+  );
+}
+
+/**
+ * The replies to a post, each of which can open its own replies. Every level pages on its own,
+ * so a busy thread never loads more than the keeper asks for.
+ */
+export function ReplyThread({ postId, depth = 1 }: { postId: string; depth?: number }) {
+  const replies = useReplies(postId);
+  const tint = useThemeColor({}, 'tint');
+  const line = useThemeColor({}, 'icon');
+  const { t } = useTranslation();
+
+  return (
+    <View style={depth > 1 && [styles.nested, { borderColor: line }]}>
+      {replies.items.map((reply) => (
+        <ReplyItem key={reply.id} reply={reply} depth={depth} />
+      ))}
+      {(replies.loading || replies.loadingMore) && (
+        <ActivityIndicator color={tint} style={styles.loading} />
+      )}
+      {replies.error && (
+        <Pressable accessibilityRole="button" onPress={replies.retry} style={styles.toggle}>
+          <ThemedText type="link">{t('feed.repliesFailed')}</ThemedText>
+        </Pressable>
+      )}
+      {replies.hasMore && !replies.loadingMore && !replies.error && (
+        <Pressable accessibilityRole="button" onPress={replies.loadMore} style={styles.toggle}>
+          <ThemedText type="link">{t('feed.moreReplies')}</ThemedText>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  nested: {
+    marginLeft: 20,
+    paddingLeft: 12,
+    borderLeftWidth: StyleSheet.hairlineWidth,
+  },
+  toggle: {
+    paddingVertical: 6,
+  },
+  loading: {
+    padding: 8,
+  },
+});
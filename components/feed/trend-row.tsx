@@ -0,0 +1,57 @@
+import { Link } from 'expo-router';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import type { TrendingTag } from '@/lib/feed';
+
+type Props = {
+  rank: number;
+  trend: TrendingTag;
+};
+
+export function TrendRow({ rank, trend }: Props) {
+  const others = trend.variants.filter((variant) => variant !== trend.tag);
+  const { t } = useTranslation();
+
+  return (
+    <Link href={{ pathname: '/hashtags/[tag]', params: { tag: trend.tag } }} asChild>
+      <Pressable accessibilityRole="link" style={styles.row}>
+        <ThemedText style={styles.rank}>{rank}</ThemedText>
+        <View style={styles.body}>
+          <ThemedText type="defaultSemiBold">#{trend.tag}</ThemedText>
+          {others.length > 0 && (
+            <ThemedText style={styles.meta} numberOfLines={1}>
+              {others.map((variant) => `#${variant}`).join(' ')}
+            </ThemedText>
+          )}
+          <ThemedText style={styles.meta}>
+            {t('feed.trend', { count: trend.recentCount, velocity: trend.velocity.toFixed(1) })}
+          </ThemedText>
+        </View>
+      </Pressable>
+    </Link>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  rank: {
+    width: 24,
+    textAlign: 'right',
+    opacity: 0.7,
+  },
+  body: {
+    flex: 1,
+    gap: 2,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,15 @@
+import { useEffect } from 'react';
+
+import { useLocale } from '@/hooks/use-i18n';
+import { setLocale } from '@/lib/i18n';
+
+/** Points formatters used outside of React, such as `formatPrice`, at the chosen language. */
+export function LocaleSync() {
+  const locale = useLocale();
+
+  useEffect(() => {
+    setLocale(locale);
+  }, [locale]);
+
+  return null;
+}
@@ -0,0 +1,37 @@
+import { Pressable, Share } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { shareLinks, type ShareTarget } from '@/lib/links';
+import { SITE_NAME } from '@/lib/site';
+
+/**
+ * Opens the native share sheet with the target's web URL, which works for people without the
+ * app and opens the app for those who have it.
+ */
+export function shareTarget(target: ShareTarget, title: string) {
+  const { webUrl } = shareLinks(target);
+  const message = `${title} | ${SITE_NAME}`;
+  // iOS shows `url` as a rich link; Android only sends `message`.
+  const content =
+    process.env.EXPO_OS === 'ios' ? { message, url: webUrl } : { message: `${message}\n${webUrl}` };
+  // Dismissing the sheet or a browser without the Web Share API is not worth reporting.
+  return Share.share(content, { subject: title }).catch(() => undefined);
+}
+
+/** Share icon for a screen's header. */
+export function ShareButton({ target, title }: { target: ShareTarget; title: string }) {
+  const icon = useThemeColor({}, 'icon');
+  const { t } = useTranslation();
+
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel={t('share.label')}
+      hitSlop={8}
+      onPress={() => shareTarget(target, title)}>
+      <IconSymbol name="square.and.arrow.up" size={24} color={icon} />
+    </Pressable>
+  );
+}
@@ -0,0 +1,80 @@
+import type { ComponentProps } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { formatRelativeTime } from '@/lib/feed';
+import type { AppNotification, NotificationCategory } from '@/lib/notifications';
+
+const CATEGORY_ICONS: Record<NotificationCategory, ComponentProps<typeof IconSymbol>['name']> = {
+  follow: 'person.fill',
+  like: 'heart.fill',
+  reply: 'bubble.left',
+  order: 'bag.fill',
+  restock: 'cart.fill',
+  care: 'pawprint.fill',
+};
+
+type Props = {
+  notification: AppNotification;
+  onPress: () => void;
+};
+
+export function NotificationRow({ notification, onPress }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+  const unread = !notification.readAt;
+  const { locale, t } = useTranslation();
+
+  return (
+    <Pressable
+      accessibilityRole="link"
+      accessibilityLabel={
+        unread ? t('notifications.unread', { title: notification.title }) : notification.title
+      }
+      onPress={onPress}
+      style={styles.row}>
+      <View style={[styles.dot, unread && { backgroundColor: tint }]} />
+      <IconSymbol name={CATEGORY_ICONS[notification.payload.type]} size={20} color={icon} />
+      <View style={styles.body}>
+        <ThemedText type={unread ? 'defaultSemiBold' : 'default'} numberOfLines={2}>
+          {notification.title}
+        </ThemedText>
+        {notification.body !== '' && (
+          <ThemedText style={styles.meta} numberOfLines={2}>
+            {notification.body}
+          </ThemedText>
+        )}
+        <ThemedText style={styles.meta}>
+          {formatRelativeTime(notification.createdAt, undefined, locale)}
+        </ThemedText>
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 12,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 8,
+  },
+  body: {
+    flex: 1,
+    gap: 2,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+
+import { useAuth } from '@/hooks/use-auth';
+import { useOpenNotification } from '@/hooks/use-notifications';
+import { getCatalogSource } from '@/lib/catalog';
+import { getOrderApi } from '@/lib/checkout';
+import { getFeedClient } from '@/lib/feed';
+import {
+  addNotifications,
+  loadActivity,
+  loadOrderChanges,
+  loadRestocks,
+  resetNotifications,
+} from '@/lib/notifications';
+import { getLaunchNotification, subscribeToNotifications } from '@/lib/notifications/push';
+
+function refresh(userId: string) {
+  loadActivity(getFeedClient()).catch(() => undefined);
+  loadOrderChanges(getOrderApi()).catch(() => undefined);
+  loadRestocks(getCatalogSource(), userId).catch(() => undefined);
+}
+
+/**
+ * Fills the notification inbox from the feed server, order status changes, restocked favourites
+ * and notifications the device receives, and opens the right screen when one is tapped in the
+ * system tray. Renders nothing.
+ */
+export function NotificationSync() {
+  const { session, status } = useAuth();
+  const userId = session?.user.id;
+  const open = useOpenNotification();
+  // The launch notification is also reported by the tap listener on some platforms.
+  const opened = useRef(new Set<string>());
+
+  useEffect(() => {
+    const openOnce = (notification: Parameters<typeof open>[0]) => {
+      if (!opened.current.has(notification.id)) {
+        opened.current.add(notification.id);
+        open(notification);
+      }
+    };
+    getLaunchNotification().then(
+      (notification) => notification && openOnce(notification),
+      () => undefined
+    );
+    return subscribeToNotifications({
+      onReceive: (notification) => addNotifications([notification]),
+      onOpen: openOnce,
+    });
+  }, [open]);
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    refresh(userId);
+    const appState = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        refresh(userId);
+      }
+    });
+    return () => appState.remove();
+  }, [userId]);
+
+  useEffect(() => {
+    if (status === 'signed-out') {
+      resetNotifications();
+    }
+  }, [status]);
+
+  return null;
+}
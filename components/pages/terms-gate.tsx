@@ -0,0 +1,83 @@
+import { ScrollView, StyleSheet, View } from 'react-native';
+
+import { RichText } from '@/components/content/rich-text';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { Collapsible } from '@/components/ui/collapsible';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useHydrated, usePersistedStore } from '@/hooks/use-store';
+import { parseMarkdown } from '@/lib/content';
+import { parseDateKey } from '@/lib/date';
+import { formatDate } from '@/lib/i18n';
+import {
+  acceptTerms,
+  needsTermsAcceptance,
+  termsAcceptanceStore,
+  termsPage,
+  type TermsAcceptanceState,
+} from '@/lib/pages';
+
+function TermsUpdate({ userId, state }: { userId: string; state: TermsAcceptanceState }) {
+  const { logOut } = useAuth();
+  const effective = parseDateKey(termsPage.version);
+  const previouslyAccepted = state.accepted[userId] !== undefined;
+  const { locale, t } = useTranslation();
+
+  return (
+    <ThemedView style={StyleSheet.absoluteFill}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText type="subtitle">
+          {previouslyAccepted ? t('terms.revisedTitle') : t('terms.consentTitle')}
+        </ThemedText>
+        <ThemedText>
+          {!previouslyAccepted
+            ? t('terms.consentRequired')
+            : effective
+              ? t('terms.revisedOn', { date: formatDate(effective, { locale }) })
+              : t('terms.revised')}
+        </ThemedText>
+        {previouslyAccepted && termsPage.changes.length > 0 && (
+          <View style={styles.changes}>
+            <ThemedText type="defaultSemiBold">{t('terms.changes')}</ThemedText>
+            {termsPage.changes.map((change) => (
+              <ThemedText key={change}>・{change}</ThemedText>
+            ))}
+          </View>
+        )}
+        <Collapsible title={t('terms.fullText')}>
+          <RichText nodes={parseMarkdown(termsPage.markdown)} />
+        </Collapsible>
+        <Button title={t('terms.accept')} onPress={() => acceptTerms(userId)} />
+        <Button title={t('terms.decline')} variant="secondary" onPress={logOut} />
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+/**
+ * Covers the app for a signed-in member who has not accepted the current terms of service, which
+ * happens each time `termsPage.version` changes. The full text can be read without leaving it.
+ */
+export function TermsGate() {
+  const { session } = useAuth();
+  const state = usePersistedStore(termsAcceptanceStore, (value) => value);
+  const hydrated = useHydrated(termsAcceptanceStore);
+
+  if (!session || !hydrated || !needsTermsAcceptance(state, session.user.id)) {
+    return null;
+  }
+  return <TermsUpdate userId={session.user.id} state={state} />;
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 24,
+    paddingTop: 64,
+    gap: 16,
+  },
+  changes: {
+    gap: 4,
+  },
+});
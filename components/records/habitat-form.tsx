@@ -0,0 +1,61 @@
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { ChipMultiSelect, ChipSelect } from '@/components/ui/chip-select';
+import { TextField } from '@/components/ui/text-field';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useIndividuals } from '@/hooks/use-records';
+import { HABITAT_KINDS, type HabitatDraft } from '@/lib/records';
+
+type Props = {
+  initial: HabitatDraft;
+  submitTitle: string;
+  onSubmit: (draft: HabitatDraft) => void;
+};
+
+export function HabitatForm({ initial, submitTitle, onSubmit }: Props) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState(initial);
+  const [error, setError] = useState<string>();
+  const individuals = useIndividuals();
+
+  const submit = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      setError(t('environment.error.name'));
+      return;
+    }
+    onSubmit({ ...draft, name });
+  };
+
+  return (
+    <>
+      <TextField
+        label={t('environment.form.name')}
+        placeholder={t('environment.form.namePlaceholder')}
+        value={draft.name}
+        onChangeText={(name) => setDraft((current) => ({ ...current, name }))}
+        error={error}
+      />
+      <ChipSelect
+        label={t('environment.form.kind')}
+        options={HABITAT_KINDS.map((kind) => ({
+          value: kind,
+          label: t(`environment.kind.${kind}`),
+        }))}
+        value={draft.kind}
+        onChange={(kind) => setDraft((current) => ({ ...current, kind }))}
+      />
+      <ChipMultiSelect
+        label={t('environment.form.individuals')}
+        options={individuals.map((individual) => ({
+          value: individual.id,
+          label: `${individual.label} ${individual.species.japaneseName}`,
+        }))}
+        values={draft.individualIds}
+        onChange={(individualIds) => setDraft((current) => ({ ...current, individualIds }))}
+      />
+      <Button title={submitTitle} onPress={submit} />
+    </>
+  );
+}
@@ -0,0 +1,39 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { describeSharedAncestor, type InbreedingCheck } from '@/lib/records';
+
+/** Shown on a pairing when the ♂ and ♀ are related. Renders nothing for unrelated pairs. */
+export function InbreedingWarning({ check }: { check: InbreedingCheck | undefined }) {
+  const { locale, t } = useTranslation();
+  const danger = useThemeColor({}, 'danger');
+
+  if (!check || check.shared.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.alert, { borderColor: danger }]} accessibilityRole="alert">
+      <ThemedText type="defaultSemiBold" style={{ color: danger }}>
+        {t('breeding.inbreeding', { coefficient: (check.coefficient * 100).toFixed(1) })}
+      </ThemedText>
+      <ThemedText style={{ color: danger }}>{t('breeding.sharedAncestors')}</ThemedText>
+      {check.shared.map((ancestor) => (
+        <ThemedText key={ancestor.individual.id} style={{ color: danger }}>
+          ・{describeSharedAncestor(ancestor, locale)}
+        </ThemedText>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  alert: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+});
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+
+import { PhotoStrip } from '@/components/records/photo-strip';
+import { Button } from '@/components/ui/button';
+import { ChipSelect } from '@/components/ui/chip-select';
+import { TextField } from '@/components/ui/text-field';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useIndividuals } from '@/hooks/use-records';
+import { LIFE_STAGES } from '@/lib/catalog';
+import {
+  draftToInput,
+  INDIVIDUAL_SEXES,
+  INDIVIDUAL_STATUSES,
+  INDIVIDUAL_VISIBILITIES,
+  validateIndividual,
+  type Individual,
+  type IndividualDraft,
+  type IndividualInput,
+  type IndividualInputErrors,
+  type IndividualSex,
+} from '@/lib/records';
+
+const NO_PARENT = 'none';
+
+type TextKey =
+  'label' | 'japaneseName' | 'scientificName' | 'locality' | 'generation' | 'hatchDate' | 'notes';
+
+type Props = {
+  initial: IndividualDraft;
+  /** The individual being edited, which cannot be its own parent. */
+  individualId?: string;
+  submitTitle: string;
+  onSubmit: (draft: IndividualDraft) => void;
+};
+
+function parentOptions(
+  candidates: Individual[],
+  sex: IndividualSex,
+  noneLabel: string,
+  excludeId?: string
+) {
+  return [
+    { value: NO_PARENT, label: noneLabel },
+    ...candidates
+      .filter((candidate) => candidate.sex === sex && candidate.id !== excludeId)
+      .map((candidate) => ({ value: candidate.id, label: candidate.label })),
+  ];
+}
+
+export function IndividualForm({ initial, individualId, submitTitle, onSubmit }: Props) {
+  const { t } = useTranslation();
+  const [input, setInput] = useState<IndividualInput>(() => draftToInput(initial));
+  const [errors, setErrors] = useState<IndividualInputErrors>({});
+  const candidates = [...useIndividuals(), ...useIndividuals({ archived: true })];
+
+  const set = <K extends keyof IndividualInput>(name: K, value: IndividualInput[K]) =>
+    setInput((current) => ({ ...current, [name]: value }));
+  const text = (name: TextKey) => ({
+    value: input[name],
+    onChangeText: (value: string) => set(name, value),
+    error: errors[name],
+  });
+
+  const submit = () => {
+    const result = validateIndividual(input, { today: new Date() });
+    if (result.errors) {
+      setErrors(result.errors);
+      return;
+    }
+    onSubmit(result.draft);
+  };
+
+  return (
+    <>
+      <PhotoStrip photos={input.photos} onChange={(photos) => set('photos', photos)} />
+      <TextField label={t('individual.form.label')} placeholder="A-01" {...text('label')} />
+      <TextField
+        label={t('individual.form.japaneseName')}
+        placeholder={t('individual.form.japaneseNamePlaceholder')}
+        {...text('japaneseName')}
+      />
+      <TextField
+        label={t('individual.form.scientificName')}
+        placeholder="Dorcus hopei binodulosus"
+        autoCapitalize="none"
+        {...text('scientificName')}
+      />
+      <TextField
+        label={t('individual.form.locality')}
+        placeholder={t('individual.form.localityPlaceholder')}
+        {...text('locality')}
+      />
+      <TextField
+        label={t('individual.form.generation')}
+        placeholder="CBF1"
+        autoCapitalize="characters"
+        {...text('generation')}
+      />
+      <ChipSelect
+        label={t('individual.form.sex')}
+        options={INDIVIDUAL_SEXES.map((sex) => ({ value: sex, label: t(`individual.sex.${sex}`) }))}
+        value={input.sex}
+        onChange={(sex) => set('sex', sex)}
+      />
+      <ChipSelect
+        label={t('individual.form.stage')}
+        options={LIFE_STAGES.map((stage) => ({ value: stage, label: t(`catalog.stage.${stage}`) }))}
+        value={input.stage}
+        onChange={(stage) => set('stage', stage)}
+      />
+      <TextField
+        label={t('individual.form.hatchDate')}
+        placeholder="2025-06-01"
+        keyboardType="numbers-and-punctuation"
+        {...text('hatchDate')}
+      />
+      <ChipSelect
+        label={t('individual.form.father')}
+        options={parentOptions(candidates, 'male', t('individual.form.noParent'), individualId)}
+        value={input.fatherId ?? NO_PARENT}
+        onChange={(id) => set('fatherId', id === NO_PARENT ? undefined : id)}
+        error={errors.fatherId}
+      />
+      <ChipSelect
+        label={t('individual.form.mother')}
+        options={parentOptions(candidates, 'female', t('individual.form.noParent'), individualId)}
+        value={input.motherId ?? NO_PARENT}
+        onChange={(id) => set('motherId', id === NO_PARENT ? undefined : id)}
+        error={errors.motherId}
+      />
+      <ChipSelect
+        label={t('individual.form.status')}
+        options={INDIVIDUAL_STATUSES.map((status) => ({
+          value: status,
+          label: t(`individual.status.${status}`),
+        }))}
+        value={input.status}
+        onChange={(status) => set('status', status)}
+      />
+      <ChipSelect
+        label={t('individual.form.visibility')}
+        options={INDIVIDUAL_VISIBILITIES.map((visibility) => ({
+          value: visibility,
+          label: t(`individual.visibility.${visibility}`),
+        }))}
+        value={input.visibility}
+        onChange={(visibility) => set('visibility', visibility)}
+      />
+      <TextField label={t('form.notes')} multiline {...text('notes')} />
+      <Button title={submitTitle} onPress={submit} />
+    </>
+  );
+}
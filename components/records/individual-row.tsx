@@ -0,0 +1,65 @@
+import { Image } from 'expo-image';
+import { Link } from 'expo-router';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import type { Individual } from '@/lib/records';
+
+export function IndividualRow({ individual }: { individual: Individual }) {
+  const { t } = useTranslation();
+  const photo = individual.photos[0];
+
+  return (
+    <Link href={{ pathname: '/records/[id]', params: { id: individual.id } }} asChild>
+      <Pressable accessibilityRole="link" style={styles.row}>
+        <Image
+          source={photo ? { uri: photo.uri } : undefined}
+          style={styles.photo}
+          contentFit="cover"
+        />
+        <View style={styles.body}>
+          <ThemedText type="defaultSemiBold" numberOfLines={1}>
+            {individual.label} {t(`individual.sex.${individual.sex}`)}
+          </ThemedText>
+          <ThemedText style={styles.meta} numberOfLines={1}>
+            {[
+              individual.species.japaneseName,
+              individual.locality,
+              individual.generation,
+              t(`catalog.stage.${individual.stage}`),
+            ]
+              .filter(Boolean)
+              .join(' / ')}
+          </ThemedText>
+        </View>
+        {individual.status !== 'alive' && (
+          <ThemedText style={styles.meta}>{t(`individual.status.${individual.status}`)}</ThemedText>
+        )}
+      </Pressable>
+    </Link>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  photo: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#80808033',
+  },
+  body: {
+    flex: 1,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { ChartPoint } from '@/lib/records';
+
+const CHART_HEIGHT = 160;
+const DOT_SIZE = 8;
+
+type Props = {
+  title: string;
+  unit: string;
+  points: ChartPoint[];
+  /** Dates to draw in the warning colour, e.g. weigh-ins after a weight drop. */
+  highlightDates?: string[];
+  /** The acceptable `[min, max]`, drawn as dashed lines. */
+  range?: [number, number];
+};
+
+/**
+ * A minimal line chart drawn with plain views, so it follows the theme colours without pulling
+ * in an SVG renderer. X is days since the first reading.
+ */
+export function MeasurementChart({ title, unit, points, highlightDates = [], range }: Props) {
+  const [width, setWidth] = useState(0);
+  const line = useThemeColor({}, 'tint');
+  const axis = useThemeColor({}, 'icon');
+  const danger = useThemeColor({}, 'danger');
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  const values = [...points.map((point) => point.value), ...(range ?? [])];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const lastDay = points[points.length - 1].day || 1;
+  const toY = (value: number) =>
+    CHART_HEIGHT - DOT_SIZE / 2 - ((value - min) / span) * (CHART_HEIGHT - DOT_SIZE);
+  const coords = points.map((point) => ({
+    x: (point.day / lastDay) * (width - DOT_SIZE) + DOT_SIZE / 2,
+    y: toY(point.value),
+  }));
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText type="defaultSemiBold">{title}</ThemedText>
+      <View style={styles.body}>
+        <View style={styles.yAxis}>
+          <ThemedText style={styles.axisLabel}>
+            {max}
+            {unit}
+          </ThemedText>
+          <ThemedText style={styles.axisLabel}>
+            {min}
+            {unit}
+          </ThemedText>
+        </View>
+        <View
+          style={[styles.plot, { borderColor: axis }]}
+          onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+          accessibilityLabel={`${title}: ${points
+            .map((point) => `${point.date} ${point.value}${unit}`)
+            .join(', ')}`}>
+          {range?.map((bound) => (
+            <View key={bound} style={[styles.bound, { borderColor: axis, top: toY(bound) }]} />
+          ))}
+          {width > 0 &&
+            coords.slice(1).map((to, index) => {
+              const from = coords[index];
+              const length = Math.hypot(to.x - from.x, to.y - from.y);
+              const angle = Math.atan2(to.y - from.y, to.x - from.x);
+              return (
+                <View
+                  key={points[index + 1].date + index}
+                  style={[
+                    styles.segment,
+                    {
+                      backgroundColor: line,
+                      width: length,
+                      left: (from.x + to.x) / 2 - length / 2,
+                      top: (from.y + to.y) / 2 - 1,
+                      transform: [{ rotate: `${angle}rad` }],
+                    },
+                  ]}
+                />
+              );
+            })}
+          {width > 0 &&
+            coords.map((coord, index) => (
+              <View
+                key={points[index].date + index}
+                style={[
+                  styles.dot,
+                  {
+                    backgroundColor: highlightDates.includes(points[index].date) ? danger : line,
+                    left: coord.x - DOT_SIZE / 2,
+                    top: coord.y - DOT_SIZE / 2,
+                  },
+                ]}
+              />
+            ))}
+        </View>
+      </View>
+      <View style={styles.xAxis}>
+        <ThemedText style={styles.axisLabel}>{points[0].date}</ThemedText>
+        <ThemedText style={styles.axisLabel}>{points[points.length - 1].date}</ThemedText>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  body: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  yAxis: {
+    justifyContent: 'space-between',
+    width: 56,
+  },
+  plot: {
+    flex: 1,
+    height: CHART_HEIGHT,
+    borderLeftWidth: 1,
+    borderBottomWidth: 1,
+  },
+  bound: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: 1,
+    borderStyle: 'dashed',
+  },
+  segment: {
+    position: 'absolute',
+    height: 2,
+  },
+  dot: {
+    position: 'absolute',
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2,
+  },
+  xAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginLeft: 60,
+  },
+  axisLabel: {
+    fontSize: 11,
+    lineHeight: 14,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,69 @@
+import { Link } from 'expo-router';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { PedigreeNode } from '@/lib/records';
+
+function Branch({ label, node }: { label: string; node: PedigreeNode | undefined }) {
+  const { t } = useTranslation();
+  const icon = useThemeColor({}, 'icon');
+
+  return (
+    <View style={[styles.branch, { borderColor: icon }]}>
+      {node ? (
+        <PedigreeTree node={node} label={label} />
+      ) : (
+        <ThemedText style={styles.unknown}>{t('pedigree.unknownParent', { label })}</ThemedText>
+      )}
+    </View>
+  );
+}
+
+/** An individual and its recorded ancestors, each linking to its profile. */
+export function PedigreeTree({ node, label }: { node: PedigreeNode; label?: string }) {
+  const { t } = useTranslation();
+  const { individual } = node;
+
+  return (
+    <View style={styles.node}>
+      <Link href={{ pathname: '/records/[id]', params: { id: individual.id } }}>
+        <ThemedText type="link">
+          {label && `${label}: `}
+          {individual.label} {t(`individual.sex.${individual.sex}`)}
+        </ThemedText>
+      </Link>
+      <ThemedText style={styles.meta}>
+        {[individual.locality, individual.generation, individual.hatchDate]
+          .filter(Boolean)
+          .join(' / ')}
+      </ThemedText>
+      {(node.father || node.mother) && (
+        <>
+          <Branch label={t('pedigree.father')} node={node.father} />
+          <Branch label={t('pedigree.mother')} node={node.mother} />
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  node: {
+    gap: 2,
+  },
+  branch: {
+    marginTop: 6,
+    paddingLeft: 12,
+    borderLeftWidth: 1,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  unknown: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,88 @@
+import { Image } from 'expo-image';
+import { Alert, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { pickIndividualPhoto } from '@/lib/records/photos';
+import type { IndividualPhoto } from '@/lib/records';
+
+type Props = {
+  photos: IndividualPhoto[];
+  onChange: (photos: IndividualPhoto[]) => void;
+};
+
+export function PhotoStrip({ photos, onChange }: Props) {
+  const { t } = useTranslation();
+  const icon = useThemeColor({}, 'icon');
+
+  const add = async (source: 'camera' | 'library') => {
+    const photo = await pickIndividualPhoto(source);
+    if (photo) {
+      onChange([...photos, photo]);
+    }
+  };
+
+  const remove = (uri: string) =>
+    Alert.alert(t('photos.deleteConfirm'), undefined, [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: () => onChange(photos.filter((photo) => photo.uri !== uri)),
+      },
+    ]);
+
+  return (
+    <View style={styles.field}>
+      <ThemedText type="defaultSemiBold">{t('photos.title')}</ThemedText>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}>
+        {photos.map((photo) => (
+          <Pressable
+            key={photo.uri}
+            accessibilityLabel={t('photos.delete')}
+            onLongPress={() => remove(photo.uri)}>
+            <Image source={{ uri: photo.uri }} style={styles.photo} contentFit="cover" />
+          </Pressable>
+        ))}
+        {process.env.EXPO_OS !== 'web' && (
+          <Pressable
+            accessibilityRole="button"
+            onPress={() => add('camera')}
+            style={[styles.photo, styles.add, { borderColor: icon }]}>
+            <ThemedText>{t('photos.camera')}</ThemedText>
+          </Pressable>
+        )}
+        <Pressable
+          accessibilityRole="button"
+          onPress={() => add('library')}
+          style={[styles.photo, styles.add, { borderColor: icon }]}>
+          <ThemedText>{t('photos.library')}</ThemedText>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    gap: 4,
+  },
+  row: {
+    gap: 8,
+  },
+  photo: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+  },
+  add: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
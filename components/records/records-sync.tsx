@@ -0,0 +1,56 @@
+import { addNetworkStateListener } from 'expo-network';
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+
+import { useAuth } from '@/hooks/use-auth';
+import { usePersistedStore } from '@/hooks/use-store';
+import { breedingStore, environmentStore, growthStore, recordsStore } from '@/lib/records';
+import { syncRecords } from '@/lib/records/sync';
+
+/** Keepers tend to make several edits in a row; sync once they pause. */
+const EDIT_DEBOUNCE_MS = 5000;
+
+/**
+ * Syncs breeding records with the server while signed in: on sign-in, when the network comes
+ * back, when the app returns to the foreground and shortly after each edit. Renders nothing.
+ * Signing in to a different account clears the records the previous one synced; see `syncRecords`.
+ */
+export function RecordsSync() {
+  const { session } = useAuth();
+  const ownerId = session?.user.id;
+  const individuals = usePersistedStore(recordsStore, (state) => state.individuals);
+  const growth = usePersistedStore(growthStore, (state) => state.entries);
+  const pairings = usePersistedStore(breedingStore, (state) => state.pairings);
+  const environment = usePersistedStore(environmentStore, (state) => state);
+
+  useEffect(() => {
+    if (!ownerId) {
+      return;
+    }
+    syncRecords(ownerId);
+    const network = addNetworkStateListener((state) => {
+      if (state.isInternetReachable) {
+        syncRecords(ownerId);
+      }
+    });
+    const appState = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        syncRecords(ownerId);
+      }
+    });
+    return () => {
+      network.remove();
+      appState.remove();
+    };
+  }, [ownerId]);
+
+  useEffect(() => {
+    if (!ownerId) {
+      return;
+    }
+    const timer = setTimeout(() => syncRecords(ownerId), EDIT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [ownerId, individuals, growth, pairings, environment]);
+
+  return null;
+}
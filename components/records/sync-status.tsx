@@ -0,0 +1,78 @@
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useRecordsSyncStatus } from '@/hooks/use-records';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { formatDateTime } from '@/lib/i18n';
+import { dismissRecordsSyncConflicts, syncRecords } from '@/lib/records/sync';
+
+/** One line on whether the records on this device have reached the server. */
+export function SyncStatus() {
+  const { session } = useAuth();
+  const { locale, t } = useTranslation();
+  const { syncing, error, conflicts, lastSyncedAt, pending } = useRecordsSyncStatus();
+  const tint = useThemeColor({}, 'tint');
+
+  if (!session) {
+    return <ThemedText style={styles.meta}>{t('records.sync.signedOut')}</ThemedText>;
+  }
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {syncing && <ActivityIndicator size="small" color={tint} />}
+        <ThemedText style={[styles.meta, styles.status]}>
+          {syncing
+            ? t('records.sync.syncing')
+            : error
+              ? t('records.sync.failed')
+              : pending > 0
+                ? t('records.sync.pending', { count: pending })
+                : lastSyncedAt
+                  ? t('records.sync.syncedAt', {
+                      time: formatDateTime(new Date(lastSyncedAt), locale),
+                    })
+                  : t('records.sync.never')}
+        </ThemedText>
+        {!syncing && (error || pending > 0) && (
+          <Pressable
+            accessibilityRole="button"
+            hitSlop={8}
+            onPress={() => syncRecords(session.user.id)}>
+            <ThemedText style={[styles.meta, { color: tint }]}>{t('records.sync.now')}</ThemedText>
+          </Pressable>
+        )}
+      </View>
+      {conflicts.length > 0 && (
+        <View style={styles.row}>
+          <ThemedText style={[styles.meta, styles.status]} color="$warning">
+            {t('records.sync.conflicts', { count: conflicts.length })}
+          </ThemedText>
+          <Pressable accessibilityRole="button" hitSlop={8} onPress={dismissRecordsSyncConflicts}>
+            <ThemedText style={[styles.meta, { color: tint }]}>{t('common.close')}</ThemedText>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  status: {
+    flex: 1,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,47 @@
+import Head from 'expo-router/head';
+
+import type { PageMeta } from '@/lib/seo';
+import { SITE_NAME, SITE_URL } from '@/lib/site';
+
+/** `<` would let a product title close the script tag early. */
+function jsonLdSource(data: Record<string, unknown>) {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+/**
+ * Title, description, canonical URL, Open Graph and Twitter card tags for a web page. On iOS the
+ * same tags describe the screen for Handoff and Spotlight; Android ignores them.
+ */
+export function PageHead({ meta }: { meta: PageMeta }) {
+  const title = `${meta.title} | ${SITE_NAME}`;
+  const url = `${SITE_URL}${meta.path}`;
+  const { image } = meta;
+
+  // Head only reads its direct children, so every tag is written out here.
+  return (
+    <Head>
+      <title>{title}</title>
+      <meta name="description" content={meta.description} />
+      <link rel="canonical" href={url} />
+      <meta property="og:site_name" content={SITE_NAME} />
+      <meta property="og:locale" content="ja_JP" />
+      <meta property="og:type" content={meta.type} />
+      <meta property="og:title" content={meta.title} />
+      <meta property="og:description" content={meta.description} />
+      <meta property="og:url" content={url} />
+      {image && <meta property="og:image" content={image.uri} />}
+      {image?.alt && <meta property="og:image:alt" content={image.alt} />}
+      {image?.width !== undefined && (
+        <meta property="og:image:width" content={String(image.width)} />
+      )}
+      {image?.height !== undefined && (
+        <meta property="og:image:height" content={String(image.height)} />
+      )}
+      <meta name="twitter:card" content={image ? 'summary_large_image' : 'summary'} />
+      <meta name="twitter:title" content={meta.title} />
+      <meta name="twitter:description" content={meta.description} />
+      {image && <meta name="twitter:image" content={image.uri} />}
+      {meta.jsonLd && <script type="application/ld+json">{jsonLdSource(meta.jsonLd)}</script>}
+    </Head>
+  );
+}
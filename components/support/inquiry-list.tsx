@@ -0,0 +1,111 @@
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Badge, type BadgeTone } from '@/components/ui/badge';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useInquiries } from '@/hooks/use-inquiries';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { toDateTimeKey } from '@/lib/date';
+import {
+  describeInquiryStatus,
+  flushInquiries,
+  removeInquiry,
+  retryInquiry,
+  type InquiryStatus,
+  type QueuedInquiry,
+} from '@/lib/support';
+
+const STATUS_TONES: Record<InquiryStatus, BadgeTone> = {
+  pending: 'neutral',
+  sending: 'info',
+  waiting: 'warning',
+  failed: 'danger',
+  sent: 'success',
+};
+
+function InquiryRow({ item }: { item: QueuedInquiry }) {
+  const tint = useThemeColor({}, 'tint');
+  const { inquiry } = item;
+  const { locale, t } = useTranslation();
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.heading}>
+        <ThemedText type="defaultSemiBold" style={styles.title}>
+          {t(`support.category.${inquiry.category}`)}
+        </ThemedText>
+        <Badge tone={STATUS_TONES[item.status]}>{t(`support.status.${item.status}`)}</Badge>
+      </View>
+      <ThemedText numberOfLines={2}>{inquiry.body}</ThemedText>
+      <ThemedText style={styles.meta}>
+        {toDateTimeKey(new Date(inquiry.createdAt))}
+        {inquiry.orderNumber
+          ? t('support.orderNumberMeta', { orderNumber: inquiry.orderNumber })
+          : ''}
+      </ThemedText>
+      {item.status !== 'pending' && item.status !== 'sending' && (
+        <ThemedText style={styles.meta}>{describeInquiryStatus(item, locale)}</ThemedText>
+      )}
+      {(item.status === 'waiting' || item.status === 'failed') && (
+        <View style={styles.actions}>
+          <Pressable
+            accessibilityRole="button"
+            onPress={() => {
+              retryInquiry(inquiry.id);
+              flushInquiries();
+            }}>
+            <ThemedText style={{ color: tint }}>{t('support.retryNow')}</ThemedText>
+          </Pressable>
+          <Pressable accessibilityRole="button" onPress={() => removeInquiry(inquiry.id)}>
+            <ThemedText color="$danger">{t('support.discard')}</ThemedText>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+/** Inquiries sent from this device, newest first, with retry for the ones that did not go out. */
+export function InquiryList() {
+  const items = useInquiries();
+  const { t } = useTranslation();
+
+  if (items.length === 0) {
+    return null;
+  }
+  return (
+    <View style={styles.container}>
+      <ThemedText type="subtitle">{t('support.history')}</ThemedText>
+      {[...items].reverse().map((item) => (
+        <InquiryRow key={item.inquiry.id} item={item} />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  row: {
+    gap: 4,
+  },
+  heading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+    paddingTop: 4,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,42 @@
+import { addNetworkStateListener } from 'expo-network';
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+
+import { usePersistedStore } from '@/hooks/use-store';
+import { flushInquiries, inquiryQueueStore, nextInquiryRetryAt } from '@/lib/support';
+
+/**
+ * Sends queued お問い合わせ whenever that could succeed: on launch, when the network comes back,
+ * when the app returns to the foreground and when a backed-off retry falls due. Renders nothing.
+ */
+export function InquirySync() {
+  const retryAt = usePersistedStore(inquiryQueueStore, nextInquiryRetryAt);
+
+  useEffect(() => {
+    flushInquiries();
+    const network = addNetworkStateListener((state) => {
+      if (state.isInternetReachable) {
+        flushInquiries();
+      }
+    });
+    const appState = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        flushInquiries();
+      }
+    });
+    return () => {
+      network.remove();
+      appState.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!retryAt) {
+      return;
+    }
+    const timer = setTimeout(flushInquiries, Math.max(0, new Date(retryAt).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [retryAt]);
+
+  return null;
+}
@@ -1,60 +1,44 @@
-import { StyleSheet, Text, type TextProps } from 'react-native';
+import { styled, Text, type GetProps } from 'tamagui';
 
-import { useThemeColor } from '@/hooks/use-theme-color';
+export const ThemedText = styled(Text, {
+  name: 'ThemedText',
+  color: '$color',
+  fontFamily: '$body',
 
-export type ThemedTextProps = TextProps & {
-  lightColor?: string;
-  darkColor?: string;
-  type?: 'default' | 'title' | 'defaultSemiBold' | 'subtitle' | 'link';
-};
+  variants: {
+    type: {
+      default: {
+        fontSize: '$4',
+        lineHeight: '$4',
+      },
+      defaultSemiBold: {
+        fontSize: '$4',
+        lineHeight: '$4',
+        fontWeight: '$6',
+      },
+      title: {
+        fontFamily: '$heading',
+        fontSize: '$8',
+        lineHeight: '$8',
+        fontWeight: '$7',
+      },
+      subtitle: {
+        fontFamily: '$heading',
+        fontSize: '$6',
+        lineHeight: '$6',
+        fontWeight: '$7',
+      },
+      link: {
+        fontSize: '$4',
+        lineHeight: 30,
+        color: '$link',
+      },
+    },
+  } as const,
 
-export function ThemedText({
-  style,
-  lightColor,
-  darkColor,
-  type = 'default',
-  ...rest
-}: ThemedTextProps) {
-  const color = useThemeColor({ light: lightColor, dark: darkColor }, 'text');
-
-  return (
-    <Text
-      style={[
-        { color },
-        type === 'default' ? styles.default : undefined,
-        type === 'title' ? styles.title : undefined,
-        type === 'defaultSemiBold' ? styles.defaultSemiBold : undefined,
-        type === 'subtitle' ? styles.subtitle : undefined,
-        type === 'link' ? styles.link : undefined,
-        style,
-      ]}
-      {...rest}
-    />
-  );
-}
-
-const styles = StyleSheet.create({
-  default: {
-    fontSize: 16,
-    lineHeight: 24,
-  },
-  defaultSemiBold: {
-    fontSize: 16,
-    lineHeight: 24,
-    fontWeight: '600',
-  },
-  title: {
-    fontSize: 32,
-    fontWeight: 'bold',
-    lineHeight: 32,
-  },
-  subtitle: {
-    fontSize: 20,
-    fontWeight: 'bold',
-  },
-  link: {
-    lineHeight: 30,
-    fontSize: 16,
-    color: '#0a7ea4',
+  defaultVariants: {
+    type: 'default',
   },
 });
+
+export type ThemedTextProps = GetProps<typeof ThemedText>;
@@ -1,14 +1,8 @@
-import { View, type ViewProps } from 'react-native';
+import { styled, View, type GetProps } from 'tamagui';
 
-import { useThemeColor } from '@/hooks/use-theme-color';
+export const ThemedView = styled(View, {
+  name: 'ThemedView',
+  backgroundColor: '$background',
+});
 
-export type ThemedViewProps = ViewProps & {
-  lightColor?: string;
-  darkColor?: string;
-};
-
-export function ThemedView({ style, lightColor, darkColor, ...otherProps }: ThemedViewProps) {
-  const backgroundColor = useThemeColor({ light: lightColor, dark: darkColor }, 'background');
-
-  return <View style={[{ backgroundColor }, style]} {...otherProps} />;
-}
+export type ThemedViewProps = GetProps<typeof ThemedView>;
@@ -0,0 +1,33 @@
+import { styled, Text, type GetProps } from 'tamagui';
+
+/** A small pill label for statuses such as 発送済み or 既定. */
+export const Badge = styled(Text, {
+  name: 'Badge',
+  alignSelf: 'flex-start',
+  overflow: 'hidden',
+  borderWidth: 1,
+  borderRadius: '$round',
+  paddingHorizontal: '$3',
+  paddingVertical: '$1',
+  fontFamily: '$body',
+  fontSize: '$1',
+  lineHeight: '$1',
+  fontWeight: '$6',
+
+  variants: {
+    tone: {
+      neutral: { color: '$icon', borderColor: '$icon' },
+      info: { color: '$tint', borderColor: '$tint' },
+      success: { color: '$success', borderColor: '$success' },
+      warning: { color: '$warning', borderColor: '$warning' },
+      danger: { color: '$danger', borderColor: '$danger' },
+    },
+  } as const,
+
+  defaultVariants: {
+    tone: 'neutral',
+  },
+});
+
+export type BadgeProps = GetProps<typeof Badge>;
+export type BadgeTone = NonNullable<BadgeProps['tone']>;
@@ -0,0 +1,68 @@
+import { ActivityIndicator } from 'react-native';
+import { styled, XStack, type GetProps } from 'tamagui';
+
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+const ButtonFrame = styled(XStack, {
+  name: 'Button',
+  role: 'button',
+  minHeight: '$4',
+  borderRadius: '$3',
+  paddingHorizontal: '$5',
+  alignItems: 'center',
+  justifyContent: 'center',
+  pressStyle: { opacity: 0.5 },
+
+  variants: {
+    variant: {
+      primary: { backgroundColor: '$tint' },
+      secondary: { borderWidth: 1, borderColor: '$tint' },
+    },
+    dimmed: {
+      true: { opacity: 0.5 },
+    },
+  } as const,
+
+  defaultVariants: {
+    variant: 'primary',
+  },
+});
+
+const ButtonLabel = styled(ThemedText, {
+  type: 'defaultSemiBold',
+
+  variants: {
+    variant: {
+      primary: { color: '$onTint' },
+      secondary: { color: '$tint' },
+    },
+  } as const,
+});
+
+type Props = Omit<GetProps<typeof ButtonFrame>, 'children' | 'dimmed'> & {
+  title: string;
+  loading?: boolean;
+  disabled?: boolean;
+};
+
+export function Button({ title, variant = 'primary', loading, disabled, onPress, ...rest }: Props) {
+  const labelColor = useThemeColor({}, variant === 'primary' ? 'onTint' : 'tint');
+  const inactive = disabled || loading;
+
+  return (
+    <ButtonFrame
+      variant={variant}
+      dimmed={!!disabled}
+      aria-disabled={!!disabled}
+      aria-busy={!!loading}
+      onPress={inactive ? undefined : onPress}
+      {...rest}>
+      {loading ? (
+        <ActivityIndicator color={labelColor} />
+      ) : (
+        <ButtonLabel variant={variant}>{title}</ButtonLabel>
+      )}
+    </ButtonFrame>
+  );
+}
@@ -0,0 +1,20 @@
+import { styled, YStack, type GetProps } from 'tamagui';
+
+/** A raised, bordered panel for grouping related content such as an address or an order. */
+export const Card = styled(YStack, {
+  name: 'Card',
+  backgroundColor: '$surface',
+  borderColor: '$border',
+  borderWidth: 1,
+  borderRadius: '$4',
+  padding: '$4',
+  gap: '$3',
+
+  variants: {
+    highlighted: {
+      true: { borderColor: '$tint' },
+    },
+  } as const,
+});
+
+export type CardProps = GetProps<typeof Card>;
@@ -0,0 +1,116 @@
+import { Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { FieldError } from '@/components/ui/text-field';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+type Props<T extends string> = {
+  label?: string;
+  options: { value: T; label: string }[];
+  value: T | undefined;
+  onChange: (value: T) => void;
+  error?: string;
+};
+
+/** A single-select row of chips that scrolls horizontally. */
+export function ChipSelect<T extends string>({ label, options, value, onChange, error }: Props<T>) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+
+  return (
+    <View style={styles.field}>
+      {label && <ThemedText type="defaultSemiBold">{label}</ThemedText>}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}>
+        {options.map((option) => {
+          const selected = option.value === value;
+          return (
+            <Pressable
+              key={option.value}
+              accessibilityRole="radio"
+              accessibilityState={{ checked: selected }}
+              onPress={() => onChange(option.value)}
+              style={[styles.chip, { borderColor: selected ? tint : icon }]}>
+              <ThemedText style={[styles.chipLabel, selected && { color: tint }]}>
+                {option.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+      {error && <FieldError>{error}</FieldError>}
+    </View>
+  );
+}
+
+type MultiProps<T extends string> = Omit<Props<T>, 'value' | 'onChange'> & {
+  values: T[];
+  onChange: (values: T[]) => void;
+};
+
+/** Like `ChipSelect`, but each chip toggles on and off independently. */
+export function ChipMultiSelect<T extends string>({
+  label,
+  options,
+  values,
+  onChange,
+  error,
+}: MultiProps<T>) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+
+  return (
+    <View style={styles.field}>
+      {label && <ThemedText type="defaultSemiBold">{label}</ThemedText>}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}>
+        {options.map((option) => {
+          const selected = values.includes(option.value);
+          return (
+            <Pressable
+              key={option.value}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: selected }}
+              onPress={() =>
+                onChange(
+                  selected
+                    ? values.filter((value) => value !== option.value)
+                    : [...values, option.value]
+                )
+              }
+              style={[styles.chip, { borderColor: selected ? tint : icon }]}>
+              <ThemedText style={[styles.chipLabel, selected && { color: tint }]}>
+                {option.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+      {error && <FieldError>{error}</FieldError>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    gap: 4,
+  },
+  row: {
+    gap: 8,
+    paddingVertical: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  chipLabel: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
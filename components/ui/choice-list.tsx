@@ -0,0 +1,95 @@
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { FieldError } from '@/components/ui/text-field';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+export type Choice<T extends string> = {
+  value: T;
+  label: string;
+  description?: string;
+  disabled?: boolean;
+};
+
+type Props<T extends string> = {
+  choices: Choice<T>[];
+  value: T | undefined;
+  onChange: (value: T) => void;
+  error?: string;
+};
+
+/** A vertical list of radio options. */
+export function ChoiceList<T extends string>({ choices, value, onChange, error }: Props<T>) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+
+  return (
+    <View accessibilityRole="radiogroup" style={styles.list}>
+      {choices.map((choice) => {
+        const selected = choice.value === value;
+        return (
+          <Pressable
+            key={choice.value}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: selected, disabled: !!choice.disabled }}
+            disabled={choice.disabled}
+            onPress={() => onChange(choice.value)}
+            style={[
+              styles.choice,
+              { borderColor: selected ? tint : icon },
+              choice.disabled && styles.disabled,
+            ]}>
+            <View style={[styles.radio, { borderColor: selected ? tint : icon }]}>
+              {selected && <View style={[styles.dot, { backgroundColor: tint }]} />}
+            </View>
+            <View style={styles.body}>
+              <ThemedText type="defaultSemiBold">{choice.label}</ThemedText>
+              {choice.description && (
+                <ThemedText style={styles.description}>{choice.description}</ThemedText>
+              )}
+            </View>
+          </Pressable>
+        );
+      })}
+      {error && <FieldError>{error}</FieldError>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    gap: 8,
+  },
+  choice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+  },
+  radio: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  body: {
+    flex: 1,
+  },
+  description: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+});
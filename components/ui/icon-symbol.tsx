@@ -18,6 +18,27 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'bag.fill': 'shopping-bag',
+  'cart.fill': 'shopping-cart',
+  'lock.fill': 'lock',
+  'person.fill': 'person',
+  'book.fill': 'menu-book',
+  plus: 'add',
+  'text.bubble.fill': 'forum',
+  'bubble.left': 'chat-bubble-outline',
+  heart: 'favorite-border',
+  'heart.fill': 'favorite',
+  bookmark: 'bookmark-border',
+  'bookmark.fill': 'bookmark',
+  'arrow.2.squarepath': 'repeat',
+  'square.and.pencil': 'edit',
+  xmark: 'close',
+  'pawprint.fill': 'pets',
+  magnifyingglass: 'search',
+  'chart.line.uptrend.xyaxis': 'trending-up',
+  bell: 'notifications-none',
+  'bell.badge.fill': 'notifications-active',
+  'square.and.arrow.up': 'share',
 } as IconMapping;
 
 /**
@@ -0,0 +1,31 @@
+import { Input as TamaguiInput, styled, type GetProps } from 'tamagui';
+
+/** A single-line text box using the theme's border, text and placeholder colours. */
+export const Input = styled(TamaguiInput, {
+  name: 'Input',
+  unstyled: true,
+  color: '$color',
+  placeholderTextColor: '$placeholderColor',
+  borderColor: '$icon',
+  borderWidth: 1,
+  borderRadius: '$3',
+  paddingHorizontal: '$4',
+  paddingVertical: 10,
+  fontFamily: '$body',
+  fontSize: '$4',
+
+  focusStyle: {
+    borderColor: '$tint',
+  },
+
+  variants: {
+    invalid: {
+      true: {
+        borderColor: '$danger',
+        focusStyle: { borderColor: '$danger' },
+      },
+    },
+  } as const,
+});
+
+export type InputProps = GetProps<typeof Input>;
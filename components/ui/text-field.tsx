@@ -0,0 +1,28 @@
+import { YStack } from 'tamagui';
+
+import { ThemedText } from '@/components/themed-text';
+import { Input, type InputProps } from '@/components/ui/input';
+
+type Props = Omit<InputProps, 'invalid'> & {
+  label: string;
+  error?: string;
+};
+
+export function TextField({ label, error, ...rest }: Props) {
+  return (
+    <YStack gap="$2">
+      <ThemedText type="defaultSemiBold">{label}</ThemedText>
+      <Input aria-label={label} invalid={!!error} {...rest} />
+      {error && <FieldError>{error}</FieldError>}
+    </YStack>
+  );
+}
+
+/** Validation message shown under a form control. */
+export function FieldError({ children }: { children: string }) {
+  return (
+    <ThemedText color="$danger" fontSize="$2" lineHeight="$2">
+      {children}
+    </ThemedText>
+  );
+}
@@ -0,0 +1,60 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-i18n';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useFollow } from '@/hooks/use-users';
+import type { UserProfile } from '@/lib/feed';
+
+type Props = {
+  profile: UserProfile;
+  onChange: (profile: UserProfile) => void;
+};
+
+/** Nothing on the viewer's own profile. */
+export function FollowButton({ profile, onChange }: Props) {
+  const { session } = useAuth();
+  const { toggle, pending, error } = useFollow(profile, onChange);
+  const { t } = useTranslation();
+  const danger = useThemeColor({}, 'danger');
+
+  if (session?.user.id === profile.id) {
+    return null;
+  }
+  const following = profile.viewer?.following ?? false;
+
+  return (
+    <View style={styles.container}>
+      <Button
+        title={
+          following
+            ? t('users.following')
+            : profile.viewer?.followedBy
+              ? t('users.followBack')
+              : t('users.follow')
+        }
+        variant={following ? 'secondary' : 'primary'}
+        accessibilityHint={following ? t('users.unfollowHint') : undefined}
+        loading={pending}
+        onPress={toggle}
+      />
+      {error && (
+        <ThemedText style={[styles.error, { color: danger }]}>
+          {following ? t('users.unfollowFailed') : t('users.followFailed')}
+        </ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  error: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
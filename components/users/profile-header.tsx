@@ -0,0 +1,71 @@
+import { StyleSheet, View } from 'react-native';
+
+import { Avatar } from '@/components/feed/avatar';
+import { ThemedText } from '@/components/themed-text';
+import { FollowButton } from '@/components/users/follow-button';
+import { useTranslation } from '@/hooks/use-i18n';
+import type { UserProfile } from '@/lib/feed';
+
+type Props = {
+  profile: UserProfile;
+  onChange: (profile: UserProfile) => void;
+};
+
+export function ProfileHeader({ profile, onChange }: Props) {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Avatar author={profile} size={64} />
+        <View style={styles.names}>
+          <ThemedText type="subtitle" numberOfLines={1}>
+            {profile.displayName}
+          </ThemedText>
+          <ThemedText style={styles.meta} numberOfLines={1}>
+            @{profile.handle}
+            {profile.viewer?.followedBy && t('users.followsYou')}
+          </ThemedText>
+        </View>
+      </View>
+      {profile.bio && <ThemedText>{profile.bio}</ThemedText>}
+      <View style={styles.counts}>
+        <ThemedText style={styles.meta}>
+          <ThemedText type="defaultSemiBold">{profile.postCount}</ThemedText>{' '}
+          {t('users.count.posts')}
+        </ThemedText>
+        <ThemedText style={styles.meta}>
+          <ThemedText type="defaultSemiBold">{profile.followingCount}</ThemedText>{' '}
+          {t('users.count.following')}
+        </ThemedText>
+        <ThemedText style={styles.meta}>
+          <ThemedText type="defaultSemiBold">{profile.followerCount}</ThemedText>{' '}
+          {t('users.count.followers')}
+        </ThemedText>
+      </View>
+      <FollowButton profile={profile} onChange={onChange} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 16,
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  names: {
+    flex: 1,
+  },
+  counts: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  meta: {
+    opacity: 0.7,
+  },
+});
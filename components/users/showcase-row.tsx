@@ -0,0 +1,75 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useTranslation } from '@/hooks/use-i18n';
+import type { ShowcaseIndividual } from '@/lib/feed';
+import { formatMeasurement } from '@/lib/i18n';
+
+/** An individual as shared on a keeper's profile; the detailed record stays with the keeper. */
+export function ShowcaseRow({ individual }: { individual: ShowcaseIndividual }) {
+  const { locale, t } = useTranslation();
+  const growth = [
+    individual.instar,
+    individual.weightG !== undefined
+      ? formatMeasurement(individual.weightG, 'g', { locale })
+      : undefined,
+  ].filter(Boolean);
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.header}>
+        <ThemedText type="defaultSemiBold" numberOfLines={1} style={styles.label}>
+          {individual.label} {t(`individual.sex.${individual.sex}`)}
+        </ThemedText>
+        {individual.visibility === 'followers' && (
+          <ThemedText style={styles.meta}>
+            {t(`individual.visibility.${individual.visibility}`)}
+          </ThemedText>
+        )}
+      </View>
+      <ThemedText style={styles.meta} numberOfLines={1}>
+        {individual.japaneseName}
+        {individual.scientificName && (
+          <ThemedText style={[styles.meta, styles.scientific]}>
+            {' '}
+            {individual.scientificName}
+          </ThemedText>
+        )}
+      </ThemedText>
+      <ThemedText style={styles.meta} numberOfLines={1}>
+        {[
+          individual.locality,
+          individual.generation,
+          t(`catalog.stage.${individual.stage}`),
+          growth.join(' '),
+          individual.hatchDate && t('individual.hatched', { date: individual.hatchDate }),
+        ]
+          .filter(Boolean)
+          .join(' / ')}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    paddingVertical: 10,
+    gap: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 8,
+  },
+  label: {
+    flexShrink: 1,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+  scientific: {
+    fontStyle: 'italic',
+  },
+});
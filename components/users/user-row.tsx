@@ -0,0 +1,61 @@
+import { Link } from 'expo-router';
+import { useState } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { Avatar } from '@/components/feed/avatar';
+import { ThemedText } from '@/components/themed-text';
+import { FollowButton } from '@/components/users/follow-button';
+import type { UserProfile } from '@/lib/feed';
+
+/** A user in a follow list, with a button to follow or unfollow them in place. */
+export function UserRow({ user }: { user: UserProfile }) {
+  // The list page itself is not reloaded on each tap, so keep the latest answer here.
+  const [profile, setProfile] = useState(user);
+
+  return (
+    <View style={styles.row}>
+      <Link href={{ pathname: '/users/[id]', params: { id: profile.id } }} asChild>
+        <Pressable accessibilityRole="link" style={styles.link}>
+          <Avatar author={profile} />
+          <View style={styles.body}>
+            <ThemedText type="defaultSemiBold" numberOfLines={1}>
+              {profile.displayName}
+            </ThemedText>
+            <ThemedText style={styles.meta} numberOfLines={1}>
+              @{profile.handle}
+            </ThemedText>
+            {profile.bio && (
+              <ThemedText style={styles.meta} numberOfLines={1}>
+                {profile.bio}
+              </ThemedText>
+            )}
+          </View>
+        </Pressable>
+      </Link>
+      <FollowButton profile={profile} onChange={setProfile} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  link: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  body: {
+    flex: 1,
+  },
+  meta: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.7,
+  },
+});
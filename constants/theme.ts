@@ -1,30 +1,77 @@
 /**
- * Below are the colors that are used in the app. The colors are defined in the light and dark mode.
- * There are many other ways to style your app. For example, [Nativewind](https://www.nativewind.dev/), [Tamagui](https://tamagui.dev/), [unistyles](https://reactnativeunistyles.vercel.app), etc.
+ * Design tokens for the app: the brand palette, spacing, radii and type scale, and the light and
+ * dark themes built from them. `tamagui.config.ts` turns these into Tamagui tokens and themes;
+ * components refer to them as `$tint`, `$3` and so on rather than repeating raw values.
  */
 
 import { Platform } from 'react-native';
 
-const tintColorLight = '#0a7ea4';
-const tintColorDark = '#fff';
-
-export const Colors = {
-  light: {
-    text: '#11181C',
-    background: '#fff',
-    tint: tintColorLight,
-    icon: '#687076',
-    tabIconDefault: '#687076',
-    tabIconSelected: tintColorLight,
-  },
-  dark: {
-    text: '#ECEDEE',
-    background: '#151718',
-    tint: tintColorDark,
-    icon: '#9BA1A6',
-    tabIconDefault: '#9BA1A6',
-    tabIconSelected: tintColorDark,
-  },
+export const palette = {
+  brand100: '#e6f4fe',
+  brand300: '#5ec2e6',
+  brand500: '#0a7ea4',
+  brand700: '#075b77',
+  white: '#ffffff',
+  gray50: '#f4f5f6',
+  gray100: '#ecedee',
+  gray200: '#dfe3e6',
+  gray400: '#9ba1a6',
+  gray500: '#687076',
+  gray700: '#2b2f31',
+  gray800: '#1f2224',
+  gray900: '#151718',
+  gray950: '#11181c',
+  red300: '#f08a87',
+  red500: '#d9534f',
+  green300: '#4ade80',
+  green600: '#17a34a',
+  pink500: '#e0245e',
+  amber300: '#fcd34d',
+  amber600: '#d97706',
+  /** Placeholder behind images that have not loaded yet. */
+  translucentGray: '#80808033',
+};
+
+/** Gaps and padding, in points. */
+export const space = {
+  0: 0,
+  1: 2,
+  2: 4,
+  3: 8,
+  4: 12,
+  5: 16,
+  6: 24,
+  7: 32,
+  true: 16,
+};
+
+/** Heights of controls. `4` is the smallest comfortable touch target. */
+export const size = {
+  0: 0,
+  1: 16,
+  2: 24,
+  3: 32,
+  4: 44,
+  5: 56,
+  true: 44,
+};
+
+export const radius = {
+  0: 0,
+  1: 4,
+  2: 6,
+  3: 8,
+  4: 12,
+  5: 16,
+  round: 9999,
+  true: 8,
+};
+
+/** Font size and line height per step; `2` is the 13pt meta text used under list rows. */
+export const typeScale = {
+  size: { 1: 12, 2: 13, 3: 14, 4: 16, 5: 18, 6: 20, 7: 24, 8: 32, true: 16 },
+  lineHeight: { 1: 16, 2: 18, 3: 20, 4: 24, 5: 26, 6: 28, 7: 32, 8: 32, true: 24 },
+  weight: { 4: '400', 6: '600', 7: '700', true: '400' },
 };
 
 export const Fonts = Platform.select({
@@ -51,3 +98,46 @@ export const Fonts = Platform.select({
     mono: "SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', 'Courier New', monospace",
   },
 });
+
+const light = {
+  background: palette.white,
+  /** Cards and other raised surfaces. */
+  surface: palette.gray50,
+  color: palette.gray950,
+  /** Buttons, selected chips and other accents. */
+  tint: palette.brand500,
+  /** Text drawn on a `tint` background. */
+  onTint: palette.white,
+  link: palette.brand500,
+  icon: palette.gray500,
+  border: palette.gray200,
+  placeholderColor: palette.gray400,
+  danger: palette.red500,
+  success: palette.green600,
+  warning: palette.amber600,
+  like: palette.pink500,
+  tabIconDefault: palette.gray500,
+  tabIconSelected: palette.brand500,
+};
+
+export type ThemeColorName = keyof typeof light;
+
+const dark: Record<ThemeColorName, string> = {
+  background: palette.gray900,
+  surface: palette.gray800,
+  color: palette.gray100,
+  tint: palette.white,
+  onTint: palette.gray900,
+  link: palette.brand300,
+  icon: palette.gray400,
+  border: palette.gray700,
+  placeholderColor: palette.gray500,
+  danger: palette.red300,
+  success: palette.green300,
+  warning: palette.amber300,
+  like: palette.pink500,
+  tabIconDefault: palette.gray400,
+  tabIconSelected: palette.white,
+};
+
+export const themes = { light, dark };
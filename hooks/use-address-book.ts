@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+
+import { useAuth } from '@/hooks/use-auth';
+import { useHydrated, usePersistedStore } from '@/hooks/use-store';
+import { addressBookStore, addressesOf } from '@/lib/checkout';
+
+/** The signed-in member's saved addresses and which one checkout starts from. */
+export function useAddressBook() {
+  const { session } = useAuth();
+  const ownerId = session?.user.id ?? '';
+  const hydrated = useHydrated(addressBookStore);
+  const state = usePersistedStore(addressBookStore, (book) => book);
+
+  return useMemo(() => {
+    const addresses = addressesOf(state, ownerId);
+    const defaultId = state.defaults[ownerId] ?? addresses[0]?.id;
+    return { ownerId, addresses, defaultId, loading: !hydrated };
+  }, [state, ownerId, hydrated]);
+}
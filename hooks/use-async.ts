@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type AsyncState<T> = {
+  data: T | undefined;
+  error: Error | undefined;
+  loading: boolean;
+  reload: () => void;
+};
+
+/**
+ * Runs `load` whenever `key` changes and tracks its result. Results for a key that is no longer
+ * current are dropped. Pass `null` as the key to skip loading.
+ */
+export function useAsync<T>(key: string | null, load: () => Promise<T>): AsyncState<T> {
+  const [result, setResult] = useState<{ data?: T; error?: Error; loading: boolean }>({
+    loading: key !== null,
+  });
+  const [attempt, setAttempt] = useState(0);
+  const loadRef = useRef(load);
+
+  useEffect(() => {
+    loadRef.current = load;
+  });
+
+  useEffect(() => {
+    if (key === null) {
+      setResult({ loading: false });
+      return;
+    }
+    let current = true;
+    setResult((previous) => ({ data: previous.data, loading: true }));
+    loadRef.current().then(
+      (data) => {
+        if (current) setResult({ data, loading: false });
+      },
+      (error: unknown) => {
+        if (current) {
+          setResult({
+            error: error instanceof Error ? error : new Error(String(error)),
+            loading: false,
+          });
+        }
+      }
+    );
+    return () => {
+      current = false;
+    };
+  }, [key, attempt]);
+
+  const reload = useCallback(() => setAttempt((value) => value + 1), []);
+
+  return { data: result.data, error: result.error, loading: result.loading, reload };
+}
@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+
+import { useHydrated, usePersistedStore } from '@/hooks/use-store';
+import {
+  buildAgenda,
+  careStore,
+  isTaskActive,
+  nextDueOn,
+  tasksFor,
+  type CareContext,
+  type CareTarget,
+} from '@/lib/care';
+import { environmentStore, growthStore, recordsStore } from '@/lib/records';
+
+export function useCareHydrated() {
+  return useHydrated(careStore);
+}
+
+function useCareContext(): CareContext {
+  const individuals = usePersistedStore(recordsStore, (state) => state.individuals);
+  const entries = usePersistedStore(growthStore, (state) => state.entries);
+  return useMemo(
+    () => ({ individuals, growthEntries: Object.values(entries) }),
+    [individuals, entries]
+  );
+}
+
+/** Tasks due by `today + daysAhead`, including anything overdue. */
+export function useCareAgenda(daysAhead = 0) {
+  const tasks = usePersistedStore(careStore, (state) => state.tasks);
+  const context = useCareContext();
+  return useMemo(
+    () => buildAgenda(Object.values(tasks), context, new Date(), daysAhead),
+    [tasks, context, daysAhead]
+  );
+}
+
+/** Every task for one individual or habitat with its next due date, soonest first. */
+export function useCareTasksFor(target: CareTarget) {
+  const tasks = usePersistedStore(careStore, (state) => state.tasks);
+  const context = useCareContext();
+  const { type, id } = target;
+  return useMemo(
+    () =>
+      tasksFor({ tasks }, { type, id } as CareTarget)
+        .map((task) => ({
+          task,
+          dueOn: nextDueOn(task, context),
+          active: isTaskActive(task, context),
+        }))
+        .sort((a, b) => a.dueOn.localeCompare(b.dueOn)),
+    [tasks, context, type, id]
+  );
+}
+
+export function useCareTask(id: string | undefined) {
+  return usePersistedStore(careStore, (state) => (id ? state.tasks[id] : undefined));
+}
+
+export function useCareNotificationsEnabled() {
+  return usePersistedStore(careStore, (state) => state.notificationsEnabled);
+}
+
+/** A display name for a task's target: the individual's label or the habitat's name. */
+export function useCareTargetLabel(target: CareTarget) {
+  const individual = usePersistedStore(recordsStore, (state) =>
+    target.type === 'individual' ? state.individuals[target.id]?.label : undefined
+  );
+  const habitat = usePersistedStore(environmentStore, (state) =>
+    target.type === 'habitat' ? state.habitats[target.id]?.name : undefined
+  );
+  return individual ?? habitat;
+}
@@ -0,0 +1,34 @@
+import { useProducts } from '@/hooks/use-catalog';
+import { useHydrated, usePersistedStore } from '@/hooks/use-store';
+import { cartStore, cartSubtotal, checkCart, countCartItems, resolveCartLines } from '@/lib/cart';
+
+export function useCartCount() {
+  return usePersistedStore(cartStore, countCartItems);
+}
+
+export function useCartQuantity(productId: string) {
+  return usePersistedStore(
+    cartStore,
+    (state) => state.lines.find((line) => line.productId === productId)?.quantity ?? 0
+  );
+}
+
+/**
+ * The cart with each line's product looked up in the catalog, plus everything that currently
+ * blocks checkout.
+ */
+export function useCart() {
+  const hydrated = useHydrated(cartStore);
+  const lines = usePersistedStore(cartStore, (state) => state.lines);
+  const products = useProducts({ ids: lines.map((line) => line.productId) });
+  const resolved = resolveCartLines(lines, products.data ?? []);
+
+  return {
+    lines: resolved,
+    loading: !hydrated || products.loading,
+    error: products.error,
+    reload: products.reload,
+    issues: products.data ? checkCart(resolved, new Date()) : [],
+    subtotal: cartSubtotal(resolved),
+  };
+}
@@ -0,0 +1,22 @@
+import { useAsync } from '@/hooks/use-async';
+import { getCatalogSource, type ProductQuery } from '@/lib/catalog';
+
+export function useCategories() {
+  return useAsync('categories', () => getCatalogSource().listCategories());
+}
+
+export function useCategory(slug: string | undefined) {
+  return useAsync(slug ? `category:${slug}` : null, () =>
+    getCatalogSource().getCategory(slug as string)
+  );
+}
+
+export function useProducts(query: ProductQuery = {}) {
+  return useAsync(`products:${JSON.stringify(query)}`, () =>
+    getCatalogSource().listProducts(query)
+  );
+}
+
+export function useProduct(id: string | undefined) {
+  return useAsync(id ? `product:${id}` : null, () => getCatalogSource().getProduct(id as string));
+}
@@ -0,0 +1,49 @@
+import type { Href } from 'expo-router';
+
+import { useCart } from '@/hooks/use-cart';
+import { useHydrated, usePersistedStore } from '@/hooks/use-store';
+import {
+  canEnterStep,
+  checkoutStore,
+  furthestAllowedStep,
+  type CheckoutStep,
+} from '@/lib/checkout';
+
+export const CHECKOUT_HREFS: Record<CheckoutStep, Href> = {
+  address: '/checkout/address',
+  delivery: '/checkout/delivery',
+  payment: '/checkout/payment',
+  review: '/checkout/review',
+  complete: '/checkout/complete',
+};
+
+export function useCheckout() {
+  const cart = useCart();
+  const hydrated = useHydrated(checkoutStore);
+  const state = usePersistedStore(checkoutStore, (checkout) => checkout);
+
+  return {
+    state,
+    cart,
+    context: { today: new Date(), cart: cart.lines },
+    loading: !hydrated || cart.loading,
+  };
+}
+
+/**
+ * Decides whether `step` may be shown. While the saved checkout and cart are loading there is no
+ * answer yet; afterwards `redirect` is where to send a customer who arrived too early (for
+ * example through a deep link), or `null` if they may stay.
+ */
+export function useCheckoutStep(step: CheckoutStep) {
+  const checkout = useCheckout();
+
+  if (checkout.loading) {
+    return { ...checkout, redirect: null };
+  }
+  if (canEnterStep(step, checkout.state, checkout.context)) {
+    return { ...checkout, redirect: null };
+  }
+  const furthest = furthestAllowedStep(checkout.state, checkout.context);
+  return { ...checkout, redirect: furthest ? CHECKOUT_HREFS[furthest] : ('/cart' as Href) };
+}
@@ -1 +1,11 @@
-export { useColorScheme } from 'react-native';
+import { useColorScheme as useSystemColorScheme } from 'react-native';
+
+import { usePersistedStore } from '@/hooks/use-store';
+import { appearanceStore } from '@/lib/appearance';
+
+/** The scheme the app is drawn in: the member's choice, or the device setting by default. */
+export function useColorScheme() {
+  const system = useSystemColorScheme();
+  const preference = usePersistedStore(appearanceStore, (state) => state.colorScheme);
+  return preference === 'system' ? system : preference;
+}
@@ -1,5 +1,8 @@
 import { useEffect, useState } from 'react';
-import { useColorScheme as useRNColorScheme } from 'react-native';
+import { useColorScheme as useSystemColorScheme } from 'react-native';
+
+import { usePersistedStore } from '@/hooks/use-store';
+import { appearanceStore } from '@/lib/appearance';
 
 /**
  * To support static rendering, this value needs to be re-calculated on the client side for web
@@ -11,10 +14,11 @@ export function useColorScheme() {
     setHasHydrated(true);
   }, []);
 
-  const colorScheme = useRNColorScheme();
+  const system = useSystemColorScheme();
+  const preference = usePersistedStore(appearanceStore, (state) => state.colorScheme);
 
   if (hasHydrated) {
-    return colorScheme;
+    return preference === 'system' ? system : preference;
   }
 
   return 'light';
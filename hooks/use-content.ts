@@ -0,0 +1,25 @@
+import { useAsync } from '@/hooks/use-async';
+import { getCatalogSource } from '@/lib/catalog';
+import { getContentSource, type ProductCarouselBlock } from '@/lib/content';
+
+const CAROUSEL_LIMIT = 10;
+
+/** The live blocks of the content document `slug`; `null` if it is missing or off schedule. */
+export function useContentDocument(slug: string | undefined) {
+  return useAsync(slug ? `content:${slug}` : null, () =>
+    getContentSource().getDocument(slug as string)
+  );
+}
+
+/** A carousel's products, in the order the block lists them. */
+export function useCarouselProducts(block: ProductCarouselBlock) {
+  const { productIds, categorySlug, limit = CAROUSEL_LIMIT } = block;
+
+  return useAsync(`carousel:${JSON.stringify([productIds, categorySlug, limit])}`, async () => {
+    const products = await getCatalogSource().listProducts({ ids: productIds, categorySlug });
+    if (productIds) {
+      products.sort((a, b) => productIds.indexOf(a.id) - productIds.indexOf(b.id));
+    }
+    return products.slice(0, limit);
+  });
+}
@@ -0,0 +1,53 @@
+import { usePathname, useRouter } from 'expo-router';
+import { useCallback, useMemo } from 'react';
+
+import { useAsync } from '@/hooks/use-async';
+import { useAuth } from '@/hooks/use-auth';
+import { usePersistedStore } from '@/hooks/use-store';
+import { getCatalogSource, type Product } from '@/lib/catalog';
+import { favoritesOf, favoritesStore, isFavorite, setFavorite } from '@/lib/favorites';
+import { notifyRestocks } from '@/lib/notifications';
+
+export function useIsFavorite(productId: string) {
+  const { session } = useAuth();
+  const ownerId = session?.user.id ?? '';
+  return usePersistedStore(favoritesStore, (state) => isFavorite(state, ownerId, productId));
+}
+
+/** Saves or removes a favourite, or sends a signed-out visitor to log in first. */
+export function useToggleFavorite() {
+  const { session } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  return useCallback(
+    (product: Pick<Product, 'id' | 'stock'>, on: boolean) => {
+      if (!session) {
+        router.push({ pathname: '/login', params: { redirect: pathname } });
+        return;
+      }
+      setFavorite(session.user.id, product, on);
+    },
+    [session, router, pathname]
+  );
+}
+
+/** The signed-in member's favourite products, most recently added first. */
+export function useFavoriteProducts() {
+  const { session } = useAuth();
+  const ownerId = session?.user.id ?? '';
+  const state = usePersistedStore(favoritesStore, (favorites) => favorites);
+  const ids = useMemo(
+    () => favoritesOf(state, ownerId).map((item) => item.productId),
+    [state, ownerId]
+  );
+  // A restock noticed here is announced once, the same as one found by the background check.
+  return useAsync(`favorites:${ids.join(',')}`, async () => {
+    if (ids.length === 0) {
+      return [];
+    }
+    const found = await getCatalogSource().listProducts({ ids });
+    await notifyRestocks(found, ownerId);
+    return ids.flatMap((id) => found.filter((product) => product.id === id));
+  });
+}
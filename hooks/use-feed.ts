@@ -0,0 +1,69 @@
+import { useAsync } from '@/hooks/use-async';
+import { usePaginated } from '@/hooks/use-paginated';
+import { getFeedClient, rememberPosts, type Page, type Post, type TrendWindow } from '@/lib/feed';
+
+const PAGE_SIZE = 15;
+
+/** Lets the reaction store pick up fresher counts for posts it already holds. */
+async function remembered(page: Promise<Page<Post>>) {
+  const result = await page;
+  rememberPosts(result.items);
+  return result;
+}
+
+export function useTimeline() {
+  return usePaginated('timeline', (cursor) =>
+    remembered(getFeedClient().listTimeline({ cursor, limit: PAGE_SIZE }))
+  );
+}
+
+export function usePost(id: string | undefined) {
+  return useAsync(id ? `post:${id}` : null, async () => {
+    const post = await getFeedClient().getPost(id as string);
+    if (post) {
+      rememberPosts([post]);
+    }
+    return post;
+  });
+}
+
+/** Pass `null` to hold off loading, e.g. until a collapsed thread is expanded. */
+export function useReplies(postId: string | null) {
+  return usePaginated(postId && `replies:${postId}`, (cursor) =>
+    remembered(getFeedClient().listReplies(postId as string, { cursor, limit: PAGE_SIZE }))
+  );
+}
+
+/** `query` is what the user typed; nothing loads while it is blank. */
+export function useSearchPosts(query: string) {
+  const trimmed = query.trim();
+  return usePaginated(trimmed ? `search:${trimmed}` : null, (cursor) =>
+    remembered(getFeedClient().searchPosts(trimmed, { cursor, limit: PAGE_SIZE }))
+  );
+}
+
+export function useHashtag(tag: string | undefined) {
+  return useAsync(tag ? `hashtag:${tag}` : null, () => getFeedClient().getHashtag(tag as string));
+}
+
+export function useHashtagPosts(tag: string | undefined) {
+  return usePaginated(tag ? `hashtag-posts:${tag}` : null, (cursor) =>
+    remembered(getFeedClient().listHashtagPosts(tag as string, { cursor, limit: PAGE_SIZE }))
+  );
+}
+
+export function useTrends(span: TrendWindow) {
+  return useAsync(`trends:${span}`, () => getFeedClient().listTrends(span));
+}
+
+/** The newest few posts under `tag`, or on the timeline, for a home or feature page. */
+export function usePostHighlights(tag: string | undefined, limit: number) {
+  return useAsync(`post-highlights:${tag ?? ''}:${limit}`, async () => {
+    const page = await remembered(
+      tag
+        ? getFeedClient().listHashtagPosts(tag, { limit })
+        : getFeedClient().listTimeline({ limit })
+    );
+    return page.items.slice(0, limit);
+  });
+}
@@ -0,0 +1,28 @@
+import { useHydrated, usePersistedStore } from '@/hooks/use-store';
+import {
+  DEFAULT_LOCALE,
+  languageStore,
+  resolveLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+  type TranslateArgs,
+} from '@/lib/i18n';
+
+/**
+ * The language the UI is shown in. Japanese until the setting has loaded, so the first client
+ * render matches the static web render.
+ */
+export function useLocale(): Locale {
+  const hydrated = useHydrated(languageStore);
+  const preference = usePersistedStore(languageStore, (state) => state.language);
+  return hydrated ? resolveLocale(preference) : DEFAULT_LOCALE;
+}
+
+/** `t('tabs.shop')` in the current language; re-renders when the language changes. */
+export function useTranslation() {
+  const locale = useLocale();
+  const t = <K extends MessageKey>(key: K, ...args: TranslateArgs<K>) =>
+    translate(locale, key, ...args);
+  return { locale, t };
+}
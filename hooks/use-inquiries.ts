@@ -0,0 +1,7 @@
+import { usePersistedStore } from '@/hooks/use-store';
+import { inquiryQueueStore } from '@/lib/support';
+
+/** Inquiries from this device that are queued or were sent recently, oldest first. */
+export function useInquiries() {
+  return usePersistedStore(inquiryQueueStore, (state) => state.items);
+}
@@ -0,0 +1,39 @@
+import { useRouter } from 'expo-router';
+import { useCallback } from 'react';
+
+import { usePersistedStore } from '@/hooks/use-store';
+import {
+  addNotifications,
+  markNotificationRead,
+  notificationHref,
+  notificationSettingsStore,
+  notificationStore,
+  unreadCount,
+  type AppNotification,
+} from '@/lib/notifications';
+
+export function useNotifications() {
+  return usePersistedStore(notificationStore, (state) => state.items);
+}
+
+export function useUnreadNotificationCount() {
+  return usePersistedStore(notificationStore, unreadCount);
+}
+
+export function useNotificationSettings() {
+  return usePersistedStore(notificationSettingsStore, (state) => state);
+}
+
+/** Marks the notification read and goes where it points; the same for inbox taps and pushes. */
+export function useOpenNotification() {
+  const router = useRouter();
+
+  return useCallback(
+    (notification: AppNotification) => {
+      addNotifications([notification]);
+      markNotificationRead(notification.id);
+      router.push(notificationHref(notification.payload));
+    },
+    [router]
+  );
+}
@@ -0,0 +1,29 @@
+import { useAsync } from '@/hooks/use-async';
+import { usePaginated } from '@/hooks/use-paginated';
+import { getOrderApi, ORDER_FILTERS, type OrderFilter } from '@/lib/checkout';
+import { notifyOrderChanges } from '@/lib/notifications';
+
+const PAGE_SIZE = 10;
+
+/** Also records what it loads, so a status change seen here is not announced again later. */
+export function useOrders(filter: OrderFilter) {
+  return usePaginated(`orders:${filter}`, async (cursor) => {
+    const page = await getOrderApi().listOrders({
+      statuses: ORDER_FILTERS[filter].statuses,
+      cursor,
+      limit: PAGE_SIZE,
+    });
+    await notifyOrderChanges(page.items);
+    return page;
+  });
+}
+
+export function useOrder(orderNumber: string | undefined) {
+  return useAsync(orderNumber ? `order:${orderNumber}` : null, async () => {
+    const order = await getOrderApi().getOrder(orderNumber as string);
+    if (order) {
+      await notifyOrderChanges([order]);
+    }
+    return order;
+  });
+}
@@ -0,0 +1,16 @@
+import { usePersistedStore } from '@/hooks/use-store';
+import { outboxStore } from '@/lib/compose';
+
+/** Posts still waiting to reach the server, oldest first. */
+export function useOutbox() {
+  return usePersistedStore(outboxStore, (state) => state.items);
+}
+
+/** `undefined` once the item has been posted or discarded. */
+export function useOutboxItem(id: string | null) {
+  return usePersistedStore(outboxStore, (state) => state.items.find((item) => item.id === id));
+}
+
+export function useLastPostedAt() {
+  return usePersistedStore(outboxStore, (state) => state.lastPostedAt);
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { Page } from '@/lib/feed';
+
+export type PaginatedState<T> = {
+  items: T[];
+  error: Error | undefined;
+  /** The first page is loading and there is nothing to show yet. */
+  loading: boolean;
+  refreshing: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  refresh: () => void;
+  /** Does nothing while the last request failed; see `retry`. */
+  loadMore: () => void;
+  /** Requests the page that failed again. */
+  retry: () => void;
+};
+
+type Result<T> = {
+  items: T[];
+  nextCursor: string | null;
+  error?: Error;
+  /** The cursor of the request that set `error`; `null` for the first page. */
+  failedCursor?: string | null;
+  phase: 'idle' | 'loading' | 'refreshing' | 'loading-more';
+};
+
+/**
+ * Cursor pagination for `key`: loads the first page, appends on `loadMore` and starts over on
+ * `refresh`. Pages that arrive after the key changed or a refresh began are dropped.
+ */
+export function usePaginated<T>(
+  key: string | null,
+  loadPage: (cursor: string | null) => Promise<Page<T>>
+): PaginatedState<T> {
+  const [result, setResult] = useState<Result<T>>({
+    items: [],
+    nextCursor: null,
+    phase: key === null ? 'idle' : 'loading',
+  });
+  const loadRef = useRef(loadPage);
+  const generation = useRef(0);
+
+  useEffect(() => {
+    loadRef.current = loadPage;
+  });
+
+  const load = useCallback((cursor: string | null, phase: Result<T>['phase']) => {
+    const current = cursor === null ? ++generation.current : generation.current;
+    setResult((previous) => ({ ...previous, error: undefined, phase }));
+    loadRef.current(cursor).then(
+      (page) => {
+        if (current !== generation.current) return;
+        setResult((previous) => ({
+          items: cursor === null ? page.items : [...previous.items, ...page.items],
+          nextCursor: page.nextCursor,
+          phase: 'idle',
+        }));
+      },
+      (error: unknown) => {
+        if (current !== generation.current) return;
+        setResult((previous) => ({
+          ...previous,
+          error: error instanceof Error ? error : new Error(String(error)),
+          failedCursor: cursor,
+          phase: 'idle',
+        }));
+      }
+    );
+  }, []);
+
+  useEffect(() => {
+    if (key === null) {
+      generation.current++;
+      setResult({ items: [], nextCursor: null, phase: 'idle' });
+      return;
+    }
+    setResult({ items: [], nextCursor: null, phase: 'loading' });
+    load(null, 'loading');
+  }, [key, load]);
+
+  const refresh = useCallback(() => load(null, 'refreshing'), [load]);
+  const loadMore = useCallback(() => {
+    if (result.phase === 'idle' && result.nextCursor && !result.error) {
+      load(result.nextCursor, 'loading-more');
+    }
+  }, [load, result.phase, result.nextCursor, result.error]);
+  const retry = useCallback(() => {
+    if (result.phase !== 'idle' || !result.error) return;
+    const cursor = result.failedCursor ?? null;
+    load(
+      cursor,
+      cursor !== null ? 'loading-more' : result.items.length > 0 ? 'refreshing' : 'loading'
+    );
+  }, [load, result.phase, result.error, result.failedCursor, result.items.length]);
+
+  return {
+    items: result.items,
+    error: result.error,
+    loading: result.phase === 'loading',
+    refreshing: result.phase === 'refreshing',
+    loadingMore: result.phase === 'loading-more',
+    hasMore: result.nextCursor !== null,
+    refresh,
+    loadMore,
+    retry,
+  };
+}
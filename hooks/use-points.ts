@@ -0,0 +1,15 @@
+import { useAsync } from '@/hooks/use-async';
+import { usePaginated } from '@/hooks/use-paginated';
+import { getPointsApi } from '@/lib/points';
+
+const PAGE_SIZE = 20;
+
+export function usePointBalance() {
+  return useAsync('points:balance', () => getPointsApi().getBalance());
+}
+
+export function usePointEntries() {
+  return usePaginated('points:entries', (cursor) =>
+    getPointsApi().listEntries({ cursor, limit: PAGE_SIZE })
+  );
+}
@@ -0,0 +1,69 @@
+import { usePathname, useRouter } from 'expo-router';
+import { useCallback, useMemo } from 'react';
+
+import { useAuth } from '@/hooks/use-auth';
+import { usePersistedStore } from '@/hooks/use-store';
+import {
+  applyMutations,
+  flushReactions,
+  pendingBookmarkIds,
+  reactionsOf,
+  reactionStore,
+  toggleReaction,
+  type Post,
+  type ReactionKind,
+} from '@/lib/feed';
+
+/** Counts and viewer state for `post` with not-yet-confirmed taps already applied. */
+export function usePostReactions(post: Post) {
+  const confirmed = usePersistedStore(reactionStore, (state) => state.confirmed[post.id]);
+  const queue = usePersistedStore(reactionStore, (state) => state.queue);
+  return useMemo(
+    () =>
+      applyMutations(
+        reactionsOf(confirmed ?? post),
+        queue.filter((mutation) => mutation.postId === post.id)
+      ),
+    [confirmed, post, queue]
+  );
+}
+
+/** The last refused mutation for `postId`, if any; it has already been rolled back. */
+export function useRejectedReaction(postId: string) {
+  return usePersistedStore(reactionStore, (state) =>
+    state.rejected?.postId === postId ? state.rejected : null
+  );
+}
+
+/** Likes, reposts or bookmarks a post, or sends a signed-out visitor to log in first. */
+export function useToggleReaction() {
+  const { status } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  return useCallback(
+    (post: Post, kind: ReactionKind, on: boolean) => {
+      if (status !== 'signed-in') {
+        router.push({ pathname: '/login', params: { redirect: pathname } });
+        return;
+      }
+      toggleReaction(post, kind, on);
+      flushReactions();
+    },
+    [status, router, pathname]
+  );
+}
+
+/** Bookmarked posts from the shared store, including ones bookmarked while offline. */
+export function useBookmarkedPosts() {
+  const bookmarkIds = usePersistedStore(reactionStore, (state) => state.bookmarkIds);
+  const queue = usePersistedStore(reactionStore, (state) => state.queue);
+  const confirmed = usePersistedStore(reactionStore, (state) => state.confirmed);
+  return useMemo(
+    () =>
+      pendingBookmarkIds(bookmarkIds, queue)
+        .map((id) => confirmed[id])
+        .filter((post): post is Post => post !== undefined),
+    [bookmarkIds, queue, confirmed]
+  );
+}
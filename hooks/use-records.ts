@@ -0,0 +1,127 @@
+import { useMemo, useSyncExternalStore } from 'react';
+
+import { useHydrated, usePersistedStore, useStore } from '@/hooks/use-store';
+import {
+  breedingStore,
+  buildPedigree,
+  checkInbreeding,
+  childrenOf,
+  environmentStore,
+  growthEntriesOf,
+  growthStore,
+  habitatClimateRange,
+  habitatsOf,
+  listIndividuals,
+  listPairings,
+  recordsStore,
+  sortGrowthEntries,
+  type Habitat,
+} from '@/lib/records';
+import {
+  countPendingRecordChanges,
+  recordsSyncStatusStore,
+  recordsSyncStore,
+  subscribeRecordChanges,
+} from '@/lib/records/sync';
+
+export function useRecordsHydrated() {
+  return useHydrated(recordsStore);
+}
+
+export function useIndividuals({ archived = false }: { archived?: boolean } = {}) {
+  const individuals = usePersistedStore(recordsStore, (state) => state.individuals);
+  return useMemo(() => listIndividuals({ individuals }, { archived }), [individuals, archived]);
+}
+
+export function useIndividual(id: string | undefined) {
+  return usePersistedStore(recordsStore, (state) => (id ? state.individuals[id] : undefined));
+}
+
+export function useChildren(id: string) {
+  const individuals = usePersistedStore(recordsStore, (state) => state.individuals);
+  return useMemo(() => childrenOf({ individuals }, id), [individuals, id]);
+}
+
+export function useGrowthEntries(individualId: string) {
+  const entries = usePersistedStore(growthStore, (state) => state.entries);
+  return useMemo(
+    () => sortGrowthEntries(growthEntriesOf({ entries }, individualId)),
+    [entries, individualId]
+  );
+}
+
+export function usePairings(individualId?: string) {
+  const pairings = usePersistedStore(breedingStore, (state) => state.pairings);
+  return useMemo(() => listPairings({ pairings }, individualId), [pairings, individualId]);
+}
+
+export function usePairing(id: string | undefined) {
+  return usePersistedStore(breedingStore, (state) => (id ? state.pairings[id] : undefined));
+}
+
+export function usePedigree(id: string) {
+  const individuals = usePersistedStore(recordsStore, (state) => state.individuals);
+  return useMemo(() => buildPedigree(individuals, id), [individuals, id]);
+}
+
+/** `undefined` until both parents are chosen. */
+export function useInbreedingCheck(maleId: string | undefined, femaleId: string | undefined) {
+  const individuals = usePersistedStore(recordsStore, (state) => state.individuals);
+  return useMemo(
+    () => (maleId && femaleId ? checkInbreeding(individuals, maleId, femaleId) : undefined),
+    [individuals, maleId, femaleId]
+  );
+}
+
+export function useEnvironmentHydrated() {
+  return useHydrated(environmentStore);
+}
+
+export function useHabitats() {
+  const habitats = usePersistedStore(environmentStore, (state) => state.habitats);
+  return useMemo(
+    () => Object.values(habitats).sort((a, b) => a.name.localeCompare(b.name, 'ja')),
+    [habitats]
+  );
+}
+
+export function useHabitat(id: string | undefined) {
+  return usePersistedStore(environmentStore, (state) => (id ? state.habitats[id] : undefined));
+}
+
+const NO_READINGS: never[] = [];
+
+export function useReadings(habitatId: string) {
+  return usePersistedStore(environmentStore, (state) => state.readings[habitatId] ?? NO_READINGS);
+}
+
+export function useHabitatsOf(individualId: string) {
+  const habitats = usePersistedStore(environmentStore, (state) => state.habitats);
+  return useMemo(
+    () => habitatsOf({ habitats, readings: {} }, individualId),
+    [habitats, individualId]
+  );
+}
+
+/** The acceptable range for a habitat, from the species kept in it. */
+export function useHabitatClimate(habitat: Habitat | undefined) {
+  const individuals = usePersistedStore(recordsStore, (state) => state.individuals);
+  return useMemo(
+    () =>
+      habitat &&
+      habitatClimateRange(
+        habitat.individualIds
+          .map((id) => individuals[id])
+          .filter((individual) => individual !== undefined)
+      ),
+    [habitat, individuals]
+  );
+}
+
+/** Whether a sync is running or failed, when it last finished and how many edits are unsent. */
+export function useRecordsSyncStatus() {
+  const status = useStore(recordsSyncStatusStore, (state) => state);
+  const lastSyncedAt = usePersistedStore(recordsSyncStore, (state) => state.lastSyncedAt);
+  const pending = useSyncExternalStore(subscribeRecordChanges, countPendingRecordChanges, () => 0);
+  return { ...status, lastSyncedAt, pending };
+}
@@ -0,0 +1,35 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import type { PersistedStore, Store } from '@/lib/store';
+
+/**
+ * Subscribes to the part of `store` picked by `selector`. The selector must return a value that
+ * is stable between calls (a primitive or a reference already held in the state).
+ */
+export function useStore<T, S>(store: Store<T>, selector: (state: T) => S): S {
+  return useSyncExternalStore(
+    store.subscribe,
+    () => selector(store.getState()),
+    () => selector(store.getInitialState())
+  );
+}
+
+/**
+ * Like `useStore`, but also loads the saved state after mount. Until then the initial state is
+ * returned, which keeps the first client render identical to the static web render.
+ */
+export function usePersistedStore<T, S>(store: PersistedStore<T>, selector: (state: T) => S): S {
+  useEffect(() => {
+    store.hydrate();
+  }, [store]);
+
+  return useStore(store, selector);
+}
+
+export function useHydrated<T>(store: PersistedStore<T>) {
+  useEffect(() => {
+    store.hydrate();
+  }, [store]);
+
+  return useSyncExternalStore(store.subscribe, store.isHydrated, () => false);
+}
@@ -3,19 +3,18 @@
  * https://docs.expo.dev/guides/color-schemes/
  */
 
-import { Colors } from '@/constants/theme';
+import { useTheme } from 'tamagui';
+
+import type { ThemeColorName } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
-export function useThemeColor(
-  props: { light?: string; dark?: string },
-  colorName: keyof typeof Colors.light & keyof typeof Colors.dark
-) {
-  const theme = useColorScheme() ?? 'light';
-  const colorFromProps = props[theme];
+/**
+ * A color from the current Tamagui theme, for places that still style through `StyleSheet`
+ * rather than tokens.
+ */
+export function useThemeColor(props: { light?: string; dark?: string }, colorName: ThemeColorName) {
+  const theme = useTheme();
+  const scheme = useColorScheme() ?? 'light';
 
-  if (colorFromProps) {
-    return colorFromProps;
-  } else {
-    return Colors[theme][colorName];
-  }
+  return props[scheme] ?? theme[colorName].val;
 }
@@ -0,0 +1,68 @@
+import { usePathname, useRouter } from 'expo-router';
+import { useCallback, useState } from 'react';
+
+import { useAsync } from '@/hooks/use-async';
+import { useAuth } from '@/hooks/use-auth';
+import { usePaginated } from '@/hooks/use-paginated';
+import { getFeedClient, rememberPosts, type UserProfile } from '@/lib/feed';
+
+const PAGE_SIZE = 20;
+
+export function useUser(id: string | undefined) {
+  return useAsync(id ? `user:${id}` : null, () => getFeedClient().getUser(id as string));
+}
+
+export function useUserPosts(id: string | undefined) {
+  return usePaginated(id ? `user-posts:${id}` : null, async (cursor) => {
+    const page = await getFeedClient().listUserPosts(id as string, { cursor, limit: PAGE_SIZE });
+    rememberPosts(page.items);
+    return page;
+  });
+}
+
+/** The user's shared individuals; the server leaves out what the viewer may not see. */
+export function useShowcase(id: string | undefined) {
+  return useAsync(id ? `showcase:${id}` : null, () => getFeedClient().listShowcase(id as string));
+}
+
+export function useFollowers(id: string | undefined) {
+  return usePaginated(id ? `followers:${id}` : null, (cursor) =>
+    getFeedClient().listFollowers(id as string, { cursor, limit: PAGE_SIZE })
+  );
+}
+
+export function useFollowing(id: string | undefined) {
+  return usePaginated(id ? `following:${id}` : null, (cursor) =>
+    getFeedClient().listFollowing(id as string, { cursor, limit: PAGE_SIZE })
+  );
+}
+
+/**
+ * Follows or unfollows `profile`, or sends a signed-out visitor to log in first. `onChange`
+ * receives the server's updated profile.
+ */
+export function useFollow(profile: UserProfile, onChange: (profile: UserProfile) => void) {
+  const { status } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState(false);
+
+  const toggle = useCallback(async () => {
+    if (status !== 'signed-in') {
+      router.push({ pathname: '/login', params: { redirect: pathname } });
+      return;
+    }
+    setPending(true);
+    setError(false);
+    try {
+      onChange(await getFeedClient().setFollowing(profile.id, !profile.viewer?.following));
+    } catch {
+      setError(true);
+    } finally {
+      setPending(false);
+    }
+  }, [status, router, pathname, profile, onChange]);
+
+  return { toggle, pending, error };
+}
@@ -0,0 +1,19 @@
+import { createPersistedStore } from '@/lib/store';
+
+/** `system` follows the device setting; the others override it for this app only. */
+export type ColorSchemePreference = 'system' | 'light' | 'dark';
+
+export const COLOR_SCHEME_PREFERENCES: readonly ColorSchemePreference[] = [
+  'system',
+  'light',
+  'dark',
+];
+
+export const appearanceStore = createPersistedStore<{ colorScheme: ColorSchemePreference }>(
+  'appearance',
+  { colorScheme: 'system' }
+);
+
+export function setColorSchemePreference(colorScheme: ColorSchemePreference) {
+  appearanceStore.setState({ colorScheme });
+}
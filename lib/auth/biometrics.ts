@@ -0,0 +1,47 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import { createPersistedStore } from '@/lib/store';
+
+/** How long the app may sit in the background before biometric unlock is asked for again. */
+export const LOCK_AFTER_BACKGROUND_MS = 60_000;
+
+export const biometricPreferenceStore = createPersistedStore('biometric-preference', {
+  enabled: false,
+});
+
+export async function isBiometricAvailable() {
+  if (process.env.EXPO_OS === 'web') {
+    return false;
+  }
+  const [hasHardware, isEnrolled] = await Promise.all([
+    LocalAuthentication.hasHardwareAsync(),
+    LocalAuthentication.isEnrolledAsync(),
+  ]);
+  return hasHardware && isEnrolled;
+}
+
+export async function authenticateWithBiometrics(
+  promptMessage?: string,
+  locale: Locale = getLocale()
+) {
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage: promptMessage ?? translate(locale, 'auth.biometrics.unlock'),
+    cancelLabel: translate(locale, 'common.cancel'),
+    fallbackLabel: translate(locale, 'auth.biometrics.fallback'),
+  });
+  return result.success;
+}
+
+/** Turning the lock on asks for biometrics first, so nobody locks themselves out by accident. */
+export async function setBiometricLockEnabled(enabled: boolean) {
+  if (
+    enabled &&
+    !(await authenticateWithBiometrics(translate(getLocale(), 'auth.biometrics.enable')))
+  ) {
+    return false;
+  }
+  biometricPreferenceStore.setState({ enabled });
+  return true;
+}
@@ -0,0 +1,91 @@
+import { AuthError, type AuthBackend, type Session, type User } from '@/lib/auth/types';
+import {
+  assertValidCredentials,
+  assertValidDisplayName,
+  assertValidEmail,
+  normalizeEmail,
+} from '@/lib/auth/validation';
+import { getLocale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+function randomToken() {
+  return Array.from({ length: 4 }, () => Math.random().toString(36).slice(2)).join('');
+}
+
+/**
+ * Keeps accounts and sessions in memory. Everything is lost when the JS bundle reloads, so a
+ * saved token will not survive a restart; that is fine for development.
+ */
+export function createInMemoryAuthBackend(): AuthBackend {
+  const accounts = new Map<string, { user: User; password: string }>();
+  const sessions = new Map<string, Session>();
+
+  function issue(user: User): Session {
+    const session = {
+      user,
+      token: randomToken(),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    };
+    sessions.set(session.token, session);
+    return session;
+  }
+
+  return {
+    async signUp({ email, password, displayName }) {
+      assertValidCredentials(email, password);
+      const key = normalizeEmail(email);
+      if (accounts.has(key)) {
+        throw new AuthError('email-taken', translate(getLocale(), 'auth.error.emailTaken'));
+      }
+      const user = { id: `user-${accounts.size + 1}`, email: key, displayName: displayName.trim() };
+      accounts.set(key, { user, password });
+      return issue(user);
+    },
+    async logIn({ email, password }) {
+      const account = accounts.get(normalizeEmail(email));
+      if (!account || account.password !== password) {
+        throw new AuthError(
+          'invalid-credentials',
+          translate(getLocale(), 'auth.error.invalidCredentials')
+        );
+      }
+      return issue(account.user);
+    },
+    async logOut(token) {
+      sessions.delete(token);
+    },
+    async restore(token) {
+      const session = sessions.get(token);
+      if (!session || Date.parse(session.expiresAt) <= Date.now()) {
+        sessions.delete(token);
+        throw new AuthError('session-expired', translate(getLocale(), 'auth.error.sessionExpired'));
+      }
+      sessions.delete(token);
+      return issue(session.user);
+    },
+    async updateProfile(token, { displayName, email }) {
+      const session = sessions.get(token);
+      if (!session) {
+        throw new AuthError('session-expired', translate(getLocale(), 'auth.error.sessionExpired'));
+      }
+      assertValidDisplayName(displayName);
+      assertValidEmail(email);
+      const previous = session.user.email;
+      const key = normalizeEmail(email);
+      const account = accounts.get(previous);
+      if (key !== previous && accounts.has(key)) {
+        throw new AuthError('email-taken', translate(getLocale(), 'auth.error.emailTaken'));
+      }
+      const user = { ...session.user, email: key, displayName: displayName.trim() };
+      accounts.delete(previous);
+      if (account) {
+        accounts.set(key, { ...account, user });
+      }
+      const updated = { ...session, user };
+      sessions.set(token, updated);
+      return updated;
+    },
+  };
+}
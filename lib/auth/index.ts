@@ -0,0 +1,19 @@
+import { createInMemoryAuthBackend } from '@/lib/auth/in-memory-backend';
+import type { AuthBackend } from '@/lib/auth/types';
+
+export * from '@/lib/auth/biometrics';
+export * from '@/lib/auth/types';
+export { createInMemoryAuthBackend } from '@/lib/auth/in-memory-backend';
+export { safeRedirect } from '@/lib/auth/redirect';
+export { tokenStorage } from '@/lib/auth/token-storage';
+export { MIN_PASSWORD_LENGTH } from '@/lib/auth/validation';
+
+let backend: AuthBackend = createInMemoryAuthBackend();
+
+export function getAuthBackend() {
+  return backend;
+}
+
+export function setAuthBackend(next: AuthBackend) {
+  backend = next;
+}
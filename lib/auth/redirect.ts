@@ -0,0 +1,10 @@
+import type { Href } from 'expo-router';
+
+/**
+ * Where to go after logging in. Only in-app paths are accepted so a crafted link cannot bounce
+ * the member to another site. Browsers read `/\evil.com` like `//evil.com`, so a slash or
+ * backslash after the leading slash is rejected too.
+ */
+export function safeRedirect(redirect: string | undefined): Href {
+  return redirect && /^\/(?![/\\])/.test(redirect) ? (redirect as Href) : '/';
+}
@@ -0,0 +1,10 @@
+import * as SecureStore from 'expo-secure-store';
+
+const TOKEN_KEY = 'auth.token';
+
+/** Session tokens live in the Keychain / Keystore, never in AsyncStorage. */
+export const tokenStorage = {
+  get: () => SecureStore.getItemAsync(TOKEN_KEY),
+  set: (token: string) => SecureStore.setItemAsync(TOKEN_KEY, token),
+  clear: () => SecureStore.deleteItemAsync(TOKEN_KEY),
+};
@@ -0,0 +1,17 @@
+const TOKEN_KEY = 'auth.token';
+
+/**
+ * There is no secure enclave on web, so the token goes to sessionStorage, which is cleared when
+ * the tab closes. `window` is missing during static rendering.
+ */
+export const tokenStorage = {
+  async get() {
+    return typeof window === 'undefined' ? null : window.sessionStorage.getItem(TOKEN_KEY);
+  },
+  async set(token: string) {
+    window.sessionStorage.setItem(TOKEN_KEY, token);
+  },
+  async clear() {
+    window.sessionStorage.removeItem(TOKEN_KEY);
+  },
+};
@@ -0,0 +1,61 @@
+export type User = {
+  id: string;
+  email: string;
+  displayName: string;
+};
+
+export type Session = {
+  user: User;
+  token: string;
+  /** ISO 8601. */
+  expiresAt: string;
+};
+
+export type SignUpInput = {
+  email: string;
+  password: string;
+  displayName: string;
+};
+
+export type LogInInput = {
+  email: string;
+  password: string;
+};
+
+/** What a member can change on 会員情報編集. */
+export type ProfileInput = {
+  displayName: string;
+  email: string;
+};
+
+export type AuthErrorCode =
+  | 'invalid-credentials'
+  | 'email-taken'
+  | 'weak-password'
+  | 'invalid-email'
+  | 'invalid-display-name'
+  | 'session-expired';
+
+export class AuthError extends Error {
+  constructor(
+    readonly code: AuthErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * The server side of authentication. Anything that can issue and check session tokens can be
+ * plugged in; `createInMemoryAuthBackend` stands in during development.
+ */
+export interface AuthBackend {
+  signUp(input: SignUpInput): Promise<Session>;
+  logIn(input: LogInInput): Promise<Session>;
+  logOut(token: string): Promise<void>;
+  /** Exchanges a saved token for a fresh session. Throws `session-expired` if it is no longer valid. */
+  restore(token: string): Promise<Session>;
+  /** Resolves with the same session carrying the updated user. */
+  updateProfile(token: string, input: ProfileInput): Promise<Session>;
+}
@@ -0,0 +1,31 @@
+import { AuthError } from '@/lib/auth/types';
+import { getLocale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function assertValidEmail(email: string) {
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizeEmail(email))) {
+    throw new AuthError('invalid-email', translate(getLocale(), 'auth.error.invalidEmail'));
+  }
+}
+
+export function assertValidDisplayName(displayName: string) {
+  if (!displayName.trim()) {
+    throw new AuthError('invalid-display-name', translate(getLocale(), 'auth.error.displayName'));
+  }
+}
+
+export function assertValidCredentials(email: string, password: string) {
+  assertValidEmail(email);
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(
+      'weak-password',
+      translate(getLocale(), 'auth.error.weakPassword', { min: MIN_PASSWORD_LENGTH })
+    );
+  }
+}
@@ -0,0 +1,3 @@
+export * from '@/lib/care/rules';
+export * from '@/lib/care/store';
+export * from '@/lib/care/types';
@@ -0,0 +1,92 @@
+import * as Notifications from 'expo-notifications';
+
+import { setCareNotificationsEnabled } from '@/lib/care/store';
+import { parseDateKey } from '@/lib/date';
+import { deferPastQuietHours, type QuietHours } from '@/lib/notifications';
+
+/** iOS keeps at most 64 pending local notifications per app. */
+const MAX_SCHEDULED = 60;
+
+const SOURCE = 'care';
+
+export type CareReminder = {
+  taskId: string;
+  /** `YYYY-MM-DD`. */
+  dueOn: string;
+  /** `HH:mm`. */
+  remindAt: string;
+  title: string;
+  body: string;
+};
+
+export async function requestCareNotificationPermission() {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) {
+    return true;
+  }
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+/** Switches care reminders; turning them on asks for permission first and stays off if refused. */
+export async function toggleCareReminders(enabled: boolean) {
+  if (enabled && !(await requestCareNotificationPermission())) {
+    return;
+  }
+  setCareNotificationsEnabled(enabled);
+}
+
+function reminderDate({ dueOn, remindAt }: CareReminder) {
+  const date = parseDateKey(dueOn);
+  const [hours, minutes] = remindAt.split(':').map(Number);
+  date?.setHours(hours, minutes);
+  return date;
+}
+
+let running: Promise<void> = Promise.resolve();
+
+/**
+ * Replaces every scheduled care reminder with `reminders`. Reminders whose time has passed are
+ * dropped; the today screen already lists overdue tasks. Ones due in `quietHours` are moved to
+ * when they end, since the system shows them without asking the app.
+ *
+ * Calls run one after another: two overlapping cancel-then-schedule runs would each schedule a
+ * full set and leave every reminder duplicated.
+ */
+export function scheduleCareReminders(reminders: CareReminder[], quietHours: QuietHours) {
+  const run = running.then(() => replaceCareReminders(reminders, quietHours));
+  running = run.catch(() => undefined);
+  return run;
+}
+
+async function replaceCareReminders(reminders: CareReminder[], quietHours: QuietHours) {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((request) => request.content.data?.source === SOURCE)
+      .map((request) => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+
+  const now = Date.now();
+  const upcoming = reminders
+    .flatMap((reminder) => {
+      const date = reminderDate(reminder);
+      return date ? [{ reminder, date: deferPastQuietHours(date, quietHours) }] : [];
+    })
+    .filter(({ date }) => date.getTime() > now)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, MAX_SCHEDULED);
+
+  await Promise.all(
+    upcoming.map(({ reminder, date }) =>
+      Notifications.scheduleNotificationAsync({
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          // `type` and `taskId` make up the payload the inbox and routing understand.
+          data: { source: SOURCE, type: 'care', taskId: reminder.taskId },
+        },
+        trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date },
+      })
+    )
+  );
+}
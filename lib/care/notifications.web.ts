@@ -0,0 +1,16 @@
+import type { CareReminder } from '@/lib/care/notifications';
+import { setCareNotificationsEnabled } from '@/lib/care/store';
+import type { QuietHours } from '@/lib/notifications';
+
+/** Browsers cannot schedule notifications for a closed tab, so the web build has none. */
+export async function requestCareNotificationPermission() {
+  return false;
+}
+
+export async function toggleCareReminders(enabled: boolean) {
+  if (!enabled) {
+    setCareNotificationsEnabled(false);
+  }
+}
+
+export async function scheduleCareReminders(_reminders: CareReminder[], _quietHours: QuietHours) {}
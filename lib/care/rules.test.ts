@@ -0,0 +1,158 @@
+import {
+  buildAgenda,
+  isTaskActive,
+  lastDoneOn,
+  nextDueOn,
+  validateCareTask,
+  type CareContext,
+} from '@/lib/care/rules';
+import type { CareTask } from '@/lib/care/types';
+
+function task(overrides: Partial<CareTask> = {}): CareTask {
+  return {
+    id: 'task-1',
+    kind: 'mat-change',
+    target: { type: 'individual', id: 'larva' },
+    intervalDays: 75,
+    startsOn: '2026-06-01',
+    remindAt: '19:00',
+    createdAt: '2026-06-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const context: CareContext = {
+  individuals: {
+    larva: { stage: 'larva', status: 'alive', archived: false },
+    adult: { stage: 'adult', status: 'alive', archived: false },
+    dead: { stage: 'adult', status: 'dead', archived: false },
+  },
+  growthEntries: [
+    { individualId: 'larva', date: '2026-07-01', event: 'mat-change' },
+    { individualId: 'larva', date: '2026-07-20', weightG: 18.4 },
+    { individualId: 'adult', date: '2026-08-01', event: 'mat-change' },
+  ],
+};
+
+describe('isTaskActive', () => {
+  it('keeps substrate chores for larvae and jelly for adults', () => {
+    expect(isTaskActive(task(), context)).toBe(true);
+    expect(isTaskActive(task({ target: { type: 'individual', id: 'adult' } }), context)).toBe(
+      false
+    );
+    expect(
+      isTaskActive(task({ kind: 'jelly', target: { type: 'individual', id: 'adult' } }), context)
+    ).toBe(true);
+  });
+
+  it('drops tasks for individuals that are gone', () => {
+    expect(
+      isTaskActive(task({ kind: 'jelly', target: { type: 'individual', id: 'dead' } }), context)
+    ).toBe(false);
+    expect(isTaskActive(task({ target: { type: 'individual', id: 'missing' } }), context)).toBe(
+      false
+    );
+  });
+
+  it('always keeps habitat tasks', () => {
+    expect(isTaskActive(task({ target: { type: 'habitat', id: 'room' } }), context)).toBe(true);
+  });
+});
+
+describe('lastDoneOn', () => {
+  it('counts matching growth entries of the same individual', () => {
+    expect(lastDoneOn(task(), context)).toBe('2026-07-01');
+    expect(lastDoneOn(task({ kind: 'weigh-in' }), context)).toBe('2026-07-20');
+  });
+
+  it('prefers a later tick-off', () => {
+    expect(lastDoneOn(task({ lastDoneOn: '2026-07-10' }), context)).toBe('2026-07-10');
+  });
+});
+
+describe('nextDueOn', () => {
+  it('is one interval after the last time it was done', () => {
+    expect(nextDueOn(task(), context)).toBe('2026-09-14');
+  });
+
+  it('is the start date when it was never done or starts later', () => {
+    expect(
+      nextDueOn(task({ kind: 'jelly', target: { type: 'habitat', id: 'room' } }), context)
+    ).toBe('2026-06-01');
+    expect(nextDueOn(task({ startsOn: '2026-12-01' }), context)).toBe('2026-12-01');
+  });
+});
+
+describe('buildAgenda', () => {
+  const tasks = [
+    task({
+      id: 'a',
+      kind: 'misting',
+      target: { type: 'habitat', id: 'room' },
+      startsOn: '2026-06-10',
+    }),
+    task({
+      id: 'b',
+      kind: 'misting',
+      target: { type: 'habitat', id: 'room' },
+      startsOn: '2026-06-05',
+    }),
+    task({
+      id: 'c',
+      kind: 'misting',
+      target: { type: 'habitat', id: 'room' },
+      startsOn: '2026-06-12',
+    }),
+    task({ id: 'd', kind: 'jelly', target: { type: 'individual', id: 'larva' } }),
+  ];
+
+  it('lists what is due today, most overdue first', () => {
+    const agenda = buildAgenda(tasks, context, new Date(2026, 5, 10));
+
+    expect(agenda.map((item) => [item.task.id, item.overdueDays])).toEqual([
+      ['b', 5],
+      ['a', 0],
+    ]);
+  });
+
+  it('looks ahead when asked', () => {
+    const agenda = buildAgenda(tasks, context, new Date(2026, 5, 10), 2);
+
+    expect(agenda.map((item) => [item.task.id, item.overdueDays])).toEqual([
+      ['b', 5],
+      ['a', 0],
+      ['c', -2],
+    ]);
+  });
+});
+
+describe('validateCareTask', () => {
+  const target = { type: 'habitat', id: 'room' } as const;
+
+  it('normalizes full-width digits and the reminder time', () => {
+    const result = validateCareTask(
+      { kind: 'misting', title: '', intervalDays: '３', startsOn: '2026-06-01', remindAt: '7:05' },
+      target,
+      'ja'
+    );
+
+    expect(result.draft).toEqual({
+      kind: 'misting',
+      target,
+      title: undefined,
+      intervalDays: 3,
+      startsOn: '2026-06-01',
+      remindAt: '07:05',
+    });
+  });
+
+  it('needs a title for other tasks and a sensible interval and time', () => {
+    const result = validateCareTask(
+      { kind: 'other', title: ' ', intervalDays: '0', startsOn: '2026-06-01', remindAt: '24:00' },
+      target,
+      'ja'
+    );
+
+    expect(Object.keys(result.errors ?? {}).sort()).toEqual(['intervalDays', 'remindAt', 'title']);
+  });
+});
@@ -0,0 +1,189 @@
+import type { CareTask, CareTaskDraft, CareTaskKind } from '@/lib/care/types';
+import { addDays, daysBetween, parseDateKey, toDateKey } from '@/lib/date';
+import { hasErrors, type FieldErrors } from '@/lib/forms';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import type { GrowthEntry, Individual } from '@/lib/records';
+
+/** In picker order; shown as `care.kind.<value>`. */
+export const CARE_TASK_KINDS: readonly CareTaskKind[] = [
+  'jelly',
+  'mat-change',
+  'weigh-in',
+  'misting',
+  'other',
+];
+
+/** Typical intervals: jelly every few days, substrate every 2-3 months with a weigh-in each time. */
+export const DEFAULT_INTERVAL_DAYS: Record<CareTaskKind, number> = {
+  jelly: 4,
+  'mat-change': 75,
+  'weigh-in': 75,
+  misting: 3,
+  other: 7,
+};
+
+export const DEFAULT_REMIND_AT = '19:00';
+
+/** The breeding-record facts the rules read. Kept narrow so tests can build them by hand. */
+export type CareContext = {
+  individuals: Record<string, Pick<Individual, 'stage' | 'status' | 'archived'>>;
+  growthEntries: Pick<GrowthEntry, 'individualId' | 'date' | 'event' | 'weightG'>[];
+};
+
+/**
+ * Whether a task still means anything: there is no jelly to change for a larva, no substrate to
+ * change once a beetle has emerged, and nothing to do for an individual that is gone.
+ */
+export function isTaskActive(task: CareTask, context: CareContext) {
+  if (task.target.type === 'habitat') {
+    return true;
+  }
+  const individual = context.individuals[task.target.id];
+  if (!individual || individual.archived || individual.status !== 'alive') {
+    return false;
+  }
+  switch (task.kind) {
+    case 'jelly':
+      return individual.stage === 'adult';
+    case 'mat-change':
+    case 'weigh-in':
+      return individual.stage === 'larva';
+    default:
+      return true;
+  }
+}
+
+/**
+ * The most recent day the task was done. Besides ticking it off, a substrate change or weigh-in
+ * recorded in the growth log counts, so keepers never log the same chore twice.
+ */
+export function lastDoneOn(task: CareTask, context: CareContext) {
+  const dates = task.lastDoneOn ? [task.lastDoneOn] : [];
+  if (task.target.type === 'individual') {
+    const { id } = task.target;
+    for (const entry of context.growthEntries) {
+      if (entry.individualId !== id) {
+        continue;
+      }
+      if (
+        (task.kind === 'mat-change' && entry.event === 'mat-change') ||
+        (task.kind === 'weigh-in' && entry.weightG !== undefined)
+      ) {
+        dates.push(entry.date);
+      }
+    }
+  }
+  return dates.sort().pop();
+}
+
+/** `YYYY-MM-DD` the task is next due: one interval after it was last done, or its start date. */
+export function nextDueOn(task: CareTask, context: CareContext) {
+  const done = lastDoneOn(task, context);
+  const doneDate = done && parseDateKey(done);
+  if (!doneDate) {
+    return task.startsOn;
+  }
+  const next = toDateKey(addDays(doneDate, task.intervalDays));
+  return next > task.startsOn ? next : task.startsOn;
+}
+
+export type AgendaItem = {
+  task: CareTask;
+  dueOn: string;
+  /** Positive when late, 0 when due today, negative when still upcoming. */
+  overdueDays: number;
+};
+
+/**
+ * Active tasks due on or before `today + daysAhead`, most overdue first. With the default of 0 this
+ * is the "today" list, which includes everything that was missed.
+ */
+export function buildAgenda(
+  tasks: CareTask[],
+  context: CareContext,
+  today: Date,
+  daysAhead = 0
+): AgendaItem[] {
+  const horizon = toDateKey(addDays(today, daysAhead));
+  return tasks
+    .filter((task) => isTaskActive(task, context))
+    .map((task) => {
+      const dueOn = nextDueOn(task, context);
+      const due = parseDateKey(dueOn);
+      return { task, dueOn, overdueDays: due ? daysBetween(due, today) : 0 };
+    })
+    .filter((item) => item.dueOn <= horizon)
+    .sort((a, b) => b.overdueDays - a.overdueDays || a.task.id.localeCompare(b.task.id));
+}
+
+export function careTaskTitle(
+  task: Pick<CareTask, 'kind' | 'title'>,
+  locale: Locale = getLocale()
+) {
+  return task.title || translate(locale, `care.kind.${task.kind}`);
+}
+
+/** Sensible starting tasks for an individual at its current stage. */
+export function suggestedTaskKinds(individual: Pick<Individual, 'stage'>): CareTaskKind[] {
+  switch (individual.stage) {
+    case 'adult':
+      return ['jelly', 'misting'];
+    case 'larva':
+      return ['mat-change', 'weigh-in'];
+    default:
+      return [];
+  }
+}
+
+export type CareTaskInput = {
+  kind: CareTaskKind;
+  title: string;
+  intervalDays: string;
+  startsOn: string;
+  remindAt: string;
+};
+
+export function validateCareTask(
+  input: CareTaskInput,
+  target: CareTaskDraft['target'],
+  locale: Locale = getLocale()
+):
+  | { draft: CareTaskDraft; errors?: undefined }
+  | { draft?: undefined; errors: FieldErrors<CareTaskInput> } {
+  const errors: FieldErrors<CareTaskInput> = {};
+  const intervalDays = Number(
+    input.intervalDays
+      .trim()
+      .replace(/[０-９]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+  );
+  const startsOn = parseDateKey(input.startsOn.trim());
+  const remindAt = /^(\d{1,2}):(\d{2})$/.exec(input.remindAt.trim());
+
+  if (!Number.isInteger(intervalDays) || intervalDays < 1 || intervalDays > 365) {
+    errors.intervalDays = translate(locale, 'care.error.interval');
+  }
+  if (!startsOn) {
+    errors.startsOn = translate(locale, 'validation.dateFormat');
+  }
+  if (!remindAt || Number(remindAt[1]) > 23 || Number(remindAt[2]) > 59) {
+    errors.remindAt = translate(locale, 'care.error.remindAt');
+  }
+  if (input.kind === 'other' && !input.title.trim()) {
+    errors.title = translate(locale, 'care.error.title');
+  }
+
+  if (hasErrors(errors) || !startsOn || !remindAt) {
+    return { errors };
+  }
+  return {
+    draft: {
+      kind: input.kind,
+      target,
+      title: input.title.trim() || undefined,
+      intervalDays,
+      startsOn: toDateKey(startsOn),
+      remindAt: `${remindAt[1].padStart(2, '0')}:${remindAt[2]}`,
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import type { CareTarget, CareTask, CareTaskDraft } from '@/lib/care/types';
+import { createId } from '@/lib/id';
+import { createPersistedStore } from '@/lib/store';
+
+export type CareState = {
+  tasks: Record<string, CareTask>;
+  notificationsEnabled: boolean;
+};
+
+export const careStore = createPersistedStore<CareState>('care', {
+  tasks: {},
+  notificationsEnabled: false,
+});
+
+function putTask(task: CareTask) {
+  careStore.setState((state) => ({ ...state, tasks: { ...state.tasks, [task.id]: task } }));
+}
+
+export function createCareTask(draft: CareTaskDraft) {
+  const task: CareTask = { ...draft, id: createId('care'), createdAt: new Date().toISOString() };
+  putTask(task);
+  return task;
+}
+
+export function updateCareTask(id: string, changes: Partial<CareTaskDraft>) {
+  const existing = careStore.getState().tasks[id];
+  if (existing) {
+    putTask({ ...existing, ...changes });
+  }
+}
+
+export function completeCareTask(id: string, doneOn: string) {
+  const existing = careStore.getState().tasks[id];
+  if (existing) {
+    putTask({ ...existing, lastDoneOn: doneOn });
+  }
+}
+
+export function deleteCareTask(id: string) {
+  careStore.setState((state) => {
+    const { [id]: _removed, ...tasks } = state.tasks;
+    return { ...state, tasks };
+  });
+}
+
+export function setCareNotificationsEnabled(notificationsEnabled: boolean) {
+  careStore.setState((state) => ({ ...state, notificationsEnabled }));
+}
+
+export function tasksFor(state: Pick<CareState, 'tasks'>, target: CareTarget) {
+  return Object.values(state.tasks).filter(
+    (task) => task.target.type === target.type && task.target.id === target.id
+  );
+}
@@ -0,0 +1,24 @@
+export type CareTaskKind = 'jelly' | 'mat-change' | 'weigh-in' | 'misting' | 'other';
+
+/** What a task is for: one individual, or everything kept in a room or case. */
+export type CareTarget = { type: 'individual'; id: string } | { type: 'habitat'; id: string };
+
+/** A recurring chore, e.g. "change A-12's jelly every 4 days". */
+export type CareTask = {
+  id: string;
+  kind: CareTaskKind;
+  target: CareTarget;
+  /** Shown instead of the kind's label, mainly for `other`. */
+  title?: string;
+  intervalDays: number;
+  /** `YYYY-MM-DD` the first occurrence is due. */
+  startsOn: string;
+  /** `YYYY-MM-DD` the keeper last ticked the task off. */
+  lastDoneOn?: string;
+  /** `HH:mm` to send the reminder on the due date. */
+  remindAt: string;
+  /** ISO 8601. */
+  createdAt: string;
+};
+
+export type CareTaskDraft = Omit<CareTask, 'id' | 'lastDoneOn' | 'createdAt'>;
@@ -0,0 +1,2 @@
+export * from '@/lib/cart/rules';
+export * from '@/lib/cart/store';
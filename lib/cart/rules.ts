@@ -0,0 +1,83 @@
+import type { CartLine } from '@/lib/cart/store';
+import type { Product, ShippingProfile } from '@/lib/catalog';
+import { formatMonths } from '@/lib/i18n/format';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+
+export type CartIssue =
+  | { kind: 'unavailable'; productId: string }
+  | { kind: 'exceeds-stock'; productId: string; stock: number }
+  | { kind: 'out-of-season'; productId: string; safeMonths: number[] }
+  /** A chilled and a warmed animal are in the same order. */
+  | { kind: 'mixed-handling'; chilledIds: string[]; warmedIds: string[] };
+
+export type ResolvedCartLine = CartLine & { product: Product | undefined };
+
+export function resolveCartLines(lines: CartLine[], products: Product[]): ResolvedCartLine[] {
+  const byId = new Map(products.map((product) => [product.id, product]));
+  return lines.map((line) => ({ ...line, product: byId.get(line.productId) }));
+}
+
+export function isInShippingSeason(shipping: ShippingProfile, shipDate: Date) {
+  return shipping.safeMonths.includes(shipDate.getMonth() + 1);
+}
+
+/**
+ * Everything that stops the cart from being shipped as one parcel on `shipDate`. An empty
+ * result means the cart can go to checkout.
+ */
+export function checkCart(lines: ResolvedCartLine[], shipDate: Date): CartIssue[] {
+  const issues: CartIssue[] = [];
+
+  for (const { productId, quantity, product } of lines) {
+    if (!product || product.stock === 0) {
+      issues.push({ kind: 'unavailable', productId });
+      continue;
+    }
+    if (quantity > product.stock) {
+      issues.push({ kind: 'exceeds-stock', productId, stock: product.stock });
+    }
+    if (!isInShippingSeason(product.shipping, shipDate)) {
+      issues.push({ kind: 'out-of-season', productId, safeMonths: product.shipping.safeMonths });
+    }
+  }
+
+  const idsWithHandling = (handling: ShippingProfile['handling']) =>
+    lines
+      .filter((line) => line.product?.shipping.handling === handling)
+      .map((line) => line.productId);
+  const chilledIds = idsWithHandling('chilled');
+  const warmedIds = idsWithHandling('warmed');
+  if (chilledIds.length > 0 && warmedIds.length > 0) {
+    issues.push({ kind: 'mixed-handling', chilledIds, warmedIds });
+  }
+
+  return issues;
+}
+
+export function issuesForProduct(issues: CartIssue[], productId: string) {
+  return issues.filter((issue) =>
+    issue.kind === 'mixed-handling'
+      ? issue.chilledIds.includes(productId) || issue.warmedIds.includes(productId)
+      : issue.productId === productId
+  );
+}
+
+export function describeCartIssue(issue: CartIssue, locale: Locale = getLocale()) {
+  switch (issue.kind) {
+    case 'unavailable':
+      return translate(locale, 'cart.issue.unavailable');
+    case 'exceeds-stock':
+      return translate(locale, 'cart.issue.exceedsStock', { stock: issue.stock });
+    case 'out-of-season':
+      return translate(locale, 'cart.issue.outOfSeason', {
+        months: formatMonths(issue.safeMonths, locale),
+      });
+    case 'mixed-handling':
+      return translate(locale, 'cart.issue.mixedHandling');
+  }
+}
+
+export function cartSubtotal(lines: ResolvedCartLine[]) {
+  return lines.reduce((total, line) => total + (line.product?.priceYen ?? 0) * line.quantity, 0);
+}
@@ -0,0 +1,58 @@
+import type { Product } from '@/lib/catalog';
+import { createPersistedStore } from '@/lib/store';
+
+export type CartLine = {
+  productId: string;
+  quantity: number;
+};
+
+export type CartState = {
+  lines: CartLine[];
+};
+
+export const cartStore = createPersistedStore<CartState>('cart', { lines: [] });
+
+function clampQuantity(quantity: number, stock: number) {
+  return Math.max(0, Math.min(Math.floor(quantity), stock));
+}
+
+function updateLines(update: (lines: CartLine[]) => CartLine[]) {
+  cartStore.setState((state) => ({
+    lines: update(state.lines).filter((line) => line.quantity > 0),
+  }));
+}
+
+/**
+ * Adds `quantity` of `product`, never exceeding what is in stock. Returns the quantity that is
+ * now in the cart.
+ */
+export function addToCart(product: Pick<Product, 'id' | 'stock'>, quantity = 1) {
+  const existing = cartStore.getState().lines.find((line) => line.productId === product.id);
+  const next = clampQuantity((existing?.quantity ?? 0) + quantity, product.stock);
+
+  updateLines((lines) =>
+    existing
+      ? lines.map((line) => (line.productId === product.id ? { ...line, quantity: next } : line))
+      : [...lines, { productId: product.id, quantity: next }]
+  );
+  return next;
+}
+
+export function setCartQuantity(product: Pick<Product, 'id' | 'stock'>, quantity: number) {
+  const next = clampQuantity(quantity, product.stock);
+  updateLines((lines) =>
+    lines.map((line) => (line.productId === product.id ? { ...line, quantity: next } : line))
+  );
+}
+
+export function removeFromCart(productId: string) {
+  updateLines((lines) => lines.filter((line) => line.productId !== productId));
+}
+
+export function clearCart() {
+  cartStore.setState({ lines: [] });
+}
+
+export function countCartItems(state: CartState) {
+  return state.lines.reduce((total, line) => total + line.quantity, 0);
+}
@@ -0,0 +1,35 @@
+import categoriesJson from '@/lib/catalog/fixtures/categories.json';
+import productsJson from '@/lib/catalog/fixtures/products.json';
+import type { CatalogSource, Category, Product, ProductQuery } from '@/lib/catalog/types';
+
+const fixtureCategories = categoriesJson as Category[];
+const fixtureProducts = productsJson as Product[];
+
+/**
+ * Serves the catalog from the JSON bundled with the app, so every screen works offline and in
+ * development without an API.
+ */
+export function createFixtureCatalogSource(
+  categories: Category[] = fixtureCategories,
+  products: Product[] = fixtureProducts
+): CatalogSource {
+  return {
+    async listCategories() {
+      return categories;
+    },
+    async getCategory(slug) {
+      return categories.find((category) => category.slug === slug) ?? null;
+    },
+    async listProducts(query: ProductQuery = {}) {
+      return products.filter(
+        (product) =>
+          (query.categorySlug === undefined ||
+            product.categorySlugs.includes(query.categorySlug)) &&
+          (query.ids === undefined || query.ids.includes(product.id))
+      );
+    },
+    async getProduct(id) {
+      return products.find((product) => product.id === id) ?? null;
+    },
+  };
+}
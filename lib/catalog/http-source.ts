@@ -0,0 +1,42 @@
+import type { CatalogSource, Category, Product, ProductQuery } from '@/lib/catalog/types';
+
+async function getJson<T>(url: string): Promise<T | null> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Catalog request failed: ${response.status} ${url}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Serves the catalog from the shop API at `baseUrl`.
+ */
+export function createHttpCatalogSource(baseUrl: string): CatalogSource {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    async listCategories() {
+      return (await getJson<Category[]>(`${root}/categories`)) ?? [];
+    },
+    getCategory(slug) {
+      return getJson<Category>(`${root}/categories/${encodeURIComponent(slug)}`);
+    },
+    async listProducts(query: ProductQuery = {}) {
+      const params = new URLSearchParams();
+      if (query.categorySlug !== undefined) {
+        params.set('category', query.categorySlug);
+      }
+      if (query.ids !== undefined) {
+        params.set('ids', query.ids.join(','));
+      }
+      const search = params.toString();
+      return (await getJson<Product[]>(`${root}/products${search ? `?${search}` : ''}`)) ?? [];
+    },
+    getProduct(id) {
+      return getJson<Product>(`${root}/products/${encodeURIComponent(id)}`);
+    },
+  };
+}
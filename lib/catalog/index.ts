@@ -0,0 +1,25 @@
+import { createFixtureCatalogSource } from '@/lib/catalog/fixture-source';
+import { createHttpCatalogSource } from '@/lib/catalog/http-source';
+import type { CatalogSource } from '@/lib/catalog/types';
+
+export * from '@/lib/catalog/types';
+export { createFixtureCatalogSource } from '@/lib/catalog/fixture-source';
+export { createHttpCatalogSource } from '@/lib/catalog/http-source';
+export * from '@/lib/catalog/labels';
+export * from '@/lib/catalog/search';
+
+let source: CatalogSource = process.env.EXPO_PUBLIC_CATALOG_API_URL
+  ? createHttpCatalogSource(process.env.EXPO_PUBLIC_CATALOG_API_URL)
+  : createFixtureCatalogSource();
+
+/**
+ * The catalog source used by every screen. Falls back to the bundled fixtures unless
+ * `EXPO_PUBLIC_CATALOG_API_URL` is set.
+ */
+export function getCatalogSource() {
+  return source;
+}
+
+export function setCatalogSource(next: CatalogSource) {
+  source = next;
+}
@@ -0,0 +1,29 @@
+import type { LifeStage, Product, Sex } from '@/lib/catalog/types';
+import { formatYen } from '@/lib/i18n/format';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+
+/** In picker order; shown as `catalog.sex.<value>`. */
+export const SEXES: readonly Sex[] = ['male', 'female', 'pair', 'unsexed'];
+
+/** In life order; shown as `catalog.stage.<value>`. */
+export const LIFE_STAGES: readonly LifeStage[] = ['egg', 'larva', 'pupa', 'adult'];
+
+export function formatPrice(priceYen: number) {
+  return formatYen(priceYen);
+}
+
+/** e.g. `成虫 72mm` or `幼虫 L3`. */
+export function describeStage(
+  product: Pick<Product, 'stage' | 'instar' | 'sizeMm'>,
+  locale: Locale = getLocale()
+) {
+  const stage = translate(locale, `catalog.stage.${product.stage}`);
+  if (product.stage === 'larva' && product.instar) {
+    return `${stage} ${product.instar}`;
+  }
+  if (product.stage === 'adult' && product.sizeMm !== undefined) {
+    return `${stage} ${product.sizeMm}mm`;
+  }
+  return stage;
+}
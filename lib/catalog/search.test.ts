@@ -0,0 +1,110 @@
+import {
+  countActiveFilters,
+  EMPTY_PRODUCT_SEARCH,
+  parseProductSearch,
+  toProductSearchParams,
+  type ProductSearch,
+} from '@/lib/catalog/search';
+
+function search(overrides: Partial<ProductSearch> = {}): ProductSearch {
+  return { ...EMPTY_PRODUCT_SEARCH, ...overrides };
+}
+
+describe('parseProductSearch', () => {
+  it('is the empty search when there are no params', () => {
+    expect(parseProductSearch({})).toEqual(search());
+  });
+
+  it('reads comma-separated and repeated lists, amounts and flags', () => {
+    expect(
+      parseProductSearch({
+        q: ' オオクワ ',
+        genus: 'Dorcus, Prosopocoilus',
+        region: ['山梨県', '佐賀県'],
+        sex: 'male,pair',
+        sizeMin: '７０',
+        priceMax: '20,000',
+        inStock: '1',
+        sort: 'price-asc',
+      })
+    ).toEqual(
+      search({
+        q: 'オオクワ',
+        genus: ['Dorcus', 'Prosopocoilus'],
+        region: ['山梨県', '佐賀県'],
+        sex: ['male', 'pair'],
+        sizeMin: 70,
+        priceMax: 20000,
+        inStock: true,
+        sort: 'price-asc',
+      })
+    );
+  });
+
+  it('ignores malformed values instead of failing', () => {
+    expect(
+      parseProductSearch({
+        sex: 'male,queen',
+        sizeMin: '70mm',
+        priceMin: '-1',
+        inStock: 'yes',
+        sort: 'cheapest',
+      })
+    ).toEqual(search({ sex: ['male'] }));
+  });
+});
+
+describe('toProductSearchParams', () => {
+  it('leaves every default undefined so removed filters are cleared', () => {
+    const params = toProductSearchParams(search());
+
+    expect(Object.keys(params).sort()).toEqual([
+      'generation',
+      'genus',
+      'inStock',
+      'priceMax',
+      'priceMin',
+      'q',
+      'region',
+      'sex',
+      'sizeMax',
+      'sizeMin',
+      'sort',
+      'species',
+    ]);
+    expect(Object.values(params).every((value) => value === undefined)).toBe(true);
+  });
+
+  it('round-trips through parseProductSearch', () => {
+    const original = search({
+      q: 'ヘラクレス',
+      species: ['Dynastes hercules hercules'],
+      generation: ['CBF1'],
+      sizeMax: 150,
+      priceMin: 0,
+      inStock: true,
+      sort: 'size-desc',
+    });
+    const params = toProductSearchParams(original);
+
+    expect(params).toMatchObject({ species: 'Dynastes hercules hercules', priceMin: '0' });
+    expect(parseProductSearch(params)).toEqual(original);
+  });
+});
+
+describe('countActiveFilters', () => {
+  it('counts facet values, bounds and the stock filter but not the text or sort', () => {
+    expect(countActiveFilters(search({ q: 'オオクワ', sort: 'price-desc' }))).toBe(0);
+    expect(
+      countActiveFilters(
+        search({
+          genus: ['Dorcus'],
+          sex: ['male', 'female'],
+          sizeMin: 70,
+          priceMax: 20000,
+          inStock: true,
+        })
+      )
+    ).toBe(6);
+  });
+});
@@ -0,0 +1,319 @@
+import { SEXES } from '@/lib/catalog/labels';
+import type { Product, Sex } from '@/lib/catalog/types';
+import { getLocale, INTL_LOCALES, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import { normalizeText, splitTerms } from '@/lib/text';
+
+export type ProductSort = 'relevance' | 'price-asc' | 'price-desc' | 'size-desc';
+
+/** In picker order; shown as `search.sort.<value>`. */
+export const PRODUCT_SORTS: readonly ProductSort[] = [
+  'relevance',
+  'price-asc',
+  'price-desc',
+  'size-desc',
+];
+
+/** Facets that narrow by picking values; several values of one facet match any of them. */
+export type ProductFacet = 'genus' | 'species' | 'region' | 'generation' | 'sex';
+
+/** In display order; shown as `search.facet.<value>`. */
+export const PRODUCT_FACETS: readonly ProductFacet[] = [
+  'genus',
+  'species',
+  'region',
+  'generation',
+  'sex',
+];
+
+export type ProductSearch = {
+  /** Free text; every word must match. */
+  q: string;
+  genus: string[];
+  /** Scientific names. */
+  species: string[];
+  /** See `regionOf`. */
+  region: string[];
+  generation: string[];
+  sex: Sex[];
+  /** Inclusive bounds in millimetres; items without a size are left out once either is set. */
+  sizeMin?: number;
+  sizeMax?: number;
+  /** Inclusive bounds in yen. */
+  priceMin?: number;
+  priceMax?: number;
+  inStock: boolean;
+  sort: ProductSort;
+};
+
+export const EMPTY_PRODUCT_SEARCH: ProductSearch = {
+  q: '',
+  genus: [],
+  species: [],
+  region: [],
+  generation: [],
+  sex: [],
+  inStock: false,
+  sort: 'relevance',
+};
+
+/**
+ * The prefecture of a Japanese locality (`山梨県韮崎市` → `山梨県`), or the first word of a foreign
+ * one (`インドネシア スマトラ島` → `インドネシア`), so the 産地 facet stays short.
+ */
+export function regionOf(locality: string) {
+  const prefecture = /^(東京都|北海道|(?:京都|大阪)府|.{2,3}県)/.exec(locality);
+  return prefecture ? prefecture[1] : splitTerms(locality)[0];
+}
+
+function facetValues(product: Product, facet: ProductFacet): string[] {
+  switch (facet) {
+    case 'genus':
+      return [product.species.genus];
+    case 'species':
+      return [product.species.scientificName];
+    case 'region':
+      return product.locality ? [regionOf(product.locality)] : [];
+    case 'generation':
+      return product.generation ? [product.generation] : [];
+    case 'sex':
+      return [product.sex];
+  }
+}
+
+function facetLabel(product: Product, facet: ProductFacet, value: string, locale: Locale) {
+  switch (facet) {
+    case 'species':
+      return product.species.japaneseName;
+    case 'sex':
+      return translate(locale, `catalog.sex.${value as Sex}`);
+    default:
+      return value;
+  }
+}
+
+/** Where a word may match, and how much a match there counts towards relevance. */
+const FIELDS: { weight: number; text: (product: Product) => (string | undefined)[] }[] = [
+  { weight: 5, text: (product) => [product.species.japaneseName] },
+  { weight: 3, text: (product) => [product.title, product.species.scientificName] },
+  { weight: 2, text: (product) => [product.locality, product.generation] },
+  { weight: 1, text: (product) => [product.description] },
+];
+
+/**
+ * How well `product` matches every word in `terms`, or `0` if any word is missing. A word at the
+ * start of the Japanese name counts extra, so `オオクワ` ranks オオクワガタ above listings that only
+ * mention it.
+ */
+export function relevance(product: Product, terms: string[]) {
+  const fields = FIELDS.map(({ weight, text }) => ({
+    weight,
+    text: normalizeText(text(product).filter(Boolean).join('\n')),
+  }));
+  const name = normalizeText(product.species.japaneseName);
+  let score = 0;
+  for (const term of terms.map(normalizeText)) {
+    const matched = fields.filter((field) => field.text.includes(term));
+    if (matched.length === 0) {
+      return 0;
+    }
+    score += Math.max(...matched.map((field) => field.weight));
+    if (name.startsWith(term)) {
+      score += 2;
+    }
+  }
+  return terms.length === 0 ? 1 : score;
+}
+
+function inRange(value: number | undefined, min: number | undefined, max: number | undefined) {
+  if (min === undefined && max === undefined) {
+    return true;
+  }
+  return (
+    value !== undefined &&
+    (min === undefined || value >= min) &&
+    (max === undefined || value <= max)
+  );
+}
+
+/** Every filter except the text and the facets, which are handled separately. */
+function matchesFilters(product: Product, search: ProductSearch) {
+  return (
+    inRange(product.sizeMm, search.sizeMin, search.sizeMax) &&
+    inRange(product.priceYen, search.priceMin, search.priceMax) &&
+    (!search.inStock || product.stock > 0)
+  );
+}
+
+function matchesFacet(product: Product, search: ProductSearch, facet: ProductFacet) {
+  const selected: string[] = search[facet];
+  return (
+    selected.length === 0 || facetValues(product, facet).some((value) => selected.includes(value))
+  );
+}
+
+export type FacetOption = { value: string; label: string; count: number };
+
+export type ProductSearchResult = {
+  products: Product[];
+  /**
+   * Per facet, the values on offer and how many results picking each would give, counting the
+   * other facets' selections but not this one's.
+   */
+  facets: Record<ProductFacet, FacetOption[]>;
+};
+
+type Scored = { product: Product; score: number; index: number };
+
+const COMPARE: Record<ProductSort, (a: Scored, b: Scored) => number> = {
+  relevance: (a, b) => b.score - a.score,
+  'price-asc': (a, b) => a.product.priceYen - b.product.priceYen,
+  'price-desc': (a, b) => b.product.priceYen - a.product.priceYen,
+  'size-desc': (a, b) => (b.product.sizeMm ?? -1) - (a.product.sizeMm ?? -1),
+};
+
+/**
+ * Filters and sorts `products` for `search`. Sold-out items sort after available ones whatever
+ * the order, and ties keep the catalog's order.
+ */
+export function searchProducts(
+  products: Product[],
+  search: ProductSearch,
+  locale: Locale = getLocale()
+): ProductSearchResult {
+  const terms = splitTerms(search.q);
+  const candidates = products
+    .map((product, index) => ({ product, index, score: relevance(product, terms) }))
+    .filter(({ product, score }) => score > 0 && matchesFilters(product, search));
+
+  const facets = {} as Record<ProductFacet, FacetOption[]>;
+  for (const facet of PRODUCT_FACETS) {
+    const options = new Map<string, FacetOption>();
+    for (const { product } of candidates) {
+      if (
+        !PRODUCT_FACETS.every((other) => other === facet || matchesFacet(product, search, other))
+      ) {
+        continue;
+      }
+      for (const value of facetValues(product, facet)) {
+        const option = options.get(value) ?? {
+          value,
+          label: facetLabel(product, facet, value, locale),
+          count: 0,
+        };
+        option.count++;
+        options.set(value, option);
+      }
+    }
+    // Keep selected values on offer even when nothing matches them, so they can be cleared.
+    for (const value of search[facet] as string[]) {
+      if (!options.has(value)) {
+        options.set(value, {
+          value,
+          label: facet === 'sex' ? translate(locale, `catalog.sex.${value as Sex}`) : value,
+          count: 0,
+        });
+      }
+    }
+    facets[facet] = [...options.values()].sort(
+      (a, b) => b.count - a.count || a.label.localeCompare(b.label, INTL_LOCALES[locale])
+    );
+  }
+
+  const results = candidates
+    .filter(({ product }) => PRODUCT_FACETS.every((facet) => matchesFacet(product, search, facet)))
+    .sort(
+      (a, b) =>
+        Number(b.product.stock > 0) - Number(a.product.stock > 0) ||
+        COMPARE[search.sort](a, b) ||
+        a.index - b.index
+    );
+  return { products: results.map(({ product }) => product), facets };
+}
+
+/** Route params for a search, as strings. Lists are comma-separated. */
+export type ProductSearchParams = Partial<Record<keyof ProductSearch, string | string[]>>;
+
+function listParam(value: string | string[] | undefined) {
+  const joined = Array.isArray(value) ? value.join(',') : (value ?? '');
+  return joined
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** A whole number from a param or a form field; full-width digits are accepted. */
+export function parseAmount(value: string | string[] | undefined) {
+  const text = (Array.isArray(value) ? value[0] : value)
+    ?.normalize('NFKC')
+    .replace(/,/g, '')
+    .trim();
+  if (!text || !/^\d+$/.test(text)) {
+    return undefined;
+  }
+  return Number(text);
+}
+
+function isSort(value: string | undefined): value is ProductSort {
+  return (PRODUCT_SORTS as readonly (string | undefined)[]).includes(value);
+}
+
+function isSex(value: string): value is Sex {
+  return (SEXES as readonly string[]).includes(value);
+}
+
+/** Reads a search from the URL, ignoring anything malformed rather than failing. */
+export function parseProductSearch(params: ProductSearchParams): ProductSearch {
+  const sort = Array.isArray(params.sort) ? params.sort[0] : params.sort;
+  const q = Array.isArray(params.q) ? params.q.join(' ') : params.q;
+  return {
+    q: q?.trim() ?? '',
+    genus: listParam(params.genus),
+    species: listParam(params.species),
+    region: listParam(params.region),
+    generation: listParam(params.generation),
+    sex: listParam(params.sex).filter(isSex),
+    sizeMin: parseAmount(params.sizeMin),
+    sizeMax: parseAmount(params.sizeMax),
+    priceMin: parseAmount(params.priceMin),
+    priceMax: parseAmount(params.priceMax),
+    inStock: (Array.isArray(params.inStock) ? params.inStock[0] : params.inStock) === '1',
+    sort: isSort(sort) ? sort : 'relevance',
+  };
+}
+
+/**
+ * The URL params for a search. Every key is present, with `undefined` for anything left at its
+ * default, so passing the result to `router.setParams` also clears filters that were removed.
+ */
+export function toProductSearchParams(
+  search: ProductSearch
+): Record<keyof ProductSearch, string | undefined> {
+  const list = (values: string[]) => (values.length > 0 ? values.join(',') : undefined);
+  const amount = (value: number | undefined) => (value === undefined ? undefined : String(value));
+  return {
+    q: search.q || undefined,
+    genus: list(search.genus),
+    species: list(search.species),
+    region: list(search.region),
+    generation: list(search.generation),
+    sex: list(search.sex),
+    sizeMin: amount(search.sizeMin),
+    sizeMax: amount(search.sizeMax),
+    priceMin: amount(search.priceMin),
+    priceMax: amount(search.priceMax),
+    inStock: search.inStock ? '1' : undefined,
+    sort: search.sort === 'relevance' ? undefined : search.sort,
+  };
+}
+
+/** How many filters are narrowing the results, not counting the text or the sort. */
+export function countActiveFilters(search: ProductSearch) {
+  return (
+    PRODUCT_FACETS.reduce((total, facet) => total + search[facet].length, 0) +
+    [search.sizeMin, search.sizeMax, search.priceMin, search.priceMax].filter(
+      (value) => value !== undefined
+    ).length +
+    Number(search.inStock)
+  );
+}
@@ -0,0 +1,77 @@
+export type Sex = 'male' | 'female' | 'pair' | 'unsexed';
+
+export type LifeStage = 'egg' | 'larva' | 'pupa' | 'adult';
+
+export type LarvalInstar = 'L1' | 'L2' | 'L3';
+
+export type Species = {
+  /** Latin binomial or trinomial, e.g. `Dorcus hopei binodulosus`. */
+  scientificName: string;
+  /** Common Japanese name in katakana, e.g. `オオクワガタ`. */
+  japaneseName: string;
+  genus: string;
+};
+
+export type ProductImage = {
+  uri: string;
+  width: number;
+  height: number;
+  alt?: string;
+};
+
+/**
+ * How a parcel must be kept in transit. `chilled` (保冷剤) and `warmed` (カイロ) items need
+ * opposite packing and cannot share a box.
+ */
+export type ShippingHandling = 'standard' | 'chilled' | 'warmed';
+
+export type ShippingProfile = {
+  handling: ShippingHandling;
+  /** Months (1-12) in which the animal can travel without heat or cold stress. */
+  safeMonths: number[];
+};
+
+export type Category = {
+  slug: string;
+  name: string;
+  description: string;
+};
+
+export type Product = {
+  id: string;
+  title: string;
+  description: string;
+  categorySlugs: string[];
+  species: Species;
+  /** 産地, e.g. `山梨県韮崎市`. */
+  locality?: string;
+  /** Breeding generation, e.g. `WD`, `WF1`, `CBF2`. */
+  generation?: string;
+  sex: Sex;
+  stage: LifeStage;
+  /** Only set for larvae. */
+  instar?: LarvalInstar;
+  /** Body length of an adult in millimetres. Only set for adults. */
+  sizeMm?: number;
+  /** Tax-inclusive price in yen. */
+  priceYen: number;
+  stock: number;
+  images: ProductImage[];
+  shipping: ShippingProfile;
+};
+
+export type ProductQuery = {
+  categorySlug?: string;
+  ids?: string[];
+};
+
+/**
+ * Anything that can serve the catalog. Screens never talk to a concrete source directly so the
+ * bundled fixtures can be swapped for the real API without touching them.
+ */
+export interface CatalogSource {
+  listCategories(): Promise<Category[]>;
+  getCategory(slug: string): Promise<Category | null>;
+  listProducts(query?: ProductQuery): Promise<Product[]>;
+  getProduct(id: string): Promise<Product | null>;
+}
@@ -0,0 +1,84 @@
+import type { ShippingAddress } from '@/lib/checkout/address';
+import { createId } from '@/lib/id';
+import { createPersistedStore } from '@/lib/store';
+
+/** A delivery address kept for reuse, belonging to one member. */
+export type SavedAddress = ShippingAddress & {
+  id: string;
+  ownerId: string;
+};
+
+export type AddressBookState = {
+  addresses: SavedAddress[];
+  /** Member id → the address checkout starts from. */
+  defaults: Record<string, string>;
+};
+
+/**
+ * Saved addresses are kept per member rather than cleared on sign-out, so a shared device never
+ * offers one member's address to another and nobody has to type theirs in again.
+ */
+export const addressBookStore = createPersistedStore<AddressBookState>('checkout.addresses', {
+  addresses: [],
+  defaults: {},
+});
+
+export function addressesOf(state: AddressBookState, ownerId: string) {
+  return state.addresses.filter((address) => address.ownerId === ownerId);
+}
+
+export function defaultAddressOf(state: AddressBookState, ownerId: string) {
+  const addresses = addressesOf(state, ownerId);
+  return addresses.find((address) => address.id === state.defaults[ownerId]) ?? addresses[0];
+}
+
+/** Adds a new address, or replaces the one with `id`. A member's first address is the default. */
+export function saveAddress(ownerId: string, address: ShippingAddress, id?: string) {
+  const saved: SavedAddress = { ...address, id: id ?? createId('address'), ownerId };
+  addressBookStore.setState((state) => {
+    const exists = state.addresses.some((item) => item.id === saved.id);
+    return {
+      addresses: exists
+        ? state.addresses.map((item) => (item.id === saved.id ? saved : item))
+        : [...state.addresses, saved],
+      defaults: state.defaults[ownerId]
+        ? state.defaults
+        : { ...state.defaults, [ownerId]: saved.id },
+    };
+  });
+  return saved.id;
+}
+
+export function deleteAddress(id: string) {
+  addressBookStore.setState((state) => {
+    const removed = state.addresses.find((address) => address.id === id);
+    if (!removed) {
+      return state;
+    }
+    const addresses = state.addresses.filter((address) => address.id !== id);
+    const { [removed.ownerId]: current, ...defaults } = state.defaults;
+    // The next remaining address takes over as default, if the deleted one was it.
+    const next =
+      current === id
+        ? addresses.find((address) => address.ownerId === removed.ownerId)?.id
+        : current;
+    return { addresses, defaults: next ? { ...defaults, [removed.ownerId]: next } : defaults };
+  });
+}
+
+export function setDefaultAddress(ownerId: string, id: string) {
+  addressBookStore.setState((state) => ({
+    ...state,
+    defaults: { ...state.defaults, [ownerId]: id },
+  }));
+}
+
+/** Whether `address` is already saved for the member, ignoring the ids. */
+export function isAddressSaved(state: AddressBookState, ownerId: string, address: ShippingAddress) {
+  const key = addressKey(address);
+  return addressesOf(state, ownerId).some((saved) => addressKey(saved) === key);
+}
+
+function addressKey({ name, postalCode, prefecture, city, line1, line2, phone }: ShippingAddress) {
+  return [name, postalCode, prefecture, city, line1, line2 ?? '', phone].join('\n');
+}
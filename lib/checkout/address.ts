@@ -0,0 +1,145 @@
+import { hasErrors, type FieldErrors } from '@/lib/forms';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+
+export const PREFECTURES = [
+  '北海道',
+  '青森県',
+  '岩手県',
+  '宮城県',
+  '秋田県',
+  '山形県',
+  '福島県',
+  '茨城県',
+  '栃木県',
+  '群馬県',
+  '埼玉県',
+  '千葉県',
+  '東京都',
+  '神奈川県',
+  '新潟県',
+  '富山県',
+  '石川県',
+  '福井県',
+  '山梨県',
+  '長野県',
+  '岐阜県',
+  '静岡県',
+  '愛知県',
+  '三重県',
+  '滋賀県',
+  '京都府',
+  '大阪府',
+  '兵庫県',
+  '奈良県',
+  '和歌山県',
+  '鳥取県',
+  '島根県',
+  '岡山県',
+  '広島県',
+  '山口県',
+  '徳島県',
+  '香川県',
+  '愛媛県',
+  '高知県',
+  '福岡県',
+  '佐賀県',
+  '長崎県',
+  '熊本県',
+  '大分県',
+  '宮崎県',
+  '鹿児島県',
+  '沖縄県',
+] as const;
+
+export type Prefecture = (typeof PREFECTURES)[number];
+
+export type ShippingAddress = {
+  name: string;
+  /** `123-4567`. */
+  postalCode: string;
+  prefecture: Prefecture;
+  /** 市区町村. */
+  city: string;
+  /** 番地. */
+  line1: string;
+  /** 建物名・部屋番号. */
+  line2?: string;
+  phone: string;
+};
+
+export type AddressInput = { [K in keyof ShippingAddress]?: string };
+
+export type { FieldErrors } from '@/lib/forms';
+
+/** Converts full-width digits and hyphen variants so `１２３ー４５６７` is accepted. */
+function toHalfWidthDigits(value: string) {
+  return value
+    .replace(/[０-９]/g, (digit) => String.fromCharCode(digit.charCodeAt(0) - 0xfee0))
+    .replace(/[‐－―ー−]/g, '-');
+}
+
+export function normalizePostalCode(value: string) {
+  const digits = toHalfWidthDigits(value).replace(/[^0-9]/g, '');
+  return digits.length === 7 ? `${digits.slice(0, 3)}-${digits.slice(3)}` : value.trim();
+}
+
+export function normalizePhone(value: string) {
+  return toHalfWidthDigits(value).replace(/[^0-9]/g, '');
+}
+
+function isPrefecture(value: string): value is Prefecture {
+  return (PREFECTURES as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a Japanese delivery address. Returns the normalized address, or the message for
+ * each field that needs fixing.
+ */
+export function validateAddress(
+  input: AddressInput,
+  locale: Locale = getLocale()
+):
+  | { address: ShippingAddress; errors?: undefined }
+  | { address?: undefined; errors: FieldErrors<ShippingAddress> } {
+  const errors: FieldErrors<ShippingAddress> = {};
+  const name = input.name?.trim() ?? '';
+  const postalCode = normalizePostalCode(input.postalCode ?? '');
+  const prefecture = input.prefecture?.trim() ?? '';
+  const city = input.city?.trim() ?? '';
+  const line1 = input.line1?.trim() ?? '';
+  const line2 = input.line2?.trim() || undefined;
+  const phone = normalizePhone(input.phone ?? '');
+
+  if (!name) {
+    errors.name = translate(locale, 'address.error.name');
+  }
+  if (!/^\d{3}-\d{4}$/.test(postalCode)) {
+    errors.postalCode = translate(locale, 'address.error.postalCode');
+  }
+  if (!isPrefecture(prefecture)) {
+    errors.prefecture = translate(locale, 'address.error.prefecture');
+  }
+  if (!city) {
+    errors.city = translate(locale, 'address.error.city');
+  }
+  if (!line1) {
+    errors.line1 = translate(locale, 'address.error.line1');
+  } else if (!/[0-9０-９一二三四五六七八九十丁目番地号-]/.test(line1)) {
+    errors.line1 = translate(locale, 'address.error.line1Incomplete');
+  }
+  if (!/^0\d{9,10}$/.test(phone)) {
+    errors.phone = translate(locale, 'address.error.phone');
+  }
+
+  if (hasErrors(errors) || !isPrefecture(prefecture)) {
+    return { errors };
+  }
+  return { address: { name, postalCode, prefecture, city, line1, line2, phone } };
+}
+
+export function formatAddress(address: ShippingAddress) {
+  return `〒${address.postalCode} ${address.prefecture}${address.city}${address.line1}${
+    address.line2 ? ` ${address.line2}` : ''
+  }`;
+}
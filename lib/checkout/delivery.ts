@@ -0,0 +1,67 @@
+import type { FieldErrors } from '@/lib/forms';
+import { addDays, toDateKey } from '@/lib/date';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+
+export type DeliveryMethod = 'standard' | 'cool';
+
+/** In picker order; shown as `delivery.method.<value>` over `delivery.methodDescription.<value>`. */
+export const DELIVERY_METHODS: readonly DeliveryMethod[] = ['standard', 'cool'];
+
+export type TimeSlot = 'unspecified' | 'morning' | '14-16' | '16-18' | '18-20' | '19-21';
+
+/** In picker order; shown as `delivery.timeSlot.<value>`. */
+export const TIME_SLOTS: readonly TimeSlot[] = [
+  'unspecified',
+  'morning',
+  '14-16',
+  '16-18',
+  '18-20',
+  '19-21',
+];
+
+export type DeliverySelection = {
+  method: DeliveryMethod;
+  /** `YYYY-MM-DD`, or `null` for the earliest possible day. */
+  date: string | null;
+  timeSlot: TimeSlot;
+};
+
+/** Live animals are packed to order, so the earliest day is a few days out. */
+export const EARLIEST_DELIVERY_DAYS = 3;
+export const LATEST_DELIVERY_DAYS = 14;
+
+export function availableDeliveryDates(today: Date) {
+  const dates: string[] = [];
+  for (let offset = EARLIEST_DELIVERY_DAYS; offset <= LATEST_DELIVERY_DAYS; offset++) {
+    dates.push(toDateKey(addDays(today, offset)));
+  }
+  return dates;
+}
+
+export function validateDelivery(
+  selection: DeliverySelection,
+  {
+    today,
+    requiresCool,
+    locale = getLocale(),
+  }: { today: Date; requiresCool: boolean; locale?: Locale }
+) {
+  const errors: FieldErrors<DeliverySelection> = {};
+
+  if (!DELIVERY_METHODS.includes(selection.method)) {
+    errors.method = translate(locale, 'delivery.error.method');
+  } else if (requiresCool && selection.method !== 'cool') {
+    errors.method = translate(locale, 'delivery.error.coolRequired');
+  }
+  if (selection.date !== null && !availableDeliveryDates(today).includes(selection.date)) {
+    errors.date = translate(locale, 'delivery.error.date', {
+      earliest: EARLIEST_DELIVERY_DAYS,
+      latest: LATEST_DELIVERY_DAYS,
+    });
+  }
+  if (!TIME_SLOTS.includes(selection.timeSlot)) {
+    errors.timeSlot = translate(locale, 'delivery.error.timeSlot');
+  }
+  return errors;
+}
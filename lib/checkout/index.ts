@@ -0,0 +1,8 @@
+export * from '@/lib/checkout/address';
+export * from '@/lib/checkout/address-book';
+export * from '@/lib/checkout/delivery';
+export * from '@/lib/checkout/machine';
+export * from '@/lib/checkout/order-api';
+export * from '@/lib/checkout/orders';
+export * from '@/lib/checkout/payment';
+export * from '@/lib/checkout/pricing';
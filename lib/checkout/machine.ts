@@ -0,0 +1,133 @@
+import { cartSubtotal, checkCart, type ResolvedCartLine } from '@/lib/cart';
+import { validateAddress, type ShippingAddress } from '@/lib/checkout/address';
+import { validateDelivery, type DeliverySelection } from '@/lib/checkout/delivery';
+import type { PlacedOrder } from '@/lib/checkout/order-api';
+import { validatePayment, type PaymentSelection } from '@/lib/checkout/payment';
+import { calculateTotals } from '@/lib/checkout/pricing';
+import { hasErrors } from '@/lib/forms';
+import { createPersistedStore } from '@/lib/store';
+
+export const CHECKOUT_STEPS = ['address', 'delivery', 'payment', 'review', 'complete'] as const;
+
+export type CheckoutStep = (typeof CHECKOUT_STEPS)[number];
+
+export type CheckoutState = {
+  address?: ShippingAddress;
+  delivery?: DeliverySelection;
+  payment?: PaymentSelection;
+  /** Set once the order has been placed; only the complete step reads it. */
+  order?: PlacedOrder;
+};
+
+/** What the steps are validated against besides the checkout state itself. */
+export type CheckoutContext = {
+  today: Date;
+  cart: ResolvedCartLine[];
+};
+
+/**
+ * Checkout is persisted so a customer who leaves the app mid-way (to check a card, or because the
+ * OS killed it in the background) comes back to the step they were on.
+ */
+export const checkoutStore = createPersistedStore<CheckoutState>('checkout', {}, { version: 2 });
+
+export function cartRequiresCool(cart: ResolvedCartLine[]) {
+  return cart.some((line) => line.product?.shipping.handling === 'chilled');
+}
+
+/**
+ * Whether the data collected by `step` is complete and still valid. The cart counts as the
+ * input to the first step.
+ */
+function isStepComplete(step: CheckoutStep, state: CheckoutState, context: CheckoutContext) {
+  switch (step) {
+    case 'address':
+      return state.address !== undefined && validateAddress(state.address).errors === undefined;
+    case 'delivery':
+      return (
+        state.delivery !== undefined &&
+        !hasErrors(
+          validateDelivery(state.delivery, {
+            today: context.today,
+            requiresCool: cartRequiresCool(context.cart),
+          })
+        )
+      );
+    case 'payment': {
+      if (state.payment === undefined) {
+        return false;
+      }
+      const totals = calculateTotals(cartSubtotal(context.cart), state.delivery, state.payment);
+      return !hasErrors(validatePayment(state.payment, totals));
+    }
+    case 'review':
+    case 'complete':
+      return state.order !== undefined;
+  }
+}
+
+function isCartReady(cart: ResolvedCartLine[], today: Date) {
+  return cart.length > 0 && checkCart(cart, today).length === 0;
+}
+
+/**
+ * The furthest step the customer may open, or `null` if checkout cannot start (empty cart or a
+ * cart with problems). Steps are only reachable once every earlier step is complete, which is
+ * what stops deep links from skipping ahead.
+ */
+export function furthestAllowedStep(
+  state: CheckoutState,
+  context: CheckoutContext
+): CheckoutStep | null {
+  if (state.order) {
+    return 'complete';
+  }
+  if (!isCartReady(context.cart, context.today)) {
+    return null;
+  }
+  for (const step of CHECKOUT_STEPS) {
+    if (step === 'review' || !isStepComplete(step, state, context)) {
+      return step;
+    }
+  }
+  return 'review';
+}
+
+export function canEnterStep(step: CheckoutStep, state: CheckoutState, context: CheckoutContext) {
+  const furthest = furthestAllowedStep(state, context);
+  if (furthest === null) {
+    return false;
+  }
+  if (furthest === 'complete') {
+    return step === 'complete';
+  }
+  return step !== 'complete' && CHECKOUT_STEPS.indexOf(step) <= CHECKOUT_STEPS.indexOf(furthest);
+}
+
+/** Clears a finished order before a new checkout; an unfinished one is kept as it was. */
+export function startCheckout() {
+  if (checkoutStore.getState().order) {
+    checkoutStore.setState({});
+  }
+}
+
+export function setCheckoutAddress(address: ShippingAddress) {
+  checkoutStore.setState((state) => ({ ...state, address }));
+}
+
+export function setCheckoutDelivery(delivery: DeliverySelection) {
+  checkoutStore.setState((state) => ({ ...state, delivery }));
+}
+
+export function setCheckoutPayment(payment: PaymentSelection) {
+  checkoutStore.setState((state) => ({ ...state, payment }));
+}
+
+/** Keeps only the placed order so the complete step can show it. */
+export function completeCheckout(order: PlacedOrder) {
+  checkoutStore.setState({ order });
+}
+
+export function resetCheckout() {
+  checkoutStore.setState({});
+}
@@ -0,0 +1,339 @@
+import type { ShippingAddress } from '@/lib/checkout/address';
+import type { DeliverySelection } from '@/lib/checkout/delivery';
+import type { PaymentSelection } from '@/lib/checkout/payment';
+import { calculateTotals, type OrderTotals } from '@/lib/checkout/pricing';
+import { toDateKey } from '@/lib/date';
+import { getLocale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import { mockPointsApi, type MockPointsApi } from '@/lib/points';
+
+export type OrderLine = {
+  productId: string;
+  title: string;
+  quantity: number;
+  unitPriceYen: number;
+};
+
+export type OrderRequest = {
+  lines: OrderLine[];
+  address: ShippingAddress;
+  delivery: DeliverySelection;
+  payment: PaymentSelection;
+  /** What the customer saw on the review step. The server rejects the order if it disagrees. */
+  totals: OrderTotals;
+};
+
+export type OrderStatus = 'pending-payment' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+/** In lifecycle order; shown as `order.status.<value>`. */
+export const ORDER_STATUSES: readonly OrderStatus[] = [
+  'pending-payment',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+];
+
+export type Shipment = {
+  carrier: 'yamato';
+  trackingNumber: string;
+  /** ISO 8601. */
+  shippedAt: string;
+};
+
+/** A report that an animal arrived dead (死着), and where the shop is with it. */
+export type LiveArrivalClaim = {
+  status: 'reviewing' | 'approved' | 'rejected';
+  /** ISO 8601. */
+  reportedAt: string;
+};
+
+export type PlacedOrder = OrderRequest & {
+  orderNumber: string;
+  /** ISO 8601. */
+  placedAt: string;
+  status: OrderStatus;
+  /** Set once the parcel has been handed to the carrier. */
+  shipment?: Shipment;
+  /** ISO 8601; set once the carrier reports delivery. */
+  deliveredAt?: string;
+  liveArrivalClaim?: LiveArrivalClaim;
+};
+
+export type OrderQuery = {
+  /** Only orders in one of these statuses; all orders when omitted. */
+  statuses?: OrderStatus[];
+  /** The previous page's `nextCursor`. */
+  cursor?: string | null;
+  limit?: number;
+};
+
+/** Newest first. `nextCursor` is `null` on the last page. */
+export type OrderPage = {
+  items: PlacedOrder[];
+  nextCursor: string | null;
+};
+
+export interface OrderApi {
+  placeOrder(request: OrderRequest): Promise<PlacedOrder>;
+  listOrders(query?: OrderQuery): Promise<OrderPage>;
+  getOrder(orderNumber: string): Promise<PlacedOrder | null>;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_LIMIT = 20;
+
+/**
+ * How long after being placed a mock order moves on, so the whole life of an order can be
+ * watched within one sitting.
+ */
+const PAYMENT_CONFIRMED_AFTER_MS = 2 * MINUTE_MS;
+const SHIPPED_AFTER_MS = 5 * MINUTE_MS;
+const DELIVERED_AFTER_MS = 15 * MINUTE_MS;
+
+const SAMPLE_ADDRESS: ShippingAddress = {
+  name: '甲虫 太郎',
+  postalCode: '407-0000',
+  prefecture: '山梨県',
+  city: '韮崎市',
+  line1: '1-2-3',
+  phone: '0551000000',
+};
+
+function trackingNumberFor(orderNumber: string) {
+  const digits = orderNumber.replace(/\D/g, '');
+  return `4${digits.slice(-11).padStart(11, '0')}`;
+}
+
+/** Moves an order along as a warehouse and carrier would have by `now`. */
+function advance(order: PlacedOrder, now: number): PlacedOrder {
+  const placedAt = Date.parse(order.placedAt);
+  const at = (ms: number) => new Date(placedAt + ms).toISOString();
+  let next = order;
+  if (next.status === 'pending-payment' && now - placedAt >= PAYMENT_CONFIRMED_AFTER_MS) {
+    next = { ...next, status: 'processing' };
+  }
+  if (next.status === 'processing' && now - placedAt >= SHIPPED_AFTER_MS) {
+    next = {
+      ...next,
+      status: 'shipped',
+      shipment: {
+        carrier: 'yamato',
+        trackingNumber: trackingNumberFor(next.orderNumber),
+        shippedAt: at(SHIPPED_AFTER_MS),
+      },
+    };
+  }
+  if (next.status === 'shipped' && now - placedAt >= DELIVERED_AFTER_MS) {
+    next = { ...next, status: 'delivered', deliveredAt: at(DELIVERED_AFTER_MS) };
+  }
+  return next;
+}
+
+/** A few past orders so the history has something in it from the start. */
+function sampleOrders(now: number): PlacedOrder[] {
+  const order = (
+    suffix: string,
+    daysAgo: number,
+    lines: OrderLine[],
+    extra: Partial<PlacedOrder>
+  ): PlacedOrder => {
+    const placedAt = new Date(now - daysAgo * DAY_MS);
+    const orderNumber = `${toDateKey(placedAt).replaceAll('-', '')}-${suffix}`;
+    const delivery: DeliverySelection = { method: 'cool', date: null, timeSlot: 'unspecified' };
+    const payment: PaymentSelection = { method: 'credit-card' };
+    const subtotalYen = lines.reduce((total, line) => total + line.unitPriceYen * line.quantity, 0);
+    return {
+      lines,
+      address: SAMPLE_ADDRESS,
+      delivery,
+      payment,
+      totals: calculateTotals(subtotalYen, delivery, payment),
+      orderNumber,
+      placedAt: placedAt.toISOString(),
+      status: 'processing',
+      ...extra,
+      shipment: extra.shipment && {
+        ...extra.shipment,
+        trackingNumber: trackingNumberFor(orderNumber),
+      },
+    };
+  };
+  const shipped = (daysAgo: number): Shipment => ({
+    carrier: 'yamato',
+    trackingNumber: '',
+    shippedAt: new Date(now - daysAgo * DAY_MS).toISOString(),
+  });
+  const deliveredAt = (daysAgo: number) => new Date(now - daysAgo * DAY_MS).toISOString();
+
+  return [
+    order(
+      '9004',
+      2,
+      [
+        {
+          productId: 'dorcus-hopei-larva-l3-3',
+          title: 'オオクワガタ 幼虫 3頭セット (3令)',
+          quantity: 1,
+          unitPriceYen: 4800,
+        },
+      ],
+      { status: 'shipped', shipment: shipped(1) }
+    ),
+    order(
+      '9003',
+      12,
+      [
+        {
+          productId: 'lucanus-maculifemoratus-m70',
+          title: 'ミヤマクワガタ 長野県松本市産 ♂70mm',
+          quantity: 1,
+          unitPriceYen: 6800,
+        },
+      ],
+      {
+        status: 'delivered',
+        shipment: shipped(10),
+        deliveredAt: deliveredAt(9),
+        liveArrivalClaim: { status: 'approved', reportedAt: deliveredAt(9) },
+      }
+    ),
+    order(
+      '9002',
+      30,
+      [
+        {
+          productId: 'dorcus-hopei-nirasaki-m72',
+          title: 'オオクワガタ 山梨県韮崎市産 ♂72mm',
+          quantity: 1,
+          unitPriceYen: 12000,
+        },
+      ],
+      { status: 'delivered', shipment: shipped(28), deliveredAt: deliveredAt(27) }
+    ),
+    order(
+      '9001',
+      45,
+      [
+        {
+          productId: 'prosopocoilus-inclinatus-m65',
+          title: 'ノコギリクワガタ 長崎県対馬産 ♂65mm',
+          quantity: 1,
+          unitPriceYen: 3500,
+        },
+      ],
+      { status: 'cancelled' }
+    ),
+  ];
+}
+
+/**
+ * Accepts orders in memory after a short delay, recalculating the totals the way the real API
+ * does, and moves them through payment, shipping and delivery over a few minutes. Good enough to
+ * walk through checkout and order history end to end without a backend.
+ */
+export function createMockOrderApi({
+  latencyMs = 600,
+  samples = true,
+  points,
+}: {
+  latencyMs?: number;
+  samples?: boolean;
+  /** Spends and awards points on placed orders when given. */
+  points?: MockPointsApi;
+} = {}): OrderApi {
+  /**
+   * Starts at a random point so that restarting the app the same day does not issue numbers that
+   * points and inquiries already refer to.
+   */
+  let sequence = Math.floor(Math.random() * 9999);
+  /** Orders placed through this instance; the samples stay where they are. */
+  const placed = new Set<string>();
+  const orders = new Map<string, PlacedOrder>(
+    (samples ? sampleOrders(Date.now()) : []).map((order) => [order.orderNumber, order])
+  );
+
+  /** `YYYYMMDD-NNNN`, skipping numbers already in use. */
+  const nextOrderNumber = (now: Date) => {
+    const day = toDateKey(now).replaceAll('-', '');
+    let orderNumber: string;
+    do {
+      sequence = (sequence % 9999) + 1;
+      orderNumber = `${day}-${String(sequence).padStart(4, '0')}`;
+    } while (orders.has(orderNumber));
+    return orderNumber;
+  };
+
+  const current = (orderNumber: string) => {
+    const order = orders.get(orderNumber);
+    if (!order || !placed.has(orderNumber)) {
+      return order ?? null;
+    }
+    const advanced = advance(order, Date.now());
+    orders.set(orderNumber, advanced);
+    return advanced;
+  };
+
+  return {
+    async placeOrder(request) {
+      await wait(latencyMs);
+      if (request.lines.length === 0) {
+        throw new Error(translate(getLocale(), 'checkout.error.empty'));
+      }
+      const subtotalYen = request.lines.reduce(
+        (total, line) => total + line.unitPriceYen * line.quantity,
+        0
+      );
+      const totals = calculateTotals(subtotalYen, request.delivery, request.payment);
+      if (totals.totalYen !== request.totals.totalYen) {
+        throw new Error(translate(getLocale(), 'checkout.error.totalChanged'));
+      }
+      if (points && totals.pointsYen > points.currentBalance()) {
+        throw new Error(translate(getLocale(), 'checkout.error.insufficientPoints'));
+      }
+      const now = new Date();
+      const order: PlacedOrder = {
+        ...request,
+        totals,
+        orderNumber: nextOrderNumber(now),
+        placedAt: now.toISOString(),
+        status: request.payment.method === 'credit-card' ? 'processing' : 'pending-payment',
+      };
+      orders.set(order.orderNumber, order);
+      placed.add(order.orderNumber);
+      points?.settleOrder(order);
+      return order;
+    },
+    async listOrders({ statuses, cursor, limit = DEFAULT_LIMIT } = {}) {
+      await wait(latencyMs);
+      const matching = [...orders.keys()]
+        .map((orderNumber) => current(orderNumber) as PlacedOrder)
+        .filter((order) => !statuses || statuses.includes(order.status))
+        .sort((a, b) => b.placedAt.localeCompare(a.placedAt));
+      // The cursor is the number of the last order already seen.
+      const start = cursor ? matching.findIndex((order) => order.orderNumber === cursor) + 1 : 0;
+      const items = matching.slice(start, start + limit);
+      return {
+        items,
+        nextCursor: start + limit < matching.length ? items[items.length - 1].orderNumber : null,
+      };
+    },
+    async getOrder(orderNumber) {
+      await wait(latencyMs);
+      return current(orderNumber);
+    },
+  };
+}
+
+let orderApi: OrderApi = createMockOrderApi({ points: mockPointsApi });
+
+export function getOrderApi() {
+  return orderApi;
+}
+
+export function setOrderApi(next: OrderApi) {
+  orderApi = next;
+}
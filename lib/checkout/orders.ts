@@ -0,0 +1,57 @@
+import type { OrderStatus, PlacedOrder, Shipment } from '@/lib/checkout/order-api';
+
+export type OrderFilter = 'all' | 'active' | 'delivered' | 'cancelled';
+
+/** In picker order; shown as `order.filter.<value>`. */
+export const ORDER_FILTERS: Record<OrderFilter, { statuses?: OrderStatus[] }> = {
+  all: {},
+  active: { statuses: ['pending-payment', 'processing', 'shipped'] },
+  delivered: { statuses: ['delivered'] },
+  cancelled: { statuses: ['cancelled'] },
+};
+
+export function isOrderFilter(value: string | undefined): value is OrderFilter {
+  return value !== undefined && Object.hasOwn(ORDER_FILTERS, value);
+}
+
+/** Shown as `order.carrier.<value>`. */
+export const CARRIERS: Record<Shipment['carrier'], { trackingUrl: `https://${string}` }> = {
+  yamato: {
+    trackingUrl: 'https://toi.kuronekoyamato.co.jp/cgi-bin/tneko?number01=',
+  },
+};
+
+export function trackingUrl(shipment: Shipment): `https://${string}` {
+  return `${CARRIERS[shipment.carrier].trackingUrl}${encodeURIComponent(shipment.trackingNumber)}`;
+}
+
+/** 死着保証: a dead arrival must be reported with a photo within this many hours of delivery. */
+export const LIVE_ARRIVAL_CLAIM_HOURS = 24;
+
+export type LiveArrivalStatus =
+  'awaiting-delivery' | 'claimable' | 'expired' | 'reviewing' | 'approved' | 'rejected' | 'void';
+
+/** Where the order stands under the live-arrival guarantee, and until when a claim is taken. */
+export function liveArrivalGuarantee(
+  order: PlacedOrder,
+  now = new Date()
+): { status: LiveArrivalStatus; deadline?: string } {
+  if (order.liveArrivalClaim) {
+    return { status: order.liveArrivalClaim.status };
+  }
+  if (order.status === 'cancelled') {
+    return { status: 'void' };
+  }
+  if (!order.deliveredAt) {
+    return { status: 'awaiting-delivery' };
+  }
+  const deadline = new Date(Date.parse(order.deliveredAt) + LIVE_ARRIVAL_CLAIM_HOURS * 3_600_000);
+  return {
+    status: now < deadline ? 'claimable' : 'expired',
+    deadline: deadline.toISOString(),
+  };
+}
+
+export function orderItemCount(order: PlacedOrder) {
+  return order.lines.reduce((total, line) => total + line.quantity, 0);
+}
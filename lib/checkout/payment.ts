@@ -0,0 +1,58 @@
+import type { FieldErrors } from '@/lib/forms';
+import { formatYen } from '@/lib/i18n/format';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+
+export type PaymentMethod =
+  'credit-card' | 'cash-on-delivery' | 'convenience-store' | 'bank-transfer';
+
+/** In picker order; shown as `payment.method.<value>` over `payment.methodDescription.<value>`. */
+export const PAYMENT_METHODS: Record<PaymentMethod, { feeYen: number }> = {
+  'credit-card': { feeYen: 0 },
+  'cash-on-delivery': { feeYen: 330 },
+  'convenience-store': { feeYen: 0 },
+  'bank-transfer': { feeYen: 0 },
+};
+
+export type PaymentSelection = {
+  method: PaymentMethod;
+  /** Points to use on the order; none when unset. */
+  points?: number;
+};
+
+export const CASH_ON_DELIVERY_LIMIT_YEN = 300_000;
+
+export function validatePayment(
+  selection: PaymentSelection,
+  {
+    subtotalYen,
+    totalYen,
+    pointBalance,
+    locale = getLocale(),
+  }: {
+    subtotalYen: number;
+    totalYen: number;
+    /** Checked when known; the server checks it again when the order is placed. */
+    pointBalance?: number;
+    locale?: Locale;
+  }
+) {
+  const errors: FieldErrors<PaymentSelection> = {};
+  const points = selection.points ?? 0;
+
+  if (!Object.hasOwn(PAYMENT_METHODS, selection.method)) {
+    errors.method = translate(locale, 'payment.error.method');
+  } else if (selection.method === 'cash-on-delivery' && totalYen > CASH_ON_DELIVERY_LIMIT_YEN) {
+    errors.method = translate(locale, 'payment.error.cashOnDeliveryLimit', {
+      limit: formatYen(CASH_ON_DELIVERY_LIMIT_YEN, locale),
+    });
+  }
+  if (!Number.isInteger(points) || points < 0) {
+    errors.points = translate(locale, 'payment.error.points');
+  } else if (points > subtotalYen) {
+    errors.points = translate(locale, 'payment.error.pointsOverSubtotal');
+  } else if (pointBalance !== undefined && points > pointBalance) {
+    errors.points = translate(locale, 'payment.error.pointsOverBalance', { balance: pointBalance });
+  }
+  return errors;
+}
@@ -0,0 +1,52 @@
+import type { DeliverySelection } from '@/lib/checkout/delivery';
+import { PAYMENT_METHODS, type PaymentSelection } from '@/lib/checkout/payment';
+
+export const SHIPPING_FEE_YEN = 1100;
+export const COOL_SURCHARGE_YEN = 330;
+export const FREE_SHIPPING_THRESHOLD_YEN = 15_000;
+/** Consumption tax. Every price in the shop already includes it. */
+export const TAX_RATE = 0.1;
+
+export type OrderTotals = {
+  subtotalYen: number;
+  /** Points used as a discount on the goods, one yen each. */
+  pointsYen: number;
+  shippingYen: number;
+  paymentFeeYen: number;
+  totalYen: number;
+  /** The consumption tax contained in `totalYen`. */
+  taxYen: number;
+};
+
+export function calculateShipping(subtotalYen: number, delivery: DeliverySelection | undefined) {
+  const base = subtotalYen >= FREE_SHIPPING_THRESHOLD_YEN ? 0 : SHIPPING_FEE_YEN;
+  return base + (delivery?.method === 'cool' ? COOL_SURCHARGE_YEN : 0);
+}
+
+export function includedTax(totalYen: number) {
+  return Math.floor((totalYen * TAX_RATE) / (1 + TAX_RATE));
+}
+
+/**
+ * Points are a discount on the goods rather than a way of paying, so the free-shipping threshold
+ * and the consumption tax are both worked out on what is left after them.
+ */
+export function calculateTotals(
+  subtotalYen: number,
+  delivery: DeliverySelection | undefined,
+  payment: Partial<PaymentSelection> | undefined
+): OrderTotals {
+  const pointsYen = Math.min(payment?.points ?? 0, subtotalYen);
+  const shippingYen = calculateShipping(subtotalYen - pointsYen, delivery);
+  const paymentFeeYen = payment?.method ? PAYMENT_METHODS[payment.method].feeYen : 0;
+  const totalYen = subtotalYen - pointsYen + shippingYen + paymentFeeYen;
+
+  return {
+    subtotalYen,
+    pointsYen,
+    shippingYen,
+    paymentFeeYen,
+    totalYen,
+    taxYen: includedTax(totalYen),
+  };
+}
@@ -0,0 +1,3 @@
+export * from '@/lib/compose/outbox';
+export * from '@/lib/compose/store';
+export * from '@/lib/compose/types';
@@ -0,0 +1,97 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+
+import type { ComposeImage } from '@/lib/compose/types';
+import { createId } from '@/lib/id';
+
+/** Longest edge after resizing; plenty for a phone screen and keeps uploads to a few hundred KB. */
+const MAX_EDGE = 1600;
+const JPEG_QUALITY = 0.7;
+
+function outboxDirectory() {
+  const directory = new Directory(Paths.document, 'outbox');
+  if (!directory.exists) {
+    directory.create({ intermediates: true });
+  }
+  return directory;
+}
+
+async function compress(asset: ImagePicker.ImagePickerAsset): Promise<ComposeImage> {
+  const context = ImageManipulator.manipulate(asset.uri);
+  if (Math.max(asset.width, asset.height) > MAX_EDGE) {
+    context.resize(asset.width >= asset.height ? { width: MAX_EDGE } : { height: MAX_EDGE });
+  }
+  const rendered = await context.renderAsync();
+  const web = process.env.EXPO_OS === 'web';
+  const saved = await rendered.saveAsync({
+    compress: JPEG_QUALITY,
+    format: SaveFormat.JPEG,
+    base64: web,
+  });
+  const image = { mimeType: 'image/jpeg', width: saved.width, height: saved.height };
+
+  // On web the result is an object URL that dies with the page, so keep the data itself.
+  if (web && saved.base64) {
+    const padding = saved.base64.endsWith('==') ? 2 : saved.base64.endsWith('=') ? 1 : 0;
+    return {
+      ...image,
+      uri: `data:image/jpeg;base64,${saved.base64}`,
+      byteLength: (saved.base64.length * 3) / 4 - padding,
+    };
+  }
+  // The manipulator writes to the cache directory, which the OS may purge before a queued
+  // upload gets its turn.
+  const destination = new File(outboxDirectory(), `${createId('upload')}.jpg`);
+  new File(saved.uri).move(destination);
+  return { ...image, uri: destination.uri, byteLength: destination.size };
+}
+
+/** Lets the keeper pick up to `limit` photos, or take one, and compresses them for upload. */
+export async function pickComposeImages(
+  source: 'camera' | 'library',
+  limit: number
+): Promise<ComposeImage[]> {
+  if (limit <= 0) {
+    return [];
+  }
+  const options: ImagePicker.ImagePickerOptions = {
+    mediaTypes: ['images'],
+    allowsMultipleSelection: source === 'library' && limit > 1,
+    selectionLimit: limit,
+  };
+  if (source === 'camera') {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      return [];
+    }
+  }
+  const result =
+    source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+  if (result.canceled) {
+    return [];
+  }
+  return Promise.all(result.assets.slice(0, limit).map(compress));
+}
+
+export async function readComposeImage(uri: string) {
+  if (process.env.EXPO_OS === 'web') {
+    return new Uint8Array(await (await fetch(uri)).arrayBuffer());
+  }
+  return new File(uri).bytes();
+}
+
+/** Removes the compressed copies once they are no longer needed. */
+export function deleteComposeImages(images: Pick<ComposeImage, 'uri'>[]) {
+  if (process.env.EXPO_OS === 'web') {
+    return;
+  }
+  for (const image of images) {
+    const file = new File(image.uri);
+    if (file.exists) {
+      file.delete();
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import type { OutboxImage, OutboxItem, PostDraft } from '@/lib/compose/types';
+import { isRetryableFeedError, type FeedClient, type Post } from '@/lib/feed';
+import type { FieldErrors } from '@/lib/forms';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+
+export const MAX_POST_LENGTH = 500;
+export const MAX_POST_IMAGES = 4;
+/** Small enough that a dropped connection loses little, large enough to keep requests few. */
+export const UPLOAD_CHUNK_BYTES = 256 * 1024;
+
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+export function validatePostDraft(draft: PostDraft, locale: Locale = getLocale()) {
+  const errors: FieldErrors<PostDraft> = {};
+  const body = draft.body.trim();
+  if (!body && draft.images.length === 0) {
+    errors.body = translate(locale, 'compose.error.empty');
+  } else if (body.length > MAX_POST_LENGTH) {
+    errors.body = translate(locale, 'compose.error.tooLong', { max: MAX_POST_LENGTH });
+  }
+  if (draft.images.length > MAX_POST_IMAGES) {
+    errors.images = translate(locale, 'compose.error.tooManyImages', { max: MAX_POST_IMAGES });
+  }
+  return errors;
+}
+
+/** Doubles from 5 seconds up to 5 minutes. */
+export function retryDelayMs(attempts: number) {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+export function isOutboxItemDue(item: OutboxItem, now: Date) {
+  return (
+    item.status === 'pending' ||
+    (item.status === 'waiting' && (!item.retryAt || new Date(item.retryAt) <= now))
+  );
+}
+
+/** 0–1, by bytes uploaded. A text-only post stays at 0 until it is sent. */
+export function outboxProgress(item: OutboxItem) {
+  const total = item.images.reduce((sum, image) => sum + image.byteLength, 0);
+  if (total === 0) {
+    return 0;
+  }
+  const uploaded = item.images.reduce(
+    (sum, image) => sum + (image.mediaUrl ? image.byteLength : image.uploaded),
+    0
+  );
+  return Math.min(uploaded / total, 1);
+}
+
+export function describeOutboxStatus(item: OutboxItem, locale: Locale = getLocale()) {
+  switch (item.status) {
+    case 'pending':
+      return translate(locale, 'compose.status.pending');
+    case 'sending':
+      return translate(
+        locale,
+        item.images.length > 0 ? 'compose.status.uploading' : 'compose.status.sending'
+      );
+    case 'waiting':
+      return translate(locale, 'compose.status.waiting');
+    case 'failed':
+      return translate(
+        locale,
+        item.error === 'unreadable-image'
+          ? 'compose.error.unreadableImage'
+          : 'compose.status.failed'
+      );
+  }
+}
+
+class UnreadableImageError extends Error {}
+
+export type OutboxDeps = {
+  client: FeedClient;
+  readBytes: (uri: string) => Promise<Uint8Array>;
+  /** Called with the item whenever more of it has reached the server. */
+  onProgress?: (item: OutboxItem) => void;
+  chunkBytes?: number;
+  now?: () => Date;
+};
+
+async function uploadImage(
+  image: OutboxImage,
+  { client, readBytes, chunkBytes = UPLOAD_CHUNK_BYTES }: OutboxDeps,
+  report: (image: OutboxImage) => void
+): Promise<OutboxImage> {
+  if (image.mediaUrl) {
+    return image;
+  }
+  let status =
+    (image.uploadId ? await client.getUpload(image.uploadId) : null) ??
+    (await client.createUpload({ byteLength: image.byteLength, mimeType: image.mimeType }));
+  report({ ...image, uploadId: status.uploadId, uploaded: status.received });
+
+  if (status.received < status.byteLength) {
+    const bytes = await readBytes(image.uri).catch(() => {
+      throw new UnreadableImageError();
+    });
+    while (status.received < status.byteLength) {
+      const chunk = bytes.subarray(status.received, status.received + chunkBytes);
+      if (chunk.length === 0) {
+        throw new UnreadableImageError();
+      }
+      status = await client.uploadChunk(status.uploadId, status.received, chunk);
+      report({ ...image, uploadId: status.uploadId, uploaded: status.received });
+    }
+  }
+
+  if (!status.mediaUrl) {
+    status = await client.completeUpload(status.uploadId);
+  }
+  return {
+    ...image,
+    uploadId: status.uploadId,
+    uploaded: status.received,
+    mediaUrl: status.mediaUrl ?? undefined,
+  };
+}
+
+/**
+ * Makes one attempt at sending `item`: uploads whatever part of each photo the server does not
+ * have yet, then creates the post. Resolves with the created post, or with the item as it should
+ * be stored for the next attempt.
+ */
+export async function sendOutboxItem(
+  item: OutboxItem,
+  deps: OutboxDeps
+): Promise<{ post: Post } | { item: OutboxItem }> {
+  const now = deps.now ?? (() => new Date());
+  let current: OutboxItem = { ...item, status: 'sending', error: undefined };
+  deps.onProgress?.(current);
+
+  try {
+    const replaceImage = (index: number, image: OutboxImage) => {
+      current = {
+        ...current,
+        images: current.images.map((existing, at) => (at === index ? image : existing)),
+      };
+    };
+    for (let index = 0; index < current.images.length; index++) {
+      const uploaded = await uploadImage(current.images[index], deps, (image) => {
+        replaceImage(index, image);
+        deps.onProgress?.(current);
+      });
+      replaceImage(index, uploaded);
+    }
+    const post = await deps.client.createPost(
+      {
+        body: current.body.trim(),
+        images: current.images.map((image) => ({ uri: image.mediaUrl ?? image.uri })),
+        individual: current.individual,
+      },
+      current.id
+    );
+    return { post };
+  } catch (error) {
+    const attempts = current.attempts + 1;
+    if (error instanceof UnreadableImageError) {
+      return {
+        item: { ...current, attempts, status: 'failed', error: 'unreadable-image' },
+      };
+    }
+    if (!isRetryableFeedError(error)) {
+      return { item: { ...current, attempts, status: 'failed', error: 'rejected' } };
+    }
+    return {
+      item: {
+        ...current,
+        attempts,
+        status: 'waiting',
+        retryAt: new Date(now().getTime() + retryDelayMs(attempts)).toISOString(),
+      },
+    };
+  }
+}
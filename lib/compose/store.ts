@@ -0,0 +1,92 @@
+import { isOutboxItemDue, sendOutboxItem, type OutboxDeps } from '@/lib/compose/outbox';
+import type { OutboxItem, PostDraft } from '@/lib/compose/types';
+import type { Post } from '@/lib/feed';
+import { createId } from '@/lib/id';
+import { createPersistedStore } from '@/lib/store';
+
+export type OutboxState = {
+  items: OutboxItem[];
+  /** ISO 8601; lets the timeline refresh once a queued post goes out. */
+  lastPostedAt: string | null;
+};
+
+export const outboxStore = createPersistedStore<OutboxState>('compose.outbox', {
+  items: [],
+  lastPostedAt: null,
+});
+
+function updateItems(update: (items: OutboxItem[]) => OutboxItem[]) {
+  outboxStore.setState((state) => ({ ...state, items: update(state.items) }));
+}
+
+function replaceItem(item: OutboxItem) {
+  updateItems((items) => items.map((existing) => (existing.id === item.id ? item : existing)));
+}
+
+/** Queues a validated draft for sending and returns its outbox id. */
+export function enqueuePost(draft: PostDraft) {
+  const item: OutboxItem = {
+    id: createId('outbox'),
+    body: draft.body,
+    images: draft.images.map((image) => ({ ...image, uploaded: 0 })),
+    individual: draft.individual,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+  };
+  updateItems((items) => [...items, item]);
+  return item.id;
+}
+
+export function retryOutboxItem(id: string) {
+  updateItems((items) =>
+    items.map((item) =>
+      item.id === id ? { ...item, status: 'pending', retryAt: undefined, error: undefined } : item
+    )
+  );
+}
+
+export function removeOutboxItem(id: string) {
+  updateItems((items) => items.filter((item) => item.id !== id));
+}
+
+let running: Promise<void> | null = null;
+
+/**
+ * Sends every due item, one at a time, keeping the store up to date as bytes go out. Posted
+ * items are removed and handed to `onPosted`. Calls made while a run is in progress join it.
+ */
+export function processOutbox(
+  deps: Omit<OutboxDeps, 'onProgress'> & { onPosted?: (item: OutboxItem, post: Post) => void }
+) {
+  running ??= (async () => {
+    await outboxStore.hydrate();
+    // Anything left `sending` was interrupted by the app closing.
+    updateItems((items) =>
+      items.map((item) => (item.status === 'sending' ? { ...item, status: 'pending' } : item))
+    );
+    const now = deps.now ?? (() => new Date());
+    let item: OutboxItem | undefined;
+    while ((item = outboxStore.getState().items.find((next) => isOutboxItemDue(next, now())))) {
+      const result = await sendOutboxItem(item, { ...deps, onProgress: replaceItem });
+      if ('post' in result) {
+        removeOutboxItem(item.id);
+        outboxStore.setState((state) => ({ ...state, lastPostedAt: now().toISOString() }));
+        deps.onPosted?.(item, result.post);
+      } else {
+        replaceItem(result.item);
+      }
+    }
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+}
+
+/** The soonest time a `waiting` item becomes due, if any. */
+export function nextOutboxRetryAt(state: OutboxState) {
+  return state.items
+    .filter((item) => item.status === 'waiting' && item.retryAt)
+    .map((item) => item.retryAt as string)
+    .sort()[0];
+}
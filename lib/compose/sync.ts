@@ -0,0 +1,15 @@
+import { deleteComposeImages, readComposeImage } from '@/lib/compose/media';
+import { processOutbox } from '@/lib/compose/store';
+import { getFeedClient, getFeedSession } from '@/lib/feed';
+
+/** Sends queued posts with the app's feed client. Does nothing while signed out. */
+export async function flushOutbox() {
+  if (!getFeedSession()) {
+    return;
+  }
+  await processOutbox({
+    client: getFeedClient(),
+    readBytes: readComposeImage,
+    onPosted: (item) => deleteComposeImages(item.images),
+  });
+}
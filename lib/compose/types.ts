@@ -0,0 +1,50 @@
+import type { LinkedIndividual } from '@/lib/feed';
+
+/** A photo that has been resized and compressed on device, ready to upload. */
+export type ComposeImage = {
+  uri: string;
+  mimeType: string;
+  byteLength: number;
+  width: number;
+  height: number;
+};
+
+export type OutboxImage = ComposeImage & {
+  /** Set once the server has accepted the upload, so a retry resumes instead of restarting. */
+  uploadId?: string;
+  /** Bytes the server has confirmed. */
+  uploaded: number;
+  mediaUrl?: string;
+};
+
+/**
+ * - `pending`: not tried yet, or retried by hand.
+ * - `sending`: an attempt is running.
+ * - `waiting`: the last attempt hit a network or server error; retried automatically.
+ * - `failed`: rejected by the server; needs the keeper to retry or discard it.
+ */
+export type OutboxStatus = 'pending' | 'sending' | 'waiting' | 'failed';
+
+/** Why a `failed` item was given up on. */
+export type OutboxFailure = 'unreadable-image' | 'rejected';
+
+/** A post that has been written but not yet accepted by the server. */
+export type OutboxItem = {
+  id: string;
+  body: string;
+  images: OutboxImage[];
+  individual?: LinkedIndividual;
+  /** ISO 8601. */
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  /** ISO 8601; a `waiting` item is not retried before this. */
+  retryAt?: string;
+  error?: OutboxFailure;
+};
+
+export type PostDraft = {
+  body: string;
+  images: ComposeImage[];
+  individual?: LinkedIndividual;
+};
@@ -0,0 +1,31 @@
+import homeJson from '@/lib/content/fixtures/home.json';
+import summerBeetleSeasonJson from '@/lib/content/fixtures/summer-beetle-season.json';
+import type { ContentSource } from '@/lib/content/types';
+import { liveDocument, parseContentDocument } from '@/lib/content/validate';
+
+const fixtureDocuments: Record<string, unknown> = {
+  home: homeJson,
+  'summer-beetle-season': summerBeetleSeasonJson,
+};
+
+/**
+ * Serves the content documents bundled with the app. They go through the same validation as
+ * published ones, so a fixture that strays from the schema shows up in development.
+ */
+export function createFixtureContentSource(
+  documents: Record<string, unknown> = fixtureDocuments
+): ContentSource {
+  return {
+    async getDocument(slug) {
+      const json = documents[slug];
+      if (json === undefined) {
+        return null;
+      }
+      const { document, issues } = parseContentDocument(json);
+      if (issues.length > 0) {
+        console.warn(`Content document ${slug} has problems`, issues);
+      }
+      return document && liveDocument(document);
+    },
+  };
+}
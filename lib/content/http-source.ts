@@ -0,0 +1,28 @@
+import type { ContentSource } from '@/lib/content/types';
+import { liveDocument, parseContentDocument } from '@/lib/content/validate';
+
+/**
+ * Serves content documents published at `${baseUrl}/documents/<slug>.json`, so campaigns go live
+ * without an app update. A document that fails validation is treated as missing.
+ */
+export function createHttpContentSource(baseUrl: string): ContentSource {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    async getDocument(slug) {
+      const url = `${root}/documents/${encodeURIComponent(slug)}.json`;
+      const response = await fetch(url, { headers: { Accept: 'application/json' } });
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Content request failed: ${response.status} ${url}`);
+      }
+      const { document, issues } = parseContentDocument(await response.json());
+      if (issues.length > 0) {
+        console.warn(`Content document ${slug} has problems`, issues);
+      }
+      return document && liveDocument(document);
+    },
+  };
+}
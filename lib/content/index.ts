@@ -0,0 +1,28 @@
+import { createFixtureContentSource } from '@/lib/content/fixture-source';
+import { createHttpContentSource } from '@/lib/content/http-source';
+import type { ContentSource } from '@/lib/content/types';
+
+export * from '@/lib/content/types';
+export * from '@/lib/content/markdown';
+export { createFixtureContentSource } from '@/lib/content/fixture-source';
+export { createHttpContentSource } from '@/lib/content/http-source';
+export * from '@/lib/content/validate';
+
+/** The document the home tab is built from. */
+export const HOME_DOCUMENT_SLUG = 'home';
+
+let source: ContentSource = process.env.EXPO_PUBLIC_CONTENT_URL
+  ? createHttpContentSource(process.env.EXPO_PUBLIC_CONTENT_URL)
+  : createFixtureContentSource();
+
+/**
+ * The source of the home and feature pages. Falls back to the bundled fixtures unless
+ * `EXPO_PUBLIC_CONTENT_URL` is set.
+ */
+export function getContentSource() {
+  return source;
+}
+
+export function setContentSource(next: ContentSource) {
+  source = next;
+}
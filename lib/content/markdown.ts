@@ -0,0 +1,90 @@
+import type { RichTextNode, RichTextSpan } from '@/lib/content/types';
+
+const HEADING = /^#{1,6}\s+(.*)$/;
+const UNORDERED_ITEM = /^[-*]\s+(.*)$/;
+const ORDERED_ITEM = /^\d+[.)]\s+(.*)$/;
+const INLINE = /\*\*(.+?)\*\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/** `**bold**` and `[label](href)`; everything else is plain text. */
+export function parseInline(text: string): RichTextSpan[] {
+  const spans: RichTextSpan[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    if (match.index > last) {
+      spans.push({ text: text.slice(last, match.index) });
+    }
+    spans.push(
+      match[1] !== undefined ? { text: match[1], bold: true } : { text: match[2], href: match[3] }
+    );
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) {
+    spans.push({ text: text.slice(last) });
+  }
+  return spans;
+}
+
+/** Japanese wraps without spaces, so a soft line break only becomes a space between ASCII words. */
+function joinLines(lines: string[]) {
+  return lines.reduce((joined, line) =>
+    /[\x21-\x7e]$/.test(joined) && /^[\x21-\x7e]/.test(line) ? `${joined} ${line}` : joined + line
+  );
+}
+
+/**
+ * The small part of Markdown the static pages use: `#` headings, paragraphs, `-` and `1.` lists,
+ * `**bold**` and `[links](https://…)`. Anything else is kept as paragraph text.
+ */
+export function parseMarkdown(source: string): RichTextNode[] {
+  const nodes: RichTextNode[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      nodes.push({ type: 'paragraph', spans: parseInline(joinLines(paragraph)) });
+      paragraph = [];
+    }
+  };
+
+  for (const raw of source.split(/\r?\n/)) {
+    const line = raw.trim();
+    const heading = HEADING.exec(line);
+    const item = UNORDERED_ITEM.exec(line) ?? ORDERED_ITEM.exec(line);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      nodes.push({ type: 'heading', text: heading[1] });
+    } else if (item) {
+      flush();
+      const ordered = ORDERED_ITEM.test(line);
+      const previous = nodes[nodes.length - 1];
+      if (previous?.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(parseInline(item[1]));
+      } else {
+        nodes.push({ type: 'list', ordered, items: [parseInline(item[1])] });
+      }
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return nodes;
+}
+
+/** The text of rich-text nodes without formatting, e.g. for search. */
+export function plainText(nodes: RichTextNode[]) {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'heading':
+          return node.text;
+        case 'paragraph':
+          return node.spans.map((span) => span.text).join('');
+        case 'list':
+          return node.items.map((item) => item.map((span) => span.text).join('')).join('\n');
+      }
+    })
+    .join('\n');
+}
@@ -0,0 +1,87 @@
+/** One run of text in a rich-text paragraph or list item. */
+export type RichTextSpan = {
+  text: string;
+  bold?: boolean;
+  /** An app path such as `/products/abc`, or an `https://` URL. */
+  href?: string;
+};
+
+export type RichTextNode =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; spans: RichTextSpan[] }
+  | { type: 'list'; ordered: boolean; items: RichTextSpan[][] };
+
+export type ContentLink = {
+  /** An app path such as `/search?q=カブト`, or an `https://` URL. */
+  href: string;
+  label: string;
+};
+
+/** ISO 8601 bounds outside which a block or document is hidden, for seasonal campaigns. */
+export type ContentSchedule = {
+  from?: string;
+  until?: string;
+};
+
+type BlockBase = {
+  schedule?: ContentSchedule;
+};
+
+export type HeroBlock = BlockBase & {
+  type: 'hero';
+  title: string;
+  subtitle?: string;
+  image: { uri: string; alt?: string };
+  link?: ContentLink;
+};
+
+/** Picked products, or a category's; the whole catalog when neither is given. */
+export type ProductCarouselBlock = BlockBase & {
+  type: 'product-carousel';
+  title: string;
+  productIds?: string[];
+  categorySlug?: string;
+  limit?: number;
+  link?: ContentLink;
+};
+
+/** The given categories in that order, or every category. */
+export type CategoryGridBlock = BlockBase & {
+  type: 'category-grid';
+  title: string;
+  categorySlugs?: string[];
+};
+
+/** The newest posts under a hashtag, or on the timeline. */
+export type TimelineHighlightsBlock = BlockBase & {
+  type: 'timeline-highlights';
+  title: string;
+  /** Without the `#`. */
+  hashtag?: string;
+  limit?: number;
+};
+
+export type RichTextBlock = BlockBase & {
+  type: 'rich-text';
+  title?: string;
+  content: RichTextNode[];
+};
+
+export type ContentBlock =
+  HeroBlock | ProductCarouselBlock | CategoryGridBlock | TimelineHighlightsBlock | RichTextBlock;
+
+export type ContentBlockType = ContentBlock['type'];
+
+/** A page made of blocks: the home screen (`home`) or a feature page (`/features/[slug]`). */
+export type ContentDocument = {
+  slug: string;
+  title: string;
+  description?: string;
+  schedule?: ContentSchedule;
+  blocks: ContentBlock[];
+};
+
+export interface ContentSource {
+  /** `null` if there is no such document, or it is outside its schedule. */
+  getDocument(slug: string): Promise<ContentDocument | null>;
+}
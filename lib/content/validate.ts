@@ -0,0 +1,285 @@
+import type {
+  ContentBlock,
+  ContentDocument,
+  ContentLink,
+  ContentSchedule,
+  RichTextNode,
+  RichTextSpan,
+} from '@/lib/content/types';
+
+/** Where a document strays from the schema, e.g. `blocks[2].title`. */
+export type ContentIssue = {
+  path: string;
+  message: string;
+};
+
+export type ContentParseResult = {
+  /** `null` if the document itself is unusable; broken blocks are dropped instead. */
+  document: ContentDocument | null;
+  issues: ContentIssue[];
+};
+
+const MAX_LIMIT = 30;
+
+/** Thrown inside a block's parser to reject that block, and caught by `parseContentDocument`. */
+class InvalidContent extends Error {
+  constructor(
+    readonly path: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function object(value: unknown, path: string) {
+  if (!isObject(value)) {
+    throw new InvalidContent(path, 'オブジェクトではありません');
+  }
+  return value;
+}
+
+function text(value: unknown, path: string) {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new InvalidContent(path, '空でない文字列ではありません');
+  }
+  return value;
+}
+
+function optionalText(value: unknown, path: string) {
+  return value === undefined ? undefined : text(value, path);
+}
+
+function texts(value: unknown, path: string) {
+  if (!Array.isArray(value)) {
+    throw new InvalidContent(path, '配列ではありません');
+  }
+  return value.map((item, index) => text(item, `${path}[${index}]`));
+}
+
+function optionalTexts(value: unknown, path: string) {
+  return value === undefined ? undefined : texts(value, path);
+}
+
+function optionalLimit(value: unknown, path: string) {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_LIMIT) {
+    throw new InvalidContent(path, `1から${MAX_LIMIT}までの整数ではありません`);
+  }
+  return value;
+}
+
+/** App paths are routed as-is; anything else must be an `https://` URL. */
+function href(value: unknown, path: string) {
+  const target = text(value, path);
+  if (!target.startsWith('/') && !/^https:\/\/\S+$/.test(target)) {
+    throw new InvalidContent(path, '`/` で始まるパスか https の URL ではありません');
+  }
+  return target;
+}
+
+function optionalLink(value: unknown, path: string): ContentLink | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const link = object(value, path);
+  return { href: href(link.href, `${path}.href`), label: text(link.label, `${path}.label`) };
+}
+
+function timestamp(value: unknown, path: string) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const iso = text(value, path);
+  if (Number.isNaN(Date.parse(iso))) {
+    throw new InvalidContent(path, '日時として読めません');
+  }
+  return iso;
+}
+
+function optionalSchedule(value: unknown, path: string): ContentSchedule | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const schedule = object(value, path);
+  const from = timestamp(schedule.from, `${path}.from`);
+  const until = timestamp(schedule.until, `${path}.until`);
+  if (from && until && Date.parse(from) >= Date.parse(until)) {
+    throw new InvalidContent(path, '`from` が `until` より後です');
+  }
+  return { from, until };
+}
+
+/** A span may be given as a bare string. */
+function span(value: unknown, path: string): RichTextSpan {
+  if (typeof value === 'string') {
+    return { text: value };
+  }
+  const raw = object(value, path);
+  return {
+    text: text(raw.text, `${path}.text`),
+    bold: raw.bold === true || undefined,
+    href: raw.href === undefined ? undefined : href(raw.href, `${path}.href`),
+  };
+}
+
+function spans(value: unknown, path: string) {
+  if (typeof value === 'string') {
+    return [span(value, path)];
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new InvalidContent(path, '文字列か空でない配列ではありません');
+  }
+  return value.map((item, index) => span(item, `${path}[${index}]`));
+}
+
+/** A paragraph may be given as a bare string or a bare list of spans. */
+function richTextNode(value: unknown, path: string): RichTextNode {
+  if (typeof value === 'string' || Array.isArray(value)) {
+    return { type: 'paragraph', spans: spans(value, path) };
+  }
+  const node = object(value, path);
+  switch (node.type) {
+    case 'heading':
+      return { type: 'heading', text: text(node.text, `${path}.text`) };
+    case 'paragraph':
+      return { type: 'paragraph', spans: spans(node.spans, `${path}.spans`) };
+    case 'list': {
+      if (!Array.isArray(node.items) || node.items.length === 0) {
+        throw new InvalidContent(`${path}.items`, '空でない配列ではありません');
+      }
+      return {
+        type: 'list',
+        ordered: node.ordered === true,
+        items: node.items.map((item, index) => spans(item, `${path}.items[${index}]`)),
+      };
+    }
+    default:
+      throw new InvalidContent(`${path}.type`, `未知の種類です: ${String(node.type)}`);
+  }
+}
+
+function richText(value: unknown, path: string) {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new InvalidContent(path, '空でない配列ではありません');
+  }
+  return value.map((node, index) => richTextNode(node, `${path}[${index}]`));
+}
+
+function block(value: unknown, path: string): ContentBlock {
+  const raw = object(value, path);
+  const schedule = optionalSchedule(raw.schedule, `${path}.schedule`);
+
+  switch (raw.type) {
+    case 'hero': {
+      const image = object(raw.image, `${path}.image`);
+      return {
+        type: 'hero',
+        schedule,
+        title: text(raw.title, `${path}.title`),
+        subtitle: optionalText(raw.subtitle, `${path}.subtitle`),
+        image: {
+          uri: href(image.uri, `${path}.image.uri`),
+          alt: optionalText(image.alt, `${path}.image.alt`),
+        },
+        link: optionalLink(raw.link, `${path}.link`),
+      };
+    }
+    case 'product-carousel':
+      return {
+        type: 'product-carousel',
+        schedule,
+        title: text(raw.title, `${path}.title`),
+        productIds: optionalTexts(raw.productIds, `${path}.productIds`),
+        categorySlug: optionalText(raw.categorySlug, `${path}.categorySlug`),
+        limit: optionalLimit(raw.limit, `${path}.limit`),
+        link: optionalLink(raw.link, `${path}.link`),
+      };
+    case 'category-grid':
+      return {
+        type: 'category-grid',
+        schedule,
+        title: text(raw.title, `${path}.title`),
+        categorySlugs: optionalTexts(raw.categorySlugs, `${path}.categorySlugs`),
+      };
+    case 'timeline-highlights': {
+      const hashtag = optionalText(raw.hashtag, `${path}.hashtag`);
+      return {
+        type: 'timeline-highlights',
+        schedule,
+        title: text(raw.title, `${path}.title`),
+        hashtag: hashtag?.replace(/^[#＃]/, ''),
+        limit: optionalLimit(raw.limit, `${path}.limit`),
+      };
+    }
+    case 'rich-text':
+      return {
+        type: 'rich-text',
+        schedule,
+        title: optionalText(raw.title, `${path}.title`),
+        content: richText(raw.content, `${path}.content`),
+      };
+    default:
+      throw new InvalidContent(`${path}.type`, `未知のブロックです: ${String(raw.type)}`);
+  }
+}
+
+/**
+ * Checks a content document fetched as JSON against the block schema. A block that does not fit
+ * is dropped and reported, so one mistake in a campaign does not take the whole page down; a
+ * document without a slug, title or block list is rejected.
+ */
+export function parseContentDocument(value: unknown): ContentParseResult {
+  const issues: ContentIssue[] = [];
+
+  try {
+    const raw = object(value, '$');
+    const slug = text(raw.slug, 'slug');
+    const title = text(raw.title, 'title');
+    const description = optionalText(raw.description, 'description');
+    const schedule = optionalSchedule(raw.schedule, 'schedule');
+    if (!Array.isArray(raw.blocks)) {
+      throw new InvalidContent('blocks', '配列ではありません');
+    }
+
+    const blocks: ContentBlock[] = [];
+    raw.blocks.forEach((item, index) => {
+      try {
+        blocks.push(block(item, `blocks[${index}]`));
+      } catch (error) {
+        if (!(error instanceof InvalidContent)) throw error;
+        issues.push({ path: error.path, message: error.message });
+      }
+    });
+
+    return { document: { slug, title, description, schedule, blocks }, issues };
+  } catch (error) {
+    if (!(error instanceof InvalidContent)) throw error;
+    issues.push({ path: error.path, message: error.message });
+    return { document: null, issues };
+  }
+}
+
+/** Whether `now` falls inside `schedule`; `from` is inclusive and `until` exclusive. */
+export function isScheduled(schedule: ContentSchedule | undefined, now = new Date()) {
+  const time = now.getTime();
+  return (
+    (!schedule?.from || Date.parse(schedule.from) <= time) &&
+    (!schedule?.until || time < Date.parse(schedule.until))
+  );
+}
+
+/** The document with only the blocks that are live at `now`, or `null` if it is not live itself. */
+export function liveDocument(document: ContentDocument, now = new Date()) {
+  if (!isScheduled(document.schedule, now)) {
+    return null;
+  }
+  return { ...document, blocks: document.blocks.filter((item) => isScheduled(item.schedule, now)) };
+}
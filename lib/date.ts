@@ -0,0 +1,52 @@
+/** `YYYY-MM-DD` in local time. */
+export function toDateKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Local midnight of a `YYYY-MM-DD` key, or `null` if it is not a real calendar date. */
+export function parseDateKey(key: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+    ? date
+    : null;
+}
+
+export function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/** Whole calendar days from `from` to `to`; negative if `to` is earlier. */
+export function daysBetween(from: Date, to: Date) {
+  const start = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end - start) / 86_400_000);
+}
+
+/** `YYYY-MM-DD HH:mm` in local time, the resolution data loggers record at. */
+export function toDateTimeKey(date: Date) {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${toDateKey(date)} ${hours}:${minutes}`;
+}
+
+/** Local time of a `YYYY-MM-DD HH:mm` key, or `null` if it is not a real date and time. */
+export function parseDateTimeKey(key: string) {
+  const match = /^(\d{4}-\d{2}-\d{2}) (\d{2}):(\d{2})$/.exec(key);
+  const date = match && parseDateKey(match[1]);
+  if (!match || !date) {
+    return null;
+  }
+  const [hours, minutes] = [Number(match[2]), Number(match[3])];
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  date.setHours(hours, minutes);
+  return date;
+}
@@ -0,0 +1,82 @@
+import type { Product } from '@/lib/catalog';
+import { createPersistedStore } from '@/lib/store';
+
+/** A product a member saved, to come back to or to hear about when it is back in stock. */
+export type Favorite = {
+  ownerId: string;
+  productId: string;
+  /** ISO 8601. */
+  addedAt: string;
+  /** Stock when the product was last seen, so a restock can be spotted. */
+  stock: number;
+};
+
+export type FavoritesState = {
+  items: Favorite[];
+};
+
+/** Kept per member like the address book, so a shared device keeps each member's list apart. */
+export const favoritesStore = createPersistedStore<FavoritesState>('favorites', { items: [] });
+
+/** Most recently added first. */
+export function favoritesOf(state: FavoritesState, ownerId: string) {
+  return state.items
+    .filter((item) => item.ownerId === ownerId)
+    .sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+}
+
+export function isFavorite(state: FavoritesState, ownerId: string, productId: string) {
+  return state.items.some((item) => item.ownerId === ownerId && item.productId === productId);
+}
+
+export function setFavorite(ownerId: string, product: Pick<Product, 'id' | 'stock'>, on: boolean) {
+  favoritesStore.setState((state) => {
+    const items = state.items.filter(
+      (item) => item.ownerId !== ownerId || item.productId !== product.id
+    );
+    if (on) {
+      items.push({
+        ownerId,
+        productId: product.id,
+        addedAt: new Date().toISOString(),
+        stock: product.stock,
+      });
+    }
+    return { items };
+  });
+}
+
+/**
+ * Records the current stock of `ownerId`'s favourited products and returns the ones that were
+ * sold out when last seen and are available again. Other members' favourites are left alone, so
+ * each of them still hears about the restock on their own next check.
+ */
+export function recordFavoriteStock<T extends Pick<Product, 'id' | 'stock'>>(
+  products: T[],
+  ownerId: string
+) {
+  const byId = new Map(products.map((product) => [product.id, product]));
+  const items = favoritesOf(favoritesStore.getState(), ownerId);
+  const restocked = products.filter(
+    (product) =>
+      product.stock > 0 && items.some((item) => item.productId === product.id && item.stock === 0)
+  );
+  const current = (item: Favorite) =>
+    item.ownerId === ownerId ? byId.get(item.productId) : undefined;
+  favoritesStore.setState((state) => {
+    const changed = state.items.some((item) => {
+      const product = current(item);
+      return product !== undefined && product.stock !== item.stock;
+    });
+    if (!changed) {
+      return state;
+    }
+    return {
+      items: state.items.map((item) => {
+        const product = current(item);
+        return product ? { ...item, stock: product.stock } : item;
+      }),
+    };
+  });
+  return restocked;
+}
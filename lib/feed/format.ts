@@ -0,0 +1,21 @@
+import { toDateKey } from '@/lib/date';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+
+/** `たった今`, `5分前`, `3時間前`, `2日前`, then the date. */
+export function formatRelativeTime(iso: string, now = new Date(), locale: Locale = getLocale()) {
+  const minutes = Math.floor((now.getTime() - new Date(iso).getTime()) / 60_000);
+  if (minutes < 1) {
+    return translate(locale, 'feed.time.justNow');
+  }
+  if (minutes < 60) {
+    return translate(locale, 'feed.time.minutes', { count: minutes });
+  }
+  if (minutes < 60 * 24) {
+    return translate(locale, 'feed.time.hours', { count: Math.floor(minutes / 60) });
+  }
+  if (minutes < 60 * 24 * 7) {
+    return translate(locale, 'feed.time.days', { count: Math.floor(minutes / (60 * 24)) });
+  }
+  return toDateKey(new Date(iso));
+}
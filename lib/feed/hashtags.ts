@@ -0,0 +1,55 @@
+/**
+ * Characters allowed in a hashtag: ASCII word characters, full-width alphanumerics, kana
+ * (including half-width), the long-vowel mark and CJK ideographs. Spelled out rather than using
+ * `\p{L}` so it behaves the same on every JS engine the app runs on.
+ */
+const TAG_CHAR =
+  '0-9A-Za-z_\\u3040-\\u309F\\u30A0-\\u30FF\\u3400-\\u4DBF\\u4E00-\\u9FFF\\u3005\\uFF10-\\uFF19\\uFF21-\\uFF3A\\uFF41-\\uFF5A\\uFF3F\\uFF66-\\uFF9F';
+
+const HASHTAG = new RegExp(`[#＃]([${TAG_CHAR}]+)`, 'g');
+const TRAILING_QUERY = new RegExp(`[#＃]([${TAG_CHAR}]*)$`);
+
+/** Distinct hashtags in `text` without the `#`, in order of first appearance. */
+export function extractHashtags(text: string) {
+  return [...new Set([...text.matchAll(HASHTAG)].map((match) => match[1]))];
+}
+
+/** Splits `text` into plain runs and hashtags, for rendering tags as links. */
+export function splitHashtags(text: string) {
+  const parts: ({ type: 'text'; text: string } | { type: 'tag'; text: string; tag: string })[] = [];
+  let last = 0;
+  for (const match of text.matchAll(HASHTAG)) {
+    const start = match.index ?? 0;
+    if (start > last) {
+      parts.push({ type: 'text', text: text.slice(last, start) });
+    }
+    parts.push({ type: 'tag', text: match[0], tag: match[1] });
+    last = start + match[0].length;
+  }
+  if (last < text.length) {
+    parts.push({ type: 'text', text: text.slice(last) });
+  }
+  return parts;
+}
+
+/**
+ * The hashtag being typed just before `cursor`, for autocomplete. `undefined` when the cursor is
+ * not inside a hashtag.
+ */
+export function hashtagQueryAt(text: string, cursor: number) {
+  const match = TRAILING_QUERY.exec(text.slice(0, cursor));
+  return match ? { query: match[1], start: match.index } : undefined;
+}
+
+/** Replaces the hashtag being typed at `cursor` with `tag` and a trailing space. */
+export function completeHashtag(text: string, cursor: number, tag: string) {
+  const current = hashtagQueryAt(text, cursor);
+  if (!current) {
+    return { text, cursor };
+  }
+  const inserted = `#${tag} `;
+  return {
+    text: text.slice(0, current.start) + inserted + text.slice(cursor).replace(/^\s/, ''),
+    cursor: current.start + inserted.length,
+  };
+}
@@ -0,0 +1,179 @@
+import {
+  FeedError,
+  type Activity,
+  type FeedClient,
+  type Page,
+  type PageRequest,
+  type HashtagSummary,
+  type Post,
+  type ShowcaseIndividual,
+  type TrendingTag,
+  type UploadStatus,
+  type UserProfile,
+} from '@/lib/feed/types';
+
+type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export type HttpFeedClientOptions = {
+  /** Swappable so the same client runs against the in-memory mock server. */
+  fetch?: Fetch;
+  /** The signed-in viewer's session token, sent with every request when present. */
+  getAuthToken?: () => string | null | undefined;
+};
+
+function pageQuery({ cursor, limit }: PageRequest = {}, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams(extra);
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+  if (limit !== undefined) {
+    params.set('limit', String(limit));
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+/**
+ * Talks to the feed API at `baseUrl`.
+ */
+export function createHttpFeedClient(
+  baseUrl: string,
+  { fetch: fetchImpl = fetch, getAuthToken }: HttpFeedClientOptions = {}
+): FeedClient {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  async function request<T>(
+    path: string,
+    init: {
+      method?: string;
+      json?: unknown;
+      bytes?: Uint8Array;
+      headers?: Record<string, string>;
+    } = {}
+  ): Promise<T | null> {
+    const token = getAuthToken?.();
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(init.json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(init.bytes ? { 'Content-Type': 'application/offset+octet-stream' } : {}),
+      ...init.headers,
+    };
+    const response = await fetchImpl(`${root}${path}`, {
+      method: init.method ?? 'GET',
+      headers,
+      body:
+        init.json !== undefined ? JSON.stringify(init.json) : (init.bytes as BodyInit | undefined),
+    });
+    if (response.status === 404 && (init.method ?? 'GET') === 'GET') {
+      return null;
+    }
+    if (!response.ok) {
+      throw new FeedError(response.status, `Feed request failed: ${response.status} ${path}`);
+    }
+    if (response.status === 204) {
+      return null;
+    }
+    return (await response.json()) as T;
+  }
+
+  async function required<T>(path: string, init: Parameters<typeof request>[1]) {
+    const result = await request<T>(path, init);
+    if (result === null) {
+      throw new FeedError(404, `Feed request failed: 404 ${path}`);
+    }
+    return result;
+  }
+
+  async function getPage<T = Post>(path: string) {
+    return (await request<Page<T>>(path)) ?? { items: [], nextCursor: null };
+  }
+
+  const userPath = (userId: string) => `/users/${encodeURIComponent(userId)}`;
+
+  return {
+    listTimeline(pageRequest) {
+      return getPage(`/timeline${pageQuery(pageRequest)}`);
+    },
+    getPost(id) {
+      return request<Post>(`/posts/${encodeURIComponent(id)}`);
+    },
+    listReplies(postId, pageRequest) {
+      return getPage(`/posts/${encodeURIComponent(postId)}/replies${pageQuery(pageRequest)}`);
+    },
+    async suggestHashtags(prefix) {
+      return (
+        (await request<string[]>(`/hashtags?${new URLSearchParams({ prefix }).toString()}`)) ?? []
+      );
+    },
+    searchPosts(query, pageRequest) {
+      return getPage(`/search${pageQuery(pageRequest, { q: query })}`);
+    },
+    getHashtag(tag) {
+      return request<HashtagSummary>(`/hashtags/${encodeURIComponent(tag)}`);
+    },
+    listHashtagPosts(tag, pageRequest) {
+      return getPage(`/hashtags/${encodeURIComponent(tag)}/posts${pageQuery(pageRequest)}`);
+    },
+    async listTrends(span) {
+      return (await request<TrendingTag[]>(`/trends?window=${span}`)) ?? [];
+    },
+    createUpload(file) {
+      return required<UploadStatus>('/uploads', { method: 'POST', json: file });
+    },
+    getUpload(uploadId) {
+      return request<UploadStatus>(`/uploads/${encodeURIComponent(uploadId)}`);
+    },
+    uploadChunk(uploadId, offset, bytes) {
+      return required<UploadStatus>(`/uploads/${encodeURIComponent(uploadId)}`, {
+        method: 'PATCH',
+        bytes,
+        headers: { 'Upload-Offset': String(offset) },
+      });
+    },
+    completeUpload(uploadId) {
+      return required<UploadStatus>(`/uploads/${encodeURIComponent(uploadId)}/complete`, {
+        method: 'POST',
+      });
+    },
+    createPost(post, idempotencyKey) {
+      return required<Post>('/posts', {
+        method: 'POST',
+        json: post,
+        headers: { 'Idempotency-Key': idempotencyKey },
+      });
+    },
+    setReaction(postId, kind, on) {
+      return required<Post>(`/posts/${encodeURIComponent(postId)}/${kind}`, {
+        method: on ? 'PUT' : 'DELETE',
+      });
+    },
+    listBookmarks(pageRequest) {
+      return getPage(`/bookmarks${pageQuery(pageRequest)}`);
+    },
+    getUser(id) {
+      return request<UserProfile>(userPath(id));
+    },
+    listUserPosts(userId, pageRequest) {
+      return getPage(`${userPath(userId)}/posts${pageQuery(pageRequest)}`);
+    },
+    async listShowcase(userId) {
+      return (await request<ShowcaseIndividual[]>(`${userPath(userId)}/showcase`)) ?? [];
+    },
+    async publishShowcase(individuals) {
+      await request('/me/showcase', { method: 'PUT', json: individuals });
+    },
+    setFollowing(userId, on) {
+      return required<UserProfile>(`${userPath(userId)}/follow`, { method: on ? 'PUT' : 'DELETE' });
+    },
+    listFollowers(userId, pageRequest) {
+      return getPage<UserProfile>(`${userPath(userId)}/followers${pageQuery(pageRequest)}`);
+    },
+    listFollowing(userId, pageRequest) {
+      return getPage<UserProfile>(`${userPath(userId)}/following${pageQuery(pageRequest)}`);
+    },
+    listActivity(pageRequest) {
+      return getPage<Activity>(`/me/activity${pageQuery(pageRequest)}`);
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import type { User } from '@/lib/auth';
+import { createHttpFeedClient } from '@/lib/feed/http-client';
+import { createMockFeedServer } from '@/lib/feed/mock-server';
+import { loadBookmarks, processReactionQueue } from '@/lib/feed/reaction-store';
+import type { Author, FeedClient, ShowcaseIndividual } from '@/lib/feed/types';
+
+export * from '@/lib/feed/format';
+export * from '@/lib/feed/hashtags';
+export { createHttpFeedClient } from '@/lib/feed/http-client';
+export * from '@/lib/feed/mock-server';
+export * from '@/lib/feed/normalize';
+export * from '@/lib/feed/profiles';
+export * from '@/lib/feed/reaction-store';
+export * from '@/lib/feed/reactions';
+export * from '@/lib/feed/search';
+export * from '@/lib/feed/trends';
+export * from '@/lib/feed/types';
+
+const MOCK_BASE_URL = 'https://feed.mock.local';
+
+export type FeedSession = {
+  token: string;
+  author: Author;
+};
+
+let session: FeedSession | null = null;
+let showcase: { items: ShowcaseIndividual[]; key: string } | null = null;
+/** The last showcase the server accepted for the current account. */
+let publishedShowcase: string | null = null;
+
+/** Set by the app shell whenever the signed-in user changes; `null` when signed out. */
+export function setFeedSession(next: FeedSession | null) {
+  if (next?.author.id !== session?.author.id) {
+    publishedShowcase = null;
+  }
+  session = next;
+}
+
+export function getFeedSession() {
+  return session;
+}
+
+/** How a signed-in user appears on their own posts. */
+export function authorFromUser(user: User): Author {
+  return { id: user.id, handle: user.email.split('@')[0], displayName: user.displayName };
+}
+
+export const mockFeedServer = createMockFeedServer({
+  latencyMs: 400,
+  rebaseTo: new Date(),
+  authenticate: (token) => (session?.token === token ? session.author : null),
+});
+
+const getAuthToken = () => session?.token;
+
+let client: FeedClient = process.env.EXPO_PUBLIC_FEED_API_URL
+  ? createHttpFeedClient(process.env.EXPO_PUBLIC_FEED_API_URL, { getAuthToken })
+  : createHttpFeedClient(MOCK_BASE_URL, { fetch: mockFeedServer.fetch, getAuthToken });
+
+/**
+ * The feed client used by every screen. Runs against the in-memory mock server unless
+ * `EXPO_PUBLIC_FEED_API_URL` is set.
+ */
+export function getFeedClient() {
+  return client;
+}
+
+export function setFeedClient(next: FeedClient) {
+  client = next;
+}
+
+/** Sends queued likes, reposts and bookmarks. Does nothing while signed out. */
+export async function flushReactions() {
+  if (session) {
+    await processReactionQueue(client);
+  }
+}
+
+export function refreshBookmarks() {
+  return loadBookmarks(client);
+}
+
+/** Shares `items` on the viewer's profile, now or on the next flush if that fails. */
+export function queueShowcase(items: ShowcaseIndividual[]) {
+  showcase = { items, key: JSON.stringify(items) };
+  return flushShowcase();
+}
+
+/** Publishes the queued showcase unless the server already has it. Does nothing while signed out. */
+export async function flushShowcase() {
+  if (!session || !showcase || showcase.key === publishedShowcase) {
+    return;
+  }
+  const { items, key } = showcase;
+  try {
+    await client.publishShowcase(items);
+    publishedShowcase = key;
+  } catch {
+    // Kept queued; the next flush tries again.
+  }
+}
@@ -0,0 +1,570 @@
+import fixtures from '@/lib/feed/fixtures/posts.json';
+import userFixtures from '@/lib/feed/fixtures/users.json';
+import { extractHashtags } from '@/lib/feed/hashtags';
+import { canonicalTagKey, normalizeTag } from '@/lib/feed/normalize';
+import { canViewShowcase } from '@/lib/feed/profiles';
+import { hasHashtag, matchesSearch, parseSearchQuery } from '@/lib/feed/search';
+import { rankTrends } from '@/lib/feed/trends';
+import type {
+  Activity,
+  Author,
+  HashtagSummary,
+  NewPost,
+  Page,
+  Post,
+  ReactionKind,
+  ShowcaseIndividual,
+  TrendWindow,
+  UploadStatus,
+  UserProfile,
+} from '@/lib/feed/types';
+import { getLocale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+
+/** A post as the server stores it: the author by reference and no derived counts. */
+export type StoredPost = Omit<Post, 'author' | 'replyCount'> & { authorId: string };
+
+export type MockFeedData = {
+  authors: Author[];
+  posts: StoredPost[];
+  /** Profile text by user id. */
+  bios?: Record<string, string>;
+  /** Oldest first. */
+  follows?: { followerId: string; followeeId: string }[];
+  /** What each keeper has published, by user id. */
+  showcases?: Record<string, ShowcaseIndividual[]>;
+};
+
+export type MockFeedServerOptions = {
+  data?: MockFeedData;
+  /** Simulated network delay, so loading states are visible in development. */
+  latencyMs?: number;
+  /** Maps a bearer token to the viewer it belongs to; posting needs one. */
+  authenticate?: (token: string) => Author | null;
+  /**
+   * Shifts every post's time so the newest is at this moment, keeping fixtures recent enough for
+   * relative times and trends to look real.
+   */
+  rebaseTo?: Date;
+};
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_SUGGESTIONS = 8;
+
+type Upload = UploadStatus & { mimeType: string; chunks: Uint8Array[] };
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function paginate<T extends { id: string }>(items: T[], url: URL): Page<T> {
+  const cursor = url.searchParams.get('cursor');
+  const limit = Math.min(Number(url.searchParams.get('limit')) || DEFAULT_LIMIT, MAX_LIMIT);
+  // The cursor is the id of the last item already seen; an unknown cursor starts over.
+  const start = cursor ? items.findIndex((item) => item.id === cursor) + 1 : 0;
+  const page = items.slice(start, start + limit);
+  return {
+    items: page,
+    nextCursor: start + limit < items.length ? page[page.length - 1].id : null,
+  };
+}
+
+function rebase(posts: StoredPost[], to: Date) {
+  const newest = Math.max(...posts.map((post) => new Date(post.createdAt).getTime()));
+  const shift = to.getTime() - newest;
+  return posts.map((post) => ({
+    ...post,
+    createdAt: new Date(new Date(post.createdAt).getTime() + shift).toISOString(),
+  }));
+}
+
+/** Uploaded images become data URIs, so the mock needs no storage to serve them back. */
+function toDataUri(mimeType: string, chunks: Uint8Array[]) {
+  let binary = '';
+  for (const chunk of chunks) {
+    for (let index = 0; index < chunk.length; index += 0x8000) {
+      binary += String.fromCharCode(...chunk.subarray(index, index + 0x8000));
+    }
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/**
+ * An in-memory stand-in for the feed API that answers `fetch` calls, so the real HTTP client can
+ * be exercised without a backend. Mutating methods are used by later features and by tests to
+ * set up data.
+ */
+export function createMockFeedServer({
+  data = { ...fixtures, ...userFixtures } as MockFeedData,
+  latencyMs = 0,
+  authenticate = () => null,
+  rebaseTo,
+}: MockFeedServerOptions = {}) {
+  const authors = new Map(data.authors.map((author) => [author.id, author]));
+  const posts = new Map(
+    (rebaseTo ? rebase(data.posts, rebaseTo) : data.posts).map((post) => [post.id, post])
+  );
+  const uploads = new Map<string, Upload>();
+  /** Post ids by author and `Idempotency-Key`. */
+  const createdByKey = new Map<string, string>();
+  // kind → post id → viewer id → when they reacted.
+  const reactions: Record<ReactionKind, Map<string, Map<string, string>>> = {
+    like: new Map(),
+    repost: new Map(),
+    bookmark: new Map(),
+  };
+  // follower id → followee id → when they followed.
+  const follows = new Map<string, Map<string, string>>();
+  (data.follows ?? []).forEach(({ followerId, followeeId }, index) => {
+    followingOf(followerId).set(followeeId, new Date(index * 1000).toISOString());
+  });
+  const showcases = new Map(Object.entries(data.showcases ?? {}));
+  let sequence = 0;
+  /** Who the request being handled is from; requests are handled one at a time. */
+  let viewer: Author | null = null;
+
+  function followingOf(userId: string) {
+    let following = follows.get(userId);
+    if (!following) {
+      following = new Map();
+      follows.set(userId, following);
+    }
+    return following;
+  }
+
+  const isFollowing = (follower: string, followee: string) =>
+    follows.get(follower)?.has(followee) ?? false;
+
+  const followersOf = (userId: string) =>
+    [...follows.entries()].flatMap(([follower, following]) => {
+      const at = following.get(userId);
+      return at ? [{ userId: follower, at }] : [];
+    });
+
+  const reactedBy = (kind: ReactionKind, postId: string) =>
+    reactions[kind].get(postId) ?? new Map<string, string>();
+
+  const statusOf = ({ mimeType: _mimeType, chunks: _chunks, ...status }: Upload) => status;
+
+  const repliesTo = (id: string) =>
+    [...posts.values()]
+      .filter((post) => post.replyToId === id)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const toPost = ({ authorId, ...post }: StoredPost): Post => ({
+    ...post,
+    author: authors.get(authorId) ?? {
+      id: authorId,
+      handle: 'unknown',
+      displayName: translate(getLocale(), 'feed.deletedUser'),
+    },
+    replyCount: repliesTo(post.id).length,
+    // Fixture counts stand for reactions from people outside the mock.
+    likeCount: post.likeCount + reactedBy('like', post.id).size,
+    repostCount: post.repostCount + reactedBy('repost', post.id).size,
+    viewer: viewer
+      ? {
+          like: reactedBy('like', post.id).has(viewer.id),
+          repost: reactedBy('repost', post.id).has(viewer.id),
+          bookmark: reactedBy('bookmark', post.id).has(viewer.id),
+        }
+      : undefined,
+  });
+
+  function toProfile(author: Author): UserProfile {
+    return {
+      ...author,
+      bio: data.bios?.[author.id],
+      postCount: [...posts.values()].filter(
+        (post) => post.authorId === author.id && !post.replyToId
+      ).length,
+      followerCount: followersOf(author.id).length,
+      followingCount: follows.get(author.id)?.size ?? 0,
+      viewer:
+        viewer && viewer.id !== author.id
+          ? {
+              following: isFollowing(viewer.id, author.id),
+              followedBy: isFollowing(author.id, viewer.id),
+            }
+          : undefined,
+    };
+  }
+
+  /** Follow lists, most recent first, skipping anyone the server no longer knows. */
+  function profilePage(entries: { userId: string; at: string }[], url: URL) {
+    const profiles = entries
+      .sort((a, b) => b.at.localeCompare(a.at))
+      .flatMap(({ userId }) => {
+        const author = authors.get(userId);
+        return author ? [toProfile(author)] : [];
+      });
+    return json(paginate(profiles, url));
+  }
+
+  function handleFollow(method: string, userId: string) {
+    if (!viewer) {
+      return json({ error: 'unauthorized' }, 401);
+    }
+    const author = authors.get(userId);
+    if (!author) {
+      return json({ error: 'not found' }, 404);
+    }
+    if (author.id === viewer.id) {
+      return json({ error: 'cannot follow yourself' }, 422);
+    }
+    const following = followingOf(viewer.id);
+    if (method === 'PUT') {
+      if (!following.has(userId)) {
+        following.set(userId, new Date().toISOString());
+      }
+    } else if (method === 'DELETE') {
+      following.delete(userId);
+    } else {
+      return json({ error: 'method not allowed' }, 405);
+    }
+    return json(toProfile(author));
+  }
+
+  function handlePublishShowcase(init: RequestInit) {
+    if (!viewer) {
+      return json({ error: 'unauthorized' }, 401);
+    }
+    const items = JSON.parse(String(init.body)) as ShowcaseIndividual[];
+    // Never keep something marked private, whatever the client sent.
+    showcases.set(
+      viewer.id,
+      items.filter((item) => item.visibility === 'public' || item.visibility === 'followers')
+    );
+    return new Response(null, { status: 204 });
+  }
+
+  const excerpt = (post: StoredPost) => post.body.slice(0, 60);
+
+  function activityFor(viewerId: string) {
+    const activity: Activity[] = [];
+    const author = (id: string) => authors.get(id);
+    for (const { userId, at } of followersOf(viewerId)) {
+      const actor = author(userId);
+      if (actor) {
+        activity.push({ id: `follow:${userId}`, type: 'follow', actor, createdAt: at });
+      }
+    }
+    for (const post of posts.values()) {
+      if (post.authorId === viewerId) {
+        for (const [userId, at] of reactedBy('like', post.id)) {
+          const actor = author(userId);
+          if (actor && userId !== viewerId) {
+            activity.push({
+              id: `like:${post.id}:${userId}`,
+              type: 'like',
+              actor,
+              postId: post.id,
+              excerpt: excerpt(post),
+              createdAt: at,
+            });
+          }
+        }
+      }
+      const parent = post.replyToId ? posts.get(post.replyToId) : undefined;
+      const actor = author(post.authorId);
+      if (parent?.authorId === viewerId && actor && post.authorId !== viewerId) {
+        activity.push({
+          id: `reply:${post.id}`,
+          type: 'reply',
+          actor,
+          postId: post.id,
+          excerpt: excerpt(post),
+          createdAt: post.createdAt,
+        });
+      }
+    }
+    return activity.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  function handleUser(method: string, userId: string, resource: string | undefined, url: URL) {
+    const author = authors.get(userId);
+    if (!author) {
+      return json({ error: 'not found' }, 404);
+    }
+    switch (resource) {
+      case undefined:
+        return json(toProfile(author));
+      case 'posts':
+        return listPage(
+          newestFirst().filter((post) => post.authorId === userId && !post.replyToId),
+          url
+        );
+      case 'showcase': {
+        const access = {
+          isOwner: viewer?.id === userId,
+          isFollower: viewer ? isFollowing(viewer.id, userId) : false,
+        };
+        return json(
+          (showcases.get(userId) ?? []).filter((item) => canViewShowcase(item.visibility, access))
+        );
+      }
+      case 'follow':
+        return handleFollow(method, userId);
+      case 'followers':
+        return profilePage(followersOf(userId), url);
+      case 'following':
+        return profilePage(
+          [...(follows.get(userId) ?? new Map<string, string>()).entries()].map(
+            ([followee, at]) => ({ userId: followee, at })
+          ),
+          url
+        );
+      default:
+        return json({ error: 'not found' }, 404);
+    }
+  }
+
+  function handleUpload(method: string, path: string, init: RequestInit) {
+    if (method === 'POST' && path.endsWith('/uploads')) {
+      const { byteLength, mimeType } = JSON.parse(String(init.body)) as {
+        byteLength: number;
+        mimeType: string;
+      };
+      const upload: Upload = {
+        uploadId: `upload-${++sequence}`,
+        byteLength,
+        received: 0,
+        mediaUrl: null,
+        mimeType,
+        chunks: [],
+      };
+      uploads.set(upload.uploadId, upload);
+      return json(statusOf(upload), 201);
+    }
+    const match = /\/uploads\/([^/]+)(\/complete)?$/.exec(path);
+    const upload = match && uploads.get(decodeURIComponent(match[1]));
+    if (!match || !upload) {
+      return json({ error: 'not found' }, 404);
+    }
+    if (method === 'GET') {
+      return json(statusOf(upload));
+    }
+    if (method === 'PATCH') {
+      const offset = Number(new Headers(init.headers).get('Upload-Offset'));
+      if (offset !== upload.received) {
+        return json({ error: 'offset mismatch', received: upload.received }, 409);
+      }
+      const bytes = init.body as Uint8Array;
+      upload.chunks.push(bytes);
+      upload.received = Math.min(upload.byteLength, upload.received + bytes.length);
+      return json(statusOf(upload));
+    }
+    if (method === 'POST' && match[2]) {
+      if (upload.received < upload.byteLength) {
+        return json({ error: 'incomplete' }, 409);
+      }
+      upload.mediaUrl ??= toDataUri(upload.mimeType, upload.chunks);
+      return json(statusOf(upload));
+    }
+    return json({ error: 'method not allowed' }, 405);
+  }
+
+  function handleCreatePost(init: RequestInit) {
+    if (!viewer) {
+      return json({ error: 'unauthorized' }, 401);
+    }
+    const key = new Headers(init.headers).get('Idempotency-Key');
+    const existing = key ? posts.get(createdByKey.get(`${viewer.id}:${key}`) ?? '') : undefined;
+    if (existing) {
+      return json(toPost(existing));
+    }
+    const input = JSON.parse(String(init.body)) as NewPost;
+    if (!input.body.trim() && input.images.length === 0) {
+      return json({ error: 'empty post' }, 422);
+    }
+    const post: StoredPost = {
+      ...input,
+      id: `p-local-${++sequence}`,
+      authorId: viewer.id,
+      createdAt: new Date().toISOString(),
+      likeCount: 0,
+      repostCount: 0,
+    };
+    posts.set(post.id, post);
+    if (key) {
+      createdByKey.set(`${viewer.id}:${key}`, post.id);
+    }
+    return json(toPost(post), 201);
+  }
+
+  const newestFirst = () =>
+    [...posts.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const tagCounts = () => {
+    const counts = new Map<string, number>();
+    for (const post of posts.values()) {
+      for (const tag of extractHashtags(post.body)) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  };
+
+  function suggestHashtags(prefix: string) {
+    const normalized = normalizeTag(prefix);
+    return tagCounts()
+      .filter(([tag]) => normalizeTag(tag).startsWith(normalized))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(([tag]) => tag);
+  }
+
+  function hashtagSummary(tag: string): HashtagSummary | null {
+    const key = canonicalTagKey(tag);
+    const variants = tagCounts()
+      .filter(([spelling]) => canonicalTagKey(spelling) === key)
+      .map(([spelling]) => spelling);
+    const postCount = [...posts.values()].filter((post) => hasHashtag(post, tag)).length;
+    return postCount > 0 ? { tag, key, variants, postCount } : null;
+  }
+
+  function listPage(items: StoredPost[], url: URL) {
+    const page = paginate(items, url);
+    return json({ ...page, items: page.items.map((post) => toPost(post)) });
+  }
+
+  function handleReaction(method: string, postId: string, kind: ReactionKind) {
+    if (!viewer) {
+      return json({ error: 'unauthorized' }, 401);
+    }
+    const post = posts.get(postId);
+    if (!post) {
+      return json({ error: 'not found' }, 404);
+    }
+    const reacted = reactedBy(kind, postId);
+    if (method === 'PUT') {
+      if (!reacted.has(viewer.id)) {
+        reacted.set(viewer.id, new Date().toISOString());
+      }
+    } else if (method === 'DELETE') {
+      reacted.delete(viewer.id);
+    } else {
+      return json({ error: 'method not allowed' }, 405);
+    }
+    reactions[kind].set(postId, reacted);
+    return json(toPost(post));
+  }
+
+  function bookmarksOf(viewerId: string) {
+    return [...reactions.bookmark.entries()]
+      .flatMap(([postId, by]) => {
+        const at = by.get(viewerId);
+        const post = posts.get(postId);
+        return at && post ? [{ post, at }] : [];
+      })
+      .sort((a, b) => b.at.localeCompare(a.at))
+      .map(({ post }) => post);
+  }
+
+  function handle(url: URL, init: RequestInit) {
+    const method = init.method ?? 'GET';
+    const path = url.pathname.replace(/\/+$/, '');
+    const token = new Headers(init.headers).get('Authorization')?.replace(/^Bearer /, '');
+    viewer = token ? authenticate(token) : null;
+    if (viewer) {
+      // Signing in is enough to have a profile others can find and follow.
+      authors.set(viewer.id, viewer);
+    }
+    if (path.includes('/uploads')) {
+      return handleUpload(method, path, init);
+    }
+    if (method === 'POST' && path.endsWith('/posts')) {
+      return handleCreatePost(init);
+    }
+    if (path.endsWith('/me/activity')) {
+      return viewer
+        ? json(paginate(activityFor(viewer.id), url))
+        : json({ error: 'unauthorized' }, 401);
+    }
+    if (method === 'PUT' && path.endsWith('/me/showcase')) {
+      return handlePublishShowcase(init);
+    }
+    const user = /\/users\/([^/]+)(?:\/(posts|showcase|follow|followers|following))?$/.exec(path);
+    if (user) {
+      return handleUser(method, decodeURIComponent(user[1]), user[2], url);
+    }
+    if (path.endsWith('/hashtags')) {
+      return json(suggestHashtags(url.searchParams.get('prefix') ?? ''));
+    }
+    const hashtag = /\/hashtags\/([^/]+)(\/posts)?$/.exec(path);
+    if (hashtag) {
+      const tag = decodeURIComponent(hashtag[1]);
+      if (hashtag[2]) {
+        return listPage(
+          newestFirst().filter((post) => hasHashtag(post, tag)),
+          url
+        );
+      }
+      const summary = hashtagSummary(tag);
+      return summary ? json(summary) : json({ error: 'not found' }, 404);
+    }
+    if (path.endsWith('/search')) {
+      const query = parseSearchQuery(url.searchParams.get('q') ?? '');
+      if (query.tags.length === 0 && query.terms.length === 0) {
+        return json({ items: [], nextCursor: null });
+      }
+      return listPage(
+        newestFirst().filter((post) =>
+          matchesSearch({ ...post, author: authors.get(post.authorId) }, query)
+        ),
+        url
+      );
+    }
+    if (path.endsWith('/trends')) {
+      const span: TrendWindow = url.searchParams.get('window') === 'week' ? 'week' : 'day';
+      return json(rankTrends([...posts.values()], new Date(), span));
+    }
+    const reaction = /\/posts\/([^/]+)\/(like|repost|bookmark)$/.exec(path);
+    if (reaction) {
+      return handleReaction(method, decodeURIComponent(reaction[1]), reaction[2] as ReactionKind);
+    }
+    if (path.endsWith('/bookmarks')) {
+      return viewer ? listPage(bookmarksOf(viewer.id), url) : json({ error: 'unauthorized' }, 401);
+    }
+    if (path.endsWith('/timeline')) {
+      return listPage(
+        newestFirst().filter((post) => !post.replyToId),
+        url
+      );
+    }
+    const replies = /\/posts\/([^/]+)\/replies$/.exec(path);
+    if (replies) {
+      const id = decodeURIComponent(replies[1]);
+      if (!posts.has(id)) {
+        return json({ error: 'not found' }, 404);
+      }
+      return listPage(repliesTo(id), url);
+    }
+    const post = /\/posts\/([^/]+)$/.exec(path);
+    if (post) {
+      const stored = posts.get(decodeURIComponent(post[1]));
+      return stored ? json(toPost(stored)) : json({ error: 'not found' }, 404);
+    }
+    return json({ error: 'not found' }, 404);
+  }
+
+  return {
+    async fetch(input: string, init: RequestInit = {}) {
+      if (latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latencyMs));
+      }
+      return handle(new URL(input), init);
+    },
+    addAuthor(author: Author) {
+      authors.set(author.id, author);
+    },
+    addPost(post: StoredPost) {
+      posts.set(post.id, post);
+    },
+  };
+}
+
+export type MockFeedServer = ReturnType<typeof createMockFeedServer>;
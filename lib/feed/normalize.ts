@@ -0,0 +1,61 @@
+import { normalizeText } from '@/lib/text';
+
+/**
+ * Common names keepers tag posts with, by binomial. A tag matching any of these, or the binomial
+ * itself (with or without a subspecies), is treated as the same tag.
+ */
+const SPECIES_NAMES: Record<string, string[]> = {
+  'Dorcus hopei': ['オオクワガタ', 'オオクワ', '国産オオクワガタ'],
+  'Dorcus titanus': ['ヒラタクワガタ', 'ヒラタ'],
+  'Dorcus rectus': ['コクワガタ', 'コクワ'],
+  'Lucanus maculifemoratus': ['ミヤマクワガタ', 'ミヤマ'],
+  'Prosopocoilus inclinatus': ['ノコギリクワガタ', 'ノコ'],
+  'Prosopocoilus giraffa': ['ギラファノコギリクワガタ', 'ギラファ'],
+  'Cyclommatus metallifer': ['メタリフェルホソアカクワガタ', 'メタリフェル'],
+  'Phalacrognathus muelleri': ['ニジイロクワガタ', 'ニジイロ'],
+  'Trypoxylus dichotomus': ['カブトムシ', 'カブト'],
+  'Dynastes hercules': ['ヘラクレスオオカブト', 'ヘラクレス'],
+  'Dynastes neptunus': ['ネプチューンオオカブト', 'ネプチューン'],
+  'Chalcosoma caucasus': ['コーカサスオオカブト', 'コーカサス'],
+  'Chalcosoma atlas': ['アトラスオオカブト', 'アトラス'],
+  'Megasoma actaeon': ['アクタエオンゾウカブト', 'アクタエオン'],
+};
+
+/** `normalizeText`, with spaces, hyphens and underscores between words all read as `_`. */
+export function normalizeTag(tag: string) {
+  return normalizeText(tag)
+    .replace(/^[#＃]/, '')
+    .replace(/[\s_-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+const SPECIES_BY_NAME = new Map(
+  Object.entries(SPECIES_NAMES).flatMap(([binomial, names]) => {
+    const key = `species:${normalizeTag(binomial)}`;
+    return [binomial, ...names].map((name) => [normalizeTag(name), key] as const);
+  })
+);
+
+const GENERA = new Set(
+  Object.keys(SPECIES_NAMES).map((binomial) => normalizeTag(binomial.split(' ')[0]))
+);
+
+const LATIN_NAME = /^[a-z]+(_[a-z]+){1,2}$/;
+
+/**
+ * The key two tags share when they mean the same thing, so `#オオクワガタ`, `#おおくわがた`,
+ * `#Dorcus_hopei` and `#Dorcus_hopei_binodulosus` all land on one page.
+ */
+export function canonicalTagKey(tag: string) {
+  const normalized = normalizeTag(tag);
+  const species = SPECIES_BY_NAME.get(normalized);
+  if (species) {
+    return species;
+  }
+  // Only binomials of known genera, so an everyday tag like `#temp_log` is left alone.
+  const [genus, epithet] = normalized.split('_');
+  if (LATIN_NAME.test(normalized) && GENERA.has(genus)) {
+    return SPECIES_BY_NAME.get(`${genus}_${epithet}`) ?? `species:${genus}_${epithet}`;
+  }
+  return normalized;
+}
@@ -0,0 +1,20 @@
+import type { IndividualVisibility } from '@/lib/records';
+
+export type ShowcaseViewer = {
+  /** The viewer is the keeper. */
+  isOwner: boolean;
+  /** The viewer follows the keeper. */
+  isFollower: boolean;
+};
+
+/** The single rule for who may see a shared individual, applied by the server and the app. */
+export function canViewShowcase(visibility: IndividualVisibility, viewer: ShowcaseViewer) {
+  switch (visibility) {
+    case 'public':
+      return true;
+    case 'followers':
+      return viewer.isOwner || viewer.isFollower;
+    case 'private':
+      return viewer.isOwner;
+  }
+}
@@ -0,0 +1,151 @@
+import { coalesceMutations, type ReactionMutation } from '@/lib/feed/reactions';
+import {
+  isRetryableFeedError,
+  type FeedClient,
+  type Post,
+  type ReactionKind,
+} from '@/lib/feed/types';
+import { createId } from '@/lib/id';
+import { createPersistedStore } from '@/lib/store';
+
+const RETRY_MS = 15_000;
+const MAX_BOOKMARK_PAGES = 10;
+
+export type ReactionState = {
+  /** Mutations waiting for the server, oldest first. Kept across restarts so offline taps replay. */
+  queue: ReactionMutation[];
+  /** The server's latest copy of every post reacted to, so lists agree with each other. */
+  confirmed: Record<string, Post>;
+  /** The viewer's bookmarks as the server last listed them, most recent first. */
+  bookmarkIds: string[];
+  /** ISO 8601; set after a network failure, when the queue should be tried again. */
+  retryAt: string | null;
+  /** The last mutation the server refused, already rolled back. */
+  rejected: ReactionMutation | null;
+};
+
+const initialState: ReactionState = {
+  queue: [],
+  confirmed: {},
+  bookmarkIds: [],
+  retryAt: null,
+  rejected: null,
+};
+
+export const reactionStore = createPersistedStore<ReactionState>('feed.reactions', initialState);
+
+/** Queues the change and shows it at once; send it with `processReactionQueue`. */
+export function toggleReaction(post: Post, kind: ReactionKind, on: boolean) {
+  const mutation: ReactionMutation = {
+    id: createId('reaction'),
+    postId: post.id,
+    kind,
+    on,
+    createdAt: new Date().toISOString(),
+  };
+  reactionStore.setState((state) => ({
+    ...state,
+    queue: [...state.queue, mutation],
+    // Keep a copy so a post bookmarked offline can still be listed.
+    confirmed: state.confirmed[post.id] ? state.confirmed : { ...state.confirmed, [post.id]: post },
+    rejected: null,
+  }));
+}
+
+/** Refreshes the stored copies of posts the store already knows with newer server data. */
+export function rememberPosts(posts: Post[]) {
+  const { confirmed } = reactionStore.getState();
+  const known = posts.filter((post) => confirmed[post.id] && post.viewer);
+  if (known.length === 0) {
+    return;
+  }
+  reactionStore.setState((state) => ({
+    ...state,
+    confirmed: { ...state.confirmed, ...Object.fromEntries(known.map((post) => [post.id, post])) },
+  }));
+}
+
+export function dismissRejectedReaction() {
+  reactionStore.setState((state) => ({ ...state, rejected: null }));
+}
+
+/** Forgets everything about the previous viewer; call on sign-out. */
+export function resetReactions() {
+  reactionStore.setState(initialState);
+}
+
+function acknowledge(mutation: ReactionMutation, post: Post) {
+  reactionStore.setState((state) => {
+    const bookmarkIds =
+      mutation.kind !== 'bookmark'
+        ? state.bookmarkIds
+        : post.viewer?.bookmark
+          ? [post.id, ...state.bookmarkIds.filter((id) => id !== post.id)]
+          : state.bookmarkIds.filter((id) => id !== post.id);
+    return {
+      ...state,
+      queue: state.queue.filter((queued) => queued.id !== mutation.id),
+      confirmed: { ...state.confirmed, [post.id]: post },
+      bookmarkIds,
+      retryAt: null,
+    };
+  });
+}
+
+let running: Promise<void> | null = null;
+
+/**
+ * Sends queued mutations one at a time, oldest first. A refused mutation is dropped, which rolls
+ * it back on screen; a network failure leaves the rest queued until `retryAt` or reconnection.
+ */
+export function processReactionQueue(client: FeedClient, now = () => new Date()) {
+  running ??= (async () => {
+    await reactionStore.hydrate();
+    let mutation: ReactionMutation | undefined;
+    while ((mutation = reactionStore.getState().queue[0])) {
+      const sending = mutation;
+      reactionStore.setState((state) => ({
+        ...state,
+        queue: coalesceMutations(state.queue, sending.id),
+      }));
+      try {
+        acknowledge(sending, await client.setReaction(sending.postId, sending.kind, sending.on));
+      } catch (error) {
+        if (isRetryableFeedError(error)) {
+          reactionStore.setState((state) => ({
+            ...state,
+            retryAt: new Date(now().getTime() + RETRY_MS).toISOString(),
+          }));
+          return;
+        }
+        reactionStore.setState((state) => ({
+          ...state,
+          queue: state.queue.filter((queued) => queued.id !== sending.id),
+          rejected: sending,
+        }));
+      }
+    }
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+}
+
+/** Reloads the viewer's bookmarks from the server into the store. */
+export async function loadBookmarks(client: FeedClient) {
+  const posts: Post[] = [];
+  let cursor: string | null = null;
+  for (let page = 0; page < MAX_BOOKMARK_PAGES; page++) {
+    const result = await client.listBookmarks({ cursor });
+    posts.push(...result.items);
+    cursor = result.nextCursor;
+    if (!cursor) {
+      break;
+    }
+  }
+  reactionStore.setState((state) => ({
+    ...state,
+    confirmed: { ...state.confirmed, ...Object.fromEntries(posts.map((post) => [post.id, post])) },
+    bookmarkIds: posts.map((post) => post.id),
+  }));
+}
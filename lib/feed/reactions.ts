@@ -0,0 +1,74 @@
+import type { Post, ReactionKind, ViewerReactions } from '@/lib/feed/types';
+
+/** A like, repost or bookmark the viewer has made (or undone) that the server has not confirmed. */
+export type ReactionMutation = {
+  id: string;
+  postId: string;
+  kind: ReactionKind;
+  on: boolean;
+  /** ISO 8601. */
+  createdAt: string;
+};
+
+export type PostReactions = Pick<Post, 'likeCount' | 'repostCount'> & { viewer: ViewerReactions };
+
+const COUNT_FIELDS: Partial<Record<ReactionKind, 'likeCount' | 'repostCount'>> = {
+  like: 'likeCount',
+  repost: 'repostCount',
+};
+
+export function reactionsOf(post: Post): PostReactions {
+  return {
+    likeCount: post.likeCount,
+    repostCount: post.repostCount,
+    viewer: post.viewer ?? { like: false, repost: false, bookmark: false },
+  };
+}
+
+/**
+ * What the viewer should see: the server's last word with the still-queued mutations for this
+ * post applied in order. Dropping a mutation from the queue is therefore all a rollback takes.
+ */
+export function applyMutations(base: PostReactions, mutations: ReactionMutation[]) {
+  let state = base;
+  for (const mutation of mutations) {
+    if (state.viewer[mutation.kind] === mutation.on) {
+      continue;
+    }
+    state = { ...state, viewer: { ...state.viewer, [mutation.kind]: mutation.on } };
+    const field = COUNT_FIELDS[mutation.kind];
+    if (field) {
+      state = { ...state, [field]: Math.max(0, state[field] + (mutation.on ? 1 : -1)) };
+    }
+  }
+  return state;
+}
+
+/**
+ * Keeps only the last mutation for each post and kind, since the requests are idempotent and
+ * only the final state matters. `inFlight` is never dropped, as it may already have been sent.
+ */
+export function coalesceMutations(queue: ReactionMutation[], inFlight?: string) {
+  const last = new Map<string, string>();
+  for (const mutation of queue) {
+    last.set(`${mutation.postId}:${mutation.kind}`, mutation.id);
+  }
+  return queue.filter(
+    (mutation) =>
+      mutation.id === inFlight || last.get(`${mutation.postId}:${mutation.kind}`) === mutation.id
+  );
+}
+
+/** `bookmarkIds` with queued bookmark changes applied, most recent first. */
+export function pendingBookmarkIds(bookmarkIds: string[], queue: ReactionMutation[]) {
+  let ids = bookmarkIds;
+  for (const mutation of queue) {
+    if (mutation.kind === 'bookmark') {
+      ids = ids.filter((id) => id !== mutation.postId);
+      if (mutation.on) {
+        ids = [mutation.postId, ...ids];
+      }
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,74 @@
+import { extractHashtags } from '@/lib/feed/hashtags';
+import { canonicalTagKey } from '@/lib/feed/normalize';
+import type { Post } from '@/lib/feed/types';
+import { normalizeText, splitTerms } from '@/lib/text';
+
+export type SearchQuery = {
+  /** Without the `#`, as typed. */
+  tags: string[];
+  terms: string[];
+};
+
+/** Splits what was typed into `#tags` and free-text terms; full-width spaces separate too. */
+export function parseSearchQuery(input: string): SearchQuery {
+  const tags: string[] = [];
+  const terms: string[] = [];
+  for (const token of splitTerms(input)) {
+    const tag = extractHashtags(token)[0];
+    if (/^[#＃]/.test(token) && tag) {
+      tags.push(tag);
+    } else {
+      terms.push(token);
+    }
+  }
+  return { tags, terms };
+}
+
+export function formatSearchQuery({ tags, terms }: SearchQuery) {
+  return [...tags.map((tag) => `#${tag}`), ...terms].join(' ');
+}
+
+function tagKeysOf(post: Pick<Post, 'body' | 'individual'>) {
+  const keys = new Set(extractHashtags(post.body).map(canonicalTagKey));
+  if (post.individual) {
+    keys.add(canonicalTagKey(post.individual.japaneseName));
+    if (post.individual.scientificName) {
+      keys.add(canonicalTagKey(post.individual.scientificName));
+    }
+  }
+  return keys;
+}
+
+/**
+ * Whether `post` has every tag and every term in `query`. A term also matches a post tagged with
+ * the same species under another name, so `オオクワガタ` finds `#Dorcus_hopei`.
+ */
+export function matchesSearch(
+  post: Pick<Post, 'body' | 'individual'> & { author?: Post['author'] },
+  query: SearchQuery
+) {
+  const keys = tagKeysOf(post);
+  const text = normalizeText(
+    [
+      post.body,
+      post.author?.displayName,
+      post.author?.handle,
+      post.individual?.label,
+      post.individual?.japaneseName,
+      post.individual?.scientificName,
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+  return (
+    query.tags.every((tag) => keys.has(canonicalTagKey(tag))) &&
+    query.terms.every(
+      (term) => text.includes(normalizeText(term)) || keys.has(canonicalTagKey(term))
+    )
+  );
+}
+
+/** Whether the post is tagged with `tag` or any spelling of it. */
+export function hasHashtag(post: Pick<Post, 'body' | 'individual'>, tag: string) {
+  return tagKeysOf(post).has(canonicalTagKey(tag));
+}
@@ -0,0 +1,68 @@
+import { extractHashtags } from '@/lib/feed/hashtags';
+import { canonicalTagKey } from '@/lib/feed/normalize';
+import type { Post, TrendingTag, TrendWindow } from '@/lib/feed/types';
+
+const WINDOW_HOURS: Record<TrendWindow, number> = { day: 24, week: 24 * 7 };
+/** The baseline is this many windows immediately before the current one. */
+const BASELINE_WINDOWS = 4;
+const HOUR_MS = 60 * 60_000;
+
+type Tally = { spellings: Map<string, number>; recent: number; baseline: number };
+
+/**
+ * Tags ranked by how much faster they are being used in the latest `span` than in the four
+ * before it, so a small tag taking off outranks a big one ticking along. Spellings that share a
+ * `canonicalTagKey` are counted together and shown under the most used one.
+ */
+export function rankTrends(
+  posts: Pick<Post, 'body' | 'createdAt'>[],
+  now: Date,
+  span: TrendWindow = 'day',
+  limit = 20
+): TrendingTag[] {
+  const windowMs = WINDOW_HOURS[span] * HOUR_MS;
+  const windowStart = now.getTime() - windowMs;
+  const baselineStart = windowStart - windowMs * BASELINE_WINDOWS;
+  const tallies = new Map<string, Tally>();
+
+  for (const post of posts) {
+    const time = new Date(post.createdAt).getTime();
+    if (time < baselineStart || time > now.getTime()) {
+      continue;
+    }
+    for (const tag of extractHashtags(post.body)) {
+      const key = canonicalTagKey(tag);
+      const tally = tallies.get(key) ?? { spellings: new Map(), recent: 0, baseline: 0 };
+      tally.spellings.set(tag, (tally.spellings.get(tag) ?? 0) + 1);
+      if (time >= windowStart) {
+        tally.recent++;
+      } else {
+        tally.baseline++;
+      }
+      tallies.set(key, tally);
+    }
+  }
+
+  return [...tallies.entries()]
+    .filter(([, tally]) => tally.recent > 0)
+    .map(([key, tally]) => {
+      const variants = [...tally.spellings.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([spelling]) => spelling);
+      // +1 on both sides so a single post does not outrank a steady stream.
+      const velocity = (tally.recent + 1) / (tally.baseline / BASELINE_WINDOWS + 1);
+      return {
+        key,
+        tag: variants[0],
+        variants,
+        recentCount: tally.recent,
+        baselineCount: tally.baseline,
+        velocity,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.velocity - a.velocity || b.recentCount - a.recentCount || a.key.localeCompare(b.key)
+    )
+    .slice(0, limit);
+}
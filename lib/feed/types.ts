@@ -0,0 +1,221 @@
+import type { LarvalInstar, LifeStage } from '@/lib/catalog';
+import type { IndividualSex, IndividualVisibility } from '@/lib/records';
+
+export type Author = {
+  id: string;
+  /** Without the `@`. */
+  handle: string;
+  displayName: string;
+  avatarUri?: string;
+};
+
+export type UserProfile = Author & {
+  bio?: string;
+  postCount: number;
+  followerCount: number;
+  followingCount: number;
+  /** How the signed-in viewer relates to this user; absent when signed out or for themselves. */
+  viewer?: { following: boolean; followedBy: boolean };
+};
+
+/**
+ * The part of a breeding record a keeper shares on their profile. Notes and photos stay on the
+ * device; only individuals set to `followers` or `public` are ever sent.
+ */
+export type ShowcaseIndividual = {
+  id: string;
+  label: string;
+  japaneseName: string;
+  scientificName?: string;
+  sex: IndividualSex;
+  stage: LifeStage;
+  generation?: string;
+  locality?: string;
+  /** `YYYY-MM-DD`. */
+  hatchDate?: string;
+  instar?: LarvalInstar;
+  /** The latest recorded weight. */
+  weightG?: number;
+  visibility: Exclude<IndividualVisibility, 'private'>;
+  /** ISO 8601. */
+  updatedAt: string;
+};
+
+export type PostImage = {
+  uri: string;
+  alt?: string;
+};
+
+/** A snapshot of the breeding individual a post is about; records themselves stay on device. */
+export type LinkedIndividual = {
+  id: string;
+  label: string;
+  japaneseName: string;
+  scientificName?: string;
+};
+
+export type ReactionKind = 'like' | 'repost' | 'bookmark';
+
+/** What the signed-in viewer has done to a post; absent when nobody is signed in. */
+export type ViewerReactions = Record<ReactionKind, boolean>;
+
+export type Post = {
+  id: string;
+  author: Author;
+  body: string;
+  images: PostImage[];
+  /** ISO 8601. */
+  createdAt: string;
+  individual?: LinkedIndividual;
+  /** The post this one answers; absent for top-level posts. */
+  replyToId?: string;
+  /** Direct replies only; each reply carries its own count. */
+  replyCount: number;
+  likeCount: number;
+  repostCount: number;
+  viewer?: ViewerReactions;
+};
+
+/** One page of a cursor-paginated list. `nextCursor` is `null` on the last page. */
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+export type PageRequest = {
+  /** The previous page's `nextCursor`; omit for the first page. */
+  cursor?: string | null;
+  limit?: number;
+};
+
+export type NewPost = {
+  body: string;
+  /** Media URLs returned by `completeUpload`. */
+  images: PostImage[];
+  individual?: LinkedIndividual;
+  replyToId?: string;
+};
+
+/** A hashtag together with the other spellings that mean the same thing. */
+export type HashtagSummary = {
+  tag: string;
+  /** See `canonicalTagKey`. */
+  key: string;
+  /** Every spelling in use, most used first. */
+  variants: string[];
+  postCount: number;
+};
+
+export type TrendWindow = 'day' | 'week';
+
+export type TrendingTag = {
+  key: string;
+  /** The most used spelling. */
+  tag: string;
+  variants: string[];
+  /** Posts using the tag in the current window. */
+  recentCount: number;
+  /** Posts using the tag in the four windows before it. */
+  baselineCount: number;
+  /** How many times faster than usual the tag is being used; the ranking key. */
+  velocity: number;
+};
+
+export type ActivityType = 'follow' | 'like' | 'reply';
+
+/** Something another user did that concerns the viewer. */
+export type Activity = {
+  id: string;
+  actor: Author;
+  /** ISO 8601. */
+  createdAt: string;
+} & (
+  | { type: 'follow' }
+  | {
+      type: 'like' | 'reply';
+      /** The viewer's post that was liked, or the reply itself. */
+      postId: string;
+      /** The start of that post, to show without loading it. */
+      excerpt: string;
+    }
+);
+
+/** Server-side state of a resumable upload. */
+export type UploadStatus = {
+  uploadId: string;
+  byteLength: number;
+  /** Bytes stored so far; the next chunk starts here. */
+  received: number;
+  /** Set once the upload is complete. */
+  mediaUrl: string | null;
+};
+
+export interface FeedClient {
+  /** Top-level posts, newest first. */
+  listTimeline(request?: PageRequest): Promise<Page<Post>>;
+  getPost(id: string): Promise<Post | null>;
+  /** Direct replies to a post, oldest first so a thread reads top to bottom. */
+  listReplies(postId: string, request?: PageRequest): Promise<Page<Post>>;
+  /** Hashtags starting with `prefix`, most used first, without the `#`. */
+  suggestHashtags(prefix: string): Promise<string[]>;
+  /** Top-level posts matching `#tags` and free text (see `parseSearchQuery`), newest first. */
+  searchPosts(query: string, request?: PageRequest): Promise<Page<Post>>;
+  /** `null` when no post uses the tag under any spelling. */
+  getHashtag(tag: string): Promise<HashtagSummary | null>;
+  /** Posts using any spelling of `tag`, newest first. */
+  listHashtagPosts(tag: string, request?: PageRequest): Promise<Page<Post>>;
+  listTrends(span: TrendWindow): Promise<TrendingTag[]>;
+
+  /** Starts a resumable upload; send the bytes with `uploadChunk`. */
+  createUpload(file: { byteLength: number; mimeType: string }): Promise<UploadStatus>;
+  /** `null` once the server has discarded an unfinished upload; start a new one. */
+  getUpload(uploadId: string): Promise<UploadStatus | null>;
+  /** `offset` must equal the status's `received`, so a retried chunk is never stored twice. */
+  uploadChunk(uploadId: string, offset: number, bytes: Uint8Array): Promise<UploadStatus>;
+  completeUpload(uploadId: string): Promise<UploadStatus>;
+  /**
+   * Requires a signed-in viewer. Sending the same `idempotencyKey` again returns the post it
+   * created the first time, so a retry after a lost response never posts twice.
+   */
+  createPost(post: NewPost, idempotencyKey: string): Promise<Post>;
+  /** Idempotent; resolves with the post's updated counts and viewer state. */
+  setReaction(postId: string, kind: ReactionKind, on: boolean): Promise<Post>;
+  /** The viewer's bookmarks, most recently bookmarked first. */
+  listBookmarks(request?: PageRequest): Promise<Page<Post>>;
+
+  getUser(id: string): Promise<UserProfile | null>;
+  /** Top-level posts by the user, newest first. */
+  listUserPosts(userId: string, request?: PageRequest): Promise<Page<Post>>;
+  /** Only the individuals the viewer is allowed to see; see `canViewShowcase`. */
+  listShowcase(userId: string): Promise<ShowcaseIndividual[]>;
+  /** Replaces everything the viewer shares on their profile. */
+  publishShowcase(individuals: ShowcaseIndividual[]): Promise<void>;
+  setFollowing(userId: string, on: boolean): Promise<UserProfile>;
+  /** Most recent first. */
+  listFollowers(userId: string, request?: PageRequest): Promise<Page<UserProfile>>;
+  /** Most recent first. */
+  listFollowing(userId: string, request?: PageRequest): Promise<Page<UserProfile>>;
+  /** What others did to the viewer and their posts, newest first. Requires a signed-in viewer. */
+  listActivity(request?: PageRequest): Promise<Page<Activity>>;
+}
+
+export class FeedError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'FeedError';
+  }
+}
+
+/**
+ * Whether a failed request is worth repeating as is: network failures, timeouts, rate limits,
+ * conflicts, server errors and an expired session. Anything else was rejected for good.
+ */
+export function isRetryableFeedError(error: unknown) {
+  if (!(error instanceof FeedError)) {
+    return true;
+  }
+  return error.status >= 500 || [401, 408, 409, 429].includes(error.status);
+}
@@ -0,0 +1,6 @@
+/** Message per invalid field, as returned by the `validate*` helpers. */
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+export function hasErrors<T>(errors: FieldErrors<T>) {
+  return Object.keys(errors).length > 0;
+}
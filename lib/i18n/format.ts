@@ -0,0 +1,108 @@
+import { getLocale, INTL_LOCALES, type Locale } from '@/lib/i18n/locale';
+
+/** e.g. `¥12,800`. Yen has no minor unit, so amounts are whole numbers in every locale. */
+export function formatYen(amountYen: number, locale: Locale = getLocale()) {
+  return `¥${Math.round(amountYen).toLocaleString(INTL_LOCALES[locale])}`;
+}
+
+/**
+ * Japanese eras since the Meiji calendar reform, newest first. `start` is when dates are written
+ * in the era; `firstYear` is the Western year of its 元年, which for Meiji is 1868, five years
+ * before the Gregorian calendar was adopted.
+ */
+const ERAS = [
+  { name: '令和', start: new Date(2019, 4, 1), firstYear: 2019 },
+  { name: '平成', start: new Date(1989, 0, 8), firstYear: 1989 },
+  { name: '昭和', start: new Date(1926, 11, 25), firstYear: 1926 },
+  { name: '大正', start: new Date(1912, 6, 30), firstYear: 1912 },
+  { name: '明治', start: new Date(1873, 0, 1), firstYear: 1868 },
+];
+
+/**
+ * e.g. `令和8年10月19日`, with the first year of an era written `元年` as on legal documents.
+ * Dates before 1873 fall back to the Western year.
+ */
+export function formatWareki(date: Date) {
+  const era = ERAS.find(({ start }) => date >= start);
+  const month = date.getMonth() + 1;
+  if (!era) {
+    return `${date.getFullYear()}年${month}月${date.getDate()}日`;
+  }
+  const year = date.getFullYear() - era.firstYear + 1;
+  return `${era.name}${year === 1 ? '元' : year}年${month}月${date.getDate()}日`;
+}
+
+/**
+ * `2026年10月19日` or `Oct 19, 2026`. With `era`, Japanese dates use the imperial era instead
+ * (`令和8年10月19日`); English dates are unaffected.
+ */
+export function formatDate(
+  date: Date,
+  { locale = getLocale(), era = false }: { locale?: Locale; era?: boolean } = {}
+) {
+  if (era && locale === 'ja') {
+    return formatWareki(date);
+  }
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    year: 'numeric',
+    month: locale === 'ja' ? 'long' : 'short',
+    day: 'numeric',
+  }).format(date);
+}
+
+/** `2026年10月19日 14:05` or `Oct 19, 2026, 14:05`, always on a 24-hour clock. */
+export function formatDateTime(date: Date, locale: Locale = getLocale()) {
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    year: 'numeric',
+    month: locale === 'ja' ? 'long' : 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(date);
+}
+
+/** Months of the year (1-12), e.g. `6・7・8月` or `Jun, Jul, Aug`. */
+export function formatMonths(months: number[], locale: Locale = getLocale()) {
+  if (locale === 'ja') {
+    return `${months.join('・')}月`;
+  }
+  const format = new Intl.DateTimeFormat(INTL_LOCALES[locale], { month: 'short' });
+  return months.map((month) => format.format(new Date(2000, month - 1, 1))).join(', ');
+}
+
+export type MeasurementUnit = 'mm' | 'g' | 'celsius' | 'percent' | 'day';
+
+/** How each unit follows a number. Japanese writes units flush; English spaces them out. */
+const UNIT_FORMATS: Record<
+  Locale,
+  Record<MeasurementUnit, (value: string, count: number) => string>
+> = {
+  ja: {
+    mm: (value) => `${value}mm`,
+    g: (value) => `${value}g`,
+    celsius: (value) => `${value}℃`,
+    percent: (value) => `${value}%`,
+    day: (value) => `${value}日`,
+  },
+  en: {
+    mm: (value) => `${value} mm`,
+    g: (value) => `${value} g`,
+    celsius: (value) => `${value} °C`,
+    percent: (value) => `${value}%`,
+    day: (value, count) => `${value} ${count === 1 ? 'day' : 'days'}`,
+  },
+};
+
+/** e.g. `72.5mm` or `72.5 mm`, rounded to `maximumFractionDigits` (one by default). */
+export function formatMeasurement(
+  value: number,
+  unit: MeasurementUnit,
+  {
+    locale = getLocale(),
+    maximumFractionDigits = 1,
+  }: { locale?: Locale; maximumFractionDigits?: number } = {}
+) {
+  const number = value.toLocaleString(INTL_LOCALES[locale], { maximumFractionDigits });
+  return UNIT_FORMATS[locale][unit](number, value);
+}
@@ -0,0 +1,4 @@
+export * from '@/lib/i18n/format';
+export * from '@/lib/i18n/locale';
+export * from '@/lib/i18n/preference';
+export * from '@/lib/i18n/translate';
@@ -0,0 +1,41 @@
+export type Locale = 'ja' | 'en';
+
+export const LOCALES: readonly Locale[] = ['ja', 'en'];
+
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+/** Each language's name in that language, as shown in the language picker. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ja: '日本語',
+  en: 'English',
+};
+
+/** BCP 47 tags passed to `Intl` and `toLocaleString`. */
+export const INTL_LOCALES: Record<Locale, string> = {
+  ja: 'ja-JP',
+  en: 'en-US',
+};
+
+/** The supported locale for a BCP 47 tag such as `en-GB`, falling back to Japanese. */
+export function matchLocale(tag: string | undefined): Locale {
+  const language = tag?.split(/[-_]/)[0].toLowerCase();
+  return LOCALES.find((locale) => locale === language) ?? DEFAULT_LOCALE;
+}
+
+export function deviceLocale(): Locale {
+  return matchLocale(Intl.DateTimeFormat().resolvedOptions().locale);
+}
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+/**
+ * The locale used by formatters called outside of React, such as `formatPrice`. Kept in step with
+ * the language setting by `LocaleSync`.
+ */
+export function getLocale() {
+  return currentLocale;
+}
+
+export function setLocale(locale: Locale) {
+  currentLocale = locale;
+}
@@ -0,0 +1,782 @@
+import type { Catalog } from '@/lib/i18n/translate';
+
+export const en: Catalog = {
+  'common.loadFailed': 'Could not load',
+  'common.reload': 'Reload',
+  'common.empty': 'Nothing here yet',
+  'common.followSystem': 'Use device setting',
+
+  'tabs.shop': 'Shop',
+  'tabs.timeline': 'Timeline',
+  'tabs.records': 'Records',
+  'tabs.mypage': 'My Page',
+  'tabs.cart': 'Cart',
+  'tabs.productSearch': 'Search products',
+  'tabs.notifications': 'Notifications',
+  'tabs.notificationsUnread': 'Notifications (unread)',
+  'tabs.trends': 'Trends',
+  'tabs.hashtagSearch': 'Search hashtags',
+  'tabs.compose': 'New post',
+
+  'screens.post': 'Post',
+  'screens.products': 'All products',
+  'screens.product': 'Product details',
+  'screens.category': 'Category',
+  'screens.hashtagSearch': 'Search hashtags',
+  'screens.hashtag': 'Hashtag',
+  'screens.trends': 'Trends',
+  'screens.profile': 'Profile',
+  'screens.sharedIndividual': 'Shared individual',
+  'screens.notifications': 'Notifications',
+  'screens.compose': 'New post',
+  'screens.search': 'Search results',
+  'screens.feature': 'Feature',
+  'screens.faq': 'FAQ',
+  'screens.contact': 'Contact us',
+  'screens.notFound': 'Page not found',
+
+  'mypage.title': 'My Page',
+  'mypage.editProfile': 'Edit account',
+  'mypage.addresses': 'Shipping addresses',
+  'mypage.addressNew': 'Add address',
+  'mypage.addressEdit': 'Edit address',
+  'mypage.orders': 'Order history',
+  'mypage.orderDetail': 'Order details',
+  'mypage.points': 'Points',
+  'mypage.pointHistory': 'Point history',
+  'mypage.favorites': 'Favorites',
+  'mypage.bookmarks': 'Bookmarks',
+  'mypage.bookmarkList': 'Bookmarks',
+  'mypage.follows': 'Following & followers',
+  'mypage.myProfile': 'My profile',
+  'mypage.notifications': 'Notifications',
+  'mypage.notificationsUnread': 'Notifications ({count} unread)',
+  'mypage.notificationSettings': 'Notification settings',
+  'mypage.section.orders': 'Orders',
+  'mypage.section.community': 'Community',
+  'mypage.section.settings': 'Settings',
+  'mypage.section.support': 'Support & legal',
+  'mypage.faq': 'FAQ',
+  'mypage.contact': 'Contact us',
+  'mypage.about': 'About us',
+  'mypage.terms': 'Terms of service',
+  'mypage.commercialTransactions': 'Specified Commercial Transactions Act disclosure',
+  'mypage.privacy': 'Privacy policy',
+  'mypage.logOut': 'Log out',
+
+  'settings.theme': 'Theme',
+  'settings.colorScheme.system': 'Use device setting',
+  'settings.colorScheme.light': 'Light',
+  'settings.colorScheme.dark': 'Dark',
+  'settings.language': 'Language',
+  'settings.biometricLock': 'Lock with biometrics',
+  'settings.biometricLockHint': 'Ask for Face ID or fingerprint when you return to the app',
+
+  'catalog.sex.male': '♂',
+  'catalog.sex.female': '♀',
+  'catalog.sex.pair': 'Pair',
+  'catalog.sex.unsexed': 'Unsexed',
+  'catalog.stage.egg': 'Egg',
+  'catalog.stage.larva': 'Larva',
+  'catalog.stage.pupa': 'Pupa',
+  'catalog.stage.adult': 'Adult',
+  'catalog.empty': 'No products',
+  'catalog.categoryNotFound': 'Category not found',
+  'catalog.soldOut': 'Sold out',
+  'catalog.addFavorite': 'Add to favorites',
+  'catalog.removeFavorite': 'Remove from favorites',
+
+  'product.species': 'Species',
+  'product.scientificName': 'Scientific name',
+  'product.locality': 'Locality',
+  'product.generation': 'Generation',
+  'product.sex': 'Sex',
+  'product.stage': 'Stage',
+  'product.stock': 'Stock',
+  'product.stockCount': '{count} left',
+  'product.allInCart': 'All available stock is in your cart',
+  'product.addToCart': 'Add to cart',
+  'product.restockHint': 'Add it to your favorites and we will notify you when it is back in stock',
+  'product.inCart': '{count} in your cart',
+  'product.addToRecords': 'Add the beetle you bought to your records',
+
+  'common.delete': 'Delete',
+  'common.cancel': 'Cancel',
+  'common.edit': 'Edit',
+  'common.save': 'Save',
+  'common.add': 'Add',
+  'common.register': 'Register',
+  'common.close': 'Close',
+  'common.saved': 'Saved',
+  'form.notes': 'Notes (optional)',
+  'form.record': 'Save entry',
+
+  'cart.empty': 'Your cart is empty',
+  'cart.subtotal': 'Subtotal (tax incl.)',
+  'cart.checkout': 'Check out',
+  'cart.decrease': 'Decrease quantity',
+  'cart.increase': 'Increase quantity',
+  'cart.issue.unavailable': 'Currently unavailable',
+  'cart.issue.exceedsStock': 'Only {stock} left in stock',
+  'cart.issue.outOfSeason': 'To protect the animal, this ships only in {months}',
+  'cart.issue.mixedHandling':
+    'Animals that need cooling and animals that need warming cannot ship together. Please order them separately.',
+
+  'home.categories': 'Categories',
+  'home.products': 'All products',
+  'home.allProducts': 'See all products',
+  'home.footer.faq': 'FAQ',
+  'home.footer.contact': 'Contact us',
+  'home.footer.about': 'About us',
+  'home.footer.terms': 'Terms of service',
+  'home.footer.commercial-transactions': 'Legal notice',
+  'home.footer.privacy': 'Privacy policy',
+
+  'validation.dateFormat': 'Enter a date like 2025-06-01',
+  'validation.futureDate': 'You cannot record a date in the future',
+
+  'individual.error.label': 'Enter a name for the beetle',
+  'individual.error.japaneseName': 'Enter the species',
+  'individual.error.scientificName': 'Enter the scientific name like "Dorcus hopei"',
+  'individual.error.generation': 'Enter the generation like WD, WF1 or CBF1',
+  'individual.error.hatchDateFormat': 'Enter the hatch date like 2025-06-01',
+  'individual.error.hatchDateFuture': 'The hatch date cannot be in the future',
+  'individual.error.sameParents': 'The father and mother must be different beetles',
+  'individual.sex.male': '♂',
+  'individual.sex.female': '♀',
+  'individual.sex.unknown': 'Unknown',
+  'individual.status.alive': 'Alive',
+  'individual.status.dead': 'Dead',
+  'individual.status.sold': 'Rehomed',
+  'individual.visibility.private': 'Private',
+  'individual.visibility.followers': 'Followers only',
+  'individual.visibility.public': 'Public',
+  'individual.hatched': 'Hatched {date}',
+  'individual.form.label': 'Name',
+  'individual.form.japaneseName': 'Species',
+  'individual.form.japaneseNamePlaceholder': 'Giant stag beetle',
+  'individual.form.scientificName': 'Scientific name (optional)',
+  'individual.form.locality': 'Locality (optional)',
+  'individual.form.localityPlaceholder': 'Nirasaki, Yamanashi',
+  'individual.form.generation': 'Generation (optional)',
+  'individual.form.sex': 'Sex',
+  'individual.form.stage': 'Stage',
+  'individual.form.hatchDate': 'Hatch date (optional)',
+  'individual.form.father': 'Father (♂)',
+  'individual.form.mother': 'Mother (♀)',
+  'individual.form.noParent': 'None',
+  'individual.form.status': 'Status',
+  'individual.form.visibility': 'Visibility',
+  'individual.notFound': 'Beetle not found',
+  'individual.species': 'Species',
+  'individual.scientificName': 'Scientific name',
+  'individual.locality': 'Locality',
+  'individual.generation': 'Generation',
+  'individual.stage': 'Stage',
+  'individual.hatchDate': 'Hatched',
+  'individual.age': '{date} ({days} days old)',
+  'individual.status': 'Status',
+  'individual.weight': 'Weight',
+  'individual.eclosion': 'Expected eclosion',
+  'individual.weightDrop': 'Weight is dropping. Check the growth log.',
+  'individual.growthLink': 'Growth log ({count})',
+  'individual.pedigreeLink': 'View pedigree',
+  'individual.habitatLink': 'Temperature and humidity: {name}',
+  'individual.addHabitat': 'Add a place to log temperature and humidity',
+  'individual.sourceProduct': 'View the product you bought',
+  'individual.children': 'Offspring ({count})',
+  'individual.pairings': 'Pairings ({count})',
+  'individual.archive': 'Archive',
+  'individual.unarchive': 'Unarchive',
+
+  'breeding.error.male': 'Choose a male',
+  'breeding.error.female': 'Choose a female',
+  'breeding.error.setUpBeforePairing': 'The egg-laying set must be on or after the pairing date',
+  'breeding.error.eggs': 'Enter the number of eggs as a whole number',
+  'breeding.error.larvae': 'Enter the number of larvae as a whole number',
+  'breeding.inbreeding': 'This is an inbred pairing (inbreeding coefficient {coefficient}%)',
+  'breeding.sharedAncestors': 'Shared ancestors:',
+  'breeding.new': 'Record a pairing',
+  'breeding.pairingOn': 'Pairing on {date}',
+  'breeding.notFound': 'Pairing not found',
+  'breeding.deletedIndividual': 'Deleted beetle',
+  'breeding.pairedOn': 'Paired',
+  'breeding.setUpOn': 'Egg-laying set',
+  'breeding.total': 'Total',
+  'breeding.counts': 'Eggs {eggs} / Larvae {larvae}',
+  'breeding.harvests': 'Harvests',
+  'breeding.noHarvests': 'No harvests recorded yet',
+  'breeding.harvestNumber': '#{number} {date}',
+  'breeding.deleteHarvest': 'Delete the harvest on {date}',
+  'breeding.form.harvestDate': 'Harvest date',
+  'breeding.form.eggs': 'Eggs',
+  'breeding.form.larvae': 'Larvae',
+  'breeding.form.notesPlaceholder': 'Second log',
+  'breeding.addHarvest': 'Record harvest',
+  'breeding.registerOffspring': 'Add larvae as beetles',
+  'breeding.delete': 'Delete this pairing',
+  'breeding.summary': 'Paired {date} / {harvests} harvests / {eggs} eggs, {larvae} larvae',
+  'breeding.empty': 'Tap + at the top right to record a pairing',
+  'breeding.form.male': '♂ (adult)',
+  'breeding.form.female': '♀ (adult)',
+  'breeding.form.pairedOn': 'Pairing date',
+  'breeding.form.setUpOn': 'Egg-laying set date (optional)',
+
+  'growth.event.mat-change': 'Substrate or fungus bottle change',
+  'growth.event.food-change': 'Food change',
+  'growth.event.pupation': 'Pupation',
+  'growth.event.eclosion': 'Eclosion',
+  'growth.error.weight': 'Enter a weight between 0 and 200 g',
+  'growth.error.headWidth': 'Enter a head width between 0 and 50 mm',
+  'growth.error.empty': 'Enter a weight, head width, instar or event',
+  'growth.projection.eclosed': 'Eclosed {date}',
+  'growth.projection.around': 'Around {date}',
+  'growth.projection.from.pupation': '{window} (estimated from pupation)',
+  'growth.projection.from.hatch': '{window} (estimated from hatching)',
+  'growth.title': 'Growth log',
+  'growth.new': 'Log growth',
+  'growth.titleOf': 'Growth log for {label}',
+  'growth.instar': 'Instar',
+  'growth.projectionHint': 'Record a hatch or pupation date to get an estimate',
+  'growth.weightDrop': 'Weight is dropping',
+  'growth.weightDropHint':
+    'Check the temperature, whether the food has spoiled, and whether the larva is restless.',
+  'growth.weight': 'Weight',
+  'growth.headWidth': 'Head width',
+  'growth.headWidthValue': 'Head {value}',
+  'growth.empty': 'No entries yet',
+  'growth.deleteEntry': 'Delete the entry for {date}',
+  'growth.form.date': 'Date',
+  'growth.form.weight': 'Weight (g)',
+  'growth.form.headWidth': 'Head width (mm)',
+  'growth.form.noInstar': "Don't record",
+  'growth.form.event': 'Event',
+  'growth.form.noEvent': 'None',
+  'growth.form.substrate': 'New food or container (optional)',
+  'growth.form.substratePlaceholder': 'Fungus bottle 1400cc',
+
+  'environment.kind.room': 'Room',
+  'environment.kind.case': 'Case or incubator',
+  'environment.metric.temperatureC': 'Temperature',
+  'environment.metric.humidityPct': 'Humidity',
+  'environment.outOfRange.temperatureC.high': '{when} Too hot (up to {extreme}℃)',
+  'environment.outOfRange.temperatureC.low': '{when} Too cold (down to {extreme}℃)',
+  'environment.outOfRange.humidityPct.high': '{when} Too humid (up to {extreme}%)',
+  'environment.outOfRange.humidityPct.low': '{when} Too dry (down to {extreme}%)',
+  'environment.error.atFormat': 'Enter a date and time like 2025-06-01 21:00',
+  'environment.error.atFuture': 'You cannot record a time in the future',
+  'environment.error.temperature': 'Enter a temperature between -30 and 60℃',
+  'environment.error.humidity': 'Enter a humidity between 0 and 100%',
+  'environment.error.empty': 'Enter a temperature or humidity',
+  'environment.import.empty': 'The file is empty',
+  'environment.import.noColumns': 'Could not find date, temperature or humidity columns',
+  'environment.import.noRows': 'No rows could be read',
+  'environment.error.name': 'Enter a name',
+  'environment.form.name': 'Name',
+  'environment.form.namePlaceholder': 'Breeding room / Incubator A',
+  'environment.form.kind': 'Type',
+  'environment.form.individuals': 'Beetles kept here',
+  'environment.title': 'Temperature and humidity log',
+  'environment.new': 'Add room or case',
+  'environment.empty':
+    'Tap + at the top right to add the rooms and cases where your thermo-hygrometers sit',
+  'environment.noReadings': 'No readings yet',
+  'environment.recentAlerts': '{count} out-of-range readings in the last 24 hours',
+  'environment.notFound': 'Room or case not found',
+  'environment.idealRange': 'Ideal {metric}',
+  'environment.conflict':
+    'Species with non-overlapping ideal ranges share this place. Consider keeping them apart.',
+  'environment.noClimate':
+    "Assign beetles with a scientific name to get warnings based on each species' ideal range.",
+  'environment.span.1': '24 hours',
+  'environment.span.7': '7 days',
+  'environment.span.30': '30 days',
+  'environment.noReadingsInSpan': 'No readings in this period',
+  'environment.outOfRangeTitle': 'Some readings were out of range',
+  'environment.addReading': 'Add reading',
+  'environment.importCsv': 'Import thermo-hygrometer CSV',
+  'environment.import.done': 'Imported {count} readings',
+  'environment.import.doneWithSkipped': 'Imported {count} readings ({skipped} rows skipped)',
+  'environment.import.failed': "Couldn't read the file",
+  'environment.form.at': 'Date and time',
+  'environment.form.value': '{metric} ({unit})',
+  'environment.manualRecord': 'Record manually',
+  'environment.individuals': 'Beetles ({count})',
+  'environment.delete': 'Delete this place and its readings',
+
+  'pedigree.father': 'Father',
+  'pedigree.mother': 'Mother',
+  'pedigree.unknownParent': '{label}: not recorded',
+  'pedigree.titleOf': 'Pedigree of {label}',
+  'pedigree.hint':
+    'Showing up to {generations} generations back. Add parents to extend the pedigree.',
+  'pedigree.share': 'Share pedigree as text',
+  'pedigree.self.male': 'the male itself',
+  'pedigree.self.female': 'the female itself',
+  'pedigree.generationsBack.male': '{depth} generations back on the male side',
+  'pedigree.generationsBack.female': '{depth} generations back on the female side',
+  'pedigree.sharedAncestor': '{label} ({male}; {female})',
+
+  'care.kind.jelly': 'Jelly change',
+  'care.kind.mat-change': 'Substrate or fungus bottle change',
+  'care.kind.weigh-in': 'Weigh-in',
+  'care.kind.misting': 'Misting',
+  'care.kind.other': 'Other',
+  'care.error.interval': 'Enter an interval between 1 and 365 days',
+  'care.error.remindAt': 'Enter a time like 19:00',
+  'care.error.title': 'Enter what needs doing',
+  'care.today': "Today's care",
+  'care.notify': 'Notify on due dates',
+  'care.nothingToday': 'Nothing due today',
+  'care.upcoming': 'Next {days} days',
+  'care.nothingUpcoming': "Nothing scheduled. Add care tasks from a beetle's or a room's screen.",
+  'care.lastDoneOn': 'Last done: {date}',
+  'care.delete': 'Delete this task',
+  'care.notFound': 'Task not found',
+  'care.due.overdue': '{days} days overdue ({date})',
+  'care.due.today': 'Today',
+  'care.due.upcoming': '{date} (in {days} days)',
+  'care.done': 'Done',
+  'care.reminderTitle': 'Care task due',
+  'care.reminderBody': '{target}: {title}',
+  'care.tasks': 'Care tasks ({count})',
+  'care.interval': '{title} (every {days} days)',
+  'care.nextDue': ' next {date}',
+  'care.paused': ' paused at the current stage',
+  'care.add': 'Add care task',
+  'care.form.kind': 'Task',
+  'care.form.title': 'Description',
+  'care.form.displayName': 'Display name (optional)',
+  'care.form.titlePlaceholder': 'Soak the egg-laying log',
+  'care.form.interval': 'Interval (days)',
+  'care.form.startsOn': 'First due date',
+  'care.form.remindAt': 'Reminder time',
+
+  'photos.title': 'Photos',
+  'photos.delete': 'Delete photo',
+  'photos.deleteConfirm': 'Delete this photo?',
+  'photos.camera': 'Camera',
+  'photos.library': 'Library',
+
+  'records.sync.signedOut':
+    'Records are saved on this device. Log in to sync them with your other devices.',
+  'records.sync.syncing': 'Syncing',
+  'records.sync.failed': 'Could not sync. We will retry automatically when you are back online.',
+  'records.sync.pending': 'Unsynced changes: {count}',
+  'records.sync.syncedAt': 'Synced {time}',
+  'records.sync.never': 'Not synced yet',
+  'records.sync.now': 'Sync now',
+  'records.sync.conflicts':
+    '{count} records were also edited on another device. The newer changes were kept.',
+  'records.new': 'Add a beetle',
+  'records.individual': 'Beetle',
+  'records.edit': 'Edit beetle',
+  'records.breedingLink': 'Breeding (pairings and harvests)',
+  'records.filter.active': 'Keeping',
+  'records.filter.archived': 'Archived',
+  'records.emptyActive': 'Tap + at the top right to add the beetles you keep',
+  'records.emptyArchived': 'No archived beetles',
+
+  'checkout.step.address': 'Address',
+  'checkout.step.delivery': 'Delivery',
+  'checkout.step.payment': 'Payment',
+  'checkout.step.review': 'Review',
+  'checkout.title.address': 'Shipping address',
+  'checkout.title.delivery': 'Delivery options',
+  'checkout.title.payment': 'Payment method',
+  'checkout.title.review': 'Review order',
+  'checkout.title.complete': 'Order placed',
+  'checkout.savedAddresses': 'Saved addresses',
+  'checkout.toDelivery': 'Continue to delivery',
+  'checkout.rememberAddress': 'Save this address to my address book',
+  'checkout.toPayment': 'Continue to payment',
+  'checkout.toReview': 'Review order',
+  'checkout.change': 'Change',
+  'checkout.items': 'Items',
+  'checkout.shipTo': 'Ship to',
+  'checkout.deliveryMethod': 'Delivery',
+  'checkout.paymentMethod': 'Payment method',
+  'checkout.recipient': '{name}',
+  'checkout.pointsUsed': 'Points used {points}',
+  'checkout.placeOrder': 'Place order',
+  'checkout.thanks': 'Thank you for your order',
+  'checkout.orderNumber': 'Order number',
+  'checkout.amountPaid': 'Amount due {amount} ({method})',
+  'checkout.shipsAfterPayment':
+    "We'll check the animals' condition and ship once payment is confirmed.",
+  'checkout.shipsAfterCheck':
+    "We'll check the animals' condition before shipping and let you know when they're on the way.",
+  'checkout.backToShop': 'Back to shop',
+  'checkout.error.empty': 'There is nothing to order',
+  'checkout.error.totalChanged': 'The total has changed. Please review your order',
+  'checkout.error.insufficientPoints': 'Not enough points. Please change the points to use',
+  'address.name': 'Name',
+  'address.postalCode': 'Postal code',
+  'address.prefecture': 'Prefecture',
+  'address.city': 'City',
+  'address.line1': 'Street address',
+  'address.line2': 'Building and room (optional)',
+  'address.phone': 'Phone number',
+  'address.error.name': 'Enter your name',
+  'address.error.postalCode': 'Enter a 7-digit postal code',
+  'address.error.prefecture': 'Choose a prefecture',
+  'address.error.city': 'Enter a city',
+  'address.error.line1': 'Enter a street address',
+  'address.error.line1Incomplete': 'Include the block and house number',
+  'address.error.phone': 'Enter a 10- or 11-digit phone number starting with 0',
+  'address.notFound': 'Address not found',
+  'address.deleteConfirm': 'Delete this address?',
+  'address.default': 'Default address',
+  'address.makeDefault': 'Make default',
+  'address.defaultHint': 'The default address is selected first at checkout',
+  'address.empty': 'No saved addresses',
+  'address.add': 'Add address',
+  'delivery.method.standard': 'Standard delivery',
+  'delivery.method.cool': 'Refrigerated delivery',
+  'delivery.methodDescription.standard':
+    'For animals kept at room temperature or warm, and supplies',
+  'delivery.methodDescription.cool': 'Heat-sensitive animals are shipped chilled',
+  'delivery.timeSlot.unspecified': 'No preference',
+  'delivery.timeSlot.morning': 'Morning',
+  'delivery.timeSlot.14-16': '2–4 pm',
+  'delivery.timeSlot.16-18': '4–6 pm',
+  'delivery.timeSlot.18-20': '6–8 pm',
+  'delivery.timeSlot.19-21': '7–9 pm',
+  'delivery.date': 'Delivery date',
+  'delivery.earliest': 'Earliest',
+  'delivery.timeSlot': 'Delivery time',
+  'delivery.schedule': '{date} / {timeSlot}',
+  'delivery.error.method': 'Choose a delivery method',
+  'delivery.error.coolRequired': 'Some animals need to be kept cool. Choose refrigerated delivery',
+  'delivery.error.date': 'Choose a delivery date {earliest} to {latest} days from today',
+  'delivery.error.timeSlot': 'Choose a delivery time',
+  'payment.method.credit-card': 'Credit card',
+  'payment.method.cash-on-delivery': 'Cash on delivery',
+  'payment.method.convenience-store': 'Convenience store',
+  'payment.method.bank-transfer': 'Bank transfer',
+  'payment.methodDescription.credit-card':
+    "You'll enter your card details on the payment provider's page",
+  'payment.methodDescription.cash-on-delivery': 'Pay the courier on delivery',
+  'payment.methodDescription.convenience-store': 'Ships once payment is confirmed',
+  'payment.methodDescription.bank-transfer':
+    'Ships once payment is confirmed. Transfer fees are yours to cover',
+  'payment.withFee': '{method} ({fee} fee)',
+  'payment.points': 'Points ({balance} available)',
+  'payment.pointsMode.none': "Don't use",
+  'payment.pointsMode.all': 'Use all',
+  'payment.pointsMode.some': 'Use some',
+  'payment.pointsAmount': 'Points to use (up to {usable})',
+  'payment.losesFreeShipping':
+    'Shipping is charged because the goods total after points is under {threshold}',
+  'payment.error.method': 'Choose a payment method',
+  'payment.error.cashOnDeliveryLimit': 'Cash on delivery is available up to {limit}',
+  'payment.error.points': 'Enter a whole number of points, 0 or more',
+  'payment.error.pointsOverSubtotal': 'Points can cover the goods total at most',
+  'payment.error.pointsOverBalance': 'You can use up to {balance} pt',
+  'order.summary.subtotal': 'Subtotal',
+  'order.summary.points': 'Points used',
+  'order.summary.shipping': 'Shipping',
+  'order.summary.fee': 'Fee',
+  'order.summary.total': 'Total',
+  'order.summary.tax': '(incl. {tax} tax)',
+  'order.summary.earned': 'Points earned {points}',
+  'order.status.pending-payment': 'Awaiting payment',
+  'order.status.processing': 'Preparing to ship',
+  'order.status.shipped': 'Shipped',
+  'order.status.delivered': 'Delivered',
+  'order.status.cancelled': 'Cancelled',
+  'order.filter.all': 'All',
+  'order.filter.active': 'In progress',
+  'order.filter.delivered': 'Delivered',
+  'order.filter.cancelled': 'Cancelled',
+  'order.carrier.yamato': 'Yamato Transport',
+  'order.number': 'Order {orderNumber}',
+  'order.others': '{title} and {count} more',
+  'order.itemCount': '{total} ({count} items)',
+  'order.placedAt': 'Ordered {date}',
+  'order.shipping': 'Shipping status',
+  'order.shippedBy': '{carrier} (shipped {date})',
+  'order.trackingNumber': 'Tracking number {number}',
+  'order.track': 'Track shipment',
+  'order.cancelled': 'This order was cancelled',
+  'order.awaitingShipment': "We'll send the tracking number once it ships",
+  'order.deliveredAt': 'Delivered {date}',
+  'order.guarantee': 'Live-arrival guarantee',
+  'order.guarantee.status.awaiting-delivery': 'Covered',
+  'order.guarantee.status.claimable': 'Open for claims',
+  'order.guarantee.status.expired': 'Closed',
+  'order.guarantee.status.reviewing': 'Under review',
+  'order.guarantee.status.approved': 'Approved',
+  'order.guarantee.status.rejected': 'Not covered',
+  'order.guarantee.status.void': 'Not covered',
+  'order.guarantee.description.awaiting-delivery':
+    "If an animal arrives dead and you tell us within {hours} hours of delivery, we'll refund or send a replacement",
+  'order.guarantee.description.claimable':
+    'If an animal arrived dead, contact us before the deadline with a photo taken when you opened the box',
+  'order.guarantee.description.expired':
+    'The claim period for the live-arrival guarantee has ended',
+  'order.guarantee.description.reviewing': "We're reviewing your claim",
+  'order.guarantee.description.approved': 'The live-arrival guarantee has been applied',
+  'order.guarantee.description.rejected':
+    "After review, this isn't covered by the live-arrival guarantee. See our email for details",
+  'order.guarantee.description.void': "Cancelled orders aren't covered",
+  'order.guarantee.deadline': 'Claim by {date}',
+  'order.notFound': 'Order not found',
+  'order.reportDeadArrival': 'Report a dead arrival',
+  'order.contact': 'Ask about this order',
+  'order.empty': 'No matching orders',
+  'points.kind.earned': 'Earned',
+  'points.kind.spent': 'Used',
+  'points.kind.expired': 'Expired',
+  'points.balance': 'Point balance',
+  'points.hint': '1 pt = ¥1 toward the goods total',
+  'points.expiring': '{points} expire within {days} days',
+  'points.expiry': 'Expiry',
+  'points.until': 'Until {date}',
+  'points.history': 'Point history',
+  'points.orderNumber': ' / Order {orderNumber}',
+  'points.expiresOn': 'Expires {date}',
+  'points.empty': 'No point history',
+  'notifications.category.follow': 'New followers',
+  'notifications.category.like': 'Likes',
+  'notifications.category.reply': 'Replies',
+  'notifications.category.order': 'Order updates',
+  'notifications.category.restock': 'Favorites back in stock',
+  'notifications.category.care': 'Care reminders',
+  'notifications.error.start': 'Enter a time like 22:00',
+  'notifications.error.end': 'Enter a time like 7:00',
+  'notifications.error.sameTime': 'Start and end must be different times',
+  'notifications.message.follow': '{name} followed you',
+  'notifications.message.like': '{name} liked your post',
+  'notifications.message.reply': '{name} replied to you',
+  'notifications.message.order': 'Your order is now "{status}"',
+  'notifications.message.restock': 'A favorite is back in stock',
+  'notifications.settings.categories': 'Notification types',
+  'notifications.settings.categoriesHint':
+    "Types you turn off won't show banners. They still appear in your notifications.",
+  'notifications.settings.careHint': 'Notifies you on the due dates of your care tasks',
+  'notifications.settings.quietHours': 'Quiet hours',
+  'notifications.settings.quietHoursEnabled': 'Use quiet hours',
+  'notifications.settings.quietHoursHint':
+    'Notifications stay silent during these hours, and care reminders are sent when they end',
+  'notifications.settings.start': 'Start',
+  'notifications.settings.end': 'End',
+  'notifications.settings.saveQuietHours': 'Save quiet hours',
+
+  'auth.logIn': 'Log in',
+  'auth.signUp': 'Sign up',
+  'auth.displayName': 'Nickname',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.newPassword': 'Password ({min}+ characters)',
+  'auth.passwordConfirmation': 'Confirm password',
+  'auth.toSignUp': 'New here? Sign up',
+  'auth.toLogIn': 'Already a member? Log in',
+  'auth.locked': 'Locked',
+  'auth.biometrics.unlock': 'Unlock',
+  'auth.biometrics.enable': 'Turn on biometric unlock',
+  'auth.biometrics.fallback': 'Enter passcode',
+  'auth.error.invalidEmail': "That email address doesn't look right",
+  'auth.error.displayName': 'Enter a nickname',
+  'auth.error.weakPassword': 'Use a password of at least {min} characters',
+  'auth.error.passwordMismatch': "The passwords don't match",
+  'auth.error.emailTaken': 'That email address is already registered',
+  'auth.error.invalidCredentials': 'Wrong email address or password',
+  'auth.error.sessionExpired': 'Please log in again',
+  'auth.agreement.before': 'I agree to the ',
+  'auth.agreement.and': ' and the ',
+  'auth.agreement.after': '',
+  'auth.agreement.label': 'I agree to the Terms of Service and Privacy Policy',
+  'auth.agreement.required': 'You need to agree to the Terms of Service and Privacy Policy',
+  'auth.agreement.terms': 'Terms of Service',
+  'auth.agreement.privacy': 'Privacy Policy',
+
+  'feed.bookmarksEmpty': 'No bookmarked posts',
+  'catalog.favoritesEmpty': 'No favorites yet',
+  'catalog.favoritesHint': "We'll notify you when a sold-out favorite is back in stock",
+  'users.following': 'Following',
+  'users.followers': 'Followers',
+  'users.followingEmpty': "You're not following anyone yet",
+  'users.followersEmpty': 'No followers yet',
+
+  'compose.error.empty': 'Write something or attach a photo',
+  'compose.error.tooLong': 'Keep it to {max} characters',
+  'compose.error.tooManyImages': 'Up to {max} photos',
+  'compose.error.unreadableImage': "Couldn't read the photo",
+  'compose.status.pending': 'Waiting to send',
+  'compose.status.uploading': 'Uploading photos',
+  'compose.status.sending': 'Sending',
+  'compose.status.waiting': 'Offline or a network error. It will be resent automatically',
+  'compose.status.failed': "Couldn't post",
+  'compose.posting': 'Posting',
+  'compose.savedHint':
+    "Your post is saved. It will be sent once you're back online, and you can follow its progress on the timeline.",
+  'compose.body': 'Post',
+  'compose.placeholder': 'Share how your beetles are doing #hashtag',
+  'compose.pickPhotos': 'Choose photos',
+  'compose.takePhoto': 'Take photo',
+  'compose.linkIndividual': 'Link a beetle',
+  'compose.noIndividual': 'None',
+  'compose.individualOption': '{label} ({species})',
+  'compose.submit': 'Post',
+  'compose.removePhoto': 'Remove photo',
+  'compose.photoCount': '{count} photos',
+  'compose.retryNow': 'Retry now',
+  'compose.discard': 'Discard',
+
+  'feed.time.justNow': 'Just now',
+  'feed.time.minutes': '{count}m ago',
+  'feed.time.hours': '{count}h ago',
+  'feed.time.days': '{count}d ago',
+  'feed.empty': 'No posts yet',
+  'feed.deletedUser': 'Deleted user',
+  'feed.replies': '{count} replies',
+  'feed.reposts': '{count} reposts',
+  'feed.likes': '{count} likes',
+  'feed.bookmark': 'Bookmark',
+  'feed.removeBookmark': 'Remove bookmark',
+  'feed.reactionFailed.like': "Couldn't like",
+  'feed.reactionFailed.repost': "Couldn't repost",
+  'feed.reactionFailed.bookmark': "Couldn't bookmark",
+  'feed.undoFailed.like': "Couldn't undo like",
+  'feed.undoFailed.repost': "Couldn't undo repost",
+  'feed.undoFailed.bookmark': "Couldn't remove bookmark",
+  'feed.showReplies': 'Show {count} replies',
+  'feed.repliesFailed': "Couldn't load replies. Retry",
+  'feed.moreReplies': 'Show more replies',
+  'feed.showParent': 'Show the post this replies to',
+  'feed.trend': '{count} posts · {velocity}× usual',
+  'hashtags.empty': 'No posts with this hashtag yet',
+  'hashtags.postCount': '{count} posts',
+  'hashtags.variants': 'Same-meaning tags:',
+  'hashtags.trending': 'Trending now',
+  'hashtags.allTrends': 'See all trends',
+  'hashtags.search': 'Search',
+  'hashtags.searchPlaceholder': '#Dorcus_hopei mushroom bottle',
+  'hashtags.tagPage': 'Go to #{tag}',
+  'hashtags.noResults': 'No matching posts',
+  'trends.span.day': '24 hours',
+  'trends.span.week': '7 days',
+  'trends.empty': 'No hashtags used in this period',
+  'notifications.markAllRead': 'Mark all read',
+  'notifications.signInHint': 'Log in to also get notified of follows, likes, replies and orders',
+  'notifications.empty': 'No notifications',
+  'notifications.unread': 'Unread: {title}',
+  'users.tab.posts': 'Posts',
+  'users.tab.records': 'Records',
+  'users.noShowcase': 'No beetles shared. Set who can see each one on its edit screen',
+  'users.noPublicRecords': 'No public records',
+  'users.follow': 'Follow',
+  'users.followBack': 'Follow back',
+  'users.unfollowHint': 'Tap to unfollow',
+  'users.followFailed': "Couldn't follow",
+  'users.unfollowFailed': "Couldn't unfollow",
+  'users.followsYou': ' · Follows you',
+  'users.count.posts': 'posts',
+  'users.count.following': 'following',
+  'users.count.followers': 'followers',
+
+  'search.sort.relevance': 'Recommended',
+  'search.sort.price-asc': 'Price: low to high',
+  'search.sort.price-desc': 'Price: high to low',
+  'search.sort.size-desc': 'Size: largest first',
+  'search.facet.genus': 'Genus',
+  'search.facet.species': 'Species',
+  'search.facet.region': 'Origin',
+  'search.facet.generation': 'Generation',
+  'search.facet.sex': 'Sex',
+  'search.label': 'Search products',
+  'search.placeholder': 'Dorcus hopei Nirasaki',
+  'search.filters': 'Filters',
+  'search.filtersActive': 'Filters ({count})',
+  'search.resultCount': '{count} results',
+  'search.clear': 'Clear filters',
+  'search.empty': 'No products match',
+  'search.size': 'Size',
+  'search.price': 'Price',
+  'search.yen': 'yen',
+  'search.noMin': 'No minimum',
+  'search.noMax': 'No maximum',
+  'search.inStockOnly': 'In stock only',
+
+  'content.featureUnpublished': "This feature isn't published",
+  'content.noProducts': 'No products',
+  'content.noPosts': 'No posts yet',
+  'content.more': 'See more',
+
+  'support.category.order': 'Orders and payment',
+  'support.category.shipping': 'Shipping',
+  'support.category.live-arrival': 'Dead arrivals and condition',
+  'support.category.product': 'Products',
+  'support.category.breeding': 'Keeping and breeding',
+  'support.category.account': 'Account',
+  'support.category.other': 'Other',
+  'support.error.category': 'Choose what your inquiry is about',
+  'support.error.name': 'Enter your name',
+  'support.error.email': 'Enter a valid email address',
+  'support.error.orderNumberFormat': 'Enter the order number like 20261019-0001',
+  'support.error.orderNumberRequired': 'This inquiry needs an order number',
+  'support.error.body': 'Enter your message',
+  'support.error.tooLong': 'Keep it to {max} characters',
+  'support.status.pending': 'Waiting to send',
+  'support.status.sending': 'Sending',
+  'support.status.waiting': 'Waiting to retry',
+  'support.status.failed': 'Not sent',
+  'support.status.sent': 'Received',
+  'support.detail.waiting': 'Offline or a network error; it will be resent automatically',
+  'support.detail.failed': "Couldn't send",
+  'support.detail.sent': 'Ticket {ticket}',
+  'support.orderNumberMeta': ' / Order {orderNumber}',
+  'support.retryNow': 'Retry now',
+  'support.discard': 'Discard',
+  'support.history': 'Sent from this device',
+  'support.recentOrders': 'Recent orders',
+  'support.received':
+    "We've received your inquiry. If you're offline, it will be sent once you're back online.",
+  'support.replyByEmail': "We'll reply by email. If it's urgent, the FAQ may have your answer.",
+  'support.faqLink': 'Frequently asked questions',
+  'support.category': 'Inquiry about',
+  'support.name': 'Name',
+  'support.email': 'Email',
+  'support.orderNumber': 'Order number',
+  'support.orderNumberOptional': 'Order number (optional)',
+  'support.body': 'Message (up to {max} characters)',
+  'support.submit': 'Send',
+  'faq.searchPlaceholder': 'Search by keyword (e.g. dead arrival, cancel)',
+  'faq.searchLabel': 'Search the FAQ',
+  'faq.empty': 'No matching questions',
+  'faq.stillStuck': 'Still stuck? Feel free to get in touch.',
+  'faq.contact': 'Contact us',
+  'pages.notFound': 'Page not found',
+  'pages.revisedOn': 'Revised {date}',
+  'terms.revisedTitle': "We've updated our terms",
+  'terms.consentTitle': 'Please agree to our terms',
+  'terms.revisedOn':
+    'We updated our terms of service on {date}. To keep using the app, please agree to the updated terms.',
+  'terms.revised':
+    'We updated our terms of service. To keep using the app, please agree to the updated terms.',
+  'terms.consentRequired': 'To use the app, please agree to our terms of service.',
+  'terms.changes': 'What changed',
+  'terms.fullText': 'Full terms of service',
+  'terms.accept': 'Agree and continue',
+  'terms.decline': 'Log out without agreeing',
+
+  'share.label': 'Share',
+  'share.notFound': "We couldn't find that page",
+  'share.backHome': 'Back to home',
+  'share.productGone': "This product is no longer sold or couldn't be found",
+  'share.otherProducts': 'See other products',
+  'share.postGone': 'This post was deleted or is private',
+  'share.toTimeline': 'Go to the timeline',
+  'share.postTitle': 'Post by {name}',
+  'share.userGone': "This user has left or couldn't be found",
+  'share.individualGone': 'This beetle is private or was deleted',
+  'share.keeperProfile': "See {name}'s profile",
+  'share.individualTitle': "{name}'s {species}",
+
+  'seo.locality': 'from {locality}',
+  'seo.productDescription': '{summary}. {description}',
+  'seo.categoryTitle': '{name} for sale',
+  'seo.postTitle': 'Post by {name}',
+  'seo.profileDescription': 'Posts and keeping records by {name}',
+};
@@ -0,0 +1,778 @@
+/**
+ * Japanese UI strings, the reference catalog every other locale is checked against. Keys are
+ * grouped by screen; `{name}` marks a value filled in by `translate`.
+ */
+export const ja = {
+  'common.loadFailed': '読み込みに失敗しました',
+  'common.reload': '再読み込み',
+  'common.empty': '該当するものがありません',
+  'common.followSystem': '端末の設定に合わせる',
+
+  'tabs.shop': 'ショップ',
+  'tabs.timeline': 'タイムライン',
+  'tabs.records': '飼育記録',
+  'tabs.mypage': 'マイページ',
+  'tabs.cart': 'カート',
+  'tabs.productSearch': '商品を検索',
+  'tabs.notifications': '通知',
+  'tabs.notificationsUnread': '通知 (未読あり)',
+  'tabs.trends': 'トレンド',
+  'tabs.hashtagSearch': 'ハッシュタグ検索',
+  'tabs.compose': '投稿を作成',
+
+  'screens.post': '投稿',
+  'screens.products': '商品一覧',
+  'screens.product': '商品詳細',
+  'screens.category': 'カテゴリー',
+  'screens.hashtagSearch': 'ハッシュタグ検索',
+  'screens.hashtag': 'ハッシュタグ',
+  'screens.trends': 'トレンド',
+  'screens.profile': 'プロフィール',
+  'screens.sharedIndividual': '公開中の個体',
+  'screens.notifications': '通知',
+  'screens.compose': '投稿を作成',
+  'screens.search': '検索結果',
+  'screens.feature': '特集',
+  'screens.faq': 'よくあるご質問',
+  'screens.contact': 'お問い合わせ',
+  'screens.notFound': 'ページが見つかりません',
+
+  'mypage.title': 'マイページ',
+  'mypage.editProfile': '会員情報編集',
+  'mypage.addresses': '配送先管理',
+  'mypage.addressNew': '配送先の追加',
+  'mypage.addressEdit': '配送先の編集',
+  'mypage.orders': '注文履歴',
+  'mypage.orderDetail': '注文詳細',
+  'mypage.points': 'ポイント',
+  'mypage.pointHistory': 'ポイント履歴',
+  'mypage.favorites': 'お気に入り',
+  'mypage.bookmarks': 'ブックマーク',
+  'mypage.bookmarkList': 'ブックマーク一覧',
+  'mypage.follows': 'フォロー・フォロワー',
+  'mypage.myProfile': '自分のプロフィール',
+  'mypage.notifications': '通知',
+  'mypage.notificationsUnread': '通知 (未読 {count}件)',
+  'mypage.notificationSettings': '通知設定',
+  'mypage.section.orders': 'ご注文',
+  'mypage.section.community': 'コミュニティ',
+  'mypage.section.settings': '設定',
+  'mypage.section.support': 'サポート・規約',
+  'mypage.faq': 'よくあるご質問',
+  'mypage.contact': 'お問い合わせ',
+  'mypage.about': '会社概要',
+  'mypage.terms': '利用規約',
+  'mypage.commercialTransactions': '特定商取引法に基づく表記',
+  'mypage.privacy': 'プライバシーポリシー',
+  'mypage.logOut': 'ログアウト',
+
+  'settings.theme': 'テーマ',
+  'settings.colorScheme.system': '端末の設定に合わせる',
+  'settings.colorScheme.light': 'ライト',
+  'settings.colorScheme.dark': 'ダーク',
+  'settings.language': '言語',
+  'settings.biometricLock': '生体認証でロック',
+  'settings.biometricLockHint': 'アプリに戻ったときに Face ID / 指紋認証を求めます',
+
+  'catalog.sex.male': '♂',
+  'catalog.sex.female': '♀',
+  'catalog.sex.pair': 'ペア',
+  'catalog.sex.unsexed': '性別不明',
+  'catalog.stage.egg': '卵',
+  'catalog.stage.larva': '幼虫',
+  'catalog.stage.pupa': '蛹',
+  'catalog.stage.adult': '成虫',
+  'catalog.empty': '商品がありません',
+  'catalog.categoryNotFound': 'カテゴリーが見つかりません',
+  'catalog.soldOut': '売り切れ',
+  'catalog.addFavorite': 'お気に入りに追加',
+  'catalog.removeFavorite': 'お気に入りから外す',
+
+  'product.species': '種類',
+  'product.scientificName': '学名',
+  'product.locality': '産地',
+  'product.generation': '累代',
+  'product.sex': '性別',
+  'product.stage': 'ステージ',
+  'product.stock': '在庫',
+  'product.stockCount': '{count}点',
+  'product.allInCart': '在庫分すべてカートに入っています',
+  'product.addToCart': 'カートに入れる',
+  'product.restockHint': 'お気に入りに追加すると、再入荷したときに通知でお知らせします',
+  'product.inCart': 'カートに{count}点入っています',
+  'product.addToRecords': '購入した個体を飼育記録に登録',
+
+  'common.delete': '削除',
+  'common.cancel': 'キャンセル',
+  'common.edit': '編集',
+  'common.save': '保存する',
+  'common.add': '追加する',
+  'common.register': '登録する',
+  'common.close': '閉じる',
+  'common.saved': '保存しました',
+  'form.notes': 'メモ (任意)',
+  'form.record': '記録する',
+
+  'cart.empty': 'カートに商品がありません',
+  'cart.subtotal': '小計 (税込)',
+  'cart.checkout': '購入手続きへ',
+  'cart.decrease': '数量を減らす',
+  'cart.increase': '数量を増やす',
+  'cart.issue.unavailable': '現在お取り扱いできません',
+  'cart.issue.exceedsStock': '在庫は{stock}点までです',
+  'cart.issue.outOfSeason': '生体保護のため{months}のみ発送しています',
+  'cart.issue.mixedHandling':
+    '保冷が必要な生体と保温が必要な生体は同梱できません。別々にご注文ください',
+
+  'home.categories': 'カテゴリー',
+  'home.products': '商品一覧',
+  'home.allProducts': 'すべての商品を見る',
+  'home.footer.faq': 'よくあるご質問',
+  'home.footer.contact': 'お問い合わせ',
+  'home.footer.about': '会社概要',
+  'home.footer.terms': '利用規約',
+  'home.footer.commercial-transactions': '特定商取引法に基づく表記',
+  'home.footer.privacy': 'プライバシーポリシー',
+
+  'validation.dateFormat': '日付は 2025-06-01 のように入力してください',
+  'validation.futureDate': '未来の日付は記録できません',
+
+  'individual.error.label': '個体名を入力してください',
+  'individual.error.japaneseName': '種類を入力してください',
+  'individual.error.scientificName': '学名は「Dorcus hopei」のように入力してください',
+  'individual.error.generation': '累代は WD / WF1 / CBF1 のように入力してください',
+  'individual.error.hatchDateFormat': '孵化日は 2025-06-01 のように入力してください',
+  'individual.error.hatchDateFuture': '孵化日に未来の日付は指定できません',
+  'individual.error.sameParents': '父と母に同じ個体は指定できません',
+  'individual.sex.male': '♂',
+  'individual.sex.female': '♀',
+  'individual.sex.unknown': '不明',
+  'individual.status.alive': '飼育中',
+  'individual.status.dead': '死亡',
+  'individual.status.sold': '譲渡済み',
+  'individual.visibility.private': '非公開',
+  'individual.visibility.followers': 'フォロワーのみ',
+  'individual.visibility.public': '全体に公開',
+  'individual.hatched': '{date} 孵化',
+  'individual.form.label': '個体名',
+  'individual.form.japaneseName': '種類',
+  'individual.form.japaneseNamePlaceholder': 'オオクワガタ',
+  'individual.form.scientificName': '学名 (任意)',
+  'individual.form.locality': '産地 (任意)',
+  'individual.form.localityPlaceholder': '山梨県韮崎市',
+  'individual.form.generation': '累代 (任意)',
+  'individual.form.sex': '性別',
+  'individual.form.stage': 'ステージ',
+  'individual.form.hatchDate': '孵化日 (任意)',
+  'individual.form.father': '父 (♂)',
+  'individual.form.mother': '母 (♀)',
+  'individual.form.noParent': 'なし',
+  'individual.form.status': '状態',
+  'individual.form.visibility': '公開範囲',
+  'individual.notFound': '個体が見つかりません',
+  'individual.species': '種類',
+  'individual.scientificName': '学名',
+  'individual.locality': '産地',
+  'individual.generation': '累代',
+  'individual.stage': 'ステージ',
+  'individual.hatchDate': '孵化日',
+  'individual.age': '{date} ({days}日齢)',
+  'individual.status': '状態',
+  'individual.weight': '体重',
+  'individual.eclosion': '羽化予定',
+  'individual.weightDrop': '体重が減少しています。成長記録を確認してください。',
+  'individual.growthLink': '成長記録 ({count})',
+  'individual.pedigreeLink': '血統を見る',
+  'individual.habitatLink': '温度湿度ログ: {name}',
+  'individual.addHabitat': '温度湿度ログの場所を登録',
+  'individual.sourceProduct': '購入した商品を見る',
+  'individual.children': '子 ({count})',
+  'individual.pairings': 'ペアリング ({count})',
+  'individual.archive': 'アーカイブする',
+  'individual.unarchive': 'アーカイブから戻す',
+
+  'breeding.error.male': '♂を選択してください',
+  'breeding.error.female': '♀を選択してください',
+  'breeding.error.setUpBeforePairing': '産卵セット日はペアリング日以降にしてください',
+  'breeding.error.eggs': '卵の数は0以上の整数で入力してください',
+  'breeding.error.larvae': '幼虫の数は0以上の整数で入力してください',
+  'breeding.inbreeding': '近親交配になります (近交係数 {coefficient}%)',
+  'breeding.sharedAncestors': '共通の祖先:',
+  'breeding.new': 'ペアリングを記録',
+  'breeding.pairingOn': '{date} のペアリング',
+  'breeding.notFound': 'ペアリングが見つかりません',
+  'breeding.deletedIndividual': '削除された個体',
+  'breeding.pairedOn': 'ペアリング',
+  'breeding.setUpOn': '産卵セット',
+  'breeding.total': '合計',
+  'breeding.counts': '卵 {eggs} / 幼虫 {larvae}',
+  'breeding.harvests': '割り出し',
+  'breeding.noHarvests': 'まだ割り出しの記録がありません',
+  'breeding.harvestNumber': '{number}回目 {date}',
+  'breeding.deleteHarvest': '{date} の割り出しを削除',
+  'breeding.form.harvestDate': '割り出し日',
+  'breeding.form.eggs': '卵',
+  'breeding.form.larvae': '幼虫',
+  'breeding.form.notesPlaceholder': '材2本目',
+  'breeding.addHarvest': '割り出しを記録',
+  'breeding.registerOffspring': '幼虫を個体登録',
+  'breeding.delete': 'このペアリングを削除',
+  'breeding.summary': '{date} ペアリング / 割り出し{harvests}回 / 卵{eggs}・幼虫{larvae}',
+  'breeding.empty': '右上の＋からペアリングを記録しましょう',
+  'breeding.form.male': '♂ (成虫)',
+  'breeding.form.female': '♀ (成虫)',
+  'breeding.form.pairedOn': 'ペアリング日',
+  'breeding.form.setUpOn': '産卵セット日 (任意)',
+
+  'growth.event.mat-change': 'マット・菌糸ビン交換',
+  'growth.event.food-change': 'エサ交換',
+  'growth.event.pupation': '蛹化',
+  'growth.event.eclosion': '羽化',
+  'growth.error.weight': '体重は0〜200gの範囲で入力してください',
+  'growth.error.headWidth': '頭幅は0〜50mmの範囲で入力してください',
+  'growth.error.empty': '体重・頭幅・令数・イベントのいずれかを入力してください',
+  'growth.projection.eclosed': '{date} 羽化',
+  'growth.projection.around': '{date} 頃',
+  'growth.projection.from.pupation': '{window} (蛹化日から推定)',
+  'growth.projection.from.hatch': '{window} (孵化日から推定)',
+  'growth.title': '成長記録',
+  'growth.new': '成長を記録',
+  'growth.titleOf': '{label} の成長記録',
+  'growth.instar': '令数',
+  'growth.projectionHint': '孵化日か蛹化日を記録すると推定します',
+  'growth.weightDrop': '体重が減少しています',
+  'growth.weightDropHint': '温度・エサの劣化・暴れがないか確認してください。',
+  'growth.weight': '体重',
+  'growth.headWidth': '頭幅',
+  'growth.headWidthValue': '頭幅 {value}',
+  'growth.empty': 'まだ記録がありません',
+  'growth.deleteEntry': '{date} の記録を削除',
+  'growth.form.date': '日付',
+  'growth.form.weight': '体重 (g)',
+  'growth.form.headWidth': '頭幅 (mm)',
+  'growth.form.noInstar': '記録しない',
+  'growth.form.event': 'イベント',
+  'growth.form.noEvent': 'なし',
+  'growth.form.substrate': '交換したエサ・容器 (任意)',
+  'growth.form.substratePlaceholder': '菌糸ビン 1400cc',
+
+  'environment.kind.room': '部屋',
+  'environment.kind.case': '飼育ケース・温室',
+  'environment.metric.temperatureC': '温度',
+  'environment.metric.humidityPct': '湿度',
+  'environment.outOfRange.temperatureC.high': '{when} 温度が高すぎます (最高 {extreme}℃)',
+  'environment.outOfRange.temperatureC.low': '{when} 温度が低すぎます (最低 {extreme}℃)',
+  'environment.outOfRange.humidityPct.high': '{when} 湿度が高すぎます (最高 {extreme}%)',
+  'environment.outOfRange.humidityPct.low': '{when} 湿度が低すぎます (最低 {extreme}%)',
+  'environment.error.atFormat': '日時は 2025-06-01 21:00 のように入力してください',
+  'environment.error.atFuture': '未来の日時は記録できません',
+  'environment.error.temperature': '温度は-30〜60℃の範囲で入力してください',
+  'environment.error.humidity': '湿度は0〜100%の範囲で入力してください',
+  'environment.error.empty': '温度か湿度を入力してください',
+  'environment.import.empty': 'ファイルが空です',
+  'environment.import.noColumns': '日時と温度・湿度の列が見つかりません',
+  'environment.import.noRows': '読み込める行がありませんでした',
+  'environment.error.name': '名前を入力してください',
+  'environment.form.name': '名前',
+  'environment.form.namePlaceholder': 'ブリード部屋 / 温室A',
+  'environment.form.kind': '種類',
+  'environment.form.individuals': 'ここで飼育している個体',
+  'environment.title': '温度湿度ログ',
+  'environment.new': '部屋・ケースを登録',
+  'environment.empty': '右上の＋から温湿度計を置いている部屋やケースを登録しましょう',
+  'environment.noReadings': 'まだ記録がありません',
+  'environment.recentAlerts': '24時間以内に範囲外の記録が{count}件あります',
+  'environment.notFound': '部屋・ケースが見つかりません',
+  'environment.idealRange': '適正{metric}',
+  'environment.conflict':
+    '適正範囲が重ならない種類が同じ場所にいます。別の場所での管理を検討してください。',
+  'environment.noClimate': '学名が登録された個体を割り当てると、種類ごとの適正範囲で警告します。',
+  'environment.span.1': '24時間',
+  'environment.span.7': '7日間',
+  'environment.span.30': '30日間',
+  'environment.noReadingsInSpan': 'この期間の記録はありません',
+  'environment.outOfRangeTitle': '適正範囲外の時間帯があります',
+  'environment.addReading': '記録を追加',
+  'environment.importCsv': '温湿度計のCSVを読み込む',
+  'environment.import.done': '{count}件を読み込みました',
+  'environment.import.doneWithSkipped': '{count}件を読み込みました (読み込めない行 {skipped}件)',
+  'environment.import.failed': 'ファイルを読み込めませんでした',
+  'environment.form.at': '日時',
+  'environment.form.value': '{metric} ({unit})',
+  'environment.manualRecord': '手入力で記録',
+  'environment.individuals': '個体 ({count})',
+  'environment.delete': 'この場所と記録を削除',
+
+  'pedigree.father': '父',
+  'pedigree.mother': '母',
+  'pedigree.unknownParent': '{label}: 未登録',
+  'pedigree.titleOf': '{label} の血統',
+  'pedigree.hint': '{generations}世代前まで表示しています。親を登録すると血統が伸びます。',
+  'pedigree.share': '血統をテキストで共有',
+  'pedigree.self.male': '♂本人',
+  'pedigree.self.female': '♀本人',
+  'pedigree.generationsBack.male': '♂の{depth}代前',
+  'pedigree.generationsBack.female': '♀の{depth}代前',
+  'pedigree.sharedAncestor': '{label} ({male}・{female})',
+
+  'care.kind.jelly': 'ゼリー交換',
+  'care.kind.mat-change': 'マット・菌糸ビン交換',
+  'care.kind.weigh-in': '体重測定',
+  'care.kind.misting': '霧吹き',
+  'care.kind.other': 'その他',
+  'care.error.interval': '間隔は1〜365日で入力してください',
+  'care.error.remindAt': '時刻は 19:00 のように入力してください',
+  'care.error.title': '内容を入力してください',
+  'care.today': '今日のお世話',
+  'care.notify': '予定日に通知する',
+  'care.nothingToday': '今日の予定はありません',
+  'care.upcoming': '今後{days}日間',
+  'care.nothingUpcoming':
+    '予定はありません。個体や部屋・ケースの画面からお世話の予定を登録できます。',
+  'care.lastDoneOn': '最後に完了した日: {date}',
+  'care.delete': 'この予定を削除',
+  'care.notFound': '予定が見つかりません',
+  'care.due.overdue': '{days}日遅れ ({date})',
+  'care.due.today': '今日',
+  'care.due.upcoming': '{date} (あと{days}日)',
+  'care.done': '完了',
+  'care.reminderTitle': 'お世話の予定です',
+  'care.reminderBody': '{target}: {title}',
+  'care.tasks': 'お世話の予定 ({count})',
+  'care.interval': '{title} ({days}日ごと)',
+  'care.nextDue': ' 次回 {date}',
+  'care.paused': ' 現在のステージでは停止中',
+  'care.add': 'お世話の予定を追加',
+  'care.form.kind': 'お世話の内容',
+  'care.form.title': '内容',
+  'care.form.displayName': '表示名 (任意)',
+  'care.form.titlePlaceholder': '産卵木の加水',
+  'care.form.interval': '間隔 (日)',
+  'care.form.startsOn': '初回の予定日',
+  'care.form.remindAt': '通知時刻',
+
+  'photos.title': '写真',
+  'photos.delete': '写真を削除',
+  'photos.deleteConfirm': '写真を削除しますか？',
+  'photos.camera': '撮影',
+  'photos.library': '選択',
+
+  'records.sync.signedOut':
+    '記録はこの端末に保存されています。ログインするとほかの端末と同期できます',
+  'records.sync.syncing': '同期しています',
+  'records.sync.failed': '同期できませんでした。電波のある場所で自動的に再試行します',
+  'records.sync.pending': '未同期の変更 {count}件',
+  'records.sync.syncedAt': '{time} に同期しました',
+  'records.sync.never': 'まだ同期していません',
+  'records.sync.now': '今すぐ同期',
+  'records.sync.conflicts':
+    'ほかの端末でも編集されていた記録が{count}件ありました。新しい方の内容にまとめています',
+  'records.new': '個体を登録',
+  'records.individual': '個体',
+  'records.edit': '個体を編集',
+  'records.breedingLink': 'ブリード記録 (ペアリング・割り出し)',
+  'records.filter.active': '飼育中',
+  'records.filter.archived': 'アーカイブ',
+  'records.emptyActive': '右上の＋から飼育している個体を登録しましょう',
+  'records.emptyArchived': 'アーカイブした個体はありません',
+
+  'checkout.step.address': '配送先',
+  'checkout.step.delivery': '配送方法',
+  'checkout.step.payment': '支払い',
+  'checkout.step.review': '確認',
+  'checkout.title.address': '配送先入力',
+  'checkout.title.delivery': '配送方法選択',
+  'checkout.title.payment': '支払い方法選択',
+  'checkout.title.review': '注文確認',
+  'checkout.title.complete': '注文完了',
+  'checkout.savedAddresses': '保存済みの配送先',
+  'checkout.toDelivery': '配送方法の選択へ',
+  'checkout.rememberAddress': 'この住所を配送先管理に保存する',
+  'checkout.toPayment': '支払い方法の選択へ',
+  'checkout.toReview': '注文内容の確認へ',
+  'checkout.change': '変更',
+  'checkout.items': 'ご注文商品',
+  'checkout.shipTo': '配送先',
+  'checkout.deliveryMethod': '配送方法',
+  'checkout.paymentMethod': 'お支払い方法',
+  'checkout.recipient': '{name} 様',
+  'checkout.pointsUsed': 'ポイント利用 {points}',
+  'checkout.placeOrder': '注文を確定する',
+  'checkout.thanks': 'ご注文ありがとうございます',
+  'checkout.orderNumber': '注文番号',
+  'checkout.amountPaid': 'お支払い金額 {amount} ({method})',
+  'checkout.shipsAfterPayment': 'お支払いの確認後、生体の状態を確認してから発送します。',
+  'checkout.shipsAfterCheck': '生体の状態を確認してから発送します。発送時にお知らせします。',
+  'checkout.backToShop': 'ショップに戻る',
+  'checkout.error.empty': '注文する商品がありません',
+  'checkout.error.totalChanged': '合計金額が変更されました。内容をご確認ください',
+  'checkout.error.insufficientPoints':
+    'ポイント残高が不足しています。ご利用ポイントを変更してください',
+  'address.name': 'お名前',
+  'address.postalCode': '郵便番号',
+  'address.prefecture': '都道府県',
+  'address.city': '市区町村',
+  'address.line1': '番地',
+  'address.line2': '建物名・部屋番号 (任意)',
+  'address.phone': '電話番号',
+  'address.error.name': 'お名前を入力してください',
+  'address.error.postalCode': '郵便番号は7桁の数字で入力してください',
+  'address.error.prefecture': '都道府県を選択してください',
+  'address.error.city': '市区町村を入力してください',
+  'address.error.line1': '番地を入力してください',
+  'address.error.line1Incomplete': '番地まで入力してください',
+  'address.error.phone': '電話番号は0から始まる10桁または11桁で入力してください',
+  'address.notFound': '配送先が見つかりません',
+  'address.deleteConfirm': 'この配送先を削除しますか？',
+  'address.default': '既定の配送先',
+  'address.makeDefault': '既定にする',
+  'address.defaultHint': '既定の配送先は、ご注文手続きで最初に選ばれます',
+  'address.empty': '保存した配送先はありません',
+  'address.add': '配送先を追加',
+  'delivery.method.standard': '宅急便',
+  'delivery.method.cool': 'クール宅急便',
+  'delivery.methodDescription.standard': '常温・保温が必要な生体と飼育用品',
+  'delivery.methodDescription.cool': '高温に弱い生体は保冷して発送します',
+  'delivery.timeSlot.unspecified': '指定なし',
+  'delivery.timeSlot.morning': '午前中',
+  'delivery.timeSlot.14-16': '14時〜16時',
+  'delivery.timeSlot.16-18': '16時〜18時',
+  'delivery.timeSlot.18-20': '18時〜20時',
+  'delivery.timeSlot.19-21': '19時〜21時',
+  'delivery.date': 'お届け日',
+  'delivery.earliest': '最短',
+  'delivery.timeSlot': 'お届け時間帯',
+  'delivery.schedule': '{date} / {timeSlot}',
+  'delivery.error.method': '配送方法を選択してください',
+  'delivery.error.coolRequired': '保冷が必要な生体が含まれているためクール宅急便をお選びください',
+  'delivery.error.date': 'お届け日は{earliest}日後から{latest}日後までで選択してください',
+  'delivery.error.timeSlot': 'お届け時間帯を選択してください',
+  'payment.method.credit-card': 'クレジットカード',
+  'payment.method.cash-on-delivery': '代金引換',
+  'payment.method.convenience-store': 'コンビニ払い',
+  'payment.method.bank-transfer': '銀行振込',
+  'payment.methodDescription.credit-card': 'カード情報は決済代行会社の画面で入力します',
+  'payment.methodDescription.cash-on-delivery': 'お届け時に配達員へお支払いください',
+  'payment.methodDescription.convenience-store': 'お支払い確認後に発送します',
+  'payment.methodDescription.bank-transfer':
+    'お支払い確認後に発送します。振込手数料はご負担ください',
+  'payment.withFee': '{method} (手数料 {fee})',
+  'payment.points': 'ポイント (保有 {balance})',
+  'payment.pointsMode.none': '使わない',
+  'payment.pointsMode.all': 'すべて使う',
+  'payment.pointsMode.some': '一部を使う',
+  'payment.pointsAmount': 'ご利用ポイント ({usable}まで)',
+  'payment.losesFreeShipping':
+    'ポイント利用後の商品代金が{threshold}未満になるため、送料がかかります',
+  'payment.error.method': 'お支払い方法を選択してください',
+  'payment.error.cashOnDeliveryLimit': '代金引換は{limit}までご利用いただけます',
+  'payment.error.points': 'ご利用ポイントは0以上の整数で入力してください',
+  'payment.error.pointsOverSubtotal': 'ポイントは商品代金の分までご利用いただけます',
+  'payment.error.pointsOverBalance': 'ご利用いただけるポイントは{balance}ptまでです',
+  'order.summary.subtotal': '小計',
+  'order.summary.points': 'ポイント利用',
+  'order.summary.shipping': '送料',
+  'order.summary.fee': '手数料',
+  'order.summary.total': '合計',
+  'order.summary.tax': '(うち消費税 {tax})',
+  'order.summary.earned': '獲得ポイント {points}',
+  'order.status.pending-payment': 'お支払い待ち',
+  'order.status.processing': '発送準備中',
+  'order.status.shipped': '発送済み',
+  'order.status.delivered': 'お届け済み',
+  'order.status.cancelled': 'キャンセル',
+  'order.filter.all': 'すべて',
+  'order.filter.active': '進行中',
+  'order.filter.delivered': 'お届け済み',
+  'order.filter.cancelled': 'キャンセル',
+  'order.carrier.yamato': 'ヤマト運輸',
+  'order.number': '注文番号 {orderNumber}',
+  'order.others': '{title} 他{count}点',
+  'order.itemCount': '{total} ({count}点)',
+  'order.placedAt': '{date} ご注文',
+  'order.shipping': '配送状況',
+  'order.shippedBy': '{carrier} ({date} 発送)',
+  'order.trackingNumber': 'お問い合わせ番号 {number}',
+  'order.track': '配送状況を確認する',
+  'order.cancelled': 'この注文はキャンセルされました',
+  'order.awaitingShipment': '発送後にお問い合わせ番号をお知らせします',
+  'order.deliveredAt': '{date} お届け済み',
+  'order.guarantee': '死着保証',
+  'order.guarantee.status.awaiting-delivery': '保証対象',
+  'order.guarantee.status.claimable': '受付中',
+  'order.guarantee.status.expired': '受付終了',
+  'order.guarantee.status.reviewing': '確認中',
+  'order.guarantee.status.approved': '保証済み',
+  'order.guarantee.status.rejected': '対象外',
+  'order.guarantee.status.void': '対象外',
+  'order.guarantee.description.awaiting-delivery':
+    'お届けから{hours}時間以内のご連絡で、死着の場合は返金または代品を発送します',
+  'order.guarantee.description.claimable':
+    '死着の場合は、開封時の写真を添えて期限までにご連絡ください',
+  'order.guarantee.description.expired': '死着保証の受付期間は終了しました',
+  'order.guarantee.description.reviewing': 'ご連絡いただいた内容を確認しています',
+  'order.guarantee.description.approved': '死着保証を適用しました',
+  'order.guarantee.description.rejected':
+    '確認の結果、死着保証の対象外となりました。詳しくはメールをご確認ください',
+  'order.guarantee.description.void': 'キャンセルされた注文は保証の対象外です',
+  'order.guarantee.deadline': '受付期限 {date}',
+  'order.notFound': 'ご注文が見つかりません',
+  'order.reportDeadArrival': '死着を連絡する',
+  'order.contact': 'この注文について問い合わせる',
+  'order.empty': '該当するご注文はありません',
+  'points.kind.earned': '獲得',
+  'points.kind.spent': '利用',
+  'points.kind.expired': '失効',
+  'points.balance': '保有ポイント',
+  'points.hint': '1pt = 1円として、商品代金のお支払いに使えます',
+  'points.expiring': '{days}日以内に{points}が失効します',
+  'points.expiry': '有効期限',
+  'points.until': '{date}まで',
+  'points.history': 'ポイント履歴',
+  'points.orderNumber': ' / 注文番号 {orderNumber}',
+  'points.expiresOn': '有効期限 {date}',
+  'points.empty': 'ポイントの履歴はありません',
+  'notifications.category.follow': '新しいフォロワー',
+  'notifications.category.like': 'いいね',
+  'notifications.category.reply': '返信',
+  'notifications.category.order': '注文状況',
+  'notifications.category.restock': 'お気に入りの再入荷',
+  'notifications.category.care': 'お世話リマインダー',
+  'notifications.error.start': '時刻は 22:00 のように入力してください',
+  'notifications.error.end': '時刻は 7:00 のように入力してください',
+  'notifications.error.sameTime': '開始と終了には別の時刻を指定してください',
+  'notifications.message.follow': '{name}さんにフォローされました',
+  'notifications.message.like': '{name}さんがいいねしました',
+  'notifications.message.reply': '{name}さんが返信しました',
+  'notifications.message.order': 'ご注文が「{status}」になりました',
+  'notifications.message.restock': 'お気に入りの商品が再入荷しました',
+  'notifications.settings.categories': '通知の種類',
+  'notifications.settings.categoriesHint':
+    'オフにした種類はバナーで知らせません。通知一覧には引き続き表示されます。',
+  'notifications.settings.careHint': '飼育記録のお世話の予定日に通知します',
+  'notifications.settings.quietHours': 'おやすみ時間',
+  'notifications.settings.quietHoursEnabled': 'おやすみ時間を使う',
+  'notifications.settings.quietHoursHint':
+    'この時間帯は通知を鳴らさず、お世話リマインダーは終了時刻に送ります',
+  'notifications.settings.start': '開始',
+  'notifications.settings.end': '終了',
+  'notifications.settings.saveQuietHours': '時間帯を保存',
+
+  'auth.logIn': 'ログイン',
+  'auth.signUp': '会員登録',
+  'auth.displayName': 'ニックネーム',
+  'auth.email': 'メールアドレス',
+  'auth.password': 'パスワード',
+  'auth.newPassword': 'パスワード ({min}文字以上)',
+  'auth.passwordConfirmation': 'パスワード (確認)',
+  'auth.toSignUp': 'はじめての方は会員登録',
+  'auth.toLogIn': '会員の方はログイン',
+  'auth.locked': 'ロックされています',
+  'auth.biometrics.unlock': 'ロックを解除',
+  'auth.biometrics.enable': '生体認証を有効にする',
+  'auth.biometrics.fallback': 'パスコードを入力',
+  'auth.error.invalidEmail': 'メールアドレスの形式が正しくありません',
+  'auth.error.displayName': 'ニックネームを入力してください',
+  'auth.error.weakPassword': 'パスワードは{min}文字以上で入力してください',
+  'auth.error.passwordMismatch': '確認用パスワードが一致しません',
+  'auth.error.emailTaken': 'このメールアドレスは既に登録されています',
+  'auth.error.invalidCredentials': 'メールアドレスまたはパスワードが違います',
+  'auth.error.sessionExpired': 'もう一度ログインしてください',
+  'auth.agreement.before': '',
+  'auth.agreement.and': 'と',
+  'auth.agreement.after': 'に同意する',
+  'auth.agreement.label': '利用規約とプライバシーポリシーに同意する',
+  'auth.agreement.required': '利用規約とプライバシーポリシーへの同意が必要です',
+  'auth.agreement.terms': '利用規約',
+  'auth.agreement.privacy': 'プライバシーポリシー',
+
+  'feed.bookmarksEmpty': 'ブックマークした投稿はありません',
+  'catalog.favoritesEmpty': 'お気に入りの商品はありません',
+  'catalog.favoritesHint': '売り切れの商品は、再入荷したときに通知でお知らせします',
+  'users.following': 'フォロー中',
+  'users.followers': 'フォロワー',
+  'users.followingEmpty': 'まだ誰もフォローしていません',
+  'users.followersEmpty': 'まだフォロワーはいません',
+
+  'compose.error.empty': '本文を入力するか写真を添付してください',
+  'compose.error.tooLong': '{max}文字以内で入力してください',
+  'compose.error.tooManyImages': '写真は{max}枚までです',
+  'compose.error.unreadableImage': '写真を読み込めませんでした',
+  'compose.status.pending': '送信待ち',
+  'compose.status.uploading': '写真をアップロード中',
+  'compose.status.sending': '送信中',
+  'compose.status.waiting': 'オフラインまたは通信エラーのため、自動で再送します',
+  'compose.status.failed': '投稿できませんでした',
+  'compose.posting': '投稿しています',
+  'compose.savedHint':
+    '投稿は保存されています。接続が戻ると自動で送信され、進捗はタイムラインで確認できます。',
+  'compose.body': '本文',
+  'compose.placeholder': '飼育のようすを共有しましょう #ハッシュタグ',
+  'compose.pickPhotos': '写真を選ぶ',
+  'compose.takePhoto': '撮影する',
+  'compose.linkIndividual': '飼育個体をリンク',
+  'compose.noIndividual': 'リンクしない',
+  'compose.individualOption': '{label}（{species}）',
+  'compose.submit': '投稿する',
+  'compose.removePhoto': '写真を外す',
+  'compose.photoCount': '写真{count}枚',
+  'compose.retryNow': '今すぐ再送',
+  'compose.discard': '破棄',
+
+  'feed.time.justNow': 'たった今',
+  'feed.time.minutes': '{count}分前',
+  'feed.time.hours': '{count}時間前',
+  'feed.time.days': '{count}日前',
+  'feed.empty': 'まだ投稿がありません',
+  'feed.deletedUser': '退会したユーザー',
+  'feed.replies': '返信 {count}件',
+  'feed.reposts': 'リポスト {count}件',
+  'feed.likes': 'いいね {count}件',
+  'feed.bookmark': 'ブックマーク',
+  'feed.removeBookmark': 'ブックマークを外す',
+  'feed.reactionFailed.like': 'いいねできませんでした',
+  'feed.reactionFailed.repost': 'リポストできませんでした',
+  'feed.reactionFailed.bookmark': 'ブックマークできませんでした',
+  'feed.undoFailed.like': 'いいねを取り消せませんでした',
+  'feed.undoFailed.repost': 'リポストを取り消せませんでした',
+  'feed.undoFailed.bookmark': 'ブックマークを取り消せませんでした',
+  'feed.showReplies': '返信{count}件を表示',
+  'feed.repliesFailed': '返信を読み込めませんでした。再読み込み',
+  'feed.moreReplies': 'さらに返信を表示',
+  'feed.showParent': '返信先の投稿を表示',
+  'feed.trend': '{count}件の投稿 · 通常の{velocity}倍',
+  'hashtags.empty': 'このハッシュタグの投稿はまだありません',
+  'hashtags.postCount': '{count}件の投稿',
+  'hashtags.variants': '同じ意味のタグ:',
+  'hashtags.trending': 'いまのトレンド',
+  'hashtags.allTrends': 'トレンドをすべて見る',
+  'hashtags.search': '検索',
+  'hashtags.searchPlaceholder': '#オオクワガタ 菌糸ビン',
+  'hashtags.tagPage': '#{tag}のページへ',
+  'hashtags.noResults': '該当する投稿がありません',
+  'trends.span.day': '24時間',
+  'trends.span.week': '7日間',
+  'trends.empty': 'この期間に使われたハッシュタグはありません',
+  'notifications.markAllRead': 'すべて既読',
+  'notifications.signInHint': 'ログインすると、フォローやいいね、返信、ご注文の通知も届きます',
+  'notifications.empty': '通知はありません',
+  'notifications.unread': '未読 {title}',
+  'users.tab.posts': '投稿',
+  'users.tab.records': '飼育記録',
+  'users.noShowcase': '公開中の個体はありません。個体の編集画面で公開範囲を設定できます',
+  'users.noPublicRecords': '公開されている飼育記録はありません',
+  'users.follow': 'フォロー',
+  'users.followBack': 'フォローバック',
+  'users.unfollowHint': 'タップでフォローを解除します',
+  'users.followFailed': 'フォローできませんでした',
+  'users.unfollowFailed': 'フォローを解除できませんでした',
+  'users.followsYou': ' · フォローされています',
+  'users.count.posts': '投稿',
+  'users.count.following': 'フォロー',
+  'users.count.followers': 'フォロワー',
+
+  'search.sort.relevance': 'おすすめ順',
+  'search.sort.price-asc': '価格の安い順',
+  'search.sort.price-desc': '価格の高い順',
+  'search.sort.size-desc': 'サイズの大きい順',
+  'search.facet.genus': '属',
+  'search.facet.species': '種類',
+  'search.facet.region': '産地',
+  'search.facet.generation': '累代',
+  'search.facet.sex': '性別',
+  'search.label': '商品を検索',
+  'search.placeholder': 'オオクワガタ 韮崎',
+  'search.filters': '絞り込み',
+  'search.filtersActive': '絞り込み ({count})',
+  'search.resultCount': '{count}件',
+  'search.clear': '条件をクリア',
+  'search.empty': '条件に合う商品がありません',
+  'search.size': 'サイズ',
+  'search.price': '価格',
+  'search.yen': '円',
+  'search.noMin': '下限なし',
+  'search.noMax': '上限なし',
+  'search.inStockOnly': '在庫ありのみ',
+
+  'content.featureUnpublished': 'この特集は公開されていません',
+  'content.noProducts': '商品はありません',
+  'content.noPosts': '投稿はまだありません',
+  'content.more': 'もっと見る',
+
+  'support.category.order': 'ご注文・お支払い',
+  'support.category.shipping': '配送',
+  'support.category.live-arrival': '死着・生体の状態',
+  'support.category.product': '商品について',
+  'support.category.breeding': '飼育の相談',
+  'support.category.account': 'アカウント',
+  'support.category.other': 'その他',
+  'support.error.category': 'お問い合わせの種類を選んでください',
+  'support.error.name': 'お名前を入力してください',
+  'support.error.email': 'メールアドレスを正しく入力してください',
+  'support.error.orderNumberFormat': '注文番号は「20261019-0001」の形式で入力してください',
+  'support.error.orderNumberRequired': 'このお問い合わせには注文番号が必要です',
+  'support.error.body': 'お問い合わせ内容を入力してください',
+  'support.error.tooLong': '{max}文字以内で入力してください',
+  'support.status.pending': '送信待ち',
+  'support.status.sending': '送信中',
+  'support.status.waiting': '再送待ち',
+  'support.status.failed': '送信失敗',
+  'support.status.sent': '受付済み',
+  'support.detail.waiting': 'オフラインまたは通信エラーのため、自動で再送します',
+  'support.detail.failed': '送信できませんでした',
+  'support.detail.sent': '受付番号 {ticket}',
+  'support.orderNumberMeta': ' / 注文番号 {orderNumber}',
+  'support.retryNow': '今すぐ再送',
+  'support.discard': '破棄',
+  'support.history': '送信履歴',
+  'support.recentOrders': '最近のご注文',
+  'support.received':
+    'お問い合わせを受け付けました。オフラインの場合は、接続が戻り次第自動で送信します。',
+  'support.replyByEmail':
+    '回答はメールでお送りします。お急ぎの場合は、先によくあるご質問もご覧ください。',
+  'support.faqLink': 'よくあるご質問 (FAQ)',
+  'support.category': 'お問い合わせの種類',
+  'support.name': 'お名前',
+  'support.email': 'メールアドレス',
+  'support.orderNumber': '注文番号',
+  'support.orderNumberOptional': '注文番号 (任意)',
+  'support.body': 'お問い合わせ内容 ({max}文字以内)',
+  'support.submit': '送信する',
+  'faq.searchPlaceholder': 'キーワードで探す（例: 死着、キャンセル）',
+  'faq.searchLabel': 'よくある質問を検索',
+  'faq.empty': '該当する質問はありません',
+  'faq.stillStuck': '解決しない場合は、お気軽にお問い合わせください。',
+  'faq.contact': 'お問い合わせ',
+  'pages.notFound': 'ページが見つかりません',
+  'pages.revisedOn': '{date} 改定',
+  'terms.revisedTitle': '利用規約を改定しました',
+  'terms.consentTitle': '利用規約への同意のお願い',
+  'terms.revisedOn':
+    '{date}付けで利用規約を改定しました。引き続きご利用いただくには、改定後の利用規約への同意が必要です。',
+  'terms.revised':
+    '利用規約を改定しました。引き続きご利用いただくには、改定後の利用規約への同意が必要です。',
+  'terms.consentRequired': 'ご利用いただくには、利用規約への同意が必要です。',
+  'terms.changes': '主な変更点',
+  'terms.fullText': '利用規約の全文',
+  'terms.accept': '同意して続ける',
+  'terms.decline': '同意せずにログアウト',
+
+  'share.label': '共有',
+  'share.notFound': 'お探しのページは見つかりませんでした',
+  'share.backHome': 'ホームに戻る',
+  'share.productGone': 'この商品は販売を終了したか、見つかりません',
+  'share.otherProducts': 'ほかの商品を見る',
+  'share.postGone': 'この投稿は削除されたか、非公開です',
+  'share.toTimeline': 'タイムラインを見る',
+  'share.postTitle': '{name}の投稿',
+  'share.userGone': 'このユーザーは退会したか、見つかりません',
+  'share.individualGone': 'この個体は非公開か、削除されました',
+  'share.keeperProfile': '{name}さんのプロフィールを見る',
+  'share.individualTitle': '{name}さんの{species}',
+
+  'seo.locality': '{locality}産',
+  'seo.productDescription': '{summary}。{description}',
+  'seo.categoryTitle': '{name}の生体一覧',
+  'seo.postTitle': '{name}さんの投稿',
+  'seo.profileDescription': '{name}さんの投稿と飼育記録',
+} as const;
@@ -0,0 +1,17 @@
+import { deviceLocale, type Locale } from '@/lib/i18n/locale';
+import { createPersistedStore } from '@/lib/store';
+
+/** `system` follows the device language, falling back to Japanese for unsupported ones. */
+export type LanguagePreference = 'system' | Locale;
+
+export const languageStore = createPersistedStore<{ language: LanguagePreference }>('language', {
+  language: 'system',
+});
+
+export function setLanguagePreference(language: LanguagePreference) {
+  languageStore.setState({ language });
+}
+
+export function resolveLocale(preference: LanguagePreference): Locale {
+  return preference === 'system' ? deviceLocale() : preference;
+}
@@ -0,0 +1,84 @@
+import type { Locale } from '@/lib/i18n/locale';
+import { INTL_LOCALES } from '@/lib/i18n/locale';
+import { en } from '@/lib/i18n/messages/en';
+import { ja } from '@/lib/i18n/messages/ja';
+
+export type MessageKey = keyof typeof ja;
+
+/**
+ * A translation of the Japanese catalog. Keys may be missing while a translation is in progress;
+ * `translate` falls back to Japanese for them and `auditCatalog` reports them.
+ */
+export type Catalog = { readonly [K in MessageKey]?: string };
+
+const CATALOGS: Record<Locale, Catalog> = { ja, en };
+
+/** The `{name}` placeholders in a message, e.g. `'count'` for `通知 (未読 {count}件)`. */
+type Placeholders<S extends string> = S extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | Placeholders<Rest>
+  : never;
+
+export type MessageParams<K extends MessageKey> = Record<
+  Placeholders<(typeof ja)[K]>,
+  string | number
+>;
+
+/** Params are required exactly when the message has placeholders. */
+export type TranslateArgs<K extends MessageKey> = [Placeholders<(typeof ja)[K]>] extends [never]
+  ? []
+  : [params: MessageParams<K>];
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export function translate<K extends MessageKey>(
+  locale: Locale,
+  key: K,
+  ...[params]: TranslateArgs<K>
+): string {
+  const message: string = CATALOGS[locale][key] ?? ja[key];
+  if (!params) {
+    return message;
+  }
+  const values: Record<string, string | number> = params;
+  return message.replace(PLACEHOLDER, (match, name: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      return match;
+    }
+    return typeof value === 'number' ? value.toLocaleString(INTL_LOCALES[locale]) : value;
+  });
+}
+
+export type CatalogAudit = {
+  /** Keys in the Japanese catalog with no translation. */
+  missing: MessageKey[];
+  /** Keys that no longer exist in the Japanese catalog. */
+  unknown: string[];
+  /** Keys whose translation uses different placeholders from the Japanese. */
+  placeholderMismatch: MessageKey[];
+};
+
+function placeholdersOf(message: string) {
+  return [...message.matchAll(PLACEHOLDER)]
+    .map((match) => match[1])
+    .sort()
+    .join(',');
+}
+
+/** Compares a catalog with the Japanese one. An empty audit means the translation is complete. */
+export function auditCatalog(catalog: Catalog): CatalogAudit {
+  const keys = Object.keys(ja) as MessageKey[];
+  const translated: Record<string, string | undefined> = catalog;
+  return {
+    missing: keys.filter((key) => translated[key] === undefined),
+    unknown: Object.keys(catalog).filter((key) => !(key in ja)),
+    placeholderMismatch: keys.filter((key) => {
+      const message = translated[key];
+      return message !== undefined && placeholdersOf(message) !== placeholdersOf(ja[key]);
+    }),
+  };
+}
+
+export function auditLocale(locale: Locale) {
+  return auditCatalog(CATALOGS[locale]);
+}
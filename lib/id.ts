@@ -0,0 +1,4 @@
+/** A locally generated id that is unique enough for records created on this device. */
+export function createId(prefix: string) {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
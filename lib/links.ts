@@ -0,0 +1,129 @@
+import type { Href } from 'expo-router';
+
+import { APP_SCHEME, SITE_URL } from '@/lib/site';
+
+/** Something that can be shared as a link and opened again from one. */
+export type ShareTarget =
+  | { type: 'product'; id: string }
+  | { type: 'post'; id: string }
+  | { type: 'user'; id: string }
+  /** Only meaningful while the keeper shares it on their profile. */
+  | { type: 'individual'; userId: string; id: string };
+
+export type ShareLinks = {
+  /** `https://…`; opens the web build, or the app where universal links are set up. */
+  webUrl: string;
+  /** `myapp://…`; opens the installed app directly. */
+  appUrl: string;
+};
+
+/** The route a target opens, for `router.push` and `<Link>`. */
+export function shareTargetHref(target: ShareTarget): Href {
+  switch (target.type) {
+    case 'product':
+      return { pathname: '/products/[id]', params: { id: target.id } };
+    case 'post':
+      return { pathname: '/posts/[id]', params: { id: target.id } };
+    case 'user':
+      return { pathname: '/users/[id]', params: { id: target.id } };
+    case 'individual':
+      return {
+        pathname: '/users/[id]/individuals/[individualId]',
+        params: { id: target.userId, individualId: target.id },
+      };
+  }
+}
+
+/** The same route as a path, e.g. `/products/dorcus-hopei`. Also the canonical web path. */
+export function shareTargetPath(target: ShareTarget) {
+  const segment = encodeURIComponent;
+  switch (target.type) {
+    case 'product':
+      return `/products/${segment(target.id)}`;
+    case 'post':
+      return `/posts/${segment(target.id)}`;
+    case 'user':
+      return `/users/${segment(target.id)}`;
+    case 'individual':
+      return `/users/${segment(target.userId)}/individuals/${segment(target.id)}`;
+  }
+}
+
+export function shareLinks(target: ShareTarget): ShareLinks {
+  const path = shareTargetPath(target);
+  return { webUrl: `${SITE_URL}${path}`, appUrl: `${APP_SCHEME}:/${path}` };
+}
+
+const SITE_HOST = new URL(SITE_URL).host;
+
+/**
+ * The path of a link into the app: `myapp://products/x`, `https://<site>/products/x` or a bare
+ * path. `null` for links to other sites and anything that is not a URL.
+ */
+export function linkPath(url: string) {
+  if (url.startsWith('/')) {
+    return url;
+  }
+  const scheme = `${APP_SCHEME}://`;
+  if (url.startsWith(scheme)) {
+    // `myapp://products/x` puts the first segment where a host would be.
+    return `/${url.slice(scheme.length).replace(/^\/+/, '')}`;
+  }
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && parsed.host === SITE_HOST
+      ? `${parsed.pathname}${parsed.search}`
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function segments(path: string) {
+  try {
+    return path
+      .split(/[?#]/)[0]
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment));
+  } catch {
+    return [];
+  }
+}
+
+/** The target a shared link points at, or `null` if it is not one of ours. */
+export function parseShareUrl(url: string): ShareTarget | null {
+  const path = linkPath(url);
+  const [section, id, child, childId, ...rest] = path ? segments(path) : [];
+  if (!id || rest.length > 0) {
+    return null;
+  }
+  if (child === undefined) {
+    switch (section) {
+      case 'products':
+        return { type: 'product', id };
+      case 'posts':
+        return { type: 'post', id };
+      case 'users':
+        return { type: 'user', id };
+    }
+  }
+  if (section === 'users' && child === 'individuals' && childId) {
+    return { type: 'individual', userId: id, id: childId };
+  }
+  return null;
+}
+
+/**
+ * Where an incoming link should land. Share links go to their canonical route; other paths on
+ * our site or scheme are kept, so anything the router does not know shows the not-found screen;
+ * web links to other sites open the home tab. Other schemes, such as the development client's,
+ * are left for the router.
+ */
+export function resolveIncomingLink(url: string) {
+  const target = parseShareUrl(url);
+  if (target) {
+    return shareTargetPath(target);
+  }
+  return linkPath(url) ?? (/^https?:/i.test(url) ? '/' : url);
+}
@@ -0,0 +1,5 @@
+export * from '@/lib/notifications/messages';
+export * from '@/lib/notifications/routing';
+export * from '@/lib/notifications/settings';
+export * from '@/lib/notifications/store';
+export * from '@/lib/notifications/types';
@@ -0,0 +1,70 @@
+import type { Product } from '@/lib/catalog';
+import type { PlacedOrder } from '@/lib/checkout/order-api';
+import type { Activity } from '@/lib/feed';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import type { AppNotification } from '@/lib/notifications/types';
+
+/** Turns feed activity into inbox entries; ids are the server's, so refetching adds nothing new. */
+export function notificationFromActivity(
+  activity: Activity,
+  locale: Locale = getLocale()
+): AppNotification {
+  const name = activity.actor.displayName;
+  const base = { id: `activity:${activity.id}`, createdAt: activity.createdAt };
+  switch (activity.type) {
+    case 'follow':
+      return {
+        ...base,
+        payload: { type: 'follow', userId: activity.actor.id },
+        title: translate(locale, 'notifications.message.follow', { name }),
+        body: `@${activity.actor.handle}`,
+      };
+    case 'like':
+      return {
+        ...base,
+        payload: { type: 'like', postId: activity.postId },
+        title: translate(locale, 'notifications.message.like', { name }),
+        body: activity.excerpt,
+      };
+    case 'reply':
+      return {
+        ...base,
+        payload: { type: 'reply', postId: activity.postId },
+        title: translate(locale, 'notifications.message.reply', { name }),
+        body: activity.excerpt,
+      };
+  }
+}
+
+/** One entry per order and status, so each change is announced once. */
+export function notificationFromOrder(
+  order: PlacedOrder,
+  at = new Date(),
+  locale: Locale = getLocale()
+): AppNotification {
+  return {
+    id: `order:${order.orderNumber}:${order.status}`,
+    payload: { type: 'order', orderNumber: order.orderNumber, status: order.status },
+    title: translate(locale, 'notifications.message.order', {
+      status: translate(locale, `order.status.${order.status}`),
+    }),
+    body: translate(locale, 'order.number', { orderNumber: order.orderNumber }),
+    createdAt: at.toISOString(),
+  };
+}
+
+/** Keyed by the time it was spotted, since the same product can sell out and return again. */
+export function notificationFromRestock(
+  product: Pick<Product, 'id' | 'title'>,
+  at = new Date(),
+  locale: Locale = getLocale()
+): AppNotification {
+  return {
+    id: `restock:${product.id}:${at.toISOString()}`,
+    payload: { type: 'restock', productId: product.id },
+    title: translate(locale, 'notifications.message.restock'),
+    body: product.title,
+    createdAt: at.toISOString(),
+  };
+}
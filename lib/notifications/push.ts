@@ -0,0 +1,69 @@
+import * as Notifications from 'expo-notifications';
+
+import { parseNotificationPayload } from '@/lib/notifications/routing';
+import { shouldAlert } from '@/lib/notifications/settings';
+import { notificationSettingsStore } from '@/lib/notifications/store';
+import type { AppNotification } from '@/lib/notifications/types';
+
+Notifications.setNotificationHandler({
+  handleNotification: async (notification) => {
+    const payload = parseNotificationPayload(notification.request.content.data);
+    const alert =
+      !payload || shouldAlert(payload, notificationSettingsStore.getState(), new Date());
+    return {
+      shouldShowBanner: alert,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    };
+  },
+});
+
+/** `null` for messages without a payload this version understands. */
+function toAppNotification(notification: Notifications.Notification): AppNotification | null {
+  const { content, identifier } = notification.request;
+  const payload = parseNotificationPayload(content.data);
+  if (!payload) {
+    return null;
+  }
+  return {
+    id: `push:${identifier}`,
+    payload,
+    title: content.title ?? '',
+    body: content.body ?? '',
+    createdAt: new Date(notification.date).toISOString(),
+  };
+}
+
+type Listeners = {
+  /** A notification arrived while the app was open. */
+  onReceive: (notification: AppNotification) => void;
+  /** The user tapped a notification in the system tray. */
+  onOpen: (notification: AppNotification) => void;
+};
+
+/** Returns a function that removes the listeners. */
+export function subscribeToNotifications({ onReceive, onOpen }: Listeners) {
+  const received = Notifications.addNotificationReceivedListener((notification) => {
+    const item = toAppNotification(notification);
+    if (item) {
+      onReceive(item);
+    }
+  });
+  const response = Notifications.addNotificationResponseReceivedListener(({ notification }) => {
+    const item = toAppNotification(notification);
+    if (item) {
+      onOpen(item);
+    }
+  });
+  return () => {
+    received.remove();
+    response.remove();
+  };
+}
+
+/** The notification the app was launched from, if any. */
+export async function getLaunchNotification() {
+  const response = await Notifications.getLastNotificationResponseAsync();
+  return response ? toAppNotification(response.notification) : null;
+}
@@ -0,0 +1,15 @@
+import type { AppNotification } from '@/lib/notifications/types';
+
+type Listeners = {
+  onReceive: (notification: AppNotification) => void;
+  onOpen: (notification: AppNotification) => void;
+};
+
+/** The web build receives no push or local notifications; the inbox is fed by the server only. */
+export function subscribeToNotifications(_listeners: Listeners) {
+  return () => {};
+}
+
+export async function getLaunchNotification(): Promise<AppNotification | null> {
+  return null;
+}
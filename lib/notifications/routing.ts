@@ -0,0 +1,61 @@
+import type { Href } from 'expo-router';
+
+import { ORDER_STATUSES } from '@/lib/checkout/order-api';
+import type { NotificationPayload } from '@/lib/notifications/types';
+
+/** Where tapping a notification goes, whether it came from a push message or the inbox. */
+export function notificationHref(payload: NotificationPayload): Href {
+  switch (payload.type) {
+    case 'follow':
+      return { pathname: '/users/[id]', params: { id: payload.userId } };
+    case 'like':
+    case 'reply':
+      return { pathname: '/posts/[id]', params: { id: payload.postId } };
+    case 'order':
+      return {
+        pathname: '/mypage/orders/[orderNumber]',
+        params: { orderNumber: payload.orderNumber },
+      };
+    case 'restock':
+      return { pathname: '/products/[id]', params: { id: payload.productId } };
+    case 'care':
+      return '/records/today';
+  }
+}
+
+function text(value: unknown) {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Reads a payload from a push message's `data`, which comes from outside the app and may be from
+ * an older or newer server. Returns `null` for anything this version does not understand.
+ */
+export function parseNotificationPayload(data: unknown): NotificationPayload | null {
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+  const fields = data as Record<string, unknown>;
+  const userId = text(fields.userId);
+  const postId = text(fields.postId);
+  const orderNumber = text(fields.orderNumber);
+  const productId = text(fields.productId);
+  const taskId = text(fields.taskId);
+  const status = ORDER_STATUSES.find((candidate) => candidate === fields.status);
+
+  switch (fields.type) {
+    case 'follow':
+      return userId ? { type: 'follow', userId } : null;
+    case 'like':
+    case 'reply':
+      return postId ? { type: fields.type, postId } : null;
+    case 'order':
+      return orderNumber && status ? { type: 'order', orderNumber, status } : null;
+    case 'restock':
+      return productId ? { type: 'restock', productId } : null;
+    case 'care':
+      return taskId ? { type: 'care', taskId } : null;
+    default:
+      return null;
+  }
+}
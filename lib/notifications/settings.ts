@@ -0,0 +1,101 @@
+import { hasErrors, type FieldErrors } from '@/lib/forms';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import type {
+  NotificationPayload,
+  NotificationSettings,
+  QuietHours,
+} from '@/lib/notifications/types';
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  categories: { follow: true, like: true, reply: true, order: true, restock: true },
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+};
+
+function minutesOf(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Whether `date` falls in the quiet period. Equal start and end times mean no quiet period. */
+export function isQuietTime(quietHours: QuietHours, date: Date) {
+  if (!quietHours.enabled) {
+    return false;
+  }
+  const start = minutesOf(quietHours.start);
+  const end = minutesOf(quietHours.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * The first moment at or after `date` outside the quiet period, for scheduling local reminders
+ * that the system would otherwise show in the middle of the night.
+ */
+export function deferPastQuietHours(date: Date, quietHours: QuietHours) {
+  if (!isQuietTime(quietHours, date)) {
+    return date;
+  }
+  const end = minutesOf(quietHours.end);
+  const deferred = new Date(date);
+  deferred.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  if (deferred <= date) {
+    deferred.setDate(deferred.getDate() + 1);
+  }
+  return deferred;
+}
+
+/**
+ * Whether to show a banner for a notification arriving at `now`. The inbox keeps every
+ * notification either way. Care reminders are scheduled with quiet hours already applied.
+ */
+export function shouldAlert(
+  payload: NotificationPayload,
+  settings: NotificationSettings,
+  now: Date
+) {
+  if (payload.type === 'care') {
+    return true;
+  }
+  return settings.categories[payload.type] && !isQuietTime(settings.quietHours, now);
+}
+
+export type QuietHoursInput = {
+  start: string;
+  end: string;
+};
+
+function parseTime(value: string) {
+  const match = /^(\d{1,2})[:：](\d{2})$/.exec(
+    value.trim().replace(/[０-９]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+  );
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return null;
+  }
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+export function validateQuietHours(
+  input: QuietHoursInput,
+  locale: Locale = getLocale()
+):
+  | { value: Omit<QuietHours, 'enabled'>; errors?: undefined }
+  | { value?: undefined; errors: FieldErrors<QuietHoursInput> } {
+  const errors: FieldErrors<QuietHoursInput> = {};
+  const start = parseTime(input.start);
+  const end = parseTime(input.end);
+
+  if (!start) {
+    errors.start = translate(locale, 'notifications.error.start');
+  }
+  if (!end) {
+    errors.end = translate(locale, 'notifications.error.end');
+  } else if (end === start) {
+    errors.end = translate(locale, 'notifications.error.sameTime');
+  }
+
+  if (hasErrors(errors) || !start || !end) {
+    return { errors };
+  }
+  return { value: { start, end } };
+}
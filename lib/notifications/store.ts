@@ -0,0 +1,142 @@
+import type { CatalogSource, Product } from '@/lib/catalog';
+import type { OrderApi, OrderStatus, PlacedOrder } from '@/lib/checkout';
+import { favoritesOf, favoritesStore, recordFavoriteStock } from '@/lib/favorites';
+import type { FeedClient } from '@/lib/feed';
+import {
+  notificationFromActivity,
+  notificationFromOrder,
+  notificationFromRestock,
+} from '@/lib/notifications/messages';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '@/lib/notifications/settings';
+import type { AppNotification, NotificationSettings, QuietHours } from '@/lib/notifications/types';
+import { createPersistedStore } from '@/lib/store';
+
+/** Older entries are dropped; the inbox is a recent history, not an archive. */
+const MAX_NOTIFICATIONS = 200;
+const ACTIVITY_PAGE_SIZE = 50;
+
+export type NotificationsState = {
+  /** Newest first. */
+  items: AppNotification[];
+};
+
+export const notificationStore = createPersistedStore<NotificationsState>('notifications', {
+  items: [],
+});
+
+export const notificationSettingsStore = createPersistedStore<NotificationSettings>(
+  'notifications.settings',
+  DEFAULT_NOTIFICATION_SETTINGS,
+  { version: 2 }
+);
+
+/** Stores new notifications; ones already in the inbox keep their read state. */
+export function addNotifications(incoming: AppNotification[]) {
+  notificationStore.setState((state) => {
+    const known = new Set(state.items.map((item) => item.id));
+    const added = incoming.filter((item) => !known.has(item.id));
+    if (added.length === 0) {
+      return state;
+    }
+    return {
+      items: [...added, ...state.items]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, MAX_NOTIFICATIONS),
+    };
+  });
+}
+
+export function markNotificationRead(id: string) {
+  const readAt = new Date().toISOString();
+  notificationStore.setState((state) => ({
+    items: state.items.map((item) => (item.id === id && !item.readAt ? { ...item, readAt } : item)),
+  }));
+}
+
+export function markAllNotificationsRead() {
+  const readAt = new Date().toISOString();
+  notificationStore.setState((state) => ({
+    items: state.items.map((item) => (item.readAt ? item : { ...item, readAt })),
+  }));
+}
+
+/** Clears what belongs to the account when it signs out; care reminders are the device's. */
+export function resetNotifications() {
+  notificationStore.setState((state) => ({
+    items: state.items.filter((item) => item.payload.type === 'care'),
+  }));
+}
+
+export function unreadCount(state: NotificationsState) {
+  return state.items.filter((item) => !item.readAt).length;
+}
+
+export function setNotificationCategory(
+  category: keyof NotificationSettings['categories'],
+  enabled: boolean
+) {
+  notificationSettingsStore.setState((state) => ({
+    ...state,
+    categories: { ...state.categories, [category]: enabled },
+  }));
+}
+
+export function setQuietHours(changes: Partial<QuietHours>) {
+  notificationSettingsStore.setState((state) => ({
+    ...state,
+    quietHours: { ...state.quietHours, ...changes },
+  }));
+}
+
+/** The last status seen for each order, so a change is announced once. */
+export const orderStatusStore = createPersistedStore<{ statuses: Record<string, OrderStatus> }>(
+  'notifications.orders',
+  { statuses: {} }
+);
+
+/**
+ * Announces orders whose status changed since they were last seen. Orders seen for the first
+ * time are only recorded; placing one is announced by checkout itself. The statuses are loaded
+ * first, so a change made while the app was closed is still announced after a cold start.
+ */
+export async function notifyOrderChanges(orders: PlacedOrder[]) {
+  await orderStatusStore.hydrate();
+  const { statuses } = orderStatusStore.getState();
+  const changed = orders.filter(
+    (order) => statuses[order.orderNumber] && statuses[order.orderNumber] !== order.status
+  );
+  addNotifications(changed.map((order) => notificationFromOrder(order)));
+  orderStatusStore.setState((state) => ({
+    statuses: {
+      ...state.statuses,
+      ...Object.fromEntries(orders.map((order) => [order.orderNumber, order.status])),
+    },
+  }));
+}
+
+export async function loadOrderChanges(api: OrderApi) {
+  const page = await api.listOrders();
+  await notifyOrderChanges(page.items);
+}
+
+/** Announces `ownerId`'s favourites that were sold out when last seen and are back in stock. */
+export async function notifyRestocks(products: Product[], ownerId: string) {
+  await favoritesStore.hydrate();
+  addNotifications(
+    recordFavoriteStock(products, ownerId).map((product) => notificationFromRestock(product))
+  );
+}
+
+export async function loadRestocks(source: CatalogSource, ownerId: string) {
+  await favoritesStore.hydrate();
+  const ids = favoritesOf(favoritesStore.getState(), ownerId).map((item) => item.productId);
+  if (ids.length > 0) {
+    await notifyRestocks(await source.listProducts({ ids }), ownerId);
+  }
+}
+
+/** Adds the latest follows, likes and replies from the feed server to the inbox. */
+export async function loadActivity(client: FeedClient) {
+  const page = await client.listActivity({ limit: ACTIVITY_PAGE_SIZE });
+  addNotifications(page.items.map((activity) => notificationFromActivity(activity)));
+}
@@ -0,0 +1,43 @@
+import type { OrderStatus } from '@/lib/checkout';
+
+export type NotificationCategory = 'follow' | 'like' | 'reply' | 'order' | 'restock' | 'care';
+
+/**
+ * What a notification is about, as carried in a push message's `data` or stored in the inbox.
+ * Each kind is also the category it is switched on and off by.
+ */
+export type NotificationPayload =
+  | { type: 'follow'; userId: string }
+  | { type: 'like'; postId: string }
+  | { type: 'reply'; postId: string }
+  | { type: 'order'; orderNumber: string; status: OrderStatus }
+  | { type: 'restock'; productId: string }
+  | { type: 'care'; taskId: string };
+
+export type AppNotification = {
+  /** Stable across sources, so the same event arriving twice is stored once. */
+  id: string;
+  payload: NotificationPayload;
+  title: string;
+  body: string;
+  /** ISO 8601. */
+  createdAt: string;
+  /** ISO 8601; unset while unread. */
+  readAt?: string;
+};
+
+/** `HH:mm` local times. `end` before `start` means the quiet period runs past midnight. */
+export type QuietHours = {
+  enabled: boolean;
+  start: string;
+  end: string;
+};
+
+export type NotificationSettings = {
+  /**
+   * Care reminders are left out: they are local notifications switched on the today screen,
+   * which also asks for the permission, and the settings screen edits that same switch.
+   */
+  categories: Record<Exclude<NotificationCategory, 'care'>, boolean>;
+  quietHours: QuietHours;
+};
@@ -0,0 +1,76 @@
+import { parseMarkdown, plainText, type RichTextNode } from '@/lib/content';
+import { faqMarkdown } from '@/lib/pages/sources/faq';
+import { normalizeText, splitTerms } from '@/lib/text';
+
+export type FaqEntry = {
+  id: string;
+  category: string;
+  question: string;
+  answer: RichTextNode[];
+};
+
+export type FaqSection = {
+  category: string;
+  entries: FaqEntry[];
+};
+
+/** Splits the FAQ's Markdown into questions; see `faqMarkdown` for the layout. */
+export function parseFaq(markdown: string): FaqEntry[] {
+  const entries: FaqEntry[] = [];
+  let category = '';
+  let current: { question: string; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (current) {
+      entries.push({
+        id: `faq-${entries.length + 1}`,
+        category,
+        question: current.question,
+        answer: parseMarkdown(current.lines.join('\n')),
+      });
+      current = null;
+    }
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = /^(#{1,2})\s+(.*)$/.exec(line.trim());
+    if (heading?.[1] === '#') {
+      flush();
+      category = heading[2];
+    } else if (heading) {
+      flush();
+      current = { question: heading[2], lines: [] };
+    } else {
+      current?.lines.push(line);
+    }
+  }
+  flush();
+  return entries;
+}
+
+export const FAQ_ENTRIES = parseFaq(faqMarkdown);
+
+/**
+ * Questions whose question or answer contains every term of `query`, ignoring kana and width, in
+ * categories in their original order. Everything when `query` is blank.
+ */
+export function searchFaq(entries: FaqEntry[], query: string): FaqSection[] {
+  const terms = splitTerms(normalizeText(query));
+  const matches = terms.length
+    ? entries.filter((entry) => {
+        const haystack = normalizeText(`${entry.question}\n${plainText(entry.answer)}`);
+        return terms.every((term) => haystack.includes(term));
+      })
+    : entries;
+
+  const sections: FaqSection[] = [];
+  for (const entry of matches) {
+    const section = sections.find((existing) => existing.category === entry.category);
+    if (section) {
+      section.entries.push(entry);
+    } else {
+      sections.push({ category: entry.category, entries: [entry] });
+    }
+  }
+  return sections;
+}
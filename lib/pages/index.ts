@@ -0,0 +1,21 @@
+import { aboutPage } from '@/lib/pages/sources/about';
+import { commercialTransactionsPage } from '@/lib/pages/sources/commercial-transactions';
+import { privacyPage } from '@/lib/pages/sources/privacy';
+import { termsPage } from '@/lib/pages/sources/terms';
+import type { StaticPage, StaticPageSlug } from '@/lib/pages/types';
+
+export * from '@/lib/pages/faq';
+export * from '@/lib/pages/terms';
+export * from '@/lib/pages/types';
+export { termsPage };
+
+export const STATIC_PAGES: Record<StaticPageSlug, StaticPage> = {
+  about: aboutPage,
+  terms: termsPage,
+  'commercial-transactions': commercialTransactionsPage,
+  privacy: privacyPage,
+};
+
+export function isStaticPageSlug(value: string | undefined): value is StaticPageSlug {
+  return value !== undefined && Object.hasOwn(STATIC_PAGES, value);
+}
@@ -0,0 +1,33 @@
+import type { StaticPage } from '@/lib/pages/types';
+
+export const aboutPage: StaticPage = {
+  slug: 'about',
+  title: '会社概要',
+  version: '2026-04-01',
+  markdown: `
+## 会社名
+
+株式会社カブクワ堂
+
+## 所在地
+
+〒407-0000 山梨県韮崎市本町1-2-3
+
+## 代表者
+
+代表取締役 甲虫 太郎
+
+## 設立
+
+2018年6月
+
+## 事業内容
+
+- クワガタムシ・カブトムシの生体および飼育用品の販売
+- 飼育記録・コミュニティアプリの運営
+
+## 許認可
+
+第一種動物取扱業（販売）登録番号 山梨県 第0000号
+`,
+};
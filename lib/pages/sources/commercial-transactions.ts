@@ -0,0 +1,49 @@
+import type { StaticPage } from '@/lib/pages/types';
+
+export const commercialTransactionsPage: StaticPage = {
+  slug: 'commercial-transactions',
+  title: '特定商取引法に基づく表記',
+  version: '2026-04-01',
+  markdown: `
+## 販売業者
+
+株式会社カブクワ堂
+
+## 運営統括責任者
+
+甲虫 太郎
+
+## 所在地
+
+〒407-0000 山梨県韮崎市本町1-2-3
+
+## 連絡先
+
+アプリ内の「お問い合わせ」からご連絡ください。電話番号はご請求があれば遅滞なく開示します。
+
+## 販売価格
+
+各商品ページに税込価格で表示しています。
+
+## 商品代金以外の必要料金
+
+- 送料（配送方法により異なります）
+- 代金引換手数料（代金引換をご利用の場合）
+
+## 支払方法
+
+クレジットカード、コンビニ払い、代金引換
+
+## 引渡時期
+
+ご入金の確認後、3営業日以内に発送します。生体は気温により発送を見合わせる場合があります。
+
+## 返品・交換
+
+生き物のため、お客様のご都合による返品はお受けできません。死着の場合は利用規約第8条に従って対応します。
+
+## 動物取扱業の表示
+
+第一種動物取扱業（販売）登録番号 山梨県 第0000号 / 動物取扱責任者 甲虫 太郎
+`,
+};
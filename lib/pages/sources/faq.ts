@@ -0,0 +1,46 @@
+/** `#` starts a category and `##` a question; the text up to the next heading is its answer. */
+export const faqMarkdown = `
+# ご注文・お支払い
+
+## 注文後にキャンセルできますか？
+
+発送準備に入る前であれば、お問い合わせからご連絡いただければキャンセルできます。注文履歴で状態が「発送準備中」になった後はキャンセルできません。
+
+## 使える支払い方法を教えてください
+
+クレジットカード、コンビニ払い、代金引換をご利用いただけます。ポイントは1pt = 1円として商品代金に使えます。
+
+# 配送・生体の到着
+
+## 真夏や真冬でも発送してもらえますか？
+
+保冷剤やカイロを同梱して発送しますが、種類によっては安全に運べない時期があり、その間は発送を見合わせます。各商品ページの「発送できる月」をご確認ください。
+
+## 届いた生体が死んでいました
+
+到着から**24時間以内**に、写真を添えてお問い合わせください。注文番号をお知らせいただくとスムーズです。代替品の発送または返金で対応します。
+
+## 配達日時は指定できますか？
+
+配送方法の選択で、お届け日と時間帯を指定できます。
+
+# 飼育・飼育記録
+
+## 幼虫の菌糸ビンはいつ交換すればいいですか？
+
+菌糸が劣化して色が変わってきたら交換の目安です。飼育記録にエサ交換を登録しておくと、次の交換時期をお知らせします。
+
+## 飼育記録を他の人に見せたくありません
+
+個体ごとに公開範囲を設定できます。「非公開」にした個体はプロフィールに表示されません。
+
+# アカウント
+
+## パスワードを忘れました
+
+ログイン画面からパスワードの再設定を行ってください。メールが届かない場合はお問い合わせください。
+
+## 退会したい
+
+お問い合わせの「アカウント」からご連絡ください。退会すると保有ポイントと飼育記録は失われます。詳しくは[利用規約](/pages/terms)をご覧ください。
+`;
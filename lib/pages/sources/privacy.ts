@@ -0,0 +1,34 @@
+import type { StaticPage } from '@/lib/pages/types';
+
+export const privacyPage: StaticPage = {
+  slug: 'privacy',
+  title: 'プライバシーポリシー',
+  version: '2026-04-01',
+  markdown: `
+株式会社カブクワ堂（以下「当社」）は、利用者の個人情報を以下のとおり取り扱います。
+
+## 取得する情報
+
+- 氏名、メールアドレス、住所、電話番号
+- 注文履歴、ポイント履歴
+- 利用者が登録した飼育記録、写真、投稿
+
+## 利用目的
+
+1. 商品の発送およびアフターサービスのため
+2. お問い合わせへの回答のため
+3. 入荷のお知らせなど、利用者が希望した通知を送るため
+
+## 第三者への提供
+
+法令に基づく場合を除き、ご本人の同意なく第三者に提供しません。配送業者および決済事業者には、業務に必要な範囲で提供します。
+
+## 外部サービス
+
+決済には外部の決済代行サービスを利用しています。カード情報は当社のサーバーには保存されません。詳しくは[個人情報保護委員会のガイドライン](https://www.ppc.go.jp/personalinfo/legal/)もご参照ください。
+
+## 開示・訂正・削除
+
+ご本人からの請求があった場合、本人確認のうえ、遅滞なく対応します。アプリ内の「お問い合わせ」からご連絡ください。
+`,
+};
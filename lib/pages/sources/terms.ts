@@ -0,0 +1,61 @@
+import type { TermsPage } from '@/lib/pages/types';
+
+export const termsPage: TermsPage = {
+  slug: 'terms',
+  title: '利用規約',
+  version: '2026-10-01',
+  changes: [
+    '飼育記録の公開範囲と、コミュニティへの投稿の取り扱いを追記しました（第5条）',
+    '死着補償の申請期限を、到着から24時間以内に改めました（第8条）',
+  ],
+  markdown: `
+この利用規約（以下「本規約」）は、株式会社カブクワ堂（以下「当社」）が提供するアプリおよび通信販売サービス（以下「本サービス」）の利用条件を定めるものです。
+
+## 第1条（適用）
+
+本規約は、本サービスを利用するすべての方（以下「利用者」）に適用されます。
+
+## 第2条（会員登録）
+
+1. 会員登録は、本規約に同意のうえ、当社所定の方法で申請するものとします。
+2. 当社は、登録の申請者に以下の事由があると判断した場合、登録を承認しないことがあります。
+
+- 虚偽の事項を届け出た場合
+- 過去に本規約に違反したことがある場合
+
+## 第3条（アカウントの管理）
+
+利用者は、自己の責任においてメールアドレスおよびパスワードを管理するものとします。
+
+## 第4条（売買契約）
+
+本サービスにおける売買契約は、当社が注文確認メールを送信した時点で成立します。
+
+## 第5条（飼育記録と投稿）
+
+1. 利用者が公開に設定した飼育記録および投稿は、他の利用者が閲覧できます。
+2. 当社は、投稿が法令または公序良俗に反すると判断した場合、事前の通知なく削除できるものとします。
+
+## 第6条（禁止事項）
+
+- 法令に違反する行為
+- 植物防疫法その他の法令で輸入・譲渡が認められていない生体の取引
+- 他の利用者への迷惑行為
+
+## 第7条（生体の取り扱い）
+
+生体は到着後すぐに開封し、状態をご確認ください。
+
+## 第8条（死着補償）
+
+到着時に生体が死亡していた場合、**到着から24時間以内**に写真を添えてお問い合わせいただいた場合に限り、代替品の発送または返金で対応します。
+
+## 第9条（規約の変更）
+
+当社は、必要と判断した場合、本規約を変更できるものとします。変更後の本規約は、アプリ上で同意いただいた時点から適用されます。
+
+## 第10条（準拠法・管轄）
+
+本規約は日本法に準拠し、本サービスに関する紛争は甲府地方裁判所を第一審の専属的合意管轄裁判所とします。
+`,
+};
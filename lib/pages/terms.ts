@@ -0,0 +1,34 @@
+import { termsPage } from '@/lib/pages/sources/terms';
+import { createPersistedStore } from '@/lib/store';
+
+export const TERMS_VERSION = termsPage.version;
+
+export type TermsAcceptance = {
+  version: string;
+  /** ISO 8601. */
+  acceptedAt: string;
+};
+
+export type TermsAcceptanceState = {
+  /** By user id, so each account on a shared device accepts for itself. */
+  accepted: Record<string, TermsAcceptance>;
+};
+
+export const termsAcceptanceStore = createPersistedStore<TermsAcceptanceState>(
+  'pages.terms-acceptance',
+  { accepted: {} }
+);
+
+/** Whether `userId` has yet to accept the current terms, including after they change. */
+export function needsTermsAcceptance(state: TermsAcceptanceState, userId: string) {
+  return state.accepted[userId]?.version !== TERMS_VERSION;
+}
+
+export function acceptTerms(userId: string, now = new Date()) {
+  termsAcceptanceStore.setState((state) => ({
+    accepted: {
+      ...state.accepted,
+      [userId]: { version: TERMS_VERSION, acceptedAt: now.toISOString() },
+    },
+  }));
+}
@@ -0,0 +1,18 @@
+export type StaticPageSlug = 'about' | 'terms' | 'commercial-transactions' | 'privacy';
+
+/**
+ * A page written in Markdown and shipped with the app. `version` is the date it took effect
+ * (`YYYY-MM-DD`) and changes whenever the text does.
+ */
+export type StaticPage = {
+  slug: StaticPageSlug;
+  title: string;
+  version: string;
+  markdown: string;
+};
+
+/** The terms of service, with what changed in this version for members who accepted an older one. */
+export type TermsPage = StaticPage & {
+  slug: 'terms';
+  changes: string[];
+};
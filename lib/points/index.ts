@@ -0,0 +1,2 @@
+export * from '@/lib/points/ledger';
+export * from '@/lib/points/points-api';
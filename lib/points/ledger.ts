@@ -0,0 +1,119 @@
+import type { OrderTotals } from '@/lib/checkout/pricing';
+
+/** Points awarded per yen of goods paid for, after any points used on the order. */
+export const POINT_RATE = 0.01;
+/** Earned points lapse this many days after they were awarded. */
+export const POINT_VALIDITY_DAYS = 365;
+/** Lapsing points are highlighted this many days ahead. */
+export const POINT_EXPIRY_WARNING_DAYS = 30;
+
+/** Shown as `points.kind.<value>`. */
+export type PointEntryKind = 'earned' | 'spent' | 'expired';
+
+/** One line of the member's point history. `points` is always positive; `kind` says which way. */
+export type PointEntry = {
+  id: string;
+  points: number;
+  /** ISO 8601. */
+  createdAt: string;
+  orderNumber?: string;
+} & (
+  | {
+      kind: 'earned';
+      /** ISO 8601. */
+      expiresAt: string;
+    }
+  | { kind: 'spent' | 'expired' }
+);
+
+/** Points that are still unused, all lapsing at the same time. */
+export type PointLot = {
+  points: number;
+  /** ISO 8601. */
+  expiresAt: string;
+};
+
+export type PointBalance = {
+  balance: number;
+  /** Soonest to lapse first. */
+  lots: PointLot[];
+};
+
+/**
+ * What is left of each award once the history is replayed, lapsed or not. Spending and lapsing
+ * always use the points closest to expiry first, which is how the shop settles them.
+ */
+function remainingLots(entries: PointEntry[]) {
+  const lots: PointLot[] = [];
+  const consume = (points: number, from: (lot: PointLot) => boolean) => {
+    let remaining = points;
+    for (const lot of lots) {
+      if (remaining === 0) {
+        break;
+      }
+      if (from(lot)) {
+        const used = Math.min(lot.points, remaining);
+        lot.points -= used;
+        remaining -= used;
+      }
+    }
+  };
+
+  const chronological = [...entries].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const entry of chronological) {
+    switch (entry.kind) {
+      case 'earned':
+        lots.push({ points: entry.points, expiresAt: entry.expiresAt });
+        lots.sort((a, b) => a.expiresAt.localeCompare(b.expiresAt));
+        break;
+      case 'spent':
+        consume(entry.points, (lot) => lot.expiresAt > entry.createdAt);
+        break;
+      case 'expired':
+        consume(entry.points, (lot) => lot.expiresAt <= entry.createdAt);
+        break;
+    }
+  }
+
+  return lots.filter((lot) => lot.points > 0);
+}
+
+export function pointBalance(entries: PointEntry[], now = new Date()): PointBalance {
+  const nowIso = now.toISOString();
+  const live = remainingLots(entries).filter((lot) => lot.expiresAt > nowIso);
+  return { balance: live.reduce((total, lot) => total + lot.points, 0), lots: live };
+}
+
+/** Unused points past their expiry that the history does not yet record as lapsed. */
+export function lapsedLots(entries: PointEntry[], now = new Date()) {
+  const nowIso = now.toISOString();
+  return remainingLots(entries).filter((lot) => lot.expiresAt <= nowIso);
+}
+
+/** Unused points that lapse within `days` of `now`. */
+export function expiringPoints(
+  { lots }: PointBalance,
+  now = new Date(),
+  days = POINT_EXPIRY_WARNING_DAYS
+) {
+  const limit = new Date(now.getTime() + days * 86_400_000).toISOString();
+  return lots.filter((lot) => lot.expiresAt <= limit);
+}
+
+/** What an order earns: goods only, leaving out shipping, fees and the points spent on it. */
+export function pointsEarnedFor(totals: OrderTotals) {
+  return Math.floor((totals.subtotalYen - totals.pointsYen) * POINT_RATE);
+}
+
+export function pointsExpiryFor(awardedAt: Date) {
+  return new Date(awardedAt.getTime() + POINT_VALIDITY_DAYS * 86_400_000).toISOString();
+}
+
+/** Points can pay for the goods, but not for shipping or fees. */
+export function usablePoints(balance: number, subtotalYen: number) {
+  return Math.max(0, Math.min(balance, subtotalYen));
+}
+
+export function formatPoints(points: number) {
+  return `${points.toLocaleString('ja-JP')}pt`;
+}
@@ -0,0 +1,138 @@
+import type { PlacedOrder } from '@/lib/checkout/order-api';
+import { createId } from '@/lib/id';
+import {
+  lapsedLots,
+  pointBalance,
+  pointsEarnedFor,
+  pointsExpiryFor,
+  type PointBalance,
+  type PointEntry,
+} from '@/lib/points/ledger';
+
+export type PointQuery = {
+  /** The previous page's `nextCursor`. */
+  cursor?: string | null;
+  limit?: number;
+};
+
+/** Newest first. `nextCursor` is `null` on the last page. */
+export type PointPage = {
+  items: PointEntry[];
+  nextCursor: string | null;
+};
+
+export interface PointsApi {
+  getBalance(): Promise<PointBalance>;
+  listEntries(query?: PointQuery): Promise<PointPage>;
+}
+
+/** The mock ledger is also told about orders, which the real service hears from the shop. */
+export type MockPointsApi = PointsApi & {
+  /** The balance right now, without the simulated latency. */
+  currentBalance(): number;
+  /** Records the points spent on and earned by a newly placed order. */
+  settleOrder(order: Pick<PlacedOrder, 'orderNumber' | 'placedAt' | 'totals'>): void;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const DAY_MS = 86_400_000;
+const DEFAULT_LIMIT = 20;
+
+/** A year of history: lapsed points, points about to lapse, a spend and recent awards. */
+function sampleEntries(now: number): PointEntry[] {
+  const at = (daysAgo: number) => new Date(now - daysAgo * DAY_MS);
+  const earned = (id: string, daysAgo: number, points: number): PointEntry => ({
+    id,
+    kind: 'earned',
+    points,
+    createdAt: at(daysAgo).toISOString(),
+    expiresAt: pointsExpiryFor(at(daysAgo)),
+  });
+  return [
+    earned('sample-1', 400, 120),
+    earned('sample-2', 340, 250),
+    { id: 'sample-3', kind: 'spent', points: 100, createdAt: at(200).toISOString() },
+    earned('sample-4', 30, 120),
+    earned('sample-5', 12, 68),
+    earned('sample-6', 2, 48),
+  ];
+}
+
+/** Keeps the ledger in memory and records points as they lapse, as the real service does. */
+export function createMockPointsApi({
+  latencyMs = 400,
+  samples = true,
+}: { latencyMs?: number; samples?: boolean } = {}): MockPointsApi {
+  const entries: PointEntry[] = samples ? sampleEntries(Date.now()) : [];
+
+  const lapse = () => {
+    for (const lot of lapsedLots(entries)) {
+      entries.push({
+        id: createId('points'),
+        kind: 'expired',
+        points: lot.points,
+        createdAt: lot.expiresAt,
+      });
+    }
+  };
+
+  return {
+    async getBalance() {
+      await wait(latencyMs);
+      lapse();
+      return pointBalance(entries);
+    },
+    async listEntries({ cursor, limit = DEFAULT_LIMIT } = {}) {
+      await wait(latencyMs);
+      lapse();
+      const newest = [...entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      // The cursor is the id of the last entry already seen.
+      const start = cursor ? newest.findIndex((entry) => entry.id === cursor) + 1 : 0;
+      const items = newest.slice(start, start + limit);
+      return {
+        items,
+        nextCursor: start + limit < newest.length ? items[items.length - 1].id : null,
+      };
+    },
+    currentBalance() {
+      lapse();
+      return pointBalance(entries).balance;
+    },
+    settleOrder({ orderNumber, placedAt, totals }) {
+      if (totals.pointsYen > 0) {
+        entries.push({
+          id: createId('points'),
+          kind: 'spent',
+          points: totals.pointsYen,
+          createdAt: placedAt,
+          orderNumber,
+        });
+      }
+      const earned = pointsEarnedFor(totals);
+      if (earned > 0) {
+        entries.push({
+          id: createId('points'),
+          kind: 'earned',
+          points: earned,
+          createdAt: placedAt,
+          orderNumber,
+          expiresAt: pointsExpiryFor(new Date(placedAt)),
+        });
+      }
+    },
+  };
+}
+
+/** Shared with the mock order API so that placing an order shows up in the point history. */
+export const mockPointsApi = createMockPointsApi();
+
+let pointsApi: PointsApi = mockPointsApi;
+
+export function getPointsApi() {
+  return pointsApi;
+}
+
+export function setPointsApi(next: PointsApi) {
+  pointsApi = next;
+}
@@ -0,0 +1,179 @@
+import { parseDateKey, toDateKey } from '@/lib/date';
+import { hasErrors, type FieldErrors } from '@/lib/forms';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import type { Individual, IndividualDraft } from '@/lib/records/types';
+
+/** One 割り出し: opening the egg-laying set and counting what came out. */
+export type Harvest = {
+  id: string;
+  /** `YYYY-MM-DD`. */
+  date: string;
+  eggs: number;
+  larvae: number;
+  notes?: string;
+};
+
+/** A ♂ × ♀ pairing and the egg-laying sets that followed it. */
+export type Pairing = {
+  id: string;
+  maleId: string;
+  femaleId: string;
+  /** 同居・ハンドペアリング日 as `YYYY-MM-DD`. */
+  pairedOn: string;
+  /** 産卵セット日 as `YYYY-MM-DD`. */
+  setUpOn?: string;
+  harvests: Harvest[];
+  notes?: string;
+  /** ISO 8601. */
+  createdAt: string;
+};
+
+export type PairingDraft = Omit<Pairing, 'id' | 'harvests' | 'createdAt'>;
+
+export type PairingInput = {
+  maleId?: string;
+  femaleId?: string;
+  pairedOn: string;
+  setUpOn: string;
+  notes: string;
+};
+
+export type HarvestDraft = Omit<Harvest, 'id'>;
+
+export type HarvestInput = {
+  date: string;
+  eggs: string;
+  larvae: string;
+  notes: string;
+};
+
+export function validatePairing(
+  input: PairingInput,
+  individuals: Record<string, Individual>,
+  { today, locale = getLocale() }: { today: Date; locale?: Locale }
+):
+  | { draft: PairingDraft; errors?: undefined }
+  | { draft?: undefined; errors: FieldErrors<PairingInput> } {
+  const errors: FieldErrors<PairingInput> = {};
+  const male = input.maleId ? individuals[input.maleId] : undefined;
+  const female = input.femaleId ? individuals[input.femaleId] : undefined;
+  const pairedOn = parseDateKey(input.pairedOn.trim());
+  const setUpOn = input.setUpOn.trim() ? parseDateKey(input.setUpOn.trim()) : undefined;
+
+  if (male?.sex !== 'male') {
+    errors.maleId = translate(locale, 'breeding.error.male');
+  }
+  if (female?.sex !== 'female') {
+    errors.femaleId = translate(locale, 'breeding.error.female');
+  }
+  if (!pairedOn) {
+    errors.pairedOn = translate(locale, 'validation.dateFormat');
+  } else if (pairedOn > today) {
+    errors.pairedOn = translate(locale, 'validation.futureDate');
+  }
+  if (setUpOn === null) {
+    errors.setUpOn = translate(locale, 'validation.dateFormat');
+  } else if (setUpOn && pairedOn && setUpOn < pairedOn) {
+    errors.setUpOn = translate(locale, 'breeding.error.setUpBeforePairing');
+  }
+
+  if (hasErrors(errors) || !male || !female || !pairedOn) {
+    return { errors };
+  }
+  return {
+    draft: {
+      maleId: male.id,
+      femaleId: female.id,
+      pairedOn: toDateKey(pairedOn),
+      setUpOn: setUpOn ? toDateKey(setUpOn) : undefined,
+      notes: input.notes.trim() || undefined,
+    },
+  };
+}
+
+function parseCount(value: string) {
+  const normalized = value
+    .trim()
+    .replace(/[０-９]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0));
+  return normalized === '' ? 0 : Number(normalized);
+}
+
+export function validateHarvest(
+  input: HarvestInput,
+  { today, locale = getLocale() }: { today: Date; locale?: Locale }
+):
+  | { draft: HarvestDraft; errors?: undefined }
+  | { draft?: undefined; errors: FieldErrors<HarvestInput> } {
+  const errors: FieldErrors<HarvestInput> = {};
+  const date = parseDateKey(input.date.trim());
+  const eggs = parseCount(input.eggs);
+  const larvae = parseCount(input.larvae);
+
+  if (!date) {
+    errors.date = translate(locale, 'validation.dateFormat');
+  } else if (date > today) {
+    errors.date = translate(locale, 'validation.futureDate');
+  }
+  if (!Number.isInteger(eggs) || eggs < 0) {
+    errors.eggs = translate(locale, 'breeding.error.eggs');
+  }
+  if (!Number.isInteger(larvae) || larvae < 0) {
+    errors.larvae = translate(locale, 'breeding.error.larvae');
+  }
+
+  if (hasErrors(errors) || !date) {
+    return { errors };
+  }
+  return {
+    draft: { date: toDateKey(date), eggs, larvae, notes: input.notes.trim() || undefined },
+  };
+}
+
+export function harvestTotals(pairing: Pick<Pairing, 'harvests'>) {
+  return pairing.harvests.reduce(
+    (totals, harvest) => ({
+      eggs: totals.eggs + harvest.eggs,
+      larvae: totals.larvae + harvest.larvae,
+    }),
+    { eggs: 0, larvae: 0 }
+  );
+}
+
+/** `WD` and `WF` count as generation 0 and `n` of captive breeding; anything else is unknown. */
+function generationNumber(generation: string | undefined) {
+  if (generation === 'WD') {
+    return 0;
+  }
+  const match = /^(?:WF|CBF|F)(\d+)$/.exec(generation ?? '');
+  return match ? Number(match[1]) : undefined;
+}
+
+/** The captive-bred generation of offspring from a pairing, e.g. `CBF1` × `CBF2` → `CBF3`. */
+export function offspringGeneration(
+  father: Pick<Individual, 'generation'>,
+  mother: Pick<Individual, 'generation'>
+) {
+  const fatherGeneration = generationNumber(father.generation);
+  const motherGeneration = generationNumber(mother.generation);
+  if (fatherGeneration === undefined || motherGeneration === undefined) {
+    return undefined;
+  }
+  return `CBF${Math.max(fatherGeneration, motherGeneration) + 1}`;
+}
+
+/** Starts a record for a larva from a pairing, inheriting species, locality and lineage. */
+export function offspringDraft(father: Individual, mother: Individual): IndividualDraft {
+  return {
+    label: '',
+    species: mother.species,
+    locality: father.locality === mother.locality ? mother.locality : undefined,
+    generation: offspringGeneration(father, mother),
+    sex: 'unknown',
+    stage: 'larva',
+    fatherId: father.id,
+    motherId: mother.id,
+    photos: [],
+    status: 'alive',
+  };
+}
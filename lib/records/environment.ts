@@ -0,0 +1,228 @@
+import { parseDateTimeKey, toDateTimeKey } from '@/lib/date';
+import { hasErrors, type FieldErrors } from '@/lib/forms';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import { lookupBySpecies } from '@/lib/records/species';
+import type { Individual } from '@/lib/records/types';
+
+export type HabitatKind = 'room' | 'case';
+
+/** In picker order; shown as `environment.kind.<value>`. */
+export const HABITAT_KINDS: readonly HabitatKind[] = ['room', 'case'];
+
+/** Somewhere a thermo-hygrometer sits: a breeding room, or one case or incubator inside it. */
+export type Habitat = {
+  id: string;
+  name: string;
+  kind: HabitatKind;
+  /** The individuals kept here, whose species decide the acceptable range. */
+  individualIds: string[];
+  /** ISO 8601. */
+  createdAt: string;
+};
+
+export type HabitatDraft = Omit<Habitat, 'id' | 'createdAt'>;
+
+export type Reading = {
+  /** `YYYY-MM-DD HH:mm` in the keeper's local time, as loggers record it. */
+  at: string;
+  temperatureC?: number;
+  humidityPct?: number;
+};
+
+export type ReadingInput = {
+  at: string;
+  temperatureC: string;
+  humidityPct: string;
+};
+
+export type Metric = 'temperatureC' | 'humidityPct';
+
+/** Named as `environment.metric.<value>`. */
+export const METRIC_UNITS: Record<Metric, string> = {
+  temperatureC: '℃',
+  humidityPct: '%',
+};
+
+/** Inclusive `[min, max]` per metric. */
+export type ClimateRange = Record<Metric, [number, number]>;
+
+/** Safe year-round ranges for keeping adults and larvae, from common breeder guidance. */
+const CLIMATE_RANGES: Record<string, ClimateRange> = {
+  Dorcus: { temperatureC: [16, 28], humidityPct: [55, 85] },
+  'Dorcus hopei': { temperatureC: [15, 28], humidityPct: [55, 85] },
+  Prosopocoilus: { temperatureC: [18, 28], humidityPct: [60, 85] },
+  'Lucanus maculifemoratus': { temperatureC: [12, 23], humidityPct: [60, 90] },
+  'Cyclommatus metallifer': { temperatureC: [20, 27], humidityPct: [60, 85] },
+  Dynastes: { temperatureC: [18, 26], humidityPct: [60, 85] },
+  'Trypoxylus dichotomus': { temperatureC: [15, 30], humidityPct: [55, 85] },
+  Chalcosoma: { temperatureC: [18, 25], humidityPct: [60, 85] },
+};
+
+export function climateRangeFor(scientificName: string) {
+  return lookupBySpecies(CLIMATE_RANGES, scientificName);
+}
+
+/**
+ * The range every species kept in a habitat tolerates: the overlap of their ranges. `undefined`
+ * when none of the species are known; `conflict` when the ranges do not overlap, which means the
+ * species should not share the habitat.
+ */
+export function habitatClimateRange(
+  individuals: Pick<Individual, 'species'>[]
+): { range: ClimateRange; conflict: boolean } | undefined {
+  const ranges = individuals
+    .map((individual) => climateRangeFor(individual.species.scientificName))
+    .filter((range): range is ClimateRange => range !== undefined);
+  if (ranges.length === 0) {
+    return undefined;
+  }
+  const overlap = (metric: Metric): [number, number] => [
+    Math.max(...ranges.map((range) => range[metric][0])),
+    Math.min(...ranges.map((range) => range[metric][1])),
+  ];
+  const range = { temperatureC: overlap('temperatureC'), humidityPct: overlap('humidityPct') };
+  return {
+    range,
+    conflict:
+      range.temperatureC[0] > range.temperatureC[1] || range.humidityPct[0] > range.humidityPct[1],
+  };
+}
+
+export type OutOfRangePeriod = {
+  metric: Metric;
+  direction: 'high' | 'low';
+  /** First and last out-of-range reading. */
+  from: string;
+  to: string;
+  /** The highest (or lowest) value seen during the period. */
+  extreme: number;
+};
+
+/** Runs of consecutive readings above or below the range, oldest first. */
+export function findOutOfRangePeriods(readings: Reading[], range: ClimateRange) {
+  const periods: OutOfRangePeriod[] = [];
+
+  for (const metric of ['temperatureC', 'humidityPct'] as Metric[]) {
+    const [min, max] = range[metric];
+    let current: OutOfRangePeriod | undefined;
+    for (const reading of readings) {
+      const value = reading[metric];
+      if (value === undefined) {
+        continue;
+      }
+      const direction = value > max ? 'high' : value < min ? 'low' : undefined;
+      if (current && direction === current.direction) {
+        current.to = reading.at;
+        current.extreme =
+          direction === 'high'
+            ? Math.max(current.extreme, value)
+            : Math.min(current.extreme, value);
+        continue;
+      }
+      current = direction
+        ? { metric, direction, from: reading.at, to: reading.at, extreme: value }
+        : undefined;
+      if (current) {
+        periods.push(current);
+      }
+    }
+  }
+  return periods.sort((a, b) => a.from.localeCompare(b.from));
+}
+
+/** e.g. `06-01 13:00〜06-01 17:30 温度が高すぎます (最高 31.2℃)`. */
+export function describeOutOfRangePeriod(period: OutOfRangePeriod, locale: Locale = getLocale()) {
+  const when = period.from === period.to ? period.from : `${period.from}〜${period.to}`;
+  return translate(locale, `environment.outOfRange.${period.metric}.${period.direction}`, {
+    when,
+    extreme: period.extreme,
+  });
+}
+
+/** Readings at or after `since`, oldest first. */
+export function readingsSince(readings: Reading[], since: Date) {
+  const from = toDateTimeKey(since);
+  return readings.filter((reading) => reading.at >= from);
+}
+
+/**
+ * One metric as chart points with fractional days on the x axis, averaged into at most
+ * `maxPoints` buckets so a month of 10-minute logs stays cheap to draw.
+ */
+export function readingSeries(readings: Reading[], metric: Metric, maxPoints = 120) {
+  const points = readings
+    .map((reading) => ({
+      date: parseDateTimeKey(reading.at),
+      at: reading.at,
+      value: reading[metric],
+    }))
+    .filter(
+      (point): point is { date: Date; at: string; value: number } =>
+        point.date !== null && point.value !== undefined
+    );
+  if (points.length === 0) {
+    return [];
+  }
+  const start = points[0].date.getTime();
+  const bucketSize = Math.ceil(points.length / maxPoints);
+  const series = [];
+  for (let index = 0; index < points.length; index += bucketSize) {
+    const bucket = points.slice(index, index + bucketSize);
+    const value = bucket.reduce((total, point) => total + point.value, 0) / bucket.length;
+    series.push({
+      day: (bucket[0].date.getTime() - start) / 86_400_000,
+      value: Math.round(value * 10) / 10,
+      date: bucket[0].at,
+    });
+  }
+  return series;
+}
+
+function parseNumber(value: string) {
+  const normalized = value
+    .trim()
+    .replace(/[０-９．－]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0));
+  return normalized === '' ? undefined : Number(normalized);
+}
+
+export function validateReading(
+  input: ReadingInput,
+  { now, locale = getLocale() }: { now: Date; locale?: Locale }
+):
+  | { reading: Reading; errors?: undefined }
+  | { reading?: undefined; errors: FieldErrors<ReadingInput> } {
+  const errors: FieldErrors<ReadingInput> = {};
+  const at = parseDateTimeKey(input.at.trim());
+  const temperatureC = parseNumber(input.temperatureC);
+  const humidityPct = parseNumber(input.humidityPct);
+
+  if (!at) {
+    errors.at = translate(locale, 'environment.error.atFormat');
+  } else if (at > now) {
+    errors.at = translate(locale, 'environment.error.atFuture');
+  }
+  if (temperatureC !== undefined && !(temperatureC > -30 && temperatureC < 60)) {
+    errors.temperatureC = translate(locale, 'environment.error.temperature');
+  }
+  if (humidityPct !== undefined && !(humidityPct >= 0 && humidityPct <= 100)) {
+    errors.humidityPct = translate(locale, 'environment.error.humidity');
+  }
+  if (temperatureC === undefined && humidityPct === undefined) {
+    errors.temperatureC = translate(locale, 'environment.error.empty');
+  }
+
+  if (hasErrors(errors) || !at) {
+    return { errors };
+  }
+  return { reading: { at: toDateTimeKey(at), temperatureC, humidityPct } };
+}
+
+/** Merges `incoming` into `existing` by timestamp; a new reading at the same minute wins. */
+export function mergeReadings(existing: Reading[], incoming: Reading[]) {
+  const byTime = new Map(existing.map((reading) => [reading.at, reading]));
+  for (const reading of incoming) {
+    byTime.set(reading.at, reading);
+  }
+  return [...byTime.values()].sort((a, b) => a.at.localeCompare(b.at));
+}
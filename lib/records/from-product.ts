@@ -0,0 +1,38 @@
+import type { Product } from '@/lib/catalog';
+import type { IndividualDraft, IndividualSex } from '@/lib/records/types';
+
+const SEX_FROM_PRODUCT: Record<Product['sex'], IndividualSex> = {
+  male: 'male',
+  female: 'female',
+  pair: 'unknown',
+  unsexed: 'unknown',
+};
+
+/**
+ * Starts a record for an animal bought in the shop. A pair becomes a single draft with unknown
+ * sex; the keeper registers the second animal separately.
+ */
+export function draftFromProduct(product: Product): IndividualDraft {
+  return {
+    label: product.species.japaneseName,
+    species: product.species,
+    locality: product.locality,
+    generation: product.generation,
+    sex: SEX_FROM_PRODUCT[product.sex],
+    stage: product.stage,
+    photos: [],
+    status: 'alive',
+    sourceProductId: product.id,
+  };
+}
+
+export function emptyDraft(): IndividualDraft {
+  return {
+    label: '',
+    species: { japaneseName: '', scientificName: '', genus: '' },
+    sex: 'unknown',
+    stage: 'larva',
+    photos: [],
+    status: 'alive',
+  };
+}
@@ -0,0 +1,244 @@
+import type { LarvalInstar } from '@/lib/catalog';
+import { addDays, daysBetween, parseDateKey, toDateKey } from '@/lib/date';
+import { hasErrors, type FieldErrors } from '@/lib/forms';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import { lookupBySpecies } from '@/lib/records/species';
+import type { Individual } from '@/lib/records/types';
+
+export type GrowthEvent = 'mat-change' | 'food-change' | 'pupation' | 'eclosion';
+
+/** In picker order; shown as `growth.event.<value>`. */
+export const GROWTH_EVENTS: readonly GrowthEvent[] = [
+  'mat-change',
+  'food-change',
+  'pupation',
+  'eclosion',
+];
+
+/** One visit to an individual: a weigh-in, a substrate change, or a milestone. */
+export type GrowthEntry = {
+  id: string;
+  individualId: string;
+  /** `YYYY-MM-DD`. */
+  date: string;
+  weightG?: number;
+  headWidthMm?: number;
+  instar?: LarvalInstar;
+  event?: GrowthEvent;
+  /** What the larva was moved into, e.g. `菌糸ビン 1400cc`. */
+  substrate?: string;
+  notes?: string;
+};
+
+export type GrowthEntryDraft = Omit<GrowthEntry, 'id' | 'individualId'>;
+
+export type GrowthEntryInput = {
+  date: string;
+  weightG: string;
+  headWidthMm: string;
+  instar?: LarvalInstar;
+  event?: GrowthEvent;
+  substrate: string;
+  notes: string;
+};
+
+/** Drops smaller than this are scale noise or a full gut, not a warning sign. */
+export const WEIGHT_DROP_ALERT_RATIO = 0.03;
+
+function parseMeasurement(value: string) {
+  const normalized = value
+    .trim()
+    .replace(/[０-９．]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0));
+  return normalized === '' ? undefined : Number(normalized);
+}
+
+export function validateGrowthEntry(
+  input: GrowthEntryInput,
+  { today, locale = getLocale() }: { today: Date; locale?: Locale }
+):
+  | { draft: GrowthEntryDraft; errors?: undefined }
+  | { draft?: undefined; errors: FieldErrors<GrowthEntryInput> } {
+  const errors: FieldErrors<GrowthEntryInput> = {};
+  const date = parseDateKey(input.date.trim());
+  const weightG = parseMeasurement(input.weightG);
+  const headWidthMm = parseMeasurement(input.headWidthMm);
+
+  if (!date) {
+    errors.date = translate(locale, 'validation.dateFormat');
+  } else if (date > today) {
+    errors.date = translate(locale, 'validation.futureDate');
+  }
+  if (weightG !== undefined && !(weightG > 0 && weightG < 200)) {
+    errors.weightG = translate(locale, 'growth.error.weight');
+  }
+  if (headWidthMm !== undefined && !(headWidthMm > 0 && headWidthMm < 50)) {
+    errors.headWidthMm = translate(locale, 'growth.error.headWidth');
+  }
+  if (
+    weightG === undefined &&
+    headWidthMm === undefined &&
+    input.instar === undefined &&
+    input.event === undefined
+  ) {
+    errors.weightG = translate(locale, 'growth.error.empty');
+  }
+
+  if (hasErrors(errors) || !date) {
+    return { errors };
+  }
+  return {
+    draft: {
+      date: toDateKey(date),
+      weightG,
+      headWidthMm,
+      instar: input.instar,
+      event: input.event,
+      substrate: input.substrate.trim() || undefined,
+      notes: input.notes.trim() || undefined,
+    },
+  };
+}
+
+export function sortGrowthEntries(entries: GrowthEntry[]) {
+  return [...entries].sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+}
+
+export type WeightDrop = {
+  from: GrowthEntry;
+  to: GrowthEntry;
+  lossG: number;
+  ratio: number;
+};
+
+/**
+ * Consecutive weigh-ins where the larva got lighter. Weight loss right before pupation is normal,
+ * so drops after a recorded pupation are ignored.
+ */
+export function findWeightDrops(entries: GrowthEntry[]): WeightDrop[] {
+  const drops: WeightDrop[] = [];
+  let previous: GrowthEntry | undefined;
+
+  for (const entry of sortGrowthEntries(entries)) {
+    if (entry.event === 'pupation') {
+      break;
+    }
+    if (entry.weightG === undefined) {
+      continue;
+    }
+    if (previous?.weightG !== undefined) {
+      const lossG = previous.weightG - entry.weightG;
+      const ratio = lossG / previous.weightG;
+      if (ratio >= WEIGHT_DROP_ALERT_RATIO) {
+        drops.push({ from: previous, to: entry, lossG, ratio });
+      }
+    }
+    previous = entry;
+  }
+  return drops;
+}
+
+/** Typical development at 20-25°C. Larval days run from hatching to pupation. */
+type DevelopmentProfile = { larvalDays: [number, number]; pupalDays: number };
+
+const DEVELOPMENT_PROFILES: Record<string, DevelopmentProfile> = {
+  'Dorcus hopei': { larvalDays: [240, 420], pupalDays: 30 },
+  Dorcus: { larvalDays: [240, 540], pupalDays: 30 },
+  'Dynastes hercules': { larvalDays: [450, 720], pupalDays: 45 },
+  Dynastes: { larvalDays: [420, 720], pupalDays: 45 },
+  'Trypoxylus dichotomus': { larvalDays: [270, 330], pupalDays: 21 },
+  'Lucanus maculifemoratus': { larvalDays: [365, 730], pupalDays: 30 },
+  Prosopocoilus: { larvalDays: [240, 365], pupalDays: 28 },
+  'Cyclommatus metallifer': { larvalDays: [150, 240], pupalDays: 25 },
+  Chalcosoma: { larvalDays: [365, 540], pupalDays: 40 },
+};
+
+export function developmentProfileFor(scientificName: string) {
+  return lookupBySpecies(DEVELOPMENT_PROFILES, scientificName);
+}
+
+export type EclosionProjection =
+  | { kind: 'eclosed'; date: string }
+  | { kind: 'projected'; earliest: string; latest: string; basis: 'pupation' | 'hatch' };
+
+/**
+ * When the adult should emerge. A recorded pupation gives a near-exact date; otherwise the hatch
+ * date and the species' larval period give a window. `undefined` when there is nothing to go on.
+ */
+export function projectEclosion(
+  individual: Pick<Individual, 'species' | 'hatchDate'>,
+  entries: GrowthEntry[]
+): EclosionProjection | undefined {
+  const sorted = sortGrowthEntries(entries);
+  const eclosion = sorted.find((entry) => entry.event === 'eclosion');
+  if (eclosion) {
+    return { kind: 'eclosed', date: eclosion.date };
+  }
+
+  const profile = developmentProfileFor(individual.species.scientificName);
+  if (!profile) {
+    return undefined;
+  }
+  const pupation = sorted.find((entry) => entry.event === 'pupation');
+  const pupated = pupation && parseDateKey(pupation.date);
+  if (pupated) {
+    const date = toDateKey(addDays(pupated, profile.pupalDays));
+    return { kind: 'projected', earliest: date, latest: date, basis: 'pupation' };
+  }
+  const hatched = individual.hatchDate && parseDateKey(individual.hatchDate);
+  if (hatched) {
+    const [min, max] = profile.larvalDays;
+    return {
+      kind: 'projected',
+      earliest: toDateKey(addDays(hatched, min + profile.pupalDays)),
+      latest: toDateKey(addDays(hatched, max + profile.pupalDays)),
+      basis: 'hatch',
+    };
+  }
+  return undefined;
+}
+
+export type ChartPoint = { day: number; value: number; date: string };
+
+/** Readings of one measurement as days since the first reading, ready for plotting. */
+export function growthSeries(
+  entries: GrowthEntry[],
+  measure: 'weightG' | 'headWidthMm'
+): ChartPoint[] {
+  const points = sortGrowthEntries(entries).filter((entry) => entry[measure] !== undefined);
+  const first = points[0] && parseDateKey(points[0].date);
+  if (!first) {
+    return [];
+  }
+  return points.map((entry) => ({
+    day: daysBetween(first, parseDateKey(entry.date) ?? first),
+    value: entry[measure] as number,
+    date: entry.date,
+  }));
+}
+
+/** The instar from the most recent entry that recorded one. */
+export function currentInstar(entries: GrowthEntry[]) {
+  return sortGrowthEntries(entries)
+    .reverse()
+    .find((entry) => entry.instar !== undefined)?.instar;
+}
+
+export function describeEclosionProjection(
+  projection: EclosionProjection,
+  locale: Locale = getLocale()
+) {
+  if (projection.kind === 'eclosed') {
+    return translate(locale, 'growth.projection.eclosed', { date: projection.date });
+  }
+  const window =
+    projection.earliest === projection.latest
+      ? translate(locale, 'growth.projection.around', { date: projection.earliest })
+      : `${projection.earliest} 〜 ${projection.latest}`;
+  return translate(locale, `growth.projection.from.${projection.basis}`, { window });
+}
+
+/** e.g. `2025-06-01: 28.4g → 26.9g (-5%)`. */
+export function describeWeightDrop(drop: WeightDrop) {
+  return `${drop.to.date}: ${drop.from.weightG}g → ${drop.to.weightG}g (-${Math.round(drop.ratio * 100)}%)`;
+}
@@ -0,0 +1,11 @@
+export * from '@/lib/records/breeding';
+export * from '@/lib/records/environment';
+export * from '@/lib/records/from-product';
+export * from '@/lib/records/growth';
+export * from '@/lib/records/labels';
+export * from '@/lib/records/logger-csv';
+export * from '@/lib/records/pedigree';
+export * from '@/lib/records/showcase';
+export * from '@/lib/records/store';
+export * from '@/lib/records/types';
+export * from '@/lib/records/validation';
@@ -0,0 +1,14 @@
+import type { IndividualSex, IndividualStatus, IndividualVisibility } from '@/lib/records/types';
+
+/** In picker order; shown as `individual.sex.<value>`. */
+export const INDIVIDUAL_SEXES: readonly IndividualSex[] = ['male', 'female', 'unknown'];
+
+/** In picker order; shown as `individual.status.<value>`. */
+export const INDIVIDUAL_STATUSES: readonly IndividualStatus[] = ['alive', 'dead', 'sold'];
+
+/** Narrowest first; shown as `individual.visibility.<value>`. */
+export const INDIVIDUAL_VISIBILITIES: readonly IndividualVisibility[] = [
+  'private',
+  'followers',
+  'public',
+];
@@ -0,0 +1,49 @@
+import { parseLoggerCsv } from '@/lib/records/logger-csv';
+
+describe('parseLoggerCsv', () => {
+  it('reads a comma-delimited export with units in the cells', () => {
+    const csv = ['Date Time,Temperature(℃),Humidity(%)', '2026/06/01 09:00,23.5℃,60%'].join('\n');
+
+    expect(parseLoggerCsv(csv, 'ja')).toEqual({
+      readings: [{ at: '2026-06-01 09:00', temperatureC: 23.5, humidityPct: 60 }],
+      skipped: 0,
+    });
+  });
+
+  it('reads decimal commas in a semicolon-delimited export', () => {
+    const csv = [
+      'Timestamp;Temperature °C;Humidity %RH',
+      '2026-06-01 09:00;23,5;61,2',
+      '2026-06-01 10:00;24;60',
+    ].join('\n');
+
+    expect(parseLoggerCsv(csv, 'ja')).toEqual({
+      readings: [
+        { at: '2026-06-01 09:00', temperatureC: 23.5, humidityPct: 61.2 },
+        { at: '2026-06-01 10:00', temperatureC: 24, humidityPct: 60 },
+      ],
+      skipped: 0,
+    });
+  });
+
+  it('skips a comma inside a quoted value of a comma-delimited export instead of guessing', () => {
+    const csv = [
+      'Date Time,Temperature,Humidity',
+      '2026-06-01 09:00,"23,5","61,2"',
+      '2026-06-01 10:00,24.1,60',
+    ].join('\n');
+
+    expect(parseLoggerCsv(csv, 'ja')).toEqual({
+      readings: [{ at: '2026-06-01 10:00', temperatureC: 24.1, humidityPct: 60 }],
+      skipped: 1,
+    });
+  });
+
+  it('converts Fahrenheit columns to Celsius', () => {
+    const csv = ['Time,Temp (°F),RH', '2026-06-01 09:00,77,55'].join('\n');
+
+    expect(parseLoggerCsv(csv, 'ja').readings).toEqual([
+      { at: '2026-06-01 09:00', temperatureC: 25, humidityPct: 55 },
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import { toDateTimeKey } from '@/lib/date';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import type { Reading } from '@/lib/records/environment';
+
+export type LoggerCsvResult =
+  | { readings: Reading[]; skipped: number; error?: undefined }
+  | { readings?: undefined; skipped?: undefined; error: string };
+
+const DATE_TIME_HEADER = /date|time|stamp|日時|日付|時刻|時間/i;
+const DATE_ONLY_HEADER = /^(date|日付)$/i;
+const TIME_ONLY_HEADER = /^(time|時刻|時間)$/i;
+const TEMPERATURE_HEADER = /temp|温度|℃|°c|°f|℉/i;
+const FAHRENHEIT_HEADER = /°f|℉|\(f\)|fahrenheit|華氏/i;
+const HUMIDITY_HEADER = /hum|湿度|\brh\b|%/i;
+
+function detectDelimiter(lines: string[]) {
+  const sample = lines.slice(0, 10).join('\n');
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: sample.split(delimiter).length,
+  }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+/** Splits one CSV line, honouring double-quoted fields with `""` escapes. */
+function splitRow(line: string, delimiter: string) {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Year-first dates with `-` or `/`, optional seconds, and ISO 8601 with an offset. Day-first and
+ * month-first dates are ambiguous between loggers, so they are rejected rather than guessed.
+ */
+function parseTimestamp(value: string) {
+  if (/T.*(Z|[+-]\d{2}:?\d{2})$/.test(value)) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const match =
+    /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})[ T](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hours, minutes] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes);
+  return date.getMonth() === month - 1 && date.getDate() === day && hours < 24 ? date : null;
+}
+
+/**
+ * A reading such as `23.5`, `23.5℃` or `60 %`. Files delimited by `;` or tabs come from locales
+ * that write a decimal comma, so `23,5` is read as 23.5 there; anything else unexpected, such as a
+ * comma in a `,`-delimited file, is rejected rather than stripped into a different number.
+ */
+function parseValue(value: string | undefined, delimiter: string) {
+  let text = (value ?? '')
+    .normalize('NFKC')
+    .replace(/\s*(°\s*[cf]|%)$/i, '')
+    .trim();
+  if (delimiter !== ',') {
+    text = text.replace(/^([+-]?\d+),(\d+)$/, '$1.$2');
+  }
+  return /^[+-]?\d+(\.\d+)?$/.test(text) ? Number(text) : undefined;
+}
+
+type Columns = { dateTime: number; time?: number; temperature?: number; humidity?: number };
+
+function columnsFromHeader(header: string[]): (Columns & { fahrenheit: boolean }) | undefined {
+  const find = (pattern: RegExp, exclude: number[] = []) =>
+    header.findIndex((cell, index) => !exclude.includes(index) && pattern.test(cell));
+
+  const temperature = find(TEMPERATURE_HEADER);
+  const humidity = find(HUMIDITY_HEADER, [temperature]);
+  if (temperature < 0 && humidity < 0) {
+    return undefined;
+  }
+  const date = find(DATE_ONLY_HEADER);
+  const time = find(TIME_ONLY_HEADER);
+  const dateTime = date >= 0 && time >= 0 ? date : find(DATE_TIME_HEADER, [temperature, humidity]);
+  if (dateTime < 0) {
+    return undefined;
+  }
+  return {
+    dateTime,
+    time: date >= 0 && time >= 0 ? time : undefined,
+    temperature: temperature >= 0 ? temperature : undefined,
+    humidity: humidity >= 0 ? humidity : undefined,
+    fahrenheit: temperature >= 0 && FAHRENHEIT_HEADER.test(header[temperature]),
+  };
+}
+
+/**
+ * Reads the CSV exported by common USB and Bluetooth thermo-hygrometers. The header row is found
+ * by name in English or Japanese (loggers often put a few lines of device info above it); files
+ * with no header are read as `timestamp, temperature, humidity`. Rows that cannot be read are
+ * counted in `skipped` instead of failing the whole import.
+ */
+export function parseLoggerCsv(text: string, locale: Locale = getLocale()): LoggerCsvResult {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return { error: translate(locale, 'environment.import.empty') };
+  }
+  const delimiter = detectDelimiter(lines);
+  const rows = lines.map((line) => splitRow(line, delimiter));
+
+  let columns: (Columns & { fahrenheit: boolean }) | undefined;
+  let firstDataRow = 0;
+  const headerIndex = rows.slice(0, 20).findIndex((row) => columnsFromHeader(row) !== undefined);
+  if (headerIndex >= 0) {
+    columns = columnsFromHeader(rows[headerIndex]);
+    firstDataRow = headerIndex + 1;
+  } else if (parseTimestamp(rows[0][0] ?? '')) {
+    columns = { dateTime: 0, temperature: 1, humidity: 2, fahrenheit: false };
+  }
+  if (!columns) {
+    return { error: translate(locale, 'environment.import.noColumns') };
+  }
+
+  const readings: Reading[] = [];
+  let skipped = 0;
+  for (const row of rows.slice(firstDataRow)) {
+    const stamp =
+      columns.time === undefined
+        ? row[columns.dateTime]
+        : `${row[columns.dateTime]} ${row[columns.time]}`;
+    const date = parseTimestamp(stamp ?? '');
+    const temperature =
+      columns.temperature === undefined
+        ? undefined
+        : parseValue(row[columns.temperature], delimiter);
+    const humidity =
+      columns.humidity === undefined ? undefined : parseValue(row[columns.humidity], delimiter);
+    if (!date || (temperature === undefined && humidity === undefined)) {
+      skipped++;
+      continue;
+    }
+    readings.push({
+      at: toDateTimeKey(date),
+      temperatureC:
+        temperature !== undefined && columns.fahrenheit
+          ? Math.round((((temperature - 32) * 5) / 9) * 10) / 10
+          : temperature,
+      humidityPct: humidity,
+    });
+  }
+
+  if (readings.length === 0) {
+    return { error: translate(locale, 'environment.import.noRows') };
+  }
+  return { readings, skipped };
+}
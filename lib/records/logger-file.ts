@@ -0,0 +1,21 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+
+/**
+ * Lets the keeper pick a logger's CSV export and returns its text, or `null` if they cancelled.
+ * Files come from the Files app, a cloud drive or a browser download alike.
+ */
+export async function pickLoggerCsv() {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+  const [asset] = result.assets;
+  if (process.env.EXPO_OS === 'web') {
+    return asset.file ? asset.file.text() : (await fetch(asset.uri)).text();
+  }
+  return new File(asset.uri).text();
+}
@@ -0,0 +1,231 @@
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import type { Individual } from '@/lib/records/types';
+
+type Individuals = Record<string, Individual>;
+
+export type PedigreeNode = {
+  individual: Individual;
+  father?: PedigreeNode;
+  mother?: PedigreeNode;
+};
+
+/** Five generations is as far back as a printed 血統書 goes. */
+export const PEDIGREE_GENERATIONS = 5;
+
+/**
+ * The ancestors of `id` as a tree, `generations` deep counting the individual itself. Parents
+ * that were deleted or never recorded are left out.
+ */
+export function buildPedigree(
+  individuals: Individuals,
+  id: string,
+  generations = PEDIGREE_GENERATIONS
+): PedigreeNode | undefined {
+  const individual = individuals[id];
+  if (!individual || generations < 1) {
+    return undefined;
+  }
+  return {
+    individual,
+    father: individual.fatherId
+      ? buildPedigree(individuals, individual.fatherId, generations - 1)
+      : undefined,
+    mother: individual.motherId
+      ? buildPedigree(individuals, individual.motherId, generations - 1)
+      : undefined,
+  };
+}
+
+/** Every recorded ancestor of `id` with the fewest generations back it appears at. */
+export function ancestorsOf(individuals: Individuals, id: string) {
+  const depths = new Map<string, number>();
+  let frontier = [id];
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      const individual = individuals[current];
+      for (const parentId of [individual?.fatherId, individual?.motherId]) {
+        if (parentId && parentId !== id && !depths.has(parentId)) {
+          depths.set(parentId, depth);
+          next.push(parentId);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return depths;
+}
+
+export type SharedAncestor = {
+  individual: Individual;
+  /** Generations back from the ♂; 0 when the ♂ is himself an ancestor of the ♀. */
+  maleDepth: number;
+  femaleDepth: number;
+};
+
+export type InbreedingCheck = {
+  shared: SharedAncestor[];
+  /** Wright's coefficient of inbreeding for offspring of the pairing, 0-1. */
+  coefficient: number;
+};
+
+/**
+ * Generation number counting from the oldest recorded ancestor. Used to decide which side of a
+ * kinship to expand: never expand an individual into its own descendants.
+ */
+function generationDepth(
+  individuals: Individuals,
+  id: string,
+  visiting = new Set<string>()
+): number {
+  const individual = individuals[id];
+  if (!individual || visiting.has(id)) {
+    return 0;
+  }
+  visiting.add(id);
+  const parents = [individual.fatherId, individual.motherId].filter(
+    (parentId): parentId is string => !!parentId && !!individuals[parentId]
+  );
+  const depth =
+    parents.length === 0
+      ? 0
+      : 1 +
+        Math.max(...parents.map((parentId) => generationDepth(individuals, parentId, visiting)));
+  visiting.delete(id);
+  return depth;
+}
+
+/** The coefficient of kinship between two individuals, by the usual recursive method. */
+function kinship(
+  individuals: Individuals,
+  a: string | undefined,
+  b: string | undefined,
+  memo: Map<string, number>,
+  depths: Map<string, number>
+): number {
+  if (!a || !b || !individuals[a] || !individuals[b]) {
+    return 0;
+  }
+  const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+  const cached = memo.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+  // Guards against a cycle in hand-entered parents.
+  memo.set(key, 0);
+
+  const depthOf = (id: string) => {
+    if (!depths.has(id)) {
+      depths.set(id, generationDepth(individuals, id));
+    }
+    return depths.get(id) as number;
+  };
+
+  let value: number;
+  if (a === b) {
+    const { fatherId, motherId } = individuals[a];
+    value = (1 + kinship(individuals, fatherId, motherId, memo, depths)) / 2;
+  } else {
+    const [younger, older] = depthOf(a) >= depthOf(b) ? [a, b] : [b, a];
+    const { fatherId, motherId } = individuals[younger];
+    value =
+      (kinship(individuals, older, fatherId, memo, depths) +
+        kinship(individuals, older, motherId, memo, depths)) /
+      2;
+  }
+  memo.set(key, value);
+  return value;
+}
+
+/** Ancestors the ♂ and ♀ have in common, and how inbred their offspring would be. */
+export function checkInbreeding(
+  individuals: Individuals,
+  maleId: string,
+  femaleId: string
+): InbreedingCheck {
+  const maleLine = ancestorsOf(individuals, maleId).set(maleId, 0);
+  const femaleLine = ancestorsOf(individuals, femaleId).set(femaleId, 0);
+  const shared: SharedAncestor[] = [];
+
+  for (const [id, maleDepth] of maleLine) {
+    const femaleDepth = femaleLine.get(id);
+    if (femaleDepth !== undefined && individuals[id]) {
+      shared.push({ individual: individuals[id], maleDepth, femaleDepth });
+    }
+  }
+  // Only the closest common ancestors matter; their own ancestors are implied.
+  const closest = shared.filter(
+    (ancestor) =>
+      !shared.some(
+        (other) =>
+          other !== ancestor &&
+          ancestorsOf(individuals, other.individual.id).has(ancestor.individual.id)
+      )
+  );
+
+  return {
+    shared: closest.sort((a, b) => a.maleDepth + a.femaleDepth - (b.maleDepth + b.femaleDepth)),
+    coefficient: kinship(individuals, maleId, femaleId, new Map(), new Map()),
+  };
+}
+
+function describeDepth(depth: number, side: 'male' | 'female', locale: Locale) {
+  return depth === 0
+    ? translate(locale, `pedigree.self.${side}`)
+    : translate(locale, `pedigree.generationsBack.${side}`, { depth });
+}
+
+/** e.g. `A-01 (♂の2代前・♀の1代前)`. */
+export function describeSharedAncestor(ancestor: SharedAncestor, locale: Locale = getLocale()) {
+  return translate(locale, 'pedigree.sharedAncestor', {
+    label: ancestor.individual.label,
+    male: describeDepth(ancestor.maleDepth, 'male', locale),
+    female: describeDepth(ancestor.femaleDepth, 'female', locale),
+  });
+}
+
+function describeIndividual(individual: Individual, locale: Locale) {
+  const details = [
+    individual.species.japaneseName,
+    individual.locality,
+    individual.generation,
+    individual.hatchDate && translate(locale, 'individual.hatched', { date: individual.hatchDate }),
+  ].filter(Boolean);
+  return [
+    individual.label,
+    translate(locale, `individual.sex.${individual.sex}`),
+    details.join(' / '),
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * The pedigree as plain text that survives being pasted into a message or an auction listing.
+ *
+ *     A-12 ♂ オオクワガタ / 韮崎 / CBF2
+ *     ├ 父: A-01 ♂ ...
+ *     │ └ 母: ...
+ *     └ 母: B-03 ♀ ...
+ */
+export function formatPedigreeText(root: PedigreeNode, locale: Locale = getLocale()) {
+  const lines = [describeIndividual(root.individual, locale)];
+
+  const walk = (node: PedigreeNode, prefix: string) => {
+    const parents = [
+      [translate(locale, 'pedigree.father'), node.father],
+      [translate(locale, 'pedigree.mother'), node.mother],
+    ].filter((entry): entry is [string, PedigreeNode] => entry[1] !== undefined);
+
+    parents.forEach(([label, parent], index) => {
+      const last = index === parents.length - 1;
+      lines.push(
+        `${prefix}${last ? '└' : '├'} ${label}: ${describeIndividual(parent.individual, locale)}`
+      );
+      walk(parent, `${prefix}${last ? '  ' : '│ '}`);
+    });
+  };
+  walk(root, '');
+  return lines.join('\n');
+}
@@ -0,0 +1,41 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import * as ImagePicker from 'expo-image-picker';
+
+import { createId } from '@/lib/id';
+import type { IndividualPhoto } from '@/lib/records/types';
+
+/**
+ * Lets the keeper pick or take a photo and copies it into the app's document directory, since
+ * the picker's cache copy can be purged by the OS. On web the picked data URI is kept as is.
+ */
+export async function pickIndividualPhoto(
+  source: 'camera' | 'library'
+): Promise<IndividualPhoto | null> {
+  const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 0.8 };
+  if (source === 'camera') {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      return null;
+    }
+  }
+  const result =
+    source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const picked = result.assets[0].uri;
+  if (process.env.EXPO_OS === 'web') {
+    return { uri: picked, addedAt: new Date().toISOString() };
+  }
+  const directory = new Directory(Paths.document, 'individual-photos');
+  if (!directory.exists) {
+    directory.create({ intermediates: true });
+  }
+  const extension = picked.split('.').pop()?.split('?')[0] || 'jpg';
+  const destination = new File(directory, `${createId('photo')}.${extension}`);
+  new File(picked).copy(destination);
+  return { uri: destination.uri, addedAt: new Date().toISOString() };
+}
@@ -0,0 +1,44 @@
+import type { ShowcaseIndividual } from '@/lib/feed';
+import { currentInstar, sortGrowthEntries, type GrowthEntry } from '@/lib/records/growth';
+import type { Individual } from '@/lib/records/types';
+
+/**
+ * What the keeper's profile should show: every current individual they chose to share, with the
+ * latest instar and weight from its growth log. Private and archived individuals are left out
+ * here, so they never leave the device.
+ */
+export function toShowcase(
+  individuals: Individual[],
+  entries: GrowthEntry[]
+): ShowcaseIndividual[] {
+  return individuals
+    .filter((individual) => !individual.archived)
+    .flatMap((individual) => {
+      const { visibility } = individual;
+      if (visibility !== 'followers' && visibility !== 'public') {
+        return [];
+      }
+      const log = entries.filter((entry) => entry.individualId === individual.id);
+      const weightG = sortGrowthEntries(log)
+        .reverse()
+        .find((entry) => entry.weightG !== undefined)?.weightG;
+      return [
+        {
+          id: individual.id,
+          label: individual.label,
+          japaneseName: individual.species.japaneseName,
+          scientificName: individual.species.scientificName || undefined,
+          sex: individual.sex,
+          stage: individual.stage,
+          generation: individual.generation,
+          locality: individual.locality,
+          hatchDate: individual.hatchDate,
+          instar: individual.stage === 'larva' ? currentInstar(log) : undefined,
+          weightG: individual.stage === 'larva' ? weightG : undefined,
+          visibility,
+          updatedAt: individual.updatedAt,
+        },
+      ];
+    })
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -0,0 +1,14 @@
+/**
+ * The most specific entry for a scientific name in a table keyed by trinomial, binomial or genus,
+ * so `Dorcus hopei binodulosus` falls back to `Dorcus hopei`, then `Dorcus`.
+ */
+export function lookupBySpecies<T>(table: Record<string, T>, scientificName: string) {
+  const words = scientificName.trim().split(/\s+/);
+  for (let length = words.length; length > 0; length--) {
+    const entry = table[words.slice(0, length).join(' ')];
+    if (entry) {
+      return entry;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,229 @@
+import { createId } from '@/lib/id';
+import type { HarvestDraft, Pairing, PairingDraft } from '@/lib/records/breeding';
+import {
+  mergeReadings,
+  type Habitat,
+  type HabitatDraft,
+  type Reading,
+} from '@/lib/records/environment';
+import type { GrowthEntry, GrowthEntryDraft } from '@/lib/records/growth';
+import type { Individual, IndividualDraft } from '@/lib/records/types';
+import { createPersistedStore } from '@/lib/store';
+
+export type RecordsState = {
+  individuals: Record<string, Individual>;
+};
+
+/** Breeding records live on the device so they work in a shed with no signal. */
+export const recordsStore = createPersistedStore<RecordsState>('records', { individuals: {} });
+
+function putIndividual(individual: Individual) {
+  recordsStore.setState((state) => ({
+    ...state,
+    individuals: { ...state.individuals, [individual.id]: individual },
+  }));
+}
+
+export function createIndividual(draft: IndividualDraft) {
+  const now = new Date().toISOString();
+  const individual: Individual = {
+    ...draft,
+    id: createId('ind'),
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  putIndividual(individual);
+  return individual;
+}
+
+export function updateIndividual(id: string, changes: Partial<IndividualDraft>) {
+  const existing = recordsStore.getState().individuals[id];
+  if (!existing) {
+    return;
+  }
+  putIndividual({ ...existing, ...changes, updatedAt: new Date().toISOString() });
+}
+
+export function setIndividualArchived(id: string, archived: boolean) {
+  const existing = recordsStore.getState().individuals[id];
+  if (existing) {
+    putIndividual({ ...existing, archived, updatedAt: new Date().toISOString() });
+  }
+}
+
+export function listIndividuals(state: RecordsState, { archived }: { archived: boolean }) {
+  return Object.values(state.individuals)
+    .filter((individual) => individual.archived === archived)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function childrenOf(state: RecordsState, id: string) {
+  return Object.values(state.individuals).filter(
+    (individual) => individual.fatherId === id || individual.motherId === id
+  );
+}
+
+export type GrowthState = {
+  entries: Record<string, GrowthEntry>;
+};
+
+export const growthStore = createPersistedStore<GrowthState>('records.growth', { entries: {} });
+
+/**
+ * Logs a growth entry and keeps the individual's stage in step with it: a recorded pupation or
+ * eclosion moves the individual on, and an instar marks it as a larva.
+ */
+export function addGrowthEntry(individualId: string, draft: GrowthEntryDraft) {
+  const entry: GrowthEntry = { ...draft, id: createId('growth'), individualId };
+  growthStore.setState((state) => ({ entries: { ...state.entries, [entry.id]: entry } }));
+
+  if (draft.event === 'eclosion') {
+    updateIndividual(individualId, { stage: 'adult' });
+  } else if (draft.event === 'pupation') {
+    updateIndividual(individualId, { stage: 'pupa' });
+  } else if (draft.instar) {
+    updateIndividual(individualId, { stage: 'larva' });
+  }
+  return entry;
+}
+
+export function deleteGrowthEntry(id: string) {
+  growthStore.setState((state) => {
+    const { [id]: _removed, ...entries } = state.entries;
+    return { entries };
+  });
+}
+
+export function growthEntriesOf(state: GrowthState, individualId: string) {
+  return Object.values(state.entries).filter((entry) => entry.individualId === individualId);
+}
+
+export type BreedingState = {
+  pairings: Record<string, Pairing>;
+};
+
+export const breedingStore = createPersistedStore<BreedingState>('records.breeding', {
+  pairings: {},
+});
+
+function updatePairing(id: string, update: (pairing: Pairing) => Pairing) {
+  breedingStore.setState((state) => {
+    const existing = state.pairings[id];
+    return existing ? { pairings: { ...state.pairings, [id]: update(existing) } } : state;
+  });
+}
+
+export function createPairing(draft: PairingDraft) {
+  const pairing: Pairing = {
+    ...draft,
+    id: createId('pair'),
+    harvests: [],
+    createdAt: new Date().toISOString(),
+  };
+  breedingStore.setState((state) => ({ pairings: { ...state.pairings, [pairing.id]: pairing } }));
+  return pairing;
+}
+
+export function deletePairing(id: string) {
+  breedingStore.setState((state) => {
+    const { [id]: _removed, ...pairings } = state.pairings;
+    return { pairings };
+  });
+}
+
+export function addHarvest(pairingId: string, draft: HarvestDraft) {
+  updatePairing(pairingId, (pairing) => ({
+    ...pairing,
+    harvests: [...pairing.harvests, { ...draft, id: createId('harvest') }].sort((a, b) =>
+      a.date.localeCompare(b.date)
+    ),
+  }));
+}
+
+export function removeHarvest(pairingId: string, harvestId: string) {
+  updatePairing(pairingId, (pairing) => ({
+    ...pairing,
+    harvests: pairing.harvests.filter((harvest) => harvest.id !== harvestId),
+  }));
+}
+
+/** Newest first; narrowed to one parent when `individualId` is given. */
+export function listPairings(state: BreedingState, individualId?: string) {
+  return Object.values(state.pairings)
+    .filter(
+      (pairing) =>
+        individualId === undefined ||
+        pairing.maleId === individualId ||
+        pairing.femaleId === individualId
+    )
+    .sort((a, b) => b.pairedOn.localeCompare(a.pairedOn));
+}
+
+export type EnvironmentState = {
+  habitats: Record<string, Habitat>;
+  /** Per habitat, oldest first. */
+  readings: Record<string, Reading[]>;
+};
+
+export const environmentStore = createPersistedStore<EnvironmentState>('records.environment', {
+  habitats: {},
+  readings: {},
+});
+
+export function createHabitat(draft: HabitatDraft) {
+  const habitat: Habitat = {
+    ...draft,
+    id: createId('habitat'),
+    createdAt: new Date().toISOString(),
+  };
+  environmentStore.setState((state) => ({
+    ...state,
+    habitats: { ...state.habitats, [habitat.id]: habitat },
+  }));
+  return habitat;
+}
+
+export function updateHabitat(id: string, changes: Partial<HabitatDraft>) {
+  environmentStore.setState((state) => {
+    const existing = state.habitats[id];
+    return existing
+      ? { ...state, habitats: { ...state.habitats, [id]: { ...existing, ...changes } } }
+      : state;
+  });
+}
+
+export function deleteHabitat(id: string) {
+  environmentStore.setState((state) => {
+    const { [id]: _habitat, ...habitats } = state.habitats;
+    const { [id]: _readings, ...readings } = state.readings;
+    return { habitats, readings };
+  });
+}
+
+/** Adds manual or imported readings; re-importing the same file does not duplicate them. */
+export function addReadings(habitatId: string, readings: Reading[]) {
+  environmentStore.setState((state) => ({
+    ...state,
+    readings: {
+      ...state.readings,
+      [habitatId]: mergeReadings(state.readings[habitatId] ?? [], readings),
+    },
+  }));
+}
+
+export function deleteReading(habitatId: string, at: string) {
+  environmentStore.setState((state) => ({
+    ...state,
+    readings: {
+      ...state.readings,
+      [habitatId]: (state.readings[habitatId] ?? []).filter((reading) => reading.at !== at),
+    },
+  }));
+}
+
+export function habitatsOf(state: EnvironmentState, individualId: string) {
+  return Object.values(state.habitats).filter((habitat) =>
+    habitat.individualIds.includes(individualId)
+  );
+}
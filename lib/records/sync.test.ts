@@ -0,0 +1,163 @@
+import type { Reading } from '@/lib/records/environment';
+import {
+  addReadings,
+  breedingStore,
+  createIndividual,
+  environmentStore,
+  growthStore,
+  recordsStore,
+} from '@/lib/records/store';
+import {
+  mergeReadingLists,
+  putAll,
+  recordsSyncStore,
+  setRecordsSyncServer,
+  syncRecords,
+} from '@/lib/records/sync';
+import { createMemorySyncServer, INITIAL_SYNC_STATE, type MemorySyncServer } from '@/lib/sync';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+function reading(at: string, temperatureC = 24): Reading {
+  return { at, temperatureC };
+}
+
+describe('putAll', () => {
+  it('writes pulled records over the collection and drops removed ones', () => {
+    const records = { a: 1, b: 2, c: 3 };
+
+    expect(putAll(records, { b: 20, d: 4 }, ['c'])).toEqual({ a: 1, b: 20, d: 4 });
+    expect(records).toEqual({ a: 1, b: 2, c: 3 });
+  });
+});
+
+describe('mergeReadingLists', () => {
+  const base = [reading('2026-06-01 09:00'), reading('2026-06-01 10:00')];
+  const changedAt = {
+    localChangedAt: '2026-06-02T00:00:00.000Z',
+    remoteChangedAt: '2026-06-02T01:00:00.000Z',
+  };
+
+  it('keeps readings added on either device, in time order', () => {
+    const result = mergeReadingLists({
+      ...changedAt,
+      base,
+      local: [...base, reading('2026-06-01 12:00')],
+      remote: [...base, reading('2026-06-01 11:00')],
+    });
+
+    expect(result.data?.map((item) => item.at)).toEqual([
+      '2026-06-01 09:00',
+      '2026-06-01 10:00',
+      '2026-06-01 11:00',
+      '2026-06-01 12:00',
+    ]);
+  });
+
+  it('drops readings deleted on either device and keeps the edit made on this one', () => {
+    const result = mergeReadingLists({
+      ...changedAt,
+      base,
+      local: [reading('2026-06-01 09:00', 25)],
+      remote: [reading('2026-06-01 09:00', 23), reading('2026-06-01 10:00')],
+    });
+
+    expect(result.data).toEqual([reading('2026-06-01 09:00', 25)]);
+  });
+
+  it('takes the surviving side when the habitat was deleted on the other', () => {
+    expect(mergeReadingLists({ ...changedAt, base, local: null, remote: base })).toMatchObject({
+      data: base,
+      kept: 'remote',
+    });
+  });
+});
+
+describe('syncRecords', () => {
+  let servers: Map<string, MemorySyncServer>;
+
+  const serverOf = (ownerId: string) => {
+    let server = servers.get(ownerId);
+    if (!server) {
+      server = createMemorySyncServer();
+      servers.set(ownerId, server);
+    }
+    return server;
+  };
+
+  const collection = (ownerId: string, name: string) =>
+    serverOf(ownerId)
+      .records()
+      .filter((record) => record.collection === name && record.data !== null);
+
+  beforeEach(() => {
+    servers = new Map();
+    setRecordsSyncServer(serverOf);
+    for (const store of [recordsStore, growthStore, breedingStore, environmentStore]) {
+      store.setState(store.getInitialState() as never);
+    }
+    recordsSyncStore.setState({ ...INITIAL_SYNC_STATE, ownerId: null });
+  });
+
+  function addBeetle(label: string) {
+    return createIndividual({
+      label,
+      species: {
+        scientificName: 'Dorcus hopei binodulosus',
+        japaneseName: 'オオクワガタ',
+        genus: 'Dorcus',
+      },
+      sex: 'male',
+      stage: 'adult',
+      photos: [],
+      status: 'alive',
+    });
+  }
+
+  it('merges the readings of one habitat with another device as a single list', async () => {
+    await serverOf('alice').push([
+      {
+        collection: 'readings',
+        id: 'habitat-1',
+        baseVersion: 0,
+        data: [reading('2026-06-01 09:00')],
+        changedAt: '2026-06-01T00:00:00.000Z',
+      },
+    ]);
+    addReadings('habitat-1', [reading('2026-06-01 10:00')]);
+
+    await syncRecords('alice');
+
+    const merged = [reading('2026-06-01 09:00'), reading('2026-06-01 10:00')];
+    expect(environmentStore.getState().readings['habitat-1']).toEqual(merged);
+    expect(collection('alice', 'readings')).toMatchObject([{ id: 'habitat-1', data: merged }]);
+  });
+
+  it('clears the records of the previous account when another account signs in', async () => {
+    const mine = addBeetle('A-1');
+    await syncRecords('alice');
+
+    await syncRecords('bob');
+
+    expect(recordsStore.getState().individuals).toEqual({});
+    expect(recordsSyncStore.getState()).toMatchObject({ ownerId: 'bob', base: {} });
+    expect(collection('bob', 'individuals')).toEqual([]);
+
+    const theirs = addBeetle('B-1');
+    await syncRecords('bob');
+    await syncRecords('alice');
+
+    expect(Object.keys(recordsStore.getState().individuals)).toEqual([mine.id]);
+    expect(collection('bob', 'individuals').map((record) => record.id)).toEqual([theirs.id]);
+  });
+
+  it('lets the first account to sign in keep records made while signed out', async () => {
+    const beetle = addBeetle('A-1');
+
+    await syncRecords('alice');
+
+    expect(collection('alice', 'individuals').map((record) => record.id)).toEqual([beetle.id]);
+  });
+});
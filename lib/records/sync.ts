@@ -0,0 +1,235 @@
+import type { Pairing } from '@/lib/records/breeding';
+import type { Habitat, Reading } from '@/lib/records/environment';
+import type { GrowthEntry } from '@/lib/records/growth';
+import { breedingStore, environmentStore, growthStore, recordsStore } from '@/lib/records/store';
+import type { Individual } from '@/lib/records/types';
+import { createPersistedStore, createStore, type PersistedStore } from '@/lib/store';
+import {
+  createMemorySyncServer,
+  INITIAL_SYNC_STATE,
+  isEqual,
+  pendingChanges,
+  syncOnce,
+  type MergeInput,
+  type MergeResult,
+  type SyncAdapter,
+  type SyncConflict,
+  type SyncServer,
+  type SyncState,
+} from '@/lib/sync';
+
+/**
+ * Three-way merge of one habitat's readings, keyed by time. Readings added on either device are
+ * kept and readings deleted on either are dropped; a reading edited on both keeps this device's.
+ */
+export function mergeReadingLists({
+  base,
+  local,
+  remote,
+}: MergeInput<Reading[]>): MergeResult<Reading[]> {
+  if (!local || !remote) {
+    return { data: local ?? remote, conflicting: [], kept: local ? 'local' : 'remote' };
+  }
+  const byTime = (readings: Reading[] | null) =>
+    new Map((readings ?? []).map((reading) => [reading.at, reading]));
+  const [original, ours, theirs] = [byTime(base), byTime(local), byTime(remote)];
+  const merged: Reading[] = [];
+  for (const at of new Set([...ours.keys(), ...theirs.keys()])) {
+    const [mine, other, before] = [ours.get(at), theirs.get(at), original.get(at)];
+    if (before && (!mine || !other)) {
+      continue;
+    }
+    const reading = mine && !isEqual(mine, before) ? mine : (other ?? mine);
+    if (reading) {
+      merged.push(reading);
+    }
+  }
+  return {
+    data: merged.sort((a, b) => a.at.localeCompare(b.at)),
+    conflicting: [],
+    kept: 'local',
+  };
+}
+
+/** Writes `put` over `records` and drops `remove`, as every records adapter applies a pull. */
+export function putAll<T>(records: Record<string, T>, put: Record<string, T>, remove: string[]) {
+  const next = { ...records, ...put };
+  for (const id of remove) {
+    delete next[id];
+  }
+  return next;
+}
+
+const individualsAdapter: SyncAdapter<Individual> = {
+  collection: 'individuals',
+  read: () => recordsStore.getState().individuals,
+  apply: (put, remove) =>
+    recordsStore.setState((state) => ({
+      ...state,
+      individuals: putAll(state.individuals, put, remove),
+    })),
+  changedAt: (individual) => individual.updatedAt,
+};
+
+const growthAdapter: SyncAdapter<GrowthEntry> = {
+  collection: 'growth',
+  read: () => growthStore.getState().entries,
+  apply: (put, remove) =>
+    growthStore.setState((state) => ({ entries: putAll(state.entries, put, remove) })),
+};
+
+const pairingsAdapter: SyncAdapter<Pairing> = {
+  collection: 'pairings',
+  read: () => breedingStore.getState().pairings,
+  apply: (put, remove) =>
+    breedingStore.setState((state) => ({ pairings: putAll(state.pairings, put, remove) })),
+};
+
+const habitatsAdapter: SyncAdapter<Habitat> = {
+  collection: 'habitats',
+  read: () => environmentStore.getState().habitats,
+  apply: (put, remove) =>
+    environmentStore.setState((state) => ({
+      ...state,
+      habitats: putAll(state.habitats, put, remove),
+    })),
+};
+
+/** Readings sync per habitat, as one list. */
+const readingsAdapter: SyncAdapter<Reading[]> = {
+  collection: 'readings',
+  read: () => environmentStore.getState().readings,
+  apply: (put, remove) =>
+    environmentStore.setState((state) => ({
+      ...state,
+      readings: putAll(state.readings, put, remove),
+    })),
+  merge: mergeReadingLists,
+};
+
+const ADAPTERS = [
+  individualsAdapter,
+  growthAdapter,
+  pairingsAdapter,
+  habitatsAdapter,
+  readingsAdapter,
+] as SyncAdapter[];
+
+const STORES: PersistedStore<object>[] = [
+  recordsStore,
+  growthStore,
+  breedingStore,
+  environmentStore,
+];
+
+export type RecordsSyncState = SyncState & {
+  /** The account the records on this device were last synced with; `null` before the first sync. */
+  ownerId: string | null;
+};
+
+/** What this device last agreed with the server on. */
+export const recordsSyncStore = createPersistedStore<RecordsSyncState>('records.sync', {
+  ...INITIAL_SYNC_STATE,
+  ownerId: null,
+});
+
+export type RecordsSyncStatus = {
+  syncing: boolean;
+  error: string | null;
+  /** From the last sync that found any, for the keeper to double-check. */
+  conflicts: SyncConflict[];
+};
+
+export const recordsSyncStatusStore = createStore<RecordsSyncStatus>({
+  syncing: false,
+  error: null,
+  conflicts: [],
+});
+
+/** The development stand-in keeps each account's records apart, as the backend does. */
+const memoryServers = new Map<string, SyncServer>();
+
+let serverFor = (ownerId: string) => {
+  let server = memoryServers.get(ownerId);
+  if (!server) {
+    server = createMemorySyncServer({ latencyMs: 400 });
+    memoryServers.set(ownerId, server);
+  }
+  return server;
+};
+
+export function getRecordsSyncServer(ownerId: string) {
+  return serverFor(ownerId);
+}
+
+export function setRecordsSyncServer(next: (ownerId: string) => SyncServer) {
+  serverFor = next;
+}
+
+/** Breeding records edited on this device since the last sync. */
+export function countPendingRecordChanges() {
+  return pendingChanges(ADAPTERS, recordsSyncStore.getState()).length;
+}
+
+/** Calls `listener` whenever a record or the sync state changes. */
+export function subscribeRecordChanges(listener: () => void) {
+  const unsubscribes = [...STORES, recordsSyncStore].map((store) => store.subscribe(listener));
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+}
+
+/** Drops the records another account synced to this device, so they are not pushed as ours. */
+function resetRecords(ownerId: string) {
+  STORES.forEach((store) => store.setState(store.getInitialState()));
+  recordsSyncStore.setState({ ...INITIAL_SYNC_STATE, ownerId });
+  recordsSyncStatusStore.setState((status) => ({ ...status, conflicts: [] }));
+}
+
+let running: { ownerId: string; sync: Promise<void> } | undefined;
+
+/**
+ * Pulls and pushes `ownerId`'s breeding records. Safe to call often: calls made while a sync for
+ * the same account is running share it. Failures are kept in `recordsSyncStatusStore` and retried
+ * on the next call.
+ *
+ * Records stay on the device after signing out. When a different account signs in, they are
+ * cleared before its records are pulled; records made before the first sync go to whoever syncs
+ * them first.
+ */
+export function syncRecords(ownerId: string): Promise<void> {
+  if (running && running.ownerId !== ownerId) {
+    return running.sync.then(() => syncRecords(ownerId));
+  }
+  running ??= { ownerId, sync: sync(ownerId) };
+  return running.sync;
+}
+
+async function sync(ownerId: string) {
+  recordsSyncStatusStore.setState((status) => ({ ...status, syncing: true, error: null }));
+  try {
+    // Syncing before the local records load would look like every record had been deleted.
+    await Promise.all([...STORES, recordsSyncStore].map((store) => store.hydrate()));
+    const syncedWith = recordsSyncStore.getState().ownerId;
+    if (syncedWith && syncedWith !== ownerId) {
+      resetRecords(ownerId);
+    }
+    const result = await syncOnce(ADAPTERS, recordsSyncStore.getState(), serverFor(ownerId));
+    recordsSyncStore.setState({ ...result.state, ownerId });
+    recordsSyncStatusStore.setState((status) => ({
+      syncing: false,
+      error: null,
+      conflicts: result.report.conflicts.length > 0 ? result.report.conflicts : status.conflicts,
+    }));
+  } catch (error) {
+    recordsSyncStatusStore.setState((status) => ({
+      ...status,
+      syncing: false,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+  } finally {
+    running = undefined;
+  }
+}
+
+export function dismissRecordsSyncConflicts() {
+  recordsSyncStatusStore.setState((status) => ({ ...status, conflicts: [] }));
+}
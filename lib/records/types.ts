@@ -0,0 +1,47 @@
+import type { LifeStage, Species } from '@/lib/catalog';
+
+export type IndividualSex = 'male' | 'female' | 'unknown';
+
+export type IndividualStatus = 'alive' | 'dead' | 'sold';
+
+/** Who else can see an individual on the keeper's profile. */
+export type IndividualVisibility = 'private' | 'followers' | 'public';
+
+export type IndividualPhoto = {
+  uri: string;
+  /** ISO 8601. */
+  addedAt: string;
+};
+
+/** One beetle (or one larva) a keeper is raising. */
+export type Individual = {
+  id: string;
+  /** The keeper's own label, e.g. `A-12` or `韮崎♂1`. */
+  label: string;
+  species: Species;
+  /** 産地. */
+  locality?: string;
+  /** `WD`, `WF1`, `CBF2`, ... */
+  generation?: string;
+  sex: IndividualSex;
+  stage: LifeStage;
+  /** 孵化日 as `YYYY-MM-DD`. */
+  hatchDate?: string;
+  fatherId?: string;
+  motherId?: string;
+  photos: IndividualPhoto[];
+  status: IndividualStatus;
+  /** Hidden from the main list; kept for pedigrees and history. */
+  archived: boolean;
+  /** The shop product this individual was bought as, if any. */
+  sourceProductId?: string;
+  notes?: string;
+  /** Unset means private; records made before sharing existed stay that way. */
+  visibility?: IndividualVisibility;
+  /** ISO 8601. */
+  createdAt: string;
+  /** ISO 8601. */
+  updatedAt: string;
+};
+
+export type IndividualDraft = Omit<Individual, 'id' | 'archived' | 'createdAt' | 'updatedAt'>;
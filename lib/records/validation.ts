@@ -0,0 +1,126 @@
+import type { LifeStage } from '@/lib/catalog';
+import { parseDateKey } from '@/lib/date';
+import { hasErrors, type FieldErrors } from '@/lib/forms';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import type {
+  IndividualDraft,
+  IndividualPhoto,
+  IndividualSex,
+  IndividualStatus,
+  IndividualVisibility,
+} from '@/lib/records/types';
+
+/** What the individual form holds while it is being edited. */
+export type IndividualInput = {
+  label: string;
+  japaneseName: string;
+  scientificName: string;
+  locality: string;
+  generation: string;
+  sex: IndividualSex;
+  stage: LifeStage;
+  hatchDate: string;
+  fatherId?: string;
+  motherId?: string;
+  photos: IndividualPhoto[];
+  status: IndividualStatus;
+  sourceProductId?: string;
+  notes: string;
+  visibility: IndividualVisibility;
+};
+
+export type IndividualInputErrors = FieldErrors<IndividualInput>;
+
+/** Wild-caught (`WD`), wild-derived (`WF1`) or captive-bred (`CBF2`); also plain `F3`. */
+const GENERATION_PATTERN = /^(WD|WF\d+|CBF\d+|F\d+)$/;
+
+export function normalizeGeneration(value: string) {
+  return value
+    .trim()
+    .toUpperCase()
+    .replace(/[Ａ-Ｚ０-９]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/\s+/g, '');
+}
+
+export function draftToInput(draft: IndividualDraft): IndividualInput {
+  return {
+    label: draft.label,
+    japaneseName: draft.species.japaneseName,
+    scientificName: draft.species.scientificName,
+    locality: draft.locality ?? '',
+    generation: draft.generation ?? '',
+    sex: draft.sex,
+    stage: draft.stage,
+    hatchDate: draft.hatchDate ?? '',
+    fatherId: draft.fatherId,
+    motherId: draft.motherId,
+    photos: draft.photos,
+    status: draft.status,
+    sourceProductId: draft.sourceProductId,
+    notes: draft.notes ?? '',
+    visibility: draft.visibility ?? 'private',
+  };
+}
+
+export function validateIndividual(
+  input: IndividualInput,
+  { today, locale = getLocale() }: { today: Date; locale?: Locale }
+):
+  | { draft: IndividualDraft; errors?: undefined }
+  | { draft?: undefined; errors: IndividualInputErrors } {
+  const errors: IndividualInputErrors = {};
+  const generation = normalizeGeneration(input.generation);
+  const hatchDate = input.hatchDate.trim();
+  const scientificName = input.scientificName.trim().replace(/\s+/g, ' ');
+
+  if (!input.label.trim()) {
+    errors.label = translate(locale, 'individual.error.label');
+  }
+  if (!input.japaneseName.trim()) {
+    errors.japaneseName = translate(locale, 'individual.error.japaneseName');
+  }
+  if (scientificName && !/^[A-Z][a-z]+( [a-z]+){0,2}$/.test(scientificName)) {
+    errors.scientificName = translate(locale, 'individual.error.scientificName');
+  }
+  if (generation && !GENERATION_PATTERN.test(generation)) {
+    errors.generation = translate(locale, 'individual.error.generation');
+  }
+  if (hatchDate) {
+    const date = parseDateKey(hatchDate);
+    if (!date) {
+      errors.hatchDate = translate(locale, 'individual.error.hatchDateFormat');
+    } else if (date > today) {
+      errors.hatchDate = translate(locale, 'individual.error.hatchDateFuture');
+    }
+  }
+  if (input.fatherId && input.fatherId === input.motherId) {
+    errors.motherId = translate(locale, 'individual.error.sameParents');
+  }
+
+  if (hasErrors(errors)) {
+    return { errors };
+  }
+  return {
+    draft: {
+      label: input.label.trim(),
+      species: {
+        japaneseName: input.japaneseName.trim(),
+        scientificName,
+        genus: scientificName.split(' ')[0] ?? '',
+      },
+      locality: input.locality.trim() || undefined,
+      generation: generation || undefined,
+      sex: input.sex,
+      stage: input.stage,
+      hatchDate: hatchDate || undefined,
+      fatherId: input.fatherId,
+      motherId: input.motherId,
+      photos: input.photos,
+      status: input.status,
+      sourceProductId: input.sourceProductId,
+      notes: input.notes.trim() || undefined,
+      visibility: input.visibility,
+    },
+  };
+}
@@ -0,0 +1,4 @@
+export * from '@/lib/seo/json-ld';
+export * from '@/lib/seo/meta';
+export * from '@/lib/seo/snapshot';
+export * from '@/lib/seo/types';
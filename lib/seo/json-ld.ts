@@ -0,0 +1,31 @@
+import type { Product } from '@/lib/catalog/types';
+import { shareLinks } from '@/lib/links';
+import { SITE_NAME } from '@/lib/site';
+
+/**
+ * schema.org `Product` with a single `Offer`, so search results can show the price and whether
+ * it is in stock. The Japanese and scientific names are listed as alternate names, since people
+ * search for either.
+ */
+export function productJsonLd(product: Product) {
+  const { species } = product;
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: product.title,
+    alternateName: [species.japaneseName, species.scientificName],
+    description: product.description,
+    sku: product.id,
+    image: product.images.map((image) => image.uri),
+    category: species.japaneseName,
+    offers: {
+      '@type': 'Offer',
+      url: shareLinks({ type: 'product', id: product.id }).webUrl,
+      price: product.priceYen,
+      priceCurrency: 'JPY',
+      availability:
+        product.stock > 0 ? 'https://schema.org/InStock' : 'https://schema.org/OutOfStock',
+      seller: { '@type': 'Organization', name: SITE_NAME },
+    },
+  };
+}
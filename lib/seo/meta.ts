@@ -0,0 +1,104 @@
+import { describeStage } from '@/lib/catalog/labels';
+import type { Category, Product } from '@/lib/catalog/types';
+import { parseMarkdown, plainText } from '@/lib/content/markdown';
+import type { ContentDocument } from '@/lib/content/types';
+import type { Post, UserProfile } from '@/lib/feed/types';
+import { formatYen } from '@/lib/i18n/format';
+import { translate } from '@/lib/i18n/translate';
+import { shareTargetPath } from '@/lib/links';
+import type { StaticPage } from '@/lib/pages/types';
+import { productJsonLd } from '@/lib/seo/json-ld';
+import type { PageMeta } from '@/lib/seo/types';
+
+/** Search engines cut Japanese descriptions at roughly this many characters. */
+const DESCRIPTION_LENGTH = 120;
+
+/** `text` on one line, shortened to fit a search result. */
+export function summarize(text: string, length = DESCRIPTION_LENGTH) {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+/** Leads with both names of the species, which is what most visitors search for. */
+export function productMeta(product: Product): PageMeta {
+  const { species } = product;
+  const summary = [
+    `${species.japaneseName} (${species.scientificName})`,
+    product.locality && translate('ja', 'seo.locality', { locality: product.locality }),
+    product.generation,
+    translate('ja', `catalog.sex.${product.sex}`),
+    describeStage(product, 'ja'),
+    formatYen(product.priceYen, 'ja'),
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  return {
+    title: product.title,
+    description: summarize(
+      translate('ja', 'seo.productDescription', { summary, description: product.description })
+    ),
+    path: shareTargetPath({ type: 'product', id: product.id }),
+    type: 'product',
+    image: product.images[0],
+    jsonLd: productJsonLd(product),
+  };
+}
+
+export function categoryMeta(category: Category): PageMeta {
+  return {
+    title: translate('ja', 'seo.categoryTitle', { name: category.name }),
+    description: summarize(category.description),
+    path: `/categories/${encodeURIComponent(category.slug)}`,
+    type: 'website',
+  };
+}
+
+/** For feature pages; the first hero doubles as the preview image. */
+export function featureMeta(document: ContentDocument): PageMeta {
+  const hero = document.blocks.find((block) => block.type === 'hero');
+  const text = document.blocks.flatMap((block) =>
+    block.type === 'rich-text' ? [plainText(block.content)] : []
+  );
+  return {
+    title: document.title,
+    description: summarize(document.description ?? hero?.subtitle ?? text.join(' ')),
+    path: `/features/${encodeURIComponent(document.slug)}`,
+    type: 'article',
+    image: hero?.image,
+  };
+}
+
+export function staticPageMeta(page: StaticPage): PageMeta {
+  return {
+    title: page.title,
+    description: summarize(plainText(parseMarkdown(page.markdown))),
+    path: `/pages/${page.slug}`,
+    type: 'website',
+  };
+}
+
+export function postMeta(post: Post): PageMeta {
+  const { individual } = post;
+  return {
+    title: translate('ja', 'seo.postTitle', { name: post.author.displayName }),
+    description: summarize(
+      individual ? `${individual.japaneseName} ${individual.label}: ${post.body}` : post.body
+    ),
+    path: shareTargetPath({ type: 'post', id: post.id }),
+    type: 'article',
+    image: post.images[0],
+  };
+}
+
+export function profileMeta(profile: UserProfile): PageMeta {
+  return {
+    title: `${profile.displayName} (@${profile.handle})`,
+    description: summarize(
+      profile.bio ?? translate('ja', 'seo.profileDescription', { name: profile.displayName })
+    ),
+    path: shareTargetPath({ type: 'user', id: profile.id }),
+    type: 'profile',
+    image: profile.avatarUri ? { uri: profile.avatarUri } : undefined,
+  };
+}
@@ -0,0 +1,75 @@
+import { getCatalogSource } from '@/lib/catalog';
+import type { Category, Product } from '@/lib/catalog/types';
+import { getContentSource, HOME_DOCUMENT_SLUG } from '@/lib/content';
+import type { ContentBlock, ContentDocument } from '@/lib/content/types';
+
+/*
+ * The static web export renders each page in one synchronous pass, before any effect could load
+ * its data, so the head of a product page would otherwise be empty. Routes load what they need
+ * here from `generateStaticParams`, which the export awaits in the same process before rendering,
+ * and the screens read it back for their metadata. In the app itself everything stays empty.
+ */
+
+type CatalogSnapshot = { categories: Category[]; products: Product[] };
+
+let catalog: Promise<CatalogSnapshot> | null = null;
+let loadedCatalog: CatalogSnapshot | null = null;
+const features = new Map<string, ContentDocument>();
+
+/** Every category and product, loaded once per export. */
+export function loadCatalogSnapshot() {
+  catalog ??= Promise.all([
+    getCatalogSource().listCategories(),
+    getCatalogSource().listProducts(),
+  ]).then(([categories, products]) => (loadedCatalog = { categories, products }));
+  return catalog;
+}
+
+export function snapshotProduct(id: string | undefined) {
+  return loadedCatalog?.products.find((product) => product.id === id);
+}
+
+export function snapshotCategory(slug: string | undefined) {
+  return loadedCatalog?.categories.find((category) => category.slug === slug);
+}
+
+function blockHrefs(block: ContentBlock) {
+  switch (block.type) {
+    case 'hero':
+    case 'product-carousel':
+      return block.link ? [block.link.href] : [];
+    case 'rich-text':
+      return block.content.flatMap((node) => {
+        const spans =
+          node.type === 'paragraph' ? node.spans : node.type === 'list' ? node.items.flat() : [];
+        return spans.flatMap((span) => (span.href ? [span.href] : []));
+      });
+    default:
+      return [];
+  }
+}
+
+/**
+ * The feature pages the home document currently links to. Content sources cannot list documents,
+ * and a feature nobody is pointed at is not one to promote in search.
+ */
+export async function loadFeatureSnapshot() {
+  const home = await getContentSource().getDocument(HOME_DOCUMENT_SLUG);
+  const slugs = new Set(
+    (home?.blocks ?? [])
+      .flatMap(blockHrefs)
+      .flatMap((href) => /^\/features\/([^/?#]+)$/.exec(href)?.[1] ?? [])
+      .map((slug) => decodeURIComponent(slug))
+  );
+  for (const slug of slugs) {
+    const document = features.get(slug) ?? (await getContentSource().getDocument(slug));
+    if (document) {
+      features.set(slug, document);
+    }
+  }
+  return [...features.values()];
+}
+
+export function snapshotFeature(slug: string | undefined) {
+  return slug === undefined ? undefined : features.get(slug);
+}
@@ -0,0 +1,15 @@
+/** Open Graph object types the shop uses. */
+export type PageType = 'website' | 'article' | 'profile' | 'product';
+
+/** What a page tells search engines and link previews about itself. */
+export type PageMeta = {
+  /** Without the site name; `PageHead` adds it. */
+  title: string;
+  description: string;
+  /** The canonical path, e.g. `/products/dorcus-hopei`. */
+  path: string;
+  type: PageType;
+  image?: { uri: string; alt?: string; width?: number; height?: number };
+  /** Structured data for the page, e.g. a schema.org `Product`. */
+  jsonLd?: Record<string, unknown>;
+};
@@ -0,0 +1,14 @@
+/** The shop's name, as shown in page titles and shared links. */
+export const SITE_NAME = 'カブクワ堂';
+
+/**
+ * Origin of the web build, which share links and canonical URLs point at. Set
+ * `EXPO_PUBLIC_SITE_URL` for each deployment; the fallback is only good for development.
+ */
+export const SITE_URL = (process.env.EXPO_PUBLIC_SITE_URL ?? 'https://kabukuwa-do.example').replace(
+  /\/+$/,
+  ''
+);
+
+/** The custom URL scheme from `app.json`, which opens the installed app directly. */
+export const APP_SCHEME = 'myapp';
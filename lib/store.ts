@@ -0,0 +1,111 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+type Listener = () => void;
+
+export type Store<T> = {
+  getState(): T;
+  /** The state before anything was loaded or changed. Used as the server snapshot on web. */
+  getInitialState(): T;
+  setState(update: T | ((state: T) => T)): void;
+  subscribe(listener: Listener): () => void;
+};
+
+export type PersistedStore<T> = Store<T> & {
+  /** Loads the saved state once. Safe to call repeatedly. */
+  hydrate(): Promise<void>;
+  isHydrated(): boolean;
+};
+
+export function createStore<T>(initialState: T): Store<T> {
+  let state = initialState;
+  const listeners = new Set<Listener>();
+
+  return {
+    getState: () => state,
+    getInitialState: () => initialState,
+    setState(update) {
+      const next = typeof update === 'function' ? (update as (state: T) => T)(state) : update;
+      if (Object.is(next, state)) {
+        return;
+      }
+      state = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+type Envelope<T> = { version: number; state: T };
+
+/**
+ * A store that is saved to AsyncStorage under `key` on every change.
+ *
+ * Nothing is read until `hydrate()` is called, so the first render (and the static web render,
+ * where there is no storage) always sees `initialState`. Saved state written with a different
+ * `version` is discarded. Changes made before hydration finishes are replayed on top of the saved
+ * state, so adding to the cart during startup does not throw the saved cart away.
+ */
+export function createPersistedStore<T extends object>(
+  key: string,
+  initialState: T,
+  { version = 1 }: { version?: number } = {}
+): PersistedStore<T> {
+  const store = createStore(initialState);
+  let hydration: Promise<void> | undefined;
+  let hydrated = false;
+  let restoring = false;
+  const early: ((state: T) => T)[] = [];
+
+  store.subscribe(() => {
+    if (restoring || !hydrated) {
+      return;
+    }
+    const envelope: Envelope<T> = { version, state: store.getState() };
+    AsyncStorage.setItem(key, JSON.stringify(envelope)).catch((error) =>
+      console.warn(`Failed to save ${key}`, error)
+    );
+  });
+
+  async function load() {
+    let saved: T | undefined;
+    try {
+      const raw = await AsyncStorage.getItem(key);
+      const envelope = raw ? (JSON.parse(raw) as Envelope<T>) : undefined;
+      if (envelope?.version === version) {
+        saved = envelope.state;
+      }
+    } catch (error) {
+      console.warn(`Failed to load ${key}`, error);
+    }
+    hydrated = true;
+    const changed = early.splice(0);
+    if (saved === undefined) {
+      // Still notify subscribers waiting on hydration, and save anything changed while loading.
+      store.setState((state) => ({ ...state }));
+      return;
+    }
+    restoring = changed.length === 0;
+    store.setState(changed.reduce((state, update) => update(state), saved));
+    restoring = false;
+  }
+
+  return {
+    ...store,
+    setState(update) {
+      if (!hydrated) {
+        early.push(typeof update === 'function' ? (update as (state: T) => T) : () => update);
+      }
+      store.setState(update);
+    },
+    hydrate() {
+      hydration ??= load();
+      return hydration;
+    },
+    isHydrated: () => hydrated,
+  };
+}
@@ -0,0 +1,63 @@
+import { SupportError, type Inquiry, type SupportClient } from '@/lib/support/types';
+
+/**
+ * Files inquiries in memory, with a delay so the sending state is visible in development. Keyed
+ * by inquiry id like the real API, so a retry after a lost response gets the same ticket back.
+ */
+export function createMockSupportClient({ latencyMs = 0 }: { latencyMs?: number } = {}) {
+  const tickets = new Map<string, string>();
+
+  const client: SupportClient = {
+    async submitInquiry(inquiry: Inquiry) {
+      if (latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latencyMs));
+      }
+      let ticketNumber = tickets.get(inquiry.id);
+      if (!ticketNumber) {
+        ticketNumber = `Q${String(tickets.size + 1).padStart(6, '0')}`;
+        tickets.set(inquiry.id, ticketNumber);
+      }
+      return { ticketNumber };
+    },
+  };
+  return client;
+}
+
+/** Sends inquiries to the support API at `baseUrl`. */
+export function createHttpSupportClient(baseUrl: string): SupportClient {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    async submitInquiry(inquiry) {
+      const response = await fetch(`${root}/inquiries`, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          'Idempotency-Key': inquiry.id,
+        },
+        body: JSON.stringify(inquiry),
+      });
+      if (!response.ok) {
+        throw new SupportError(response.status, `Inquiry request failed: ${response.status}`);
+      }
+      return (await response.json()) as { ticketNumber: string };
+    },
+  };
+}
+
+let client: SupportClient = process.env.EXPO_PUBLIC_SUPPORT_API_URL
+  ? createHttpSupportClient(process.env.EXPO_PUBLIC_SUPPORT_API_URL)
+  : createMockSupportClient({ latencyMs: 600 });
+
+/**
+ * The client the お問い合わせ queue sends with. Falls back to an in-memory mock unless
+ * `EXPO_PUBLIC_SUPPORT_API_URL` is set.
+ */
+export function getSupportClient() {
+  return client;
+}
+
+export function setSupportClient(next: SupportClient) {
+  client = next;
+}
@@ -0,0 +1,12 @@
+import { getSupportClient } from '@/lib/support/client';
+import { processInquiries } from '@/lib/support/queue';
+
+export * from '@/lib/support/client';
+export * from '@/lib/support/inquiry';
+export * from '@/lib/support/queue';
+export * from '@/lib/support/types';
+
+/** Sends queued inquiries with the app's support client. Works signed out, too. */
+export function flushInquiries() {
+  return processInquiries(getSupportClient());
+}
@@ -0,0 +1,90 @@
+import { hasErrors, type FieldErrors } from '@/lib/forms';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import type { Inquiry, InquiryCategory, InquiryDraft } from '@/lib/support/types';
+
+/** In picker order; shown as `support.category.<value>`. */
+export const INQUIRY_CATEGORIES: readonly InquiryCategory[] = [
+  'order',
+  'shipping',
+  'live-arrival',
+  'product',
+  'breeding',
+  'account',
+  'other',
+];
+
+/** Categories that cannot be answered without knowing which order it is about. */
+export const ORDER_INQUIRY_CATEGORIES: readonly InquiryCategory[] = [
+  'order',
+  'shipping',
+  'live-arrival',
+];
+
+export const MAX_INQUIRY_LENGTH = 2000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ORDER_NUMBER_PATTERN = /^\d{8}-\d{4}$/;
+
+export const EMPTY_INQUIRY_DRAFT: InquiryDraft = {
+  category: undefined,
+  name: '',
+  email: '',
+  orderNumber: '',
+  body: '',
+};
+
+/** Accepts full-width digits and any kind of dash, as typed from an order confirmation. */
+export function normalizeOrderNumber(value: string) {
+  return value
+    .normalize('NFKC')
+    .trim()
+    .replace(/[‐-―−ー]/g, '-')
+    .replace(/\s+/g, '');
+}
+
+export function validateInquiry(draft: InquiryDraft, locale: Locale = getLocale()) {
+  const errors: FieldErrors<InquiryDraft> = {};
+  if (!draft.category) {
+    errors.category = translate(locale, 'support.error.category');
+  }
+  if (!draft.name.trim()) {
+    errors.name = translate(locale, 'support.error.name');
+  }
+  if (!EMAIL_PATTERN.test(draft.email.trim())) {
+    errors.email = translate(locale, 'support.error.email');
+  }
+  const orderNumber = normalizeOrderNumber(draft.orderNumber);
+  if (orderNumber && !ORDER_NUMBER_PATTERN.test(orderNumber)) {
+    errors.orderNumber = translate(locale, 'support.error.orderNumberFormat');
+  } else if (!orderNumber && draft.category && ORDER_INQUIRY_CATEGORIES.includes(draft.category)) {
+    errors.orderNumber = translate(locale, 'support.error.orderNumberRequired');
+  }
+  const body = draft.body.trim();
+  if (!body) {
+    errors.body = translate(locale, 'support.error.body');
+  } else if (body.length > MAX_INQUIRY_LENGTH) {
+    errors.body = translate(locale, 'support.error.tooLong', { max: MAX_INQUIRY_LENGTH });
+  }
+  return errors;
+}
+
+/** The inquiry to queue, or `null` if the draft does not validate. */
+export function toInquiry(
+  draft: InquiryDraft,
+  { id, userId, now = new Date() }: { id: string; userId?: string; now?: Date }
+): Inquiry | null {
+  if (hasErrors(validateInquiry(draft)) || !draft.category) {
+    return null;
+  }
+  return {
+    id,
+    category: draft.category,
+    name: draft.name.trim(),
+    email: draft.email.trim(),
+    orderNumber: normalizeOrderNumber(draft.orderNumber) || undefined,
+    body: draft.body.trim(),
+    userId,
+    createdAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,120 @@
+import { retryDelayMs } from '@/lib/compose';
+import { getLocale, type Locale } from '@/lib/i18n/locale';
+import { translate } from '@/lib/i18n/translate';
+import { createPersistedStore } from '@/lib/store';
+import {
+  isRetryableSupportError,
+  type Inquiry,
+  type QueuedInquiry,
+  type SupportClient,
+} from '@/lib/support/types';
+
+/** Sent inquiries are kept for their ticket numbers, up to this many. */
+const MAX_SENT_KEPT = 20;
+
+export type InquiryQueueState = {
+  /** Oldest first. */
+  items: QueuedInquiry[];
+};
+
+export const inquiryQueueStore = createPersistedStore<InquiryQueueState>('support.inquiries', {
+  items: [],
+});
+
+function updateItems(update: (items: QueuedInquiry[]) => QueuedInquiry[]) {
+  inquiryQueueStore.setState((state) => ({ items: update(state.items) }));
+}
+
+function replaceItem(item: QueuedInquiry) {
+  updateItems((items) =>
+    items.map((existing) => (existing.inquiry.id === item.inquiry.id ? item : existing))
+  );
+}
+
+export function enqueueInquiry(inquiry: Inquiry) {
+  updateItems((items) => [...items, { inquiry, status: 'pending', attempts: 0 }]);
+}
+
+export function retryInquiry(id: string) {
+  updateItems((items) =>
+    items.map((item) =>
+      item.inquiry.id === id ? { ...item, status: 'pending', retryAt: undefined } : item
+    )
+  );
+}
+
+export function removeInquiry(id: string) {
+  updateItems((items) => items.filter((item) => item.inquiry.id !== id));
+}
+
+export function describeInquiryStatus(item: QueuedInquiry, locale: Locale = getLocale()) {
+  switch (item.status) {
+    case 'pending':
+    case 'sending':
+      return translate(locale, `support.status.${item.status}`);
+    case 'waiting':
+    case 'failed':
+      return translate(locale, `support.detail.${item.status}`);
+    case 'sent':
+      return translate(locale, 'support.detail.sent', { ticket: item.ticketNumber ?? '' });
+  }
+}
+
+function isDue(item: QueuedInquiry, now: Date) {
+  return (
+    item.status === 'pending' ||
+    (item.status === 'waiting' && (!item.retryAt || new Date(item.retryAt) <= now))
+  );
+}
+
+/** The soonest time a `waiting` inquiry becomes due, if any. */
+export function nextInquiryRetryAt(state: InquiryQueueState) {
+  return state.items
+    .filter((item) => item.status === 'waiting' && item.retryAt)
+    .map((item) => item.retryAt as string)
+    .sort()[0];
+}
+
+let running: Promise<void> | null = null;
+
+/**
+ * Sends every due inquiry, one at a time, and drops the oldest sent ones beyond what is kept.
+ * Calls made while a run is in progress join it.
+ */
+export function processInquiries(client: SupportClient, now: () => Date = () => new Date()) {
+  running ??= (async () => {
+    await inquiryQueueStore.hydrate();
+    // Anything left `sending` was interrupted by the app closing.
+    updateItems((items) =>
+      items.map((item) => (item.status === 'sending' ? { ...item, status: 'pending' } : item))
+    );
+    let item: QueuedInquiry | undefined;
+    while ((item = inquiryQueueStore.getState().items.find((next) => isDue(next, now())))) {
+      replaceItem({ ...item, status: 'sending' });
+      const attempts = item.attempts + 1;
+      try {
+        const { ticketNumber } = await client.submitInquiry(item.inquiry);
+        replaceItem({ ...item, status: 'sent', attempts, retryAt: undefined, ticketNumber });
+      } catch (error) {
+        replaceItem(
+          isRetryableSupportError(error)
+            ? {
+                ...item,
+                status: 'waiting',
+                attempts,
+                retryAt: new Date(now().getTime() + retryDelayMs(attempts)).toISOString(),
+              }
+            : { ...item, status: 'failed', attempts }
+        );
+      }
+    }
+    updateItems((items) => {
+      const sent = items.filter((entry) => entry.status === 'sent');
+      const dropped = new Set(sent.slice(0, -MAX_SENT_KEPT));
+      return dropped.size ? items.filter((entry) => !dropped.has(entry)) : items;
+    });
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+}
@@ -0,0 +1,67 @@
+export type InquiryCategory =
+  'order' | 'shipping' | 'live-arrival' | 'product' | 'breeding' | 'account' | 'other';
+
+/** What the お問い合わせ form holds while it is being filled in. */
+export type InquiryDraft = {
+  category: InquiryCategory | undefined;
+  name: string;
+  email: string;
+  /** e.g. `20261019-0001`; required for categories about an order. */
+  orderNumber: string;
+  body: string;
+};
+
+export type Inquiry = {
+  /** Generated on device and sent along, so a retried submission is not filed twice. */
+  id: string;
+  category: InquiryCategory;
+  name: string;
+  email: string;
+  orderNumber?: string;
+  body: string;
+  /** Set when sent by a signed-in member. */
+  userId?: string;
+  /** ISO 8601. */
+  createdAt: string;
+};
+
+/**
+ * - `pending`: not tried yet, or retried by hand.
+ * - `sending`: an attempt is running.
+ * - `waiting`: offline or the server failed; retried automatically.
+ * - `failed`: rejected by the server; needs the sender to retry or discard it.
+ * - `sent`: received, with the ticket number support will quote in their reply.
+ */
+export type InquiryStatus = 'pending' | 'sending' | 'waiting' | 'failed' | 'sent';
+
+export type QueuedInquiry = {
+  inquiry: Inquiry;
+  status: InquiryStatus;
+  attempts: number;
+  /** ISO 8601; a `waiting` inquiry is not retried before this. */
+  retryAt?: string;
+  ticketNumber?: string;
+};
+
+export interface SupportClient {
+  /** Files the inquiry, or returns the ticket it was already filed under. */
+  submitInquiry(inquiry: Inquiry): Promise<{ ticketNumber: string }>;
+}
+
+export class SupportError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SupportError';
+  }
+}
+
+/** Network failures, rate limits and server errors are worth repeating; anything else is final. */
+export function isRetryableSupportError(error: unknown) {
+  if (!(error instanceof SupportError)) {
+    return true;
+  }
+  return error.status >= 500 || [408, 429].includes(error.status);
+}
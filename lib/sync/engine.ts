@@ -0,0 +1,190 @@
+import { isEqual, mergeRecord, type MergeInput, type MergeResult } from '@/lib/sync/merge';
+import type {
+  Change,
+  ServerRecord,
+  SyncBase,
+  SyncConflict,
+  SyncReport,
+  SyncServer,
+  SyncState,
+} from '@/lib/sync/types';
+
+/** Connects one collection in the local database to the sync engine. */
+export interface SyncAdapter<T = unknown> {
+  collection: string;
+  /** Every record in the collection, by id. */
+  read(): Record<string, T>;
+  /** Writes what came from the server on top of the collection as it is now. */
+  apply(put: Record<string, T>, remove: string[]): void;
+  /** When the record was last edited, if it records that. Otherwise the sync time is used. */
+  changedAt?(record: T): string | undefined;
+  /** Replaces the default field-by-field merge, e.g. to union append-only lists. */
+  merge?(input: MergeInput<T>): MergeResult<T>;
+}
+
+/** A push refused because of a newer server change is retried this many times per sync. */
+const MAX_ROUNDS = 3;
+
+const PAGE_SIZE = 100;
+
+function baseKey(collection: string, id: string) {
+  return `${collection}/${id}`;
+}
+
+/** Local edits not yet on the server: every record that differs from what was last synced. */
+export function pendingChanges(
+  adapters: SyncAdapter[],
+  state: Pick<SyncState, 'base'>,
+  now = new Date()
+): Change[] {
+  const changes: Change[] = [];
+  for (const adapter of adapters) {
+    const records = adapter.read();
+    const prefix = `${adapter.collection}/`;
+    const synced = Object.keys(state.base)
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => key.slice(prefix.length));
+    for (const id of new Set([...Object.keys(records), ...synced])) {
+      const base = state.base[baseKey(adapter.collection, id)];
+      const data = records[id] ?? null;
+      if (isEqual(data, base?.data ?? null)) {
+        continue;
+      }
+      changes.push({
+        collection: adapter.collection,
+        id,
+        baseVersion: base?.version ?? 0,
+        data,
+        changedAt: (data !== null && adapter.changedAt?.(data)) || now.toISOString(),
+      });
+    }
+  }
+  return changes;
+}
+
+async function pullAll(server: SyncServer, cursor: number) {
+  const records: ServerRecord[] = [];
+  for (;;) {
+    const page = await server.pull(cursor, PAGE_SIZE);
+    records.push(...page.records);
+    cursor = page.cursor;
+    if (!page.hasMore) {
+      return { records, cursor };
+    }
+  }
+}
+
+/**
+ * Brings remote changes into the local collections, merging any record that was also edited
+ * here. The base moves to the server's version, so the merged result goes out as an edit on top
+ * of it.
+ */
+function applyRemote(
+  adapters: SyncAdapter[],
+  records: ServerRecord[],
+  base: Record<string, SyncBase>,
+  now: Date
+) {
+  // Our own pushes come back in the next pull; there is nothing new in them.
+  const fresh = records.filter(
+    (record) => record.version > (base[baseKey(record.collection, record.id)]?.version ?? 0)
+  );
+  const conflicts: SyncConflict[] = [];
+  for (const adapter of adapters) {
+    const remote = fresh.filter((record) => record.collection === adapter.collection);
+    if (remote.length === 0) {
+      continue;
+    }
+    const local = adapter.read();
+    const put: Record<string, unknown> = {};
+    const remove: string[] = [];
+    for (const record of remote) {
+      const key = baseKey(record.collection, record.id);
+      const ours = local[record.id] ?? null;
+      let data = record.data;
+      if (!isEqual(ours, base[key]?.data ?? null)) {
+        const merge = adapter.merge ?? mergeRecord;
+        const result = merge({
+          base: base[key]?.data ?? null,
+          local: ours,
+          remote: record.data,
+          localChangedAt: (ours !== null && adapter.changedAt?.(ours)) || now.toISOString(),
+          remoteChangedAt: record.changedAt,
+        });
+        data = result.data;
+        if (result.conflicting.length > 0 || ours === null || record.data === null) {
+          conflicts.push({
+            collection: record.collection,
+            id: record.id,
+            fields: result.conflicting,
+            kept: result.kept,
+          });
+        }
+      }
+      if (isEqual(ours, data)) {
+        continue;
+      }
+      if (data === null) {
+        remove.push(record.id);
+      } else {
+        put[record.id] = data;
+      }
+    }
+    adapter.apply(put, remove);
+  }
+  for (const record of fresh) {
+    base[baseKey(record.collection, record.id)] = { version: record.version, data: record.data };
+  }
+  return { received: fresh.length, conflicts };
+}
+
+/**
+ * One sync: pulls what other devices changed, merges it into the local collections, then pushes
+ * local edits. A push that loses a race with another device pulls and merges again, up to
+ * `MAX_ROUNDS` times; anything still unsent goes out with the next sync.
+ *
+ * Returns the state to save for next time. If the server fails part way, the returned promise
+ * rejects and the previous state is still safe to use: records merged so far differ from their
+ * old base and are simply merged and pushed again.
+ */
+export async function syncOnce(
+  adapters: SyncAdapter[],
+  state: SyncState,
+  server: SyncServer,
+  now = new Date()
+): Promise<{ state: SyncState; report: SyncReport }> {
+  const base = { ...state.base };
+  let cursor = state.cursor;
+  const report: SyncReport = { pushed: 0, pulled: 0, conflicts: [] };
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const pulled = await pullAll(server, cursor);
+    cursor = pulled.cursor;
+    const { received, conflicts } = applyRemote(adapters, pulled.records, base, now);
+    report.pulled += received;
+    report.conflicts.push(...conflicts);
+
+    const changes = pendingChanges(adapters, { base }, now);
+    if (changes.length === 0) {
+      break;
+    }
+    const results = await server.push(changes);
+    let refused = false;
+    results.forEach((result, index) => {
+      if (result.type === 'accepted') {
+        base[baseKey(result.collection, result.id)] = {
+          version: result.version,
+          data: changes[index].data,
+        };
+        report.pushed++;
+      } else {
+        refused = true;
+      }
+    });
+    if (!refused) {
+      break;
+    }
+  }
+
+  return { state: { cursor, base, lastSyncedAt: now.toISOString() }, report };
+}
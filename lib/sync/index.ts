@@ -0,0 +1,4 @@
+export * from '@/lib/sync/engine';
+export * from '@/lib/sync/memory-server';
+export * from '@/lib/sync/merge';
+export * from '@/lib/sync/types';
@@ -0,0 +1,62 @@
+import type { Change, PullPage, PushResult, ServerRecord, SyncServer } from '@/lib/sync/types';
+
+export type MemorySyncServer = SyncServer & {
+  /** Every record the server holds, tombstones included. */
+  records(): ServerRecord[];
+};
+
+/**
+ * A sync server that keeps everything in memory. Stands in for the backend in development and
+ * lets the sync engine be exercised in Node with several simulated devices.
+ */
+export function createMemorySyncServer({
+  latencyMs = 0,
+}: {
+  /** Simulated network delay per request. */
+  latencyMs?: number;
+} = {}): MemorySyncServer {
+  const records = new Map<string, ServerRecord & { seq: number }>();
+  let seq = 0;
+
+  const delay = () => new Promise((resolve) => setTimeout(resolve, latencyMs));
+
+  function accept(change: Change): PushResult {
+    const key = `${change.collection}/${change.id}`;
+    const current = records.get(key);
+    // A record the server has never seen (or has lost) is taken as new, whatever its base.
+    if (current && change.baseVersion !== current.version) {
+      const { seq: _seq, ...record } = current;
+      return { type: 'conflict', collection: change.collection, id: change.id, current: record };
+    }
+    const version = current?.version ?? 0;
+    records.set(key, {
+      collection: change.collection,
+      id: change.id,
+      version: version + 1,
+      data: change.data,
+      changedAt: change.changedAt,
+      seq: ++seq,
+    });
+    return { type: 'accepted', collection: change.collection, id: change.id, version: version + 1 };
+  }
+
+  return {
+    async push(changes) {
+      await delay();
+      return changes.map(accept);
+    },
+    async pull(cursor, limit = 100): Promise<PullPage> {
+      await delay();
+      const changed = [...records.values()]
+        .filter((record) => record.seq > cursor)
+        .sort((a, b) => a.seq - b.seq);
+      const page = changed.slice(0, limit);
+      return {
+        records: page.map(({ seq: _seq, ...record }) => record),
+        cursor: page.at(-1)?.seq ?? cursor,
+        hasMore: changed.length > limit,
+      };
+    },
+    records: () => [...records.values()].map(({ seq: _seq, ...record }) => record),
+  };
+}
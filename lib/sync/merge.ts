@@ -0,0 +1,89 @@
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Deep equality for JSON-like data, where a key set to `undefined` counts as absent. */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+export type MergeInput<T> = {
+  /** What both sides last agreed on; `null` if the record is new to one of them. */
+  base: T | null;
+  /** `null` means deleted. */
+  local: T | null;
+  remote: T | null;
+  /** ISO 8601. */
+  localChangedAt: string;
+  remoteChangedAt: string;
+};
+
+export type MergeResult<T> = {
+  data: T | null;
+  /**
+   * Fields changed on both sides to different values. Empty when one side deleted the record and
+   * the other edited it, which keeps the edit.
+   */
+  conflicting: string[];
+  kept: 'local' | 'remote';
+};
+
+/**
+ * Three-way merge of one record edited on this device (`local`) and another (`remote`).
+ *
+ * Objects merge field by field: a field only one side changed takes that side's value, and a
+ * field both changed takes the newer edit's. Deleting loses to editing, so a record edited
+ * anywhere is never lost. Anything other than an object is replaced whole by the newer edit.
+ */
+export function mergeRecord<T>({
+  base,
+  local,
+  remote,
+  localChangedAt,
+  remoteChangedAt,
+}: MergeInput<T>): MergeResult<T> {
+  // Ties go to the server's copy, which every other device will also end up with.
+  const kept = localChangedAt > remoteChangedAt ? 'local' : 'remote';
+
+  if (isEqual(local, remote)) {
+    return { data: local, conflicting: [], kept };
+  }
+  if (local === null || remote === null) {
+    return local === null
+      ? { data: remote, conflicting: [], kept: 'remote' }
+      : { data: local, conflicting: [], kept: 'local' };
+  }
+  if (!isPlainObject(local) || !isPlainObject(remote)) {
+    return { data: kept === 'local' ? local : remote, conflicting: ['*'], kept };
+  }
+
+  const original: Record<string, unknown> = isPlainObject(base) ? base : {};
+  const merged: Record<string, unknown> = {};
+  const conflicting: string[] = [];
+  for (const key of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+    const [ours, theirs] = [local[key], remote[key]];
+    let value: unknown;
+    if (isEqual(ours, theirs) || isEqual(theirs, original[key])) {
+      value = ours;
+    } else if (isEqual(ours, original[key])) {
+      value = theirs;
+    } else {
+      conflicting.push(key);
+      value = kept === 'local' ? ours : theirs;
+    }
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+  return { data: merged as T, conflicting, kept };
+}
@@ -0,0 +1,77 @@
+/**
+ * A record as the server holds it. `data` is `null` once the record has been deleted; the
+ * tombstone keeps its version so a stale edit from another device is still detected.
+ */
+export type ServerRecord = {
+  collection: string;
+  id: string;
+  /** Starts at 1 and goes up by one with every accepted change. */
+  version: number;
+  data: unknown;
+  /** ISO 8601; when the device that made the change says it was made. */
+  changedAt: string;
+};
+
+/** A local edit on its way to the server. */
+export type Change = {
+  collection: string;
+  id: string;
+  /** The version this edit was made on top of; `0` for a record the server has never seen. */
+  baseVersion: number;
+  /** `null` deletes the record. */
+  data: unknown;
+  /** ISO 8601. */
+  changedAt: string;
+};
+
+export type PushResult =
+  | { type: 'accepted'; collection: string; id: string; version: number }
+  /** Someone else changed the record since `baseVersion`; `current` is what they left. */
+  | { type: 'conflict'; collection: string; id: string; current: ServerRecord };
+
+export type PullPage = {
+  records: ServerRecord[];
+  /** Pass back to get the changes after these. */
+  cursor: number;
+  hasMore: boolean;
+};
+
+/** The backend the sync engine talks to. */
+export interface SyncServer {
+  /** Accepts or refuses each change on its own; one result per change, in the same order. */
+  push(changes: Change[]): Promise<PushResult[]>;
+  /** Records changed after `cursor`, oldest change first. `0` starts from the beginning. */
+  pull(cursor: number, limit?: number): Promise<PullPage>;
+}
+
+/** What this device last agreed with the server on, per record. */
+export type SyncBase = { version: number; data: unknown };
+
+export type SyncState = {
+  cursor: number;
+  /** By `collection/id`. Local data that differs from its base is an unsent edit. */
+  base: Record<string, SyncBase>;
+  /** ISO 8601. */
+  lastSyncedAt: string | null;
+};
+
+export const INITIAL_SYNC_STATE: SyncState = { cursor: 0, base: {}, lastSyncedAt: null };
+
+/** A record edited on this device and another one since they last synced. */
+export type SyncConflict = {
+  collection: string;
+  id: string;
+  /**
+   * Fields both devices changed to different values, where the newer edit was kept; `*` when the
+   * record was replaced whole. Empty when one device deleted it and the other edited it.
+   */
+  fields: string[];
+  /** Which side's value of those fields survived. */
+  kept: 'local' | 'remote';
+};
+
+export type SyncReport = {
+  pushed: number;
+  pulled: number;
+  conflicts: SyncConflict[];
+};
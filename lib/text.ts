@@ -0,0 +1,17 @@
+const KATAKANA = /[ァ-ヶ]/g;
+
+/**
+ * Folds the differences that do not matter when matching Japanese text: full-width and
+ * half-width forms (NFKC), letter case, and katakana versus hiragana.
+ */
+export function normalizeText(text: string) {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(KATAKANA, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+/** What was typed, split into words; full-width spaces separate too. */
+export function splitTerms(input: string) {
+  return input.split(/[\s　]+/).filter(Boolean);
+}
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Fails when a translation has missing keys, keys the Japanese catalog no longer has, or
+ * placeholders that differ from the Japanese message. Run with `pnpm check:i18n`; `pnpm lint` runs
+ * it too. Pass catalog files (`.ts` exporting one catalog, or `.json`) to check those instead.
+ */
+
+const fs = require('fs');
+const Module = require('module');
+const path = require('path');
+const ts = require('typescript');
+
+const root = path.resolve(__dirname, '..');
+
+// Load the catalogs straight from TypeScript, resolving the `@/` alias like tsconfig.json does.
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  const target = request.startsWith('@/') ? path.join(root, request.slice(2)) : request;
+  return resolveFilename.call(this, target, ...rest);
+};
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  module._compile(outputText, filename);
+};
+
+const { DEFAULT_LOCALE, LOCALES } = require('@/lib/i18n/locale');
+const { auditCatalog, auditLocale } = require('@/lib/i18n/translate');
+
+function loadCatalog(file) {
+  const exported = require(path.resolve(file));
+  return file.endsWith('.json') ? exported : Object.values(exported)[0];
+}
+
+const files = process.argv.slice(2);
+const audits =
+  files.length > 0
+    ? files.map((file) => [file, auditCatalog(loadCatalog(file))])
+    : LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).map((locale) => [
+        locale,
+        auditLocale(locale),
+      ]);
+
+let failed = false;
+for (const [name, audit] of audits) {
+  const problems = [
+    ['missing', audit.missing],
+    ['unknown', audit.unknown],
+    ['placeholder mismatch', audit.placeholderMismatch],
+  ].filter(([, keys]) => keys.length > 0);
+
+  if (problems.length === 0) {
+    console.log(`${name}: complete`);
+    continue;
+  }
+  failed = true;
+  for (const [problem, keys] of problems) {
+    console.error(`${name}: ${problem} (${keys.length})`);
+    for (const key of keys) {
+      console.error(`  ${key}`);
+    }
+  }
+}
+process.exit(failed ? 1 : 0);
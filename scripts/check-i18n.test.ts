@@ -0,0 +1,26 @@
+import { spawnSync } from 'child_process';
+import path from 'path';
+
+function checkI18n(...files: string[]) {
+  return spawnSync(process.execPath, [path.join(__dirname, 'check-i18n.js'), ...files], {
+    encoding: 'utf8',
+  });
+}
+
+describe('check-i18n', () => {
+  it('passes for the bundled translations', () => {
+    const result = checkI18n();
+
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('en: complete');
+  });
+
+  it('fails on missing keys and placeholder mismatches', () => {
+    const result = checkI18n(path.join(__dirname, '__fixtures__/incomplete-catalog.json'));
+
+    expect(result.status).toBe(1);
+    expect(result.stderr).toMatch(/: missing \(\d+\)\n {2}common\.loadFailed\n/);
+    expect(result.stderr).toMatch(/: placeholder mismatch \(1\)\n {2}payment\.points\n/);
+    expect(result.stderr).not.toContain('payment.error.pointsOverBalance');
+  });
+});
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * Writes sitemap.xml and robots.txt into a static web export. Run after `expo export`, which
+ * renders one page per product, category and feature from the catalog and content sources (see
+ * `generateStaticParams` in those routes); every exported page in a public section is listed.
+ *
+ * Usage: node ./scripts/generate-sitemap.js [output directory, default dist]
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const outputDir = path.resolve(process.argv[2] ?? 'dist');
+// Keep in step with `SITE_URL` in lib/site.ts.
+const siteUrl = (process.env.EXPO_PUBLIC_SITE_URL ?? 'https://kabukuwa-do.example').replace(
+  /\/+$/,
+  ''
+);
+
+/** Paths search engines should see; carts, accounts and breeding records stay out. */
+const PUBLIC_PATHS = [
+  /^\/$/,
+  /^\/products$/,
+  /^\/products\/[^/]+$/,
+  /^\/categories\/[^/]+$/,
+  /^\/features\/[^/]+$/,
+  /^\/pages\/[^/]+$/,
+  /^\/faq$/,
+];
+
+function htmlFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return htmlFiles(file);
+    }
+    return entry.name.endsWith('.html') ? [file] : [];
+  });
+}
+
+/**
+ * `products/index.html` is `/products`. `[id].html` templates, copies under `(group)` directories
+ * and `+not-found` are skipped.
+ */
+function pagePath(file) {
+  const segments = path
+    .relative(outputDir, file)
+    .replace(/\.html$/, '')
+    .split(path.sep);
+  if (segments.some((segment) => /^[[(+_]/.test(segment))) {
+    return null;
+  }
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop();
+  }
+  return `/${segments.map((segment) => encodeURIComponent(segment)).join('/')}`;
+}
+
+function escapeXml(text) {
+  return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+if (!fs.existsSync(outputDir)) {
+  console.error(`${outputDir} does not exist. Run \`expo export --platform web\` first.`);
+  process.exit(1);
+}
+
+const paths = htmlFiles(outputDir)
+  .map(pagePath)
+  .filter((page) => page !== null && PUBLIC_PATHS.some((pattern) => pattern.test(page)))
+  .sort();
+
+const sitemap = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+  ...paths.map((page) => `  <url><loc>${escapeXml(`${siteUrl}${page}`)}</loc></url>`),
+  '</urlset>',
+  '',
+].join('\n');
+
+fs.writeFileSync(path.join(outputDir, 'sitemap.xml'), sitemap);
+fs.writeFileSync(
+  path.join(outputDir, 'robots.txt'),
+  `User-agent: *\nAllow: /\n\nSitemap: ${siteUrl}/sitemap.xml\n`
+);
+console.log(`Wrote ${paths.length} pages to ${path.join(outputDir, 'sitemap.xml')}`);
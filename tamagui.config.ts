@@ -0,0 +1,26 @@
+import { createFont, createTamagui, createTokens } from 'tamagui';
+
+import { Fonts, palette, radius, size, space, themes, typeScale } from '@/constants/theme';
+
+const tokens = createTokens({
+  color: palette,
+  space,
+  size,
+  radius,
+  zIndex: { 0: 0, 1: 100, 2: 200, 3: 300, 4: 400, 5: 500 },
+});
+
+const body = createFont({ family: Fonts.sans, ...typeScale });
+const mono = createFont({ family: Fonts.mono, ...typeScale });
+
+export const config = createTamagui({
+  tokens,
+  themes,
+  fonts: { body, heading: body, mono },
+});
+
+export type AppConfig = typeof config;
+
+declare module 'tamagui' {
+  interface TamaguiCustomConfig extends AppConfig {}
+}